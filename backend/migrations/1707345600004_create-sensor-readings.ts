@@ -0,0 +1,76 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create sensor_readings table (one row per completed NOT_DYN_READING)
+  pgm.createTable('sensor_readings', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    gateway_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'gateways(id)',
+      onDelete: 'CASCADE',
+    },
+    sensor_serial: {
+      type: 'integer',
+      notNull: true,
+    },
+    gateway_reading_id: {
+      type: 'integer',
+      notNull: true,
+    },
+    recorded_at: {
+      type: 'timestamptz',
+      notNull: true,
+    },
+    sample_rate: {
+      type: 'integer',
+      notNull: true,
+    },
+    sample_count: {
+      type: 'integer',
+      notNull: true,
+    },
+    x_samples: {
+      type: 'double precision[]',
+      notNull: true,
+    },
+    y_samples: {
+      type: 'double precision[]',
+      notNull: true,
+    },
+    z_samples: {
+      type: 'double precision[]',
+      notNull: true,
+    },
+    temperature: {
+      type: 'double precision',
+      notNull: false,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Index on gateway_id (foreign key - CASCADE performance)
+  pgm.createIndex('sensor_readings', 'gateway_id', {
+    name: 'sensor_readings_gateway_id_idx',
+  });
+
+  // Composite index for per-sensor history queries (newest first)
+  pgm.createIndex('sensor_readings', ['sensor_serial', { name: 'recorded_at', sort: 'DESC' }], {
+    name: 'sensor_readings_sensor_serial_recorded_at_idx',
+  });
+
+  // Index on gateway_reading_id (correlate with gateway-side reading IDs)
+  pgm.createIndex('sensor_readings', ['gateway_id', 'gateway_reading_id'], {
+    name: 'sensor_readings_gateway_reading_id_idx',
+  });
+}
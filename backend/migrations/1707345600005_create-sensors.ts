@@ -0,0 +1,110 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create sensors table (one row per physical sensor, upserted on discovery)
+  pgm.createTable('sensors', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    gateway_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'gateways(id)',
+      onDelete: 'CASCADE',
+    },
+    serial: {
+      type: 'integer',
+      notNull: true,
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: false,
+    },
+    asset_name: {
+      type: 'varchar(255)',
+      notNull: false,
+    },
+    part_number: {
+      type: 'varchar(100)',
+      notNull: false,
+    },
+    read_rate: {
+      type: 'integer',
+      notNull: false,
+    },
+    samples: {
+      type: 'integer',
+      notNull: false,
+    },
+    hardware_version: {
+      type: 'varchar(50)',
+      notNull: false,
+    },
+    firmware_version: {
+      type: 'varchar(50)',
+      notNull: false,
+    },
+    access_point: {
+      type: 'varchar(100)',
+      notNull: false,
+    },
+    connected: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    last_discovered_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    metadata: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'{}'::jsonb"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  // Index on gateway_id (foreign key - CASCADE performance)
+  pgm.createIndex('sensors', 'gateway_id', {
+    name: 'sensors_gateway_id_idx',
+  });
+
+  // Unique partial index on serial (one active identity per physical sensor)
+  pgm.createIndex('sensors', 'serial', {
+    name: 'sensors_serial_unique_idx',
+    unique: true,
+    where: 'deleted_at IS NULL',
+  });
+
+  // Partial index on deleted_at for active record queries
+  pgm.createIndex('sensors', 'deleted_at', {
+    name: 'sensors_deleted_at_idx',
+    where: 'deleted_at IS NULL',
+  });
+
+  // Apply updated_at trigger to sensors table
+  pgm.createTrigger('sensors', 'update_sensors_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+}
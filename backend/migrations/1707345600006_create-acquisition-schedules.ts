@@ -0,0 +1,140 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create acquisition_schedules table (at most one schedule per sensor)
+  pgm.createTable('acquisition_schedules', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    sensor_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'sensors(id)',
+      onDelete: 'CASCADE',
+    },
+    interval_minutes: {
+      type: 'integer',
+      notNull: true,
+      check: 'interval_minutes > 0',
+    },
+    // Optional daily window in the factory's local timezone (end < start wraps midnight)
+    window_start: {
+      type: 'time',
+      notNull: false,
+    },
+    window_end: {
+      type: 'time',
+      notNull: false,
+    },
+    enabled: {
+      type: 'boolean',
+      notNull: true,
+      default: true,
+    },
+    next_run_at: {
+      type: 'timestamptz',
+      notNull: true,
+    },
+    last_run_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Unique index on sensor_id (one schedule per sensor, also serves the FK)
+  pgm.createIndex('acquisition_schedules', 'sensor_id', {
+    name: 'acquisition_schedules_sensor_id_unique_idx',
+    unique: true,
+  });
+
+  // Partial index for the scheduler's due-schedule query
+  pgm.createIndex('acquisition_schedules', 'next_run_at', {
+    name: 'acquisition_schedules_next_run_at_idx',
+    where: 'enabled = true',
+  });
+
+  // Apply updated_at trigger to acquisition_schedules table
+  pgm.createTrigger('acquisition_schedules', 'update_acquisition_schedules_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+
+  // Create acquisition_runs table (history of scheduled attempts, including misses/failures)
+  pgm.createTable('acquisition_runs', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    schedule_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'acquisition_schedules(id)',
+      onDelete: 'SET NULL',
+    },
+    sensor_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'sensors(id)',
+      onDelete: 'CASCADE',
+    },
+    scheduled_for: {
+      type: 'timestamptz',
+      notNull: true,
+    },
+    started_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    finished_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    status: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "status IN ('succeeded', 'failed', 'missed')",
+    },
+    reading_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'sensor_readings(id)',
+      onDelete: 'SET NULL',
+    },
+    error: {
+      type: 'text',
+      notNull: false,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Composite index for per-sensor run history (newest first)
+  pgm.createIndex('acquisition_runs', ['sensor_id', { name: 'scheduled_for', sort: 'DESC' }], {
+    name: 'acquisition_runs_sensor_id_scheduled_for_idx',
+  });
+
+  // Index on schedule_id (foreign key - SET NULL performance)
+  pgm.createIndex('acquisition_runs', 'schedule_id', {
+    name: 'acquisition_runs_schedule_id_idx',
+  });
+}
@@ -0,0 +1,61 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create reading_metrics table (one row per axis of each reading, computed at ingest)
+  pgm.createTable('reading_metrics', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    reading_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'sensor_readings(id)',
+      onDelete: 'CASCADE',
+    },
+    axis: {
+      type: 'char(1)',
+      notNull: true,
+      check: "axis IN ('x', 'y', 'z')",
+    },
+    // Acceleration indicators in g, computed with the waveform mean removed
+    rms: {
+      type: 'double precision',
+      notNull: true,
+    },
+    peak: {
+      type: 'double precision',
+      notNull: true,
+    },
+    peak_to_peak: {
+      type: 'double precision',
+      notNull: true,
+    },
+    crest_factor: {
+      type: 'double precision',
+      notNull: true,
+    },
+    kurtosis: {
+      type: 'double precision',
+      notNull: true,
+    },
+    skewness: {
+      type: 'double precision',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Unique index on (reading_id, axis) (one row per axis, also serves the FK)
+  pgm.createIndex('reading_metrics', ['reading_id', 'axis'], {
+    name: 'reading_metrics_reading_id_axis_unique_idx',
+    unique: true,
+  });
+}
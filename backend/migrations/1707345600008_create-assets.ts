@@ -0,0 +1,108 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create assets table (monitored machines within a factory)
+  pgm.createTable('assets', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    factory_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'factories(id)',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    // ISO 10816 machine class (I-IV); NULL leaves readings unclassified
+    machine_class: {
+      type: 'varchar(3)',
+      notNull: false,
+      check: "machine_class IN ('I', 'II', 'III', 'IV')",
+    },
+    metadata: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'{}'::jsonb"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  // Index on factory_id (foreign key - CASCADE performance)
+  pgm.createIndex('assets', 'factory_id', {
+    name: 'assets_factory_id_idx',
+  });
+
+  // Partial index on deleted_at for active record queries
+  pgm.createIndex('assets', 'deleted_at', {
+    name: 'assets_deleted_at_idx',
+    where: 'deleted_at IS NULL',
+  });
+
+  // Apply updated_at trigger to assets table
+  pgm.createTrigger('assets', 'update_assets_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+
+  // Link sensors to the asset they are mounted on
+  pgm.addColumn('sensors', {
+    asset_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'assets(id)',
+      onDelete: 'SET NULL',
+    },
+  });
+
+  // Index on sensors.asset_id (foreign key - SET NULL performance)
+  pgm.createIndex('sensors', 'asset_id', {
+    name: 'sensors_asset_id_idx',
+  });
+
+  // Velocity RMS per axis in mm/s (NULL for readings stored before integration existed)
+  pgm.addColumn('reading_metrics', {
+    velocity_rms: {
+      type: 'double precision',
+      notNull: false,
+    },
+  });
+
+  // ISO 10816 severity per reading: overall velocity, the class it was judged against, and zone
+  pgm.addColumns('sensor_readings', {
+    velocity_rms: {
+      type: 'double precision',
+      notNull: false,
+    },
+    machine_class: {
+      type: 'varchar(3)',
+      notNull: false,
+    },
+    iso_zone: {
+      type: 'char(1)',
+      notNull: false,
+      check: "iso_zone IN ('A', 'B', 'C', 'D')",
+    },
+  });
+}
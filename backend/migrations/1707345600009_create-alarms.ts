@@ -0,0 +1,212 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create alarm_rules table (thresholds on a reading metric, for a sensor or an asset's sensors)
+  pgm.createTable('alarm_rules', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    sensor_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'sensors(id)',
+      onDelete: 'CASCADE',
+    },
+    asset_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'assets(id)',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    metric: {
+      type: 'varchar(32)',
+      notNull: true,
+      check:
+        "metric IN ('rms', 'peak', 'peak_to_peak', 'crest_factor', 'kurtosis', 'skewness', " +
+        "'velocity_rms')",
+    },
+    // NULL evaluates the largest value of the three axes
+    axis: {
+      type: 'char(1)',
+      notNull: false,
+      check: "axis IN ('x', 'y', 'z')",
+    },
+    alert_level: {
+      type: 'double precision',
+      notNull: true,
+    },
+    danger_level: {
+      type: 'double precision',
+      notNull: true,
+    },
+    // An active alarm clears once the value drops below alert_level - hysteresis
+    hysteresis: {
+      type: 'double precision',
+      notNull: true,
+      default: 0,
+      check: 'hysteresis >= 0',
+    },
+    // Number of consecutive readings that must exceed a level before an alarm is raised
+    consecutive_count: {
+      type: 'integer',
+      notNull: true,
+      default: 1,
+      check: 'consecutive_count > 0',
+    },
+    enabled: {
+      type: 'boolean',
+      notNull: true,
+      default: true,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  // A rule targets exactly one sensor or one asset
+  pgm.addConstraint('alarm_rules', 'alarm_rules_target_check', {
+    check: '(sensor_id IS NULL) <> (asset_id IS NULL)',
+  });
+
+  pgm.addConstraint('alarm_rules', 'alarm_rules_levels_check', {
+    check: 'danger_level >= alert_level',
+  });
+
+  // Index on sensor_id (foreign key - CASCADE performance, rule lookup at ingest)
+  pgm.createIndex('alarm_rules', 'sensor_id', {
+    name: 'alarm_rules_sensor_id_idx',
+  });
+
+  // Index on asset_id (foreign key - CASCADE performance, rule lookup at ingest)
+  pgm.createIndex('alarm_rules', 'asset_id', {
+    name: 'alarm_rules_asset_id_idx',
+  });
+
+  // Partial index on deleted_at for active record queries
+  pgm.createIndex('alarm_rules', 'deleted_at', {
+    name: 'alarm_rules_deleted_at_idx',
+    where: 'deleted_at IS NULL',
+  });
+
+  // Apply updated_at trigger to alarm_rules table
+  pgm.createTrigger('alarm_rules', 'update_alarm_rules_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+
+  // Create alarm_events table (one row per raised alarm, kept after it clears)
+  pgm.createTable('alarm_events', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    rule_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'alarm_rules(id)',
+      onDelete: 'CASCADE',
+    },
+    sensor_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'sensors(id)',
+      onDelete: 'CASCADE',
+    },
+    // Reading that raised (or last escalated) the alarm
+    reading_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'sensor_readings(id)',
+      onDelete: 'SET NULL',
+    },
+    severity: {
+      type: 'varchar(16)',
+      notNull: true,
+      check: "severity IN ('alert', 'danger')",
+    },
+    // Metric value and level exceeded when raised (or escalated)
+    value: {
+      type: 'double precision',
+      notNull: true,
+    },
+    threshold: {
+      type: 'double precision',
+      notNull: true,
+    },
+    raised_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    acknowledged_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    cleared_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // At most one open (not cleared) alarm per rule and sensor
+  pgm.createIndex('alarm_events', ['rule_id', 'sensor_id'], {
+    name: 'alarm_events_open_unique_idx',
+    unique: true,
+    where: 'cleared_at IS NULL',
+  });
+
+  // Index on sensor_id (foreign key - CASCADE performance, per-sensor listing)
+  pgm.createIndex('alarm_events', ['sensor_id', 'raised_at'], {
+    name: 'alarm_events_sensor_id_raised_at_idx',
+  });
+
+  // Index on raised_at for the alarm list (newest first)
+  pgm.createIndex('alarm_events', 'raised_at', {
+    name: 'alarm_events_raised_at_idx',
+  });
+
+  // Index on reading_id (foreign key - SET NULL performance)
+  pgm.createIndex('alarm_events', 'reading_id', {
+    name: 'alarm_events_reading_id_idx',
+  });
+
+  // Apply updated_at trigger to alarm_events table
+  pgm.createTrigger('alarm_events', 'update_alarm_events_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+}
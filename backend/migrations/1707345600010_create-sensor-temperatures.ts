@@ -0,0 +1,49 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create sensor_temperatures table (every NOT_DYN_TEMP notification, keyed by sensor serial)
+  pgm.createTable('sensor_temperatures', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    // Gateway the notification arrived on
+    gateway_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'gateways(id)',
+      onDelete: 'CASCADE',
+    },
+    sensor_serial: {
+      type: 'integer',
+      notNull: true,
+    },
+    temperature: {
+      type: 'double precision',
+      notNull: true,
+    },
+    // NOT_DYN_TEMP carries no timestamp; this is the time it was received
+    recorded_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Index on gateway_id (foreign key - CASCADE performance)
+  pgm.createIndex('sensor_temperatures', 'gateway_id', {
+    name: 'sensor_temperatures_gateway_id_idx',
+  });
+
+  // Composite index for per-sensor time range queries
+  pgm.createIndex(
+    'sensor_temperatures',
+    ['sensor_serial', { name: 'recorded_at', sort: 'DESC' }],
+    {
+      name: 'sensor_temperatures_sensor_serial_recorded_at_idx',
+    }
+  );
+}
@@ -0,0 +1,191 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create areas table (production areas or lines within a factory)
+  pgm.createTable('areas', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    factory_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'factories(id)',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    description: {
+      type: 'text',
+      notNull: false,
+    },
+    metadata: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'{}'::jsonb"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  // Index on factory_id (foreign key - CASCADE performance)
+  pgm.createIndex('areas', 'factory_id', {
+    name: 'areas_factory_id_idx',
+  });
+
+  // Partial index on deleted_at for active record queries
+  pgm.createIndex('areas', 'deleted_at', {
+    name: 'areas_deleted_at_idx',
+    where: 'deleted_at IS NULL',
+  });
+
+  // Apply updated_at trigger to areas table
+  pgm.createTrigger('areas', 'update_areas_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+
+  // Place assets in an area (NULL keeps existing assets directly under their factory)
+  pgm.addColumns('assets', {
+    area_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'areas(id)',
+      onDelete: 'SET NULL',
+    },
+    asset_type: {
+      type: 'varchar(32)',
+      notNull: false,
+      check:
+        "asset_type IN ('motor', 'pump', 'gearbox', 'fan', 'compressor', 'bearing', 'other')",
+    },
+  });
+
+  // Index on assets.area_id (foreign key - SET NULL performance)
+  pgm.createIndex('assets', 'area_id', {
+    name: 'assets_area_id_idx',
+  });
+
+  // Create measurement_points table (a location on an asset, e.g. "motor NDE horizontal")
+  pgm.createTable('measurement_points', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    asset_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'assets(id)',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    // Measured direction of the point, if it has a single one
+    orientation: {
+      type: 'varchar(16)',
+      notNull: false,
+      check: "orientation IN ('horizontal', 'vertical', 'axial')",
+    },
+    // Sensor mounted on the point (NULL while unmounted)
+    sensor_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'sensors(id)',
+      onDelete: 'SET NULL',
+    },
+    metadata: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'{}'::jsonb"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  // Index on asset_id (foreign key - CASCADE performance)
+  pgm.createIndex('measurement_points', 'asset_id', {
+    name: 'measurement_points_asset_id_idx',
+  });
+
+  // Unique partial index on sensor_id (a sensor is mounted on at most one active point)
+  pgm.createIndex('measurement_points', 'sensor_id', {
+    name: 'measurement_points_sensor_id_unique_idx',
+    unique: true,
+    where: 'deleted_at IS NULL AND sensor_id IS NOT NULL',
+  });
+
+  // Partial index on deleted_at for active record queries
+  pgm.createIndex('measurement_points', 'deleted_at', {
+    name: 'measurement_points_deleted_at_idx',
+    where: 'deleted_at IS NULL',
+  });
+
+  // Apply updated_at trigger to measurement_points table
+  pgm.createTrigger('measurement_points', 'update_measurement_points_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+
+  // Attribute readings and alarms to the asset and point the sensor was mounted on at
+  // ingest, so history stays with the machine when sensors are moved or replaced
+  for (const table of ['sensor_readings', 'alarm_events']) {
+    pgm.addColumns(table, {
+      asset_id: {
+        type: 'uuid',
+        notNull: false,
+        references: 'assets(id)',
+        onDelete: 'SET NULL',
+      },
+      measurement_point_id: {
+        type: 'uuid',
+        notNull: false,
+        references: 'measurement_points(id)',
+        onDelete: 'SET NULL',
+      },
+    });
+
+    // Indexes on the attribution foreign keys (per-machine history, SET NULL performance)
+    pgm.createIndex(table, 'asset_id', {
+      name: `${table}_asset_id_idx`,
+    });
+    pgm.createIndex(table, 'measurement_point_id', {
+      name: `${table}_measurement_point_id_idx`,
+    });
+  }
+}
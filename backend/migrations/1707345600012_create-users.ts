@@ -0,0 +1,125 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create users table (accounts that sign in to the REST API)
+  pgm.createTable('users', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    // Stored lower-cased so sign-in is case-insensitive
+    email: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: false,
+    },
+    // scrypt hash with its parameters and salt, never the password itself
+    password_hash: {
+      type: 'text',
+      notNull: true,
+    },
+    last_login_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    metadata: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'{}'::jsonb"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  // Unique partial index on email (one active account per address)
+  pgm.createIndex('users', 'email', {
+    name: 'users_email_unique_idx',
+    unique: true,
+    where: 'deleted_at IS NULL',
+  });
+
+  // Partial index on deleted_at for active record queries
+  pgm.createIndex('users', 'deleted_at', {
+    name: 'users_deleted_at_idx',
+    where: 'deleted_at IS NULL',
+  });
+
+  // Apply updated_at trigger to users table
+  pgm.createTrigger('users', 'update_users_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    function: 'update_updated_at_column',
+  });
+
+  // Create user_sessions table (one row per signed-in browser)
+  pgm.createTable('user_sessions', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    user_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users(id)',
+      onDelete: 'CASCADE',
+    },
+    // SHA-256 of the cookie token, so a leaked table cannot be replayed
+    token_hash: {
+      type: 'char(64)',
+      notNull: true,
+      unique: true,
+    },
+    expires_at: {
+      type: 'timestamptz',
+      notNull: true,
+    },
+    user_agent: {
+      type: 'text',
+      notNull: false,
+    },
+    ip_address: {
+      type: 'varchar(45)',
+      notNull: false,
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    last_used_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Index on user_id (foreign key - CASCADE performance and sign-out everywhere)
+  pgm.createIndex('user_sessions', 'user_id', {
+    name: 'user_sessions_user_id_idx',
+  });
+
+  // Index on expires_at (pruning expired sessions)
+  pgm.createIndex('user_sessions', 'expires_at', {
+    name: 'user_sessions_expires_at_idx',
+  });
+}
@@ -0,0 +1,70 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create role_assignments table (a user's role on every organization, one organization
+  // or one factory)
+  pgm.createTable('role_assignments', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    user_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users(id)',
+      onDelete: 'CASCADE',
+    },
+    role: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "role IN ('viewer', 'technician', 'engineer', 'admin')",
+    },
+    // Both scopes NULL grants the role on every organization
+    organization_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'organizations(id)',
+      onDelete: 'CASCADE',
+    },
+    factory_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'factories(id)',
+      onDelete: 'CASCADE',
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // An assignment is scoped to at most one organization or factory
+  pgm.addConstraint('role_assignments', 'role_assignments_scope_check', {
+    check: 'organization_id IS NULL OR factory_id IS NULL',
+  });
+
+  // Index on user_id (foreign key - CASCADE performance, access lookup on every request)
+  pgm.createIndex('role_assignments', 'user_id', {
+    name: 'role_assignments_user_id_idx',
+  });
+
+  // Index on organization_id (foreign key - CASCADE performance)
+  pgm.createIndex('role_assignments', 'organization_id', {
+    name: 'role_assignments_organization_id_idx',
+  });
+
+  // Index on factory_id (foreign key - CASCADE performance)
+  pgm.createIndex('role_assignments', 'factory_id', {
+    name: 'role_assignments_factory_id_idx',
+  });
+
+  // Accounts created before roles existed had full access; keep it that way
+  pgm.sql(`
+    INSERT INTO role_assignments (user_id, role)
+    SELECT id, 'admin' FROM users WHERE deleted_at IS NULL
+  `);
+}
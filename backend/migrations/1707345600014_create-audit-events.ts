@@ -0,0 +1,71 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create audit_events table (one row per configuration change made through the API)
+  pgm.createTable('audit_events', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    occurred_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    // Kept when the user is removed; actor_email still names them
+    user_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users(id)',
+      onDelete: 'SET NULL',
+    },
+    actor_email: {
+      type: 'varchar(255)',
+      notNull: false,
+    },
+    action: {
+      type: 'varchar(50)',
+      notNull: true,
+    },
+    entity_type: {
+      type: 'varchar(50)',
+      notNull: true,
+    },
+    entity_id: {
+      type: 'uuid',
+      notNull: false,
+    },
+    // Changed fields as { field: { before, after } }, secrets redacted
+    changes: {
+      type: 'jsonb',
+      notNull: true,
+      default: '{}',
+    },
+    request_id: {
+      type: 'varchar(100)',
+      notNull: false,
+    },
+    ip_address: {
+      type: 'varchar(45)',
+      notNull: false,
+    },
+  });
+
+  // Index on occurred_at (audit log is listed newest first, filtered by time range)
+  pgm.createIndex('audit_events', 'occurred_at', {
+    name: 'audit_events_occurred_at_idx',
+  });
+
+  // Index on entity (history of one entity)
+  pgm.createIndex('audit_events', ['entity_type', 'entity_id'], {
+    name: 'audit_events_entity_idx',
+  });
+
+  // Index on user_id (foreign key - SET NULL performance, changes by one user)
+  pgm.createIndex('audit_events', 'user_id', {
+    name: 'audit_events_user_id_idx',
+  });
+}
@@ -0,0 +1,61 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create gateway_connection_events table (connection history of each gateway session)
+  pgm.createTable('gateway_connection_events', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    gateway_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'gateways(id)',
+      onDelete: 'CASCADE',
+    },
+    occurred_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    event_type: {
+      type: 'varchar(20)',
+      notNull: true,
+      check:
+        "event_type IN ('state_change', 'heartbeat', 'auth_succeeded', 'auth_failed', 'error')",
+    },
+    // New and previous ConnectionState (state_change events only)
+    state: {
+      type: 'varchar(20)',
+      notNull: false,
+    },
+    previous_state: {
+      type: 'varchar(20)',
+      notNull: false,
+    },
+    // Failure message (auth_failed and error events only)
+    error: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+
+  // Index on (gateway_id, occurred_at) (timeline of one gateway, newest first; CASCADE performance)
+  pgm.createIndex('gateway_connection_events', ['gateway_id', 'occurred_at'], {
+    name: 'gateway_connection_events_gateway_id_occurred_at_idx',
+  });
+
+  // last_seen_at is written as messages arrive; that bookkeeping is not an edit of the
+  // gateway, so only bump updated_at when last_seen_at is unchanged
+  pgm.dropTrigger('gateways', 'update_gateways_updated_at');
+  pgm.createTrigger('gateways', 'update_gateways_updated_at', {
+    when: 'BEFORE',
+    operation: 'UPDATE',
+    level: 'ROW',
+    condition: 'OLD.last_seen_at IS NOT DISTINCT FROM NEW.last_seen_at',
+    function: 'update_updated_at_column',
+  });
+}
@@ -0,0 +1,57 @@
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create firmware_changes table (firmware versions reported by gateways and sensors)
+  pgm.createTable('firmware_changes', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()'),
+    },
+    // Gateway that reported the version (the sensor's gateway for sensor changes)
+    gateway_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'gateways(id)',
+      onDelete: 'CASCADE',
+    },
+    // NULL for the gateway's own firmware
+    sensor_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'sensors(id)',
+      onDelete: 'CASCADE',
+    },
+    detected_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    // NULL when the version is recorded for the first time
+    previous_version: {
+      type: 'varchar(50)',
+      notNull: false,
+    },
+    firmware_version: {
+      type: 'varchar(50)',
+      notNull: true,
+    },
+    // Sensor HwVer or gateway model, as reported alongside the firmware version
+    hardware_version: {
+      type: 'varchar(100)',
+      notNull: false,
+    },
+  });
+
+  // Index on (gateway_id, detected_at) (history of a gateway and its sensors; CASCADE performance)
+  pgm.createIndex('firmware_changes', ['gateway_id', 'detected_at'], {
+    name: 'firmware_changes_gateway_id_detected_at_idx',
+  });
+
+  // Index on (sensor_id, detected_at) (history of one sensor; CASCADE performance)
+  pgm.createIndex('firmware_changes', ['sensor_id', 'detected_at'], {
+    name: 'firmware_changes_sensor_id_detected_at_idx',
+  });
+}
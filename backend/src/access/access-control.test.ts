@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accessibleFactoryIds,
+  buildAccessScope,
+  checkRole,
+  factoryRole,
+  organizationRole,
+  roleAtLeast,
+  visibleOrganizationIds,
+  RoleGrant,
+  ScopedFactory,
+} from './access-control';
+
+const ACME = 'org-acme';
+const GLOBEX = 'org-globex';
+
+const factories: ScopedFactory[] = [
+  { id: 'springfield', organization_id: ACME },
+  { id: 'detroit', organization_id: ACME },
+  { id: 'shelbyville', organization_id: GLOBEX },
+];
+
+function grant(role: string, scope: Partial<RoleGrant> = {}): RoleGrant {
+  return { role, organization_id: null, factory_id: null, ...scope };
+}
+
+const notFound = { code: 'GATEWAY_NOT_FOUND', message: 'Gateway not found' };
+
+describe('roleAtLeast', () => {
+  it('should rank roles from viewer to admin', () => {
+    expect(roleAtLeast('admin', 'engineer')).toBe(true);
+    expect(roleAtLeast('engineer', 'engineer')).toBe(true);
+    expect(roleAtLeast('technician', 'engineer')).toBe(false);
+    expect(roleAtLeast('viewer', 'technician')).toBe(false);
+  });
+
+  it('should treat no role as below every role', () => {
+    expect(roleAtLeast(null, 'viewer')).toBe(false);
+    expect(roleAtLeast(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('buildAccessScope', () => {
+  it('should limit a factory assignment to that factory', () => {
+    const scope = buildAccessScope([grant('technician', { factory_id: 'detroit' })], factories);
+
+    expect(factoryRole(scope, 'detroit')).toBe('technician');
+    expect(factoryRole(scope, 'springfield')).toBeNull();
+    expect(organizationRole(scope, ACME)).toBe('viewer');
+    expect(organizationRole(scope, GLOBEX)).toBeNull();
+    expect(accessibleFactoryIds(scope)).toEqual(['detroit']);
+    expect(visibleOrganizationIds(scope)).toEqual([ACME]);
+  });
+
+  it("should extend an organization assignment to the organization's factories", () => {
+    const scope = buildAccessScope([grant('engineer', { organization_id: ACME })], factories);
+
+    expect(organizationRole(scope, ACME)).toBe('engineer');
+    expect(factoryRole(scope, 'springfield')).toBe('engineer');
+    expect(factoryRole(scope, 'detroit')).toBe('engineer');
+    expect(factoryRole(scope, 'shelbyville')).toBeNull();
+    expect(accessibleFactoryIds(scope)?.sort()).toEqual(['detroit', 'springfield']);
+  });
+
+  it('should use the highest role when assignments overlap', () => {
+    const scope = buildAccessScope(
+      [
+        grant('viewer', { organization_id: ACME }),
+        grant('admin', { factory_id: 'detroit' }),
+        grant('technician', { factory_id: 'detroit' }),
+      ],
+      factories
+    );
+
+    expect(factoryRole(scope, 'detroit')).toBe('admin');
+    expect(factoryRole(scope, 'springfield')).toBe('viewer');
+    expect(organizationRole(scope, ACME)).toBe('viewer');
+  });
+
+  it('should grant a global role on every organization and factory', () => {
+    const scope = buildAccessScope(
+      [grant('viewer'), grant('engineer', { factory_id: 'shelbyville' })],
+      factories
+    );
+
+    expect(organizationRole(scope, GLOBEX)).toBe('viewer');
+    expect(factoryRole(scope, 'springfield')).toBe('viewer');
+    expect(factoryRole(scope, 'shelbyville')).toBe('engineer');
+    expect(factoryRole(scope, 'unknown-factory')).toBe('viewer');
+    expect(accessibleFactoryIds(scope)).toBeUndefined();
+    expect(visibleOrganizationIds(scope)).toBeUndefined();
+  });
+
+  it('should ignore unknown roles', () => {
+    const scope = buildAccessScope([grant('superuser')], factories);
+
+    expect(scope.global).toBeNull();
+    expect(accessibleFactoryIds(scope)).toEqual([]);
+  });
+});
+
+describe('checkRole', () => {
+  it('should allow a sufficient role', () => {
+    expect(checkRole('engineer', 'technician', notFound)).toBeNull();
+  });
+
+  it('should report resources the user cannot see as not found', () => {
+    expect(checkRole(null, 'viewer', notFound)).toEqual({
+      error: { code: 'GATEWAY_NOT_FOUND', message: 'Gateway not found', statusCode: 404 },
+    });
+  });
+
+  it('should forbid visible resources without the required role', () => {
+    expect(checkRole('viewer', 'engineer', notFound)).toEqual({
+      error: { code: 'FORBIDDEN', message: 'Requires the engineer role', statusCode: 403 },
+    });
+  });
+});
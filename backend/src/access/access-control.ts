@@ -0,0 +1,166 @@
+// Role-based access of signed-in users to organizations and factories
+
+import type { Role } from '../repositories/types';
+
+// Roles from least to most privileged; each role can do everything the ones before it can
+export const ROLES: readonly Role[] = ['viewer', 'technician', 'engineer', 'admin'];
+
+// A role assignment (both scopes null grants the role on every organization)
+export interface RoleGrant {
+  role: string;
+  organization_id: string | null;
+  factory_id: string | null;
+}
+
+// A factory an assignment reaches, with the organization it belongs to
+export interface ScopedFactory {
+  id: string;
+  organization_id: string;
+}
+
+export interface AccessScope {
+  global: Role | null; // Role on every organization
+  organizations: Map<string, Role>; // Organization-wide roles by organization ID
+  factories: Map<string, { organizationId: string; role: Role }>; // Effective roles by factory ID
+}
+
+export interface AccessError {
+  error: { code: string; message: string; statusCode: number };
+}
+
+function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+function higherRole(a: Role | null, b: Role | null | undefined): Role | null {
+  if (!b) {
+    return a;
+  }
+  return a && ROLES.indexOf(a) >= ROLES.indexOf(b) ? a : b;
+}
+
+/**
+ * Whether a role includes everything the required role can do
+ */
+export function roleAtLeast(role: Role | null | undefined, required: Role): boolean {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Resolve a user's role assignments into the roles they hold
+ *
+ * A factory's effective role is the highest of the user's global role, their role
+ * on the factory's organization and their role on the factory itself.
+ *
+ * @param factories - Every factory of the assigned organizations plus the assigned factories
+ */
+export function buildAccessScope(grants: RoleGrant[], factories: ScopedFactory[]): AccessScope {
+  const scope: AccessScope = { global: null, organizations: new Map(), factories: new Map() };
+  const factoryGrants = new Map<string, Role>();
+
+  for (const grant of grants) {
+    if (!isRole(grant.role)) {
+      continue;
+    }
+    if (grant.factory_id) {
+      const current = factoryGrants.get(grant.factory_id) ?? null;
+      factoryGrants.set(grant.factory_id, higherRole(current, grant.role)!);
+    } else if (grant.organization_id) {
+      const current = scope.organizations.get(grant.organization_id) ?? null;
+      scope.organizations.set(grant.organization_id, higherRole(current, grant.role)!);
+    } else {
+      scope.global = higherRole(scope.global, grant.role);
+    }
+  }
+
+  for (const factory of factories) {
+    const role = higherRole(
+      scope.organizations.get(factory.organization_id) ?? null,
+      factoryGrants.get(factory.id)
+    );
+    if (role) {
+      scope.factories.set(factory.id, { organizationId: factory.organization_id, role });
+    }
+  }
+
+  return scope;
+}
+
+/**
+ * The user's role on an organization as a whole, or null if they cannot see it
+ *
+ * A role on one of the organization's factories only lets the user view it.
+ */
+export function organizationRole(scope: AccessScope, organizationId: string): Role | null {
+  const role = higherRole(scope.global, scope.organizations.get(organizationId));
+  if (role) {
+    return role;
+  }
+
+  for (const factory of scope.factories.values()) {
+    if (factory.organizationId === organizationId) {
+      return 'viewer';
+    }
+  }
+  return null;
+}
+
+/**
+ * The user's role on a factory, or null if they cannot see it
+ */
+export function factoryRole(scope: AccessScope, factoryId: string): Role | null {
+  return higherRole(scope.global, scope.factories.get(factoryId)?.role);
+}
+
+/**
+ * IDs of the factories the user can see, or undefined if they can see every factory
+ */
+export function accessibleFactoryIds(scope: AccessScope): string[] | undefined {
+  return scope.global ? undefined : [...scope.factories.keys()];
+}
+
+/**
+ * IDs of the organizations the user can see, or undefined if they can see every organization
+ *
+ * An organization is visible with a role on it or on any of its factories.
+ */
+export function visibleOrganizationIds(scope: AccessScope): string[] | undefined {
+  if (scope.global) {
+    return undefined;
+  }
+
+  const ids = new Set(scope.organizations.keys());
+  for (const factory of scope.factories.values()) {
+    ids.add(factory.organizationId);
+  }
+  return [...ids];
+}
+
+/**
+ * Check a role against the role an action requires
+ *
+ * Resources the user cannot see at all are reported as not found, so their
+ * existence does not leak; visible resources without the role are forbidden.
+ *
+ * @param notFound - Error code and message for a resource the user cannot see
+ * @returns Error response body, or null if the action is allowed
+ */
+export function checkRole(
+  role: Role | null,
+  required: Role,
+  notFound: { code: string; message: string }
+): AccessError | null {
+  if (!role) {
+    return { error: { ...notFound, statusCode: 404 } };
+  }
+  if (!roleAtLeast(role, required)) {
+    return {
+      error: {
+        code: 'FORBIDDEN',
+        message: `Requires the ${required} role`,
+        statusCode: 403,
+      },
+    };
+  }
+  return null;
+}
@@ -0,0 +1,223 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import { WebSocketConnection } from '../gateway/connection.js';
+import { CommandClient } from '../gateway/command-client.js';
+import { MessageRouter } from '../gateway/message-router.js';
+import { NotificationHandler } from '../gateway/notification-handler.js';
+import { authenticate } from '../gateway/authenticator.js';
+import { discoverSensor } from '../gateway/sensor-discovery.js';
+import { AcquisitionManager } from './acquisition-manager.js';
+import { createSensorFleet, GatewaySimulator } from '../simulator/gateway-simulator.js';
+import { ConnectionState, HeartbeatConfig } from '../types/connection.js';
+
+const CREDENTIALS = { email: 'flow@example.com', password: 'secret' };
+
+/**
+ * Poll until a condition holds (state changes and reconnects are asynchronous)
+ */
+async function waitUntil(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * The gateway message stack wired the same way as main.ts and GatewaySession,
+ * with short timeouts so failure paths finish quickly
+ */
+class GatewayStack {
+  readonly connection: WebSocketConnection;
+  readonly commandClient: CommandClient;
+  readonly notificationHandler = new NotificationHandler();
+  readonly acquisitionManager: AcquisitionManager;
+  readonly states: ConnectionState[] = [];
+  opens = 0;
+
+  constructor(port: number, heartbeat: HeartbeatConfig = { interval: 1000, timeout: 500 }) {
+    this.connection = new WebSocketConnection({
+      url: `ws://127.0.0.1:${port}`,
+      reconnect: { initialDelay: 20, maxDelay: 50, multiplier: 2 },
+      heartbeat,
+    });
+    this.commandClient = new CommandClient((msg) => this.connection.send(msg), 500);
+    this.acquisitionManager = new AcquisitionManager(
+      this.commandClient,
+      this.notificationHandler,
+      300
+    );
+    const router = new MessageRouter(this.commandClient, this.notificationHandler);
+
+    this.connection.onMessage((data) => router.handleMessage(data));
+    this.connection.onOpen(() => this.opens++);
+    this.connection.onStateChange((state) => {
+      this.states.push(state);
+      // Per-socket state is dropped on disconnect, as GatewaySession does
+      if (state === ConnectionState.CLOSED) {
+        this.acquisitionManager.resetSubscription();
+        this.commandClient.cleanup();
+      }
+    });
+  }
+
+  async connect(): Promise<void> {
+    const opens = this.opens;
+    this.connection.connect();
+    await waitUntil(() => this.opens > opens);
+  }
+
+  async login(password = CREDENTIALS.password): Promise<void> {
+    await authenticate(this.commandClient, { email: CREDENTIALS.email, password });
+    this.connection.markAuthenticated();
+  }
+
+  close(): void {
+    this.commandClient.cleanup();
+    this.connection.close(1000, 'Test complete');
+  }
+}
+
+describe('acquisition flow against the gateway simulator', () => {
+  let simulator: GatewaySimulator;
+  let stack: GatewayStack;
+
+  beforeEach(async () => {
+    simulator = new GatewaySimulator({
+      ...CREDENTIALS,
+      sensors: createSensorFleet(2).map((sensor) => ({
+        ...sensor,
+        metadata: { ...sensor.metadata, Samples: 256 },
+      })),
+      seed: 1,
+      timing: { readingStartDelay: 10, readingDuration: 20, temperatureDelay: 5 },
+    });
+    stack = new GatewayStack(await simulator.start());
+  });
+
+  afterEach(async () => {
+    stack.close();
+    await simulator.stop();
+  });
+
+  it('should connect, authenticate, discover, subscribe, acquire and unsubscribe', async () => {
+    await stack.connect();
+    await stack.login();
+    expect(stack.connection.getState()).toBe(ConnectionState.AUTHENTICATED);
+
+    const sensor = await discoverSensor(stack.commandClient, 100002);
+    expect(sensor).toMatchObject({ Serial: 100002, Samples: 256 });
+
+    await stack.acquisitionManager.subscribe();
+    const acquired = await stack.acquisitionManager.acquireReading(sensor);
+
+    expect(acquired.reading.Serial).toBe('100002');
+    expect(acquired.waveforms.x).toHaveLength(256);
+    expect(acquired.waveforms.z).toHaveLength(256);
+    expect(typeof acquired.temperature).toBe('number');
+
+    await stack.acquisitionManager.unsubscribe();
+    await expect(stack.acquisitionManager.acquireReading(sensor)).rejects.toThrow(
+      'Must subscribe before acquiring reading'
+    );
+  });
+
+  it('should reject bad credentials and stay unauthenticated', async () => {
+    await stack.connect();
+
+    await expect(stack.login('wrong')).rejects.toThrow('Command error: Invalid email or password');
+    expect(stack.connection.getState()).toBe(ConnectionState.CONNECTED);
+    await expect(discoverSensor(stack.commandClient)).rejects.toThrow('Not logged in');
+  });
+
+  it('should report no sensors when the gateway has none connected', async () => {
+    simulator.setSensors([]);
+    await stack.connect();
+    await stack.login();
+
+    await expect(discoverSensor(stack.commandClient)).rejects.toThrow(
+      'No sensors currently connected to gateway'
+    );
+  });
+
+  it('should fail the reading when NOT_DYN_READING_STARTED reports Success=false', async () => {
+    await stack.connect();
+    await stack.login();
+    const sensor = await discoverSensor(stack.commandClient);
+    await stack.acquisitionManager.subscribe();
+    simulator.setFaults({ readingStartFailureRate: 1 });
+
+    await expect(stack.acquisitionManager.acquireReading(sensor)).rejects.toThrow(
+      `Reading failed to start for sensor Serial=${sensor.Serial}`
+    );
+  });
+
+  it('should time out a reading that never arrives and recover on the next one', async () => {
+    await stack.connect();
+    await stack.login();
+    const sensor = await discoverSensor(stack.commandClient);
+    await stack.acquisitionManager.subscribe();
+    simulator.setFaults({ dropReadingRate: 1 });
+
+    await expect(stack.acquisitionManager.acquireReading(sensor)).rejects.toThrow(
+      'Timeout waiting for NOT_DYN_READING (300ms)'
+    );
+
+    simulator.setFaults({ dropReadingRate: 0 });
+    const acquired = await stack.acquisitionManager.acquireReading(sensor);
+    expect(acquired.waveforms.y).toHaveLength(256);
+  });
+
+  it('should time out commands the gateway never answers', async () => {
+    await stack.connect();
+    await stack.login();
+    simulator.setFaults({ dropResponseRate: 1 });
+
+    await expect(discoverSensor(stack.commandClient)).rejects.toThrow(
+      'Command timeout after 500ms: GET_DYN_CONNECTED'
+    );
+  });
+
+  it('should drop the connection on heartbeat timeout and reconnect once', async () => {
+    stack.close();
+    stack = new GatewayStack(simulator.getPort(), { interval: 100, timeout: 50, enabled: true });
+    await stack.connect();
+    await stack.login();
+
+    simulator.setFaults({ dropHeartbeats: true });
+    await waitUntil(() => stack.states.includes(ConnectionState.CLOSED));
+    simulator.setFaults({ dropHeartbeats: false });
+    await waitUntil(() => stack.opens === 2);
+
+    // Exactly one reconnect is scheduled (by the close handler, not also by the timeout)
+    const afterAuth = stack.states.slice(stack.states.indexOf(ConnectionState.AUTHENTICATED));
+    expect(afterAuth).toEqual([
+      ConnectionState.AUTHENTICATED,
+      ConnectionState.CLOSED,
+      ConnectionState.DISCONNECTED,
+      ConnectionState.CONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+    expect(stack.connection.getState()).toBe(ConnectionState.CONNECTED);
+  });
+
+  it('should reconnect after the gateway drops the socket and acquire again', async () => {
+    await stack.connect();
+    await stack.login();
+    const sensor = await discoverSensor(stack.commandClient);
+    await stack.acquisitionManager.subscribe();
+
+    simulator.disconnectAll();
+    await waitUntil(() => stack.opens === 2);
+
+    // The new socket needs a fresh login and subscription
+    await expect(discoverSensor(stack.commandClient)).rejects.toThrow('Not logged in');
+    await stack.login();
+    await stack.acquisitionManager.subscribe();
+
+    const acquired = await stack.acquisitionManager.acquireReading(sensor);
+    expect(acquired.sensor.Serial).toBe(sensor.Serial);
+    expect(simulator.getConnectionCount()).toBe(1);
+  });
+});
@@ -1,14 +1,23 @@
-// Acquisition flow orchestration: subscribe -> trigger -> await -> parse -> display
+// Acquisition flow orchestration: subscribe -> trigger -> await -> parse
 // Implements the full acquisition flow from Phase 5 research Pattern 4
 
 import { once } from 'node:events';
 import { CommandClient } from '../gateway/command-client.js';
 import { NotificationHandler } from '../gateway/notification-handler.js';
 import { SensorMetadata } from '../types/messages.js';
-import { parseWaveform } from './waveform-parser.js';
-import { displayReadingResults } from '../output/waveform-display.js';
+import { parseWaveform, WaveformData } from './waveform-parser.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * A completed reading: sensor metadata, NOT_DYN_READING metadata and parsed waveforms
+ */
+export interface AcquiredReading {
+  sensor: SensorMetadata;
+  reading: { ID: number; Serial: string; Time: string };
+  waveforms: WaveformData;
+  temperature?: number;
+}
+
 /**
  * AcquisitionManager orchestrates the full reading flow:
  * 1. Subscribe to notifications (POST_SUB_CHANGES)
@@ -18,7 +27,7 @@ import { logger } from '../utils/logger.js';
  * 5. Await NOT_DYN_READING with acquisition timeout
  * 6. Parse waveform data (X/Y/Z strings)
  * 7. Optionally await temperature (non-blocking)
- * 8. Display results
+ * 8. Return the completed reading (caller displays or stores it)
  * 9. Unsubscribe on cleanup (POST_UNSUB_CHANGES)
  */
 export class AcquisitionManager {
@@ -56,15 +65,16 @@ export class AcquisitionManager {
   /**
    * Acquire vibration reading from sensor
    *
-   * Implements ACQ-01 through ACQ-08 and OUT-01 through OUT-06.
+   * Implements ACQ-01 through ACQ-08.
    *
    * Critical timing: Registers notification listeners BEFORE sending TAKE_DYN_READING
    * to prevent race condition (Pitfall 1 from research).
    *
    * @param sensor - Sensor metadata from discovery
+   * @returns Completed reading with parsed X/Y/Z waveforms and optional temperature
    * @throws Error if not subscribed, if reading fails to start (Success=false), or if timeout
    */
-  async acquireReading(sensor: SensorMetadata): Promise<void> {
+  async acquireReading(sensor: SensorMetadata): Promise<AcquiredReading> {
     // Guard: must be subscribed before triggering reading
     if (!this.isSubscribed) {
       throw new Error('Must subscribe before acquiring reading');
@@ -72,70 +82,95 @@ export class AcquisitionManager {
 
     // CRITICAL: Register notification listeners BEFORE triggering command
     // This prevents race condition where notification arrives before listener attached
-    const startedPromise = once(this.notificationHandler, 'NOT_DYN_READING_STARTED');
-    const readingPromise = once(this.notificationHandler, 'NOT_DYN_READING');
-    const tempPromise = once(this.notificationHandler, 'NOT_DYN_TEMP');
-
-    // Send TAKE_DYN_READING command (ACQ-01)
-    await this.commandClient.sendCommand({
-      Type: 'TAKE_DYN_READING',
-      From: 'UI',
-      To: 'SERV',
-      Data: { Serial: sensor.Serial },
-    });
-    logger.info(`Triggered reading for sensor Serial=${sensor.Serial}`);
+    // Listeners and timers are released in finally (long-running sessions take many readings)
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    const startedPromise = once(this.notificationHandler, 'NOT_DYN_READING_STARTED', { signal });
+    const readingPromise = once(this.notificationHandler, 'NOT_DYN_READING', { signal });
+    const tempPromise = once(this.notificationHandler, 'NOT_DYN_TEMP', { signal });
+
+    // Listeners that are never awaited reject with AbortError on cleanup - mark them handled
+    for (const pending of [startedPromise, readingPromise, tempPromise]) {
+      pending.catch(() => {});
+    }
 
-    // Helper: Create timeout promise
+    // Helper: Create timeout promise (timers cleared on cleanup)
+    const timers: NodeJS.Timeout[] = [];
     const timeoutPromise = (ms: number, msg: string): Promise<never> =>
-      new Promise((_, reject) => setTimeout(() => reject(new Error(msg)), ms));
-
-    // Wait for NOT_DYN_READING_STARTED with 30s timeout (ACQ-02, ACQ-03)
-    const [startedData] = (await Promise.race([
-      startedPromise,
-      timeoutPromise(30000, 'Timeout waiting for NOT_DYN_READING_STARTED (30s)'),
-    ])) as [{ Serial: number; Success: boolean }];
+      new Promise((_, reject) => {
+        timers.push(setTimeout(() => reject(new Error(msg)), ms));
+      });
 
-    if (!startedData.Success) {
-      throw new Error(`Reading failed to start for sensor Serial=${startedData.Serial}`);
-    }
-    logger.info('Reading started successfully');
-
-    // Wait for NOT_DYN_READING with acquisition timeout (ACQ-04, ACQ-05)
-    const [readingData] = (await Promise.race([
-      readingPromise,
-      timeoutPromise(
-        this.acquisitionTimeoutMs,
-        `Timeout waiting for NOT_DYN_READING (${this.acquisitionTimeoutMs}ms)`
-      ),
-    ])) as [{ ID: number; Serial: string; Time: string; X: string; Y: string; Z: string }];
-
-    logger.info(
-      `Reading received: ID=${readingData.ID}, Serial=${readingData.Serial}, Time=${readingData.Time}`
-    );
-
-    // Parse waveform data (ACQ-06)
-    const waveforms = parseWaveform(readingData.X, readingData.Y, readingData.Z, sensor.Samples);
-
-    // Handle temperature notification (ACQ-07) - non-blocking with 10s timeout
-    let temperature: number | undefined;
     try {
-      const [tempData] = (await Promise.race([
-        tempPromise,
-        timeoutPromise(10000, 'Temperature notification timeout'),
-      ])) as [{ Serial: string; Temp: number }];
-      temperature = tempData.Temp;
-      logger.info(`Temperature received: ${temperature}C`);
-    } catch {
-      logger.debug('Temperature notification not received (optional, continuing)');
+      // Send TAKE_DYN_READING command (ACQ-01)
+      await this.commandClient.sendCommand({
+        Type: 'TAKE_DYN_READING',
+        From: 'UI',
+        To: 'SERV',
+        Data: { Serial: sensor.Serial },
+      });
+      logger.info(`Triggered reading for sensor Serial=${sensor.Serial}`);
+
+      // Wait for NOT_DYN_READING_STARTED with 30s timeout (ACQ-02, ACQ-03)
+      const [startedData] = (await Promise.race([
+        startedPromise,
+        timeoutPromise(30000, 'Timeout waiting for NOT_DYN_READING_STARTED (30s)'),
+      ])) as [{ Serial: number; Success: boolean }];
+
+      if (!startedData.Success) {
+        throw new Error(`Reading failed to start for sensor Serial=${startedData.Serial}`);
+      }
+      logger.info('Reading started successfully');
+
+      // Wait for NOT_DYN_READING with acquisition timeout (ACQ-04, ACQ-05)
+      const [readingData] = (await Promise.race([
+        readingPromise,
+        timeoutPromise(
+          this.acquisitionTimeoutMs,
+          `Timeout waiting for NOT_DYN_READING (${this.acquisitionTimeoutMs}ms)`
+        ),
+      ])) as [{ ID: number; Serial: string; Time: string; X: string; Y: string; Z: string }];
+
+      logger.info(
+        `Reading received: ID=${readingData.ID}, Serial=${readingData.Serial}, Time=${readingData.Time}`
+      );
+
+      // Parse waveform data (ACQ-06)
+      const waveforms = parseWaveform(readingData.X, readingData.Y, readingData.Z, sensor.Samples);
+
+      // Handle temperature notification (ACQ-07) - non-blocking with 10s timeout
+      let temperature: number | undefined;
+      try {
+        const [tempData] = (await Promise.race([
+          tempPromise,
+          timeoutPromise(10000, 'Temperature notification timeout'),
+        ])) as [{ Serial: string; Temp: number }];
+        temperature = tempData.Temp;
+        logger.info(`Temperature received: ${temperature}C`);
+      } catch {
+        logger.debug('Temperature notification not received (optional, continuing)');
+      }
+
+      return {
+        sensor,
+        reading: { ID: readingData.ID, Serial: readingData.Serial, Time: readingData.Time },
+        waveforms,
+        temperature,
+      };
+    } finally {
+      timers.forEach(clearTimeout);
+      abortController.abort();
     }
+  }
 
-    // Display results (OUT-01 through OUT-06)
-    displayReadingResults(
-      sensor,
-      { ID: readingData.ID, Serial: readingData.Serial, Time: readingData.Time },
-      waveforms,
-      temperature
-    );
+  /**
+   * Forget subscription state after the underlying connection drops
+   *
+   * The gateway ties subscriptions to the socket, so a reconnected session
+   * must send POST_SUB_CHANGES again.
+   */
+  resetSubscription(): void {
+    this.isSubscribed = false;
   }
 
   /**
@@ -0,0 +1,158 @@
+// Reading ingest: persist completed acquisitions to sensor_readings
+
+import { AcquiredReading } from './acquisition-manager.js';
+import { WaveformData } from './waveform-parser.js';
+import { readingRepository } from '../repositories/ReadingRepository.js';
+import { readingMetricsRepository } from '../repositories/ReadingMetricsRepository.js';
+import { assetRepository } from '../repositories/AssetRepository.js';
+import {
+  measurementPointRepository,
+  SensorAttribution,
+} from '../repositories/MeasurementPointRepository.js';
+import {
+  Axis,
+  IsoZone,
+  MachineClass,
+  NewReadingMetric,
+  SensorReading,
+} from '../repositories/types.js';
+import { computeAxisMetrics } from '../analysis/metrics.js';
+import { integrateToVelocity, rms } from '../analysis/velocity.js';
+import { classifyIsoZone } from '../analysis/iso10816.js';
+import { analysisConfig } from '../analysis/config.js';
+import { alarmEngine } from '../alarms/alarm-engine.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Convert the gateway's NOT_DYN_READING Time field to a Date
+ *
+ * The gateway format is not documented; anything Date can parse is accepted.
+ * Falls back to the current time so a reading is never lost over a timestamp.
+ */
+export function parseReadingTime(time: string): Date {
+  const parsed = new Date(time);
+  if (Number.isNaN(parsed.getTime())) {
+    logger.warn(`Unparseable reading Time "${time}", using receive time`);
+    return new Date();
+  }
+  return parsed;
+}
+
+/**
+ * Per-axis metrics of a waveform set, before the reading row exists
+ */
+export type AxisMetricValues = Omit<NewReadingMetric, 'reading_id'>;
+
+/**
+ * Compute overall vibration metrics and velocity RMS for each axis
+ *
+ * @param waveforms - Acceleration waveforms in g
+ * @param sampleRate - Sampling rate in Hz (the sensor's ReadRate)
+ */
+export function computeReadingMetrics(
+  waveforms: WaveformData,
+  sampleRate: number
+): AxisMetricValues[] {
+  const integration = {
+    highPassHz: analysisConfig.VELOCITY_HIGHPASS_HZ,
+    lowPassHz: analysisConfig.VELOCITY_LOWPASS_HZ,
+  };
+
+  return (['x', 'y', 'z'] as Axis[]).map((axis) => {
+    const metrics = computeAxisMetrics(waveforms[axis]);
+    const velocity = integrateToVelocity(waveforms[axis], sampleRate, integration);
+    return {
+      axis,
+      rms: metrics.rms,
+      peak: metrics.peak,
+      peak_to_peak: metrics.peakToPeak,
+      crest_factor: metrics.crestFactor,
+      kurtosis: metrics.kurtosis,
+      skewness: metrics.skewness,
+      velocity_rms: rms(velocity),
+    };
+  });
+}
+
+/**
+ * Store a completed reading for a gateway
+ *
+ * Metrics, velocity RMS and the ISO 10816 zone (when the sensor's asset has a
+ * machine class) are computed here, and the reading is attributed to the asset
+ * and measurement point the sensor is mounted on; then the sensor's alarm rules
+ * are evaluated. These are derived data: if computing or storing them fails, or
+ * alarm evaluation fails, the reading is still stored.
+ *
+ * @param gatewayId - gateways.id the reading was acquired through
+ * @param acquired - Completed reading from AcquisitionManager.acquireReading
+ * @returns Stored sensor_readings row
+ */
+export async function ingestReading(
+  gatewayId: string,
+  acquired: AcquiredReading
+): Promise<SensorReading> {
+  const { sensor, reading, waveforms, temperature } = acquired;
+
+  let metrics: AxisMetricValues[] = [];
+  let velocityRms: number | null = null;
+  let machineClass: MachineClass | null = null;
+  let isoZone: IsoZone | null = null;
+  try {
+    metrics = computeReadingMetrics(waveforms, sensor.ReadRate);
+    // ISO 10816 judges the largest of the measured directions
+    velocityRms = Math.max(...metrics.map((m) => m.velocity_rms ?? 0));
+    machineClass = await assetRepository.findMachineClassBySensorSerial(sensor.Serial);
+    isoZone = machineClass ? classifyIsoZone(velocityRms, machineClass) : null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to compute metrics for Serial=${sensor.Serial}: ${message}`);
+  }
+
+  let attribution: SensorAttribution = { asset_id: null, measurement_point_id: null };
+  try {
+    attribution = await measurementPointRepository.findAttributionBySensorSerial(sensor.Serial);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to look up mounting of Serial=${sensor.Serial}: ${message}`);
+  }
+
+  const stored = await readingRepository.create({
+    gateway_id: gatewayId,
+    sensor_serial: sensor.Serial,
+    gateway_reading_id: reading.ID,
+    recorded_at: parseReadingTime(reading.Time),
+    sample_rate: sensor.ReadRate,
+    sample_count: waveforms.x.length,
+    x_samples: waveforms.x,
+    y_samples: waveforms.y,
+    z_samples: waveforms.z,
+    temperature: temperature ?? null,
+    velocity_rms: velocityRms,
+    machine_class: machineClass,
+    iso_zone: isoZone,
+    asset_id: attribution.asset_id,
+    measurement_point_id: attribution.measurement_point_id,
+  });
+
+  logger.info(
+    `Stored reading ${stored.id} (gateway reading ID=${reading.ID}, Serial=${sensor.Serial})`
+  );
+
+  try {
+    await readingMetricsRepository.createMany(
+      metrics.map((m) => ({ ...m, reading_id: stored.id }))
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to store metrics for reading ${stored.id}: ${message}`);
+  }
+
+  try {
+    await alarmEngine.evaluateReading(stored);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Failed to evaluate alarms for reading ${stored.id}: ${message}`);
+  }
+
+  return stored;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimeOfDay,
+  localMinutesOfDay,
+  isWithinWindow,
+  alignToWindow,
+  computeNextRun,
+} from './schedule-timing';
+
+describe('schedule timing', () => {
+  describe('parseTimeOfDay', () => {
+    it('should parse HH:MM and Postgres HH:MM:SS values', () => {
+      expect(parseTimeOfDay('00:00')).toBe(0);
+      expect(parseTimeOfDay('06:30')).toBe(390);
+      expect(parseTimeOfDay('23:59:00')).toBe(1439);
+    });
+
+    it('should reject malformed or out-of-range values', () => {
+      expect(() => parseTimeOfDay('6:30')).toThrow('Invalid time of day');
+      expect(() => parseTimeOfDay('24:00')).toThrow('Invalid time of day');
+      expect(() => parseTimeOfDay('12:60')).toThrow('Invalid time of day');
+    });
+  });
+
+  describe('localMinutesOfDay', () => {
+    it('should convert an instant to local wall-clock minutes', () => {
+      const instant = new Date('2024-01-15T12:00:00Z');
+      expect(localMinutesOfDay(instant, 'UTC')).toBe(720);
+      expect(localMinutesOfDay(instant, 'America/New_York')).toBe(420); // 07:00 EST
+      expect(localMinutesOfDay(instant, 'Asia/Kolkata')).toBe(1050); // 17:30 IST
+    });
+  });
+
+  describe('isWithinWindow', () => {
+    it('should treat schedules without a window as always inside', () => {
+      const schedule = { interval_minutes: 60, window_start: null, window_end: null };
+      expect(isWithinWindow(schedule, new Date('2024-01-15T03:00:00Z'), 'UTC')).toBe(true);
+    });
+
+    it('should include the start and exclude the end of a daytime window', () => {
+      const schedule = { interval_minutes: 60, window_start: '08:00', window_end: '17:00' };
+      expect(isWithinWindow(schedule, new Date('2024-01-15T08:00:00Z'), 'UTC')).toBe(true);
+      expect(isWithinWindow(schedule, new Date('2024-01-15T16:59:00Z'), 'UTC')).toBe(true);
+      expect(isWithinWindow(schedule, new Date('2024-01-15T17:00:00Z'), 'UTC')).toBe(false);
+      expect(isWithinWindow(schedule, new Date('2024-01-15T07:59:00Z'), 'UTC')).toBe(false);
+    });
+
+    it('should handle windows that wrap midnight', () => {
+      const schedule = { interval_minutes: 60, window_start: '22:00', window_end: '04:00' };
+      expect(isWithinWindow(schedule, new Date('2024-01-15T23:00:00Z'), 'UTC')).toBe(true);
+      expect(isWithinWindow(schedule, new Date('2024-01-15T02:00:00Z'), 'UTC')).toBe(true);
+      expect(isWithinWindow(schedule, new Date('2024-01-15T12:00:00Z'), 'UTC')).toBe(false);
+    });
+  });
+
+  describe('alignToWindow', () => {
+    it('should move an instant after the window to the next day opening', () => {
+      const schedule = { interval_minutes: 240, window_start: '08:00', window_end: '17:00' };
+      const aligned = alignToWindow(schedule, new Date('2024-01-15T18:12:34Z'), 'UTC');
+      expect(aligned.toISOString()).toBe('2024-01-16T08:00:00.000Z');
+    });
+
+    it('should use the factory timezone for the window', () => {
+      const schedule = { interval_minutes: 240, window_start: '08:00', window_end: '17:00' };
+      // 05:00 UTC is 00:00 in New York (EST), so the window opens at 13:00 UTC
+      const aligned = alignToWindow(schedule, new Date('2024-01-15T05:00:00Z'), 'America/New_York');
+      expect(aligned.toISOString()).toBe('2024-01-15T13:00:00.000Z');
+    });
+
+    it('should land on the local window start across a DST change', () => {
+      const schedule = { interval_minutes: 240, window_start: '08:00', window_end: '17:00' };
+      // Clocks go forward in New York on 2024-03-10; 08:00 EDT is 12:00 UTC
+      const aligned = alignToWindow(schedule, new Date('2024-03-09T23:00:00Z'), 'America/New_York');
+      expect(aligned.toISOString()).toBe('2024-03-10T12:00:00.000Z');
+    });
+  });
+
+  describe('computeNextRun', () => {
+    it('should add the interval when no window is configured', () => {
+      const schedule = { interval_minutes: 240, window_start: null, window_end: null };
+      const next = computeNextRun(schedule, new Date('2024-01-15T10:00:00Z'), 'UTC');
+      expect(next.toISOString()).toBe('2024-01-15T14:00:00.000Z');
+    });
+
+    it('should defer to the next window opening when the interval leaves the window', () => {
+      const schedule = { interval_minutes: 240, window_start: '08:00', window_end: '17:00' };
+      const next = computeNextRun(schedule, new Date('2024-01-15T16:00:00Z'), 'UTC');
+      expect(next.toISOString()).toBe('2024-01-16T08:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+// Schedule timing: interval + optional daily window in the factory's timezone
+
+/**
+ * Timing fields of an acquisition schedule
+ *
+ * Windows are 'HH:MM' (or Postgres 'HH:MM:SS') wall-clock times in the factory's
+ * timezone. A window whose end is before its start wraps midnight (22:00-04:00).
+ */
+export interface ScheduleTiming {
+  interval_minutes: number;
+  window_start: string | null;
+  window_end: string | null;
+}
+
+const MINUTE_MS = 60_000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse 'HH:MM' or 'HH:MM:SS' into minutes after midnight
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{2}):(\d{2})(?::\d{2})?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day "${value}", expected HH:MM`);
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time of day "${value}", expected HH:MM`);
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes after local midnight of an instant in an IANA timezone
+ */
+export function localMinutesOfDay(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Check whether an instant falls inside a schedule's daily window
+ *
+ * Schedules without a window are always inside. The end time is exclusive.
+ */
+export function isWithinWindow(schedule: ScheduleTiming, date: Date, timezone: string): boolean {
+  if (!schedule.window_start || !schedule.window_end) {
+    return true;
+  }
+
+  const start = parseTimeOfDay(schedule.window_start);
+  const end = parseTimeOfDay(schedule.window_end);
+  const now = localMinutesOfDay(date, timezone);
+
+  if (start === end) {
+    return true; // Degenerate window covers the whole day
+  }
+  if (start < end) {
+    return now >= start && now < end;
+  }
+  return now >= start || now < end; // Wraps midnight
+}
+
+/**
+ * Move an instant forward to the next opening of the schedule's window
+ *
+ * Returns the instant unchanged when it is already inside the window. Otherwise
+ * returns the window start on the next local day it occurs, to the minute.
+ * The correction loop absorbs DST shifts between the instant and the target.
+ */
+export function alignToWindow(schedule: ScheduleTiming, from: Date, timezone: string): Date {
+  if (!schedule.window_start || !schedule.window_end || isWithinWindow(schedule, from, timezone)) {
+    return from;
+  }
+
+  const start = parseTimeOfDay(schedule.window_start);
+  let candidate = new Date(Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS);
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const local = localMinutesOfDay(candidate, timezone);
+    let delta = (start - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    if (delta === 0) {
+      break;
+    }
+    // After the first jump only a DST offset remains, which may be negative
+    if (attempt > 0 && delta > MINUTES_PER_DAY / 2) {
+      delta -= MINUTES_PER_DAY;
+    }
+    candidate = new Date(candidate.getTime() + delta * MINUTE_MS);
+  }
+
+  return candidate;
+}
+
+/**
+ * Compute the next run time after a run that was due at `from`
+ *
+ * Adds the interval, then defers to the next window opening if the result
+ * lands outside the daily window.
+ */
+export function computeNextRun(schedule: ScheduleTiming, from: Date, timezone: string): Date {
+  const next = new Date(from.getTime() + schedule.interval_minutes * MINUTE_MS);
+  return alignToWindow(schedule, next, timezone);
+}
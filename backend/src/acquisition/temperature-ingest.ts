@@ -0,0 +1,37 @@
+// Temperature ingest: persist NOT_DYN_TEMP notifications to sensor_temperatures
+
+import type { NotDynTemp } from '../types/messages.js';
+import { temperatureRepository } from '../repositories/TemperatureRepository.js';
+import { SensorTemperature } from '../repositories/types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Store one NOT_DYN_TEMP notification
+ *
+ * The notification has no timestamp, so the sample is recorded at receive time.
+ * Unlike NOT_DYN_READING, Serial arrives as a string.
+ *
+ * @param gatewayId - gateways.id the notification arrived on
+ * @param data - NOT_DYN_TEMP Data
+ * @returns Stored row, or null if Serial is not a sensor serial number
+ */
+export async function ingestTemperature(
+  gatewayId: string,
+  data: NotDynTemp['Data']
+): Promise<SensorTemperature | null> {
+  const serial = Number(data.Serial);
+  if (!Number.isInteger(serial) || serial <= 0) {
+    logger.warn(`Ignoring NOT_DYN_TEMP with invalid Serial "${data.Serial}"`);
+    return null;
+  }
+
+  const stored = await temperatureRepository.create({
+    gateway_id: gatewayId,
+    sensor_serial: serial,
+    temperature: data.Temp,
+    recorded_at: new Date(),
+  });
+
+  logger.debug(`Stored temperature ${data.Temp} for Serial=${serial}`);
+  return stored;
+}
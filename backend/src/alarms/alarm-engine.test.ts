@@ -0,0 +1,59 @@
+import { describe, it, afterEach, expect, vi } from 'vitest';
+import { alarmEngine } from './alarm-engine';
+import { alarmRuleRepository } from '../repositories/AlarmRuleRepository';
+import { sensorRepository } from '../repositories/SensorRepository';
+import { gatewayRepository } from '../repositories/GatewayRepository';
+import { LiveEvent, liveEvents } from '../events/live-events';
+import type { AlarmEvent, AlarmRule, Gateway, Sensor } from '../repositories/types';
+
+// GatewayRepository loads the encryption key when its module is imported
+vi.hoisted(() => {
+  process.env.ENCRYPTION_KEY ??= Buffer.from('0123456789abcdef0123456789abcdef').toString('base64');
+});
+
+const rule = { id: 'rule-1', name: 'Motor velocity' } as AlarmRule;
+const sensor = { id: 'sensor-1', serial: 100001, gateway_id: 'gw-1' } as Sensor;
+const gateway = { id: 'gw-1', factory_id: 'factory-1' } as Gateway;
+
+function openEvent(id: string, severity: string): AlarmEvent {
+  return { id, rule_id: rule.id, sensor_id: sensor.id, severity } as AlarmEvent;
+}
+
+describe('AlarmEngine.deleteRule', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should publish the rule's open events as cleared", async () => {
+    vi.spyOn(alarmRuleRepository, 'softDelete').mockResolvedValue({
+      rule,
+      clearedEvents: [openEvent('alarm-1', 'alert'), openEvent('alarm-2', 'danger')],
+    });
+    vi.spyOn(sensorRepository, 'findById').mockResolvedValue(sensor);
+    vi.spyOn(gatewayRepository, 'findById').mockResolvedValue(gateway);
+
+    const received: LiveEvent[] = [];
+    const unsubscribe = liveEvents.subscribe({}, (event) => received.push(event));
+    const deleted = await alarmEngine.deleteRule(rule.id);
+    unsubscribe();
+
+    expect(deleted).toBe(rule);
+    expect(received).toEqual([
+      expect.objectContaining({ type: 'alarm.changed', alarm_id: 'alarm-1', action: 'cleared' }),
+      expect.objectContaining({ type: 'alarm.changed', alarm_id: 'alarm-2', action: 'cleared' }),
+    ]);
+    expect(received[0]).toMatchObject({ factory_id: 'factory-1', sensor_serial: 100001 });
+  });
+
+  it('should publish nothing for a missing rule', async () => {
+    vi.spyOn(alarmRuleRepository, 'softDelete').mockResolvedValue(undefined);
+
+    const received: LiveEvent[] = [];
+    const unsubscribe = liveEvents.subscribe({}, (event) => received.push(event));
+    const deleted = await alarmEngine.deleteRule('missing');
+    unsubscribe();
+
+    expect(deleted).toBeUndefined();
+    expect(received).toEqual([]);
+  });
+});
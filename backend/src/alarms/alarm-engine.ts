@@ -0,0 +1,203 @@
+import { alarmRuleRepository } from '../repositories/AlarmRuleRepository';
+import { alarmEventRepository } from '../repositories/AlarmEventRepository';
+import { readingRepository } from '../repositories/ReadingRepository';
+import { readingMetricsRepository } from '../repositories/ReadingMetricsRepository';
+import { sensorRepository } from '../repositories/SensorRepository';
+import { gatewayRepository } from '../repositories/GatewayRepository';
+import { AlarmChangeAction, liveEvents } from '../events/live-events';
+import {
+  AlarmEvent,
+  AlarmMetric,
+  AlarmRule,
+  AlarmSeverity,
+  Axis,
+  ReadingMetric,
+  Sensor,
+  SensorReading,
+} from '../repositories/types';
+import { evaluateThresholds, metricValue } from './alarm-evaluator';
+import { logger } from '../utils/logger';
+
+/**
+ * AlarmEngine evaluates alarm rules whenever a reading is stored
+ *
+ * For each enabled rule of the reading's sensor (its own rules and its asset's
+ * rules) it looks at the metric over the sensor's most recent readings and
+ * raises, escalates or clears the rule's alarm event for that sensor. Events
+ * are attributed to the asset and measurement point of the reading that raised
+ * them. Users acknowledge and clear events through /api/alarms. Every change
+ * is published to liveEvents.
+ */
+export class AlarmEngine {
+  /**
+   * Evaluate every rule that applies to the reading's sensor
+   *
+   * Call after the reading's metrics are stored. Rules that fail to evaluate
+   * are logged and skipped; the others are still evaluated.
+   */
+  async evaluateReading(reading: SensorReading): Promise<void> {
+    const sensor = await sensorRepository.findBySerial(reading.sensor_serial);
+    if (!sensor) {
+      return;
+    }
+
+    // The reading's asset is its point's asset when the sensor is mounted
+    const rules = await alarmRuleRepository.findEnabledForSensor(sensor.id, reading.asset_id);
+    if (rules.length === 0) {
+      return;
+    }
+
+    const history = await this.loadHistory(
+      reading,
+      Math.max(...rules.map((rule) => rule.consecutive_count))
+    );
+
+    for (const rule of rules) {
+      try {
+        const values = history.map((metrics) =>
+          metricValue(metrics, rule.metric as AlarmMetric, rule.axis as Axis | null)
+        );
+        await this.applyRule(rule, sensor, reading, values);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          `Failed to evaluate alarm rule ${rule.id} for Serial=${sensor.serial}: ${message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Soft delete a rule, clearing its open events, and publish the clears
+   *
+   * @returns The deleted rule, or undefined if not found
+   */
+  async deleteRule(ruleId: string): Promise<AlarmRule | undefined> {
+    const deleted = await alarmRuleRepository.softDelete(ruleId);
+    if (!deleted) {
+      return undefined;
+    }
+
+    for (const event of deleted.clearedEvents) {
+      await this.publishChange(event, 'cleared');
+    }
+    return deleted.rule;
+  }
+
+  /**
+   * Publish an alarm event change to browser streams
+   *
+   * Looks up the sensor's gateway for the event scope. Never throws: a failed
+   * publish is logged and does not undo the change.
+   */
+  async publishChange(
+    event: Pick<AlarmEvent, 'id' | 'rule_id' | 'sensor_id' | 'severity'>,
+    action: AlarmChangeAction
+  ): Promise<void> {
+    try {
+      const sensor = await sensorRepository.findById(event.sensor_id);
+      const gateway = sensor ? await gatewayRepository.findById(sensor.gateway_id) : undefined;
+      if (!sensor || !gateway) {
+        return;
+      }
+
+      liveEvents.publish({
+        type: 'alarm.changed',
+        gateway_id: gateway.id,
+        factory_id: gateway.factory_id,
+        alarm_id: event.id,
+        rule_id: event.rule_id,
+        sensor_id: event.sensor_id,
+        sensor_serial: sensor.serial,
+        severity: event.severity as AlarmSeverity,
+        action,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to publish alarm change for event ${event.id}: ${message}`);
+    }
+  }
+
+  /**
+   * Load metrics of the sensor's most recent readings, newest first
+   */
+  private async loadHistory(reading: SensorReading, count: number): Promise<ReadingMetric[][]> {
+    const recent = await readingRepository.findBySensor(
+      reading.gateway_id,
+      reading.sensor_serial,
+      { limit: count }
+    );
+    const metrics = await readingMetricsRepository.findByReadings(recent.map((r) => r.id));
+
+    return recent.map((r) => metrics.filter((m) => m.reading_id === r.id));
+  }
+
+  private async applyRule(
+    rule: AlarmRule,
+    sensor: Sensor,
+    reading: SensorReading,
+    values: (number | null)[]
+  ): Promise<void> {
+    const open = await alarmEventRepository.findOpen(rule.id, sensor.id);
+    const decision = evaluateThresholds(
+      rule,
+      values,
+      open ? (open.severity as AlarmSeverity) : null
+    );
+
+    switch (decision.action) {
+      case 'raise': {
+        const created = await alarmEventRepository.create({
+          rule_id: rule.id,
+          sensor_id: sensor.id,
+          reading_id: reading.id,
+          asset_id: reading.asset_id,
+          measurement_point_id: reading.measurement_point_id,
+          severity: decision.severity,
+          value: decision.value,
+          threshold: decision.threshold,
+        });
+        logger.warn(
+          `Alarm raised: "${rule.name}" ${decision.severity} on Serial=${sensor.serial} ` +
+            `(${rule.metric}=${decision.value} >= ${decision.threshold})`
+        );
+        await this.publishChange(created, 'raised');
+        break;
+      }
+
+      case 'escalate': {
+        // A danger alarm needs a fresh acknowledgement
+        const escalated = await alarmEventRepository.update(open!.id, {
+          reading_id: reading.id,
+          severity: decision.severity,
+          value: decision.value,
+          threshold: decision.threshold,
+          acknowledged_at: null,
+        });
+        logger.warn(
+          `Alarm escalated: "${rule.name}" danger on Serial=${sensor.serial} ` +
+            `(${rule.metric}=${decision.value} >= ${decision.threshold})`
+        );
+        if (escalated) {
+          await this.publishChange(escalated, 'escalated');
+        }
+        break;
+      }
+
+      case 'clear':
+        await alarmEventRepository.clear(open!.id);
+        logger.info(
+          `Alarm cleared: "${rule.name}" on Serial=${sensor.serial} ` +
+            `(${rule.metric}=${decision.value})`
+        );
+        await this.publishChange(open!, 'cleared');
+        break;
+
+      case 'none':
+        break;
+    }
+  }
+}
+
+// Export singleton instance
+export const alarmEngine = new AlarmEngine();
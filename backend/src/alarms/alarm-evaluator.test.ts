@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateThresholds, metricValue, AlarmThresholds } from './alarm-evaluator';
+import { ReadingMetric } from '../repositories/types';
+
+const thresholds: AlarmThresholds = {
+  alert_level: 4,
+  danger_level: 8,
+  hysteresis: 1,
+  consecutive_count: 3,
+};
+
+function metricRow(axis: string, rms: number, velocityRms: number | null): ReadingMetric {
+  return {
+    id: `metric-${axis}`,
+    reading_id: 'reading-1',
+    axis,
+    rms,
+    peak: rms * 1.4,
+    peak_to_peak: rms * 2.8,
+    crest_factor: 1.4,
+    kurtosis: 3,
+    skewness: 0,
+    velocity_rms: velocityRms,
+    created_at: new Date(),
+  };
+}
+
+describe('metricValue', () => {
+  const metrics = [metricRow('x', 0.2, 3), metricRow('y', 0.5, 7), metricRow('z', 0.1, null)];
+
+  it('should read a single axis', () => {
+    expect(metricValue(metrics, 'rms', 'y')).toBe(0.5);
+    expect(metricValue(metrics, 'velocity_rms', 'x')).toBe(3);
+  });
+
+  it('should take the largest axis when no axis is given', () => {
+    expect(metricValue(metrics, 'rms', null)).toBe(0.5);
+    expect(metricValue(metrics, 'velocity_rms', null)).toBe(7);
+  });
+
+  it('should return null when the metric is missing', () => {
+    expect(metricValue(metrics, 'velocity_rms', 'z')).toBeNull();
+    expect(metricValue([], 'rms', null)).toBeNull();
+  });
+});
+
+describe('evaluateThresholds', () => {
+  it('should raise only after consecutive_count violations', () => {
+    expect(evaluateThresholds(thresholds, [5, 5], null)).toEqual({ action: 'none' });
+    expect(evaluateThresholds(thresholds, [5, 3, 5], null)).toEqual({ action: 'none' });
+    expect(evaluateThresholds(thresholds, [5, 4, 6, 1], null)).toEqual({
+      action: 'raise',
+      severity: 'alert',
+      value: 5,
+      threshold: 4,
+    });
+  });
+
+  it('should raise danger when every reading in the run reaches danger_level', () => {
+    expect(evaluateThresholds(thresholds, [9, 8, 10], null)).toMatchObject({
+      action: 'raise',
+      severity: 'danger',
+      threshold: 8,
+    });
+    expect(evaluateThresholds(thresholds, [9, 5, 10], null)).toMatchObject({
+      action: 'raise',
+      severity: 'alert',
+    });
+  });
+
+  it('should treat readings without the metric as breaking the run', () => {
+    expect(evaluateThresholds(thresholds, [5, null, 5], null)).toEqual({ action: 'none' });
+    expect(evaluateThresholds(thresholds, [null, 5, 5, 5], 'alert')).toEqual({ action: 'none' });
+  });
+
+  it('should escalate an open alert to danger', () => {
+    expect(evaluateThresholds(thresholds, [9, 9, 9], 'alert')).toMatchObject({
+      action: 'escalate',
+      severity: 'danger',
+    });
+    expect(evaluateThresholds(thresholds, [9, 9, 9], 'danger')).toEqual({ action: 'none' });
+  });
+
+  it('should clear only below alert_level minus hysteresis', () => {
+    expect(evaluateThresholds(thresholds, [3.5, 9, 9], 'danger')).toEqual({ action: 'none' });
+    expect(evaluateThresholds(thresholds, [3, 9, 9], 'danger')).toEqual({ action: 'none' });
+    expect(evaluateThresholds(thresholds, [2.9, 9, 9], 'alert')).toEqual({
+      action: 'clear',
+      value: 2.9,
+    });
+  });
+});
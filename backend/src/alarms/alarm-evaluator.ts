@@ -0,0 +1,106 @@
+// Threshold evaluation of alarm rules against a sensor's recent readings
+
+import type {
+  AlarmMetric,
+  AlarmSeverity,
+  Axis,
+  ReadingMetric,
+} from '../repositories/types';
+
+export interface AlarmThresholds {
+  alert_level: number;
+  danger_level: number;
+  hysteresis: number; // Clear once the value drops below alert_level - hysteresis
+  consecutive_count: number; // Readings in a row that must exceed a level to raise it
+}
+
+export type AlarmDecision =
+  | { action: 'none' }
+  | { action: 'raise'; severity: AlarmSeverity; value: number; threshold: number }
+  | { action: 'escalate'; severity: 'danger'; value: number; threshold: number }
+  | { action: 'clear'; value: number };
+
+/**
+ * Value of a rule's metric for one reading
+ *
+ * @param metrics - The reading's reading_metrics rows
+ * @param axis - Axis to read, or null for the largest value of the three axes
+ * @returns The value, or null if the reading has no such metric (e.g. stored before it existed)
+ */
+export function metricValue(
+  metrics: ReadingMetric[],
+  metric: AlarmMetric,
+  axis: Axis | null
+): number | null {
+  const values = metrics
+    .filter((m) => axis === null || m.axis === axis)
+    .map((m) => m[metric])
+    .filter((value): value is number => value !== null);
+
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+/**
+ * Decide what a new reading means for one rule on one sensor
+ *
+ * - No open alarm: raise when the last consecutive_count readings all reach
+ *   alert_level; the severity is danger if they all reach danger_level
+ * - Open alert: escalate to danger when the last consecutive_count readings all
+ *   reach danger_level
+ * - Open alarm: clear when the newest reading drops below alert_level - hysteresis
+ *
+ * Readings without the metric (null) break a run of violations.
+ *
+ * @param values - The rule's metric for the sensor's most recent readings, newest first
+ * @param openSeverity - Severity of the rule's open alarm on this sensor, or null if none
+ */
+export function evaluateThresholds(
+  thresholds: AlarmThresholds,
+  values: (number | null)[],
+  openSeverity: AlarmSeverity | null
+): AlarmDecision {
+  const newest = values[0];
+  if (newest === undefined || newest === null) {
+    return { action: 'none' };
+  }
+
+  if (openSeverity !== null && newest < thresholds.alert_level - thresholds.hysteresis) {
+    return { action: 'clear', value: newest };
+  }
+
+  const window = values.slice(0, thresholds.consecutive_count);
+  const allReach = (level: number) =>
+    window.length === thresholds.consecutive_count &&
+    window.every((value) => value !== null && value >= level);
+
+  if (openSeverity === null) {
+    if (allReach(thresholds.danger_level)) {
+      return {
+        action: 'raise',
+        severity: 'danger',
+        value: newest,
+        threshold: thresholds.danger_level,
+      };
+    }
+    if (allReach(thresholds.alert_level)) {
+      return {
+        action: 'raise',
+        severity: 'alert',
+        value: newest,
+        threshold: thresholds.alert_level,
+      };
+    }
+    return { action: 'none' };
+  }
+
+  if (openSeverity === 'alert' && allReach(thresholds.danger_level)) {
+    return {
+      action: 'escalate',
+      severity: 'danger',
+      value: newest,
+      threshold: thresholds.danger_level,
+    };
+  }
+
+  return { action: 'none' };
+}
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Signal analysis configuration schema with Zod validation
+const analysisConfigSchema = z.object({
+  VELOCITY_HIGHPASS_HZ: z.coerce.number().positive().default(10),
+  VELOCITY_LOWPASS_HZ: z.coerce.number().positive().default(1000),
+});
+
+// Export the AnalysisConfig type
+export type AnalysisConfig = z.infer<typeof analysisConfigSchema>;
+
+// Parse and validate analysis environment variables
+export const analysisConfig = analysisConfigSchema.parse(process.env);
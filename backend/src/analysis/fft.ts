@@ -0,0 +1,92 @@
+// Radix-2 fast Fourier transform
+
+/**
+ * Smallest power of two greater than or equal to n (n >= 1)
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) {
+    size *= 2;
+  }
+  return size;
+}
+
+/**
+ * In-place iterative radix-2 Cooley-Tukey FFT
+ *
+ * @param re - Real parts, length must be a power of two (overwritten with the result)
+ * @param im - Imaginary parts, same length as re (overwritten with the result)
+ * @throws Error if the arrays differ in length or the length is not a power of two
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (im.length !== n) {
+    throw new Error(`FFT real/imaginary length mismatch (${n} vs ${im.length})`);
+  }
+  if (n === 0 || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT length must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+
+  // Butterflies
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b]! * wRe - im[b]! * wIm;
+        const tIm = re[b]! * wIm + im[b]! * wRe;
+
+        re[b] = re[a]! - tRe;
+        im[b] = im[a]! - tIm;
+        re[a] = re[a]! + tRe;
+        im[a] = im[a]! + tIm;
+
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * In-place inverse FFT (conjugate, forward transform, conjugate, scale by 1/n)
+ *
+ * @param re - Real parts, length must be a power of two (overwritten with the result)
+ * @param im - Imaginary parts, same length as re (overwritten with the result)
+ */
+export function ifft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 0; i < im.length; i++) {
+    im[i] = -im[i]!;
+  }
+
+  fft(re, im);
+
+  for (let i = 0; i < n; i++) {
+    re[i] = re[i]! / n;
+    im[i] = -im[i]! / n;
+  }
+}
@@ -0,0 +1,38 @@
+// ISO 10816 vibration severity zones by machine class
+
+import type { IsoZone, MachineClass } from '../repositories/types';
+
+/**
+ * Upper velocity RMS limits (mm/s) of zones A, B and C per machine class
+ *
+ * ISO 10816-1 Annex B:
+ * - Class I: small machines (up to 15 kW)
+ * - Class II: medium machines (15-75 kW, or up to 300 kW on special foundations)
+ * - Class III: large machines on rigid foundations
+ * - Class IV: large machines on soft foundations
+ * Anything above the zone C limit is zone D.
+ */
+export const ISO_10816_ZONE_LIMITS: Record<MachineClass, [number, number, number]> = {
+  I: [0.71, 1.8, 4.5],
+  II: [1.12, 2.8, 7.1],
+  III: [1.8, 4.5, 11.2],
+  IV: [2.8, 7.1, 18.0],
+};
+
+/**
+ * Classify an overall velocity RMS into an ISO 10816 evaluation zone
+ *
+ * A: newly commissioned, B: unrestricted long-term operation,
+ * C: restricted operation, D: severe enough to cause damage.
+ *
+ * @param velocityRms - Overall velocity RMS in mm/s (largest of the measured axes)
+ * @param machineClass - ISO 10816 machine class of the asset
+ */
+export function classifyIsoZone(velocityRms: number, machineClass: MachineClass): IsoZone {
+  const [limitA, limitB, limitC] = ISO_10816_ZONE_LIMITS[machineClass];
+
+  if (velocityRms <= limitA) return 'A';
+  if (velocityRms <= limitB) return 'B';
+  if (velocityRms <= limitC) return 'C';
+  return 'D';
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { computeAxisMetrics } from './metrics';
+
+describe('computeAxisMetrics', () => {
+  it('should match the textbook values for a sine wave', () => {
+    // 1 g sine on a 1 g gravity offset, whole number of cycles
+    const samples = Array.from(
+      { length: 1000 },
+      (_, i) => 1 + Math.sin((2 * Math.PI * 10 * i) / 1000)
+    );
+    const metrics = computeAxisMetrics(samples);
+
+    expect(metrics.rms).toBeCloseTo(1 / Math.SQRT2, 6);
+    expect(metrics.peak).toBeCloseTo(1, 6);
+    expect(metrics.peakToPeak).toBeCloseTo(2, 6);
+    expect(metrics.crestFactor).toBeCloseTo(Math.SQRT2, 6);
+    expect(metrics.kurtosis).toBeCloseTo(1.5, 6);
+    expect(metrics.skewness).toBeCloseTo(0, 6);
+  });
+
+  it('should flag impacts with a high crest factor and kurtosis', () => {
+    const samples = Array.from({ length: 1000 }, (_, i) => (i % 100 === 0 ? 10 : 0));
+    const metrics = computeAxisMetrics(samples);
+
+    expect(metrics.crestFactor).toBeGreaterThan(5);
+    expect(metrics.kurtosis).toBeGreaterThan(50);
+    expect(metrics.skewness).toBeGreaterThan(5);
+  });
+
+  it('should return zeros for flat or empty waveforms', () => {
+    const zeros = { rms: 0, peak: 0, peakToPeak: 0, crestFactor: 0, kurtosis: 0, skewness: 0 };
+    expect(computeAxisMetrics([])).toEqual(zeros);
+    expect(computeAxisMetrics([0.98, 0.98, 0.98])).toEqual(zeros);
+  });
+});
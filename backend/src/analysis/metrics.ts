@@ -0,0 +1,66 @@
+// Overall vibration metrics (condition indicators) for a waveform axis
+
+export interface AxisMetrics {
+  rms: number;
+  peak: number; // True peak: largest absolute deviation from the mean
+  peakToPeak: number;
+  crestFactor: number; // peak / rms
+  kurtosis: number; // Non-excess: 3 for Gaussian vibration, higher for impacts
+  skewness: number;
+}
+
+/**
+ * Compute overall condition indicators for one axis
+ *
+ * The mean is removed first so the accelerometer's DC/gravity offset does not
+ * inflate RMS or peak. Single pass over central moments; a flat or empty
+ * waveform returns zeros rather than NaN.
+ *
+ * @param samples - Waveform samples (e.g. one axis in g)
+ */
+export function computeAxisMetrics(samples: number[]): AxisMetrics {
+  const count = samples.length;
+  if (count === 0) {
+    return { rms: 0, peak: 0, peakToPeak: 0, crestFactor: 0, kurtosis: 0, skewness: 0 };
+  }
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of samples) {
+    sum += value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const mean = sum / count;
+
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const value of samples) {
+    const d = value - mean;
+    const d2 = d * d;
+    m2 += d2;
+    m3 += d2 * d;
+    m4 += d2 * d2;
+  }
+  m2 /= count;
+  m3 /= count;
+  m4 /= count;
+
+  const rms = Math.sqrt(m2);
+  const peak = Math.max(max - mean, mean - min);
+
+  if (rms === 0) {
+    return { rms: 0, peak: 0, peakToPeak: 0, crestFactor: 0, kurtosis: 0, skewness: 0 };
+  }
+
+  return {
+    rms,
+    peak,
+    peakToPeak: max - min,
+    crestFactor: peak / rms,
+    kurtosis: m4 / (m2 * m2),
+    skewness: m3 / Math.pow(m2, 1.5),
+  };
+}
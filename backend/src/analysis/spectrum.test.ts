@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { fft, nextPowerOfTwo } from './fft';
+import { computeSpectrum, windowCoefficients } from './spectrum';
+
+// Sine of the given amplitude/frequency plus an optional DC offset
+function sine(amplitude: number, frequency: number, sampleRate: number, count: number, offset = 0) {
+  return Array.from(
+    { length: count },
+    (_, i) => offset + amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+}
+
+function peakBin(amplitudes: number[]): number {
+  return amplitudes.reduce((best, value, i) => (value > amplitudes[best]! ? i : best), 0);
+}
+
+describe('fft', () => {
+  it('should transform an impulse into a flat spectrum', () => {
+    const re = new Float64Array([1, 0, 0, 0, 0, 0, 0, 0]);
+    const im = new Float64Array(8);
+    fft(re, im);
+    expect(Array.from(re)).toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(Array.from(im).every((v) => Math.abs(v) < 1e-12)).toBe(true);
+  });
+
+  it('should reject lengths that are not a power of two', () => {
+    expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow('power of two');
+  });
+
+  it('should round sizes up to the next power of two', () => {
+    expect(nextPowerOfTwo(1)).toBe(1);
+    expect(nextPowerOfTwo(1000)).toBe(1024);
+    expect(nextPowerOfTwo(2048)).toBe(2048);
+  });
+});
+
+describe('computeSpectrum', () => {
+  const sampleRate = 1024;
+
+  it('should place a bin-centred sine at its frequency with its amplitude', () => {
+    const spectrum = computeSpectrum(sine(2, 64, sampleRate, 1024), sampleRate, {
+      window: 'rectangular',
+      averages: 1,
+      zeroPadding: 1,
+    });
+
+    expect(spectrum.fftSize).toBe(1024);
+    expect(spectrum.resolution).toBe(1);
+    expect(spectrum.amplitudes).toHaveLength(513);
+    expect(peakBin(spectrum.amplitudes)).toBe(64);
+    expect(spectrum.amplitudes[64]).toBeCloseTo(2, 6);
+  });
+
+  it('should remove the DC offset before transforming', () => {
+    const spectrum = computeSpectrum(sine(1, 100, sampleRate, 1024, 1), sampleRate);
+    expect(spectrum.amplitudes[0]).toBeLessThan(1e-9);
+  });
+
+  it('should recover off-bin amplitudes accurately with the flat-top window', () => {
+    // 100.5 Hz falls halfway between bins, the worst case for scalloping loss
+    const samples = sine(1, 100.5, sampleRate, 1024);
+
+    const hann = computeSpectrum(samples, sampleRate, { window: 'hann', averages: 1, zeroPadding: 1 });
+    const flattop = computeSpectrum(samples, sampleRate, {
+      window: 'flattop',
+      averages: 1,
+      zeroPadding: 1,
+    });
+
+    expect(Math.max(...flattop.amplitudes)).toBeCloseTo(1, 2);
+    expect(Math.max(...hann.amplitudes)).toBeLessThan(0.9);
+  });
+
+  it('should refine the bin spacing with zero-padding', () => {
+    const spectrum = computeSpectrum(sine(1, 64, sampleRate, 1024), sampleRate, {
+      window: 'hann',
+      averages: 1,
+      zeroPadding: 4,
+    });
+
+    expect(spectrum.fftSize).toBe(4096);
+    expect(spectrum.resolution).toBe(0.25);
+    expect(peakBin(spectrum.amplitudes) * spectrum.resolution).toBe(64);
+  });
+
+  it('should average overlapping segments', () => {
+    const spectrum = computeSpectrum(sine(1, 64, sampleRate, 2048), sampleRate, {
+      window: 'hann',
+      averages: 3,
+      zeroPadding: 1,
+    });
+
+    expect(spectrum.segmentLength).toBe(1024);
+    expect(peakBin(spectrum.amplitudes) * spectrum.resolution).toBe(64);
+    expect(spectrum.amplitudes[64]).toBeCloseTo(1, 6);
+  });
+
+  it('should reject averaging that leaves segments too short', () => {
+    expect(() =>
+      computeSpectrum(sine(1, 64, sampleRate, 32), sampleRate, {
+        window: 'hann',
+        averages: 8,
+        zeroPadding: 1,
+      })
+    ).toThrow('too few');
+  });
+});
+
+describe('windowCoefficients', () => {
+  it('should taper the Hann window to zero at the start', () => {
+    const window = windowCoefficients('hann', 8);
+    expect(window[0]).toBe(0);
+    expect(window[4]).toBeCloseTo(1, 12);
+  });
+});
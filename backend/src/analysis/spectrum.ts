@@ -0,0 +1,144 @@
+// Amplitude spectrum of a waveform axis (windowing, averaging, zero-padding)
+
+import { fft, nextPowerOfTwo } from './fft';
+
+export type WindowFunction = 'rectangular' | 'hann' | 'flattop';
+
+export interface SpectrumOptions {
+  window: WindowFunction;
+  averages: number; // Number of 50%-overlapping segments averaged (1 = whole waveform)
+  zeroPadding: number; // FFT length multiplier applied after rounding up to a power of two
+}
+
+export interface Spectrum {
+  resolution: number; // Hz per bin; bin k is at k * resolution
+  fftSize: number;
+  segmentLength: number;
+  amplitudes: number[]; // Single-sided peak amplitude per bin, in the waveform's units
+}
+
+export const DEFAULT_SPECTRUM_OPTIONS: SpectrumOptions = {
+  window: 'hann',
+  averages: 1,
+  zeroPadding: 1,
+};
+
+// Segments shorter than this give a spectrum too coarse to be useful
+const MIN_SEGMENT_LENGTH = 16;
+
+// Flat-top coefficients (same as MATLAB flattopwin): amplitude error < 0.1% between bins
+const FLATTOP_COEFFICIENTS = [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368];
+
+/**
+ * Window coefficients for a segment of the given length
+ *
+ * Periodic (DFT-even) form, which is what spectral analysis wants.
+ */
+export function windowCoefficients(window: WindowFunction, length: number): Float64Array {
+  const coefficients = new Float64Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const phase = (2 * Math.PI * i) / length;
+    switch (window) {
+      case 'rectangular':
+        coefficients[i] = 1;
+        break;
+      case 'hann':
+        coefficients[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'flattop':
+        coefficients[i] = FLATTOP_COEFFICIENTS.reduce(
+          (sum, a, k) => sum + (k % 2 === 0 ? a : -a) * Math.cos(k * phase),
+          0
+        );
+        break;
+    }
+  }
+
+  return coefficients;
+}
+
+/**
+ * Compute the single-sided amplitude spectrum of a waveform
+ *
+ * Each segment has its mean removed (accelerometers carry a DC/gravity offset),
+ * is windowed, zero-padded to fftSize and transformed. Power is averaged across
+ * segments and amplitudes are corrected for the window's coherent gain, so a
+ * sine of amplitude A shows a peak of A (exactly with flat-top, within the
+ * window's scalloping loss otherwise).
+ *
+ * @param samples - Waveform samples (e.g. one axis in g)
+ * @param sampleRate - Sampling rate in Hz (the sensor's ReadRate)
+ * @param options - Window, averaging and zero-padding
+ * @throws Error if the options leave segments shorter than 16 samples
+ */
+export function computeSpectrum(
+  samples: number[],
+  sampleRate: number,
+  options: SpectrumOptions = DEFAULT_SPECTRUM_OPTIONS
+): Spectrum {
+  if (!(sampleRate > 0)) {
+    throw new Error(`Sample rate must be positive, got ${sampleRate}`);
+  }
+  if (!Number.isInteger(options.averages) || options.averages < 1) {
+    throw new Error(`Averages must be a positive integer, got ${options.averages}`);
+  }
+  if (!Number.isInteger(options.zeroPadding) || options.zeroPadding < 1) {
+    throw new Error(`Zero padding must be a positive integer, got ${options.zeroPadding}`);
+  }
+
+  // With 50% overlap, k segments of length L cover (k + 1) * L / 2 samples
+  const segmentLength = Math.floor((2 * samples.length) / (options.averages + 1));
+  if (segmentLength < MIN_SEGMENT_LENGTH) {
+    throw new Error(
+      `${samples.length} samples are too few for ${options.averages} averages ` +
+        `(segments need at least ${MIN_SEGMENT_LENGTH} samples)`
+    );
+  }
+
+  const step = options.averages === 1 ? 0 : Math.floor(segmentLength / 2);
+  const fftSize = nextPowerOfTwo(segmentLength) * options.zeroPadding;
+  const bins = fftSize / 2 + 1;
+  const window = windowCoefficients(options.window, segmentLength);
+  const coherentGain = window.reduce((sum, w) => sum + w, 0);
+
+  const power = new Float64Array(bins);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+
+  for (let segment = 0; segment < options.averages; segment++) {
+    const offset = segment * step;
+
+    let mean = 0;
+    for (let i = 0; i < segmentLength; i++) {
+      mean += samples[offset + i]!;
+    }
+    mean /= segmentLength;
+
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < segmentLength; i++) {
+      re[i] = (samples[offset + i]! - mean) * window[i]!;
+    }
+
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      power[k] = power[k]! + re[k]! * re[k]! + im[k]! * im[k]!;
+    }
+  }
+
+  const amplitudes = new Array<number>(bins);
+  for (let k = 0; k < bins; k++) {
+    const magnitude = Math.sqrt(power[k]! / options.averages) / coherentGain;
+    // Fold negative frequencies into the single-sided spectrum (not DC or Nyquist)
+    amplitudes[k] = k === 0 || k === bins - 1 ? magnitude : 2 * magnitude;
+  }
+
+  return {
+    resolution: sampleRate / fftSize,
+    fftSize,
+    segmentLength,
+    amplitudes,
+  };
+}
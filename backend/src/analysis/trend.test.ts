@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildTrendPoints, trendThresholds } from './trend';
+import { AlarmRule, ReadingMetric, SensorReadingSummary } from '../repositories/types';
+
+function reading(id: string, recordedAt: string, temperature: number | null): SensorReadingSummary {
+  return {
+    id,
+    gateway_id: 'gw-1',
+    sensor_serial: 100001,
+    gateway_reading_id: 1,
+    recorded_at: new Date(recordedAt),
+    sample_rate: 25600,
+    sample_count: 4096,
+    temperature,
+    velocity_rms: null,
+    machine_class: null,
+    iso_zone: null,
+    asset_id: null,
+    measurement_point_id: null,
+    created_at: new Date(recordedAt),
+  };
+}
+
+function metricRow(readingId: string, axis: string, rms: number): ReadingMetric {
+  return {
+    id: `${readingId}-${axis}`,
+    reading_id: readingId,
+    axis,
+    rms,
+    peak: rms * 1.4,
+    peak_to_peak: rms * 2.8,
+    crest_factor: 1.4,
+    kurtosis: 3,
+    skewness: 0,
+    velocity_rms: null,
+    created_at: new Date(),
+  };
+}
+
+function rule(id: string, metric: string, axis: string | null): AlarmRule {
+  return {
+    id,
+    sensor_id: 'sensor-1',
+    asset_id: null,
+    name: `Rule ${id}`,
+    metric,
+    axis,
+    alert_level: 1,
+    danger_level: 2,
+    hysteresis: 0,
+    consecutive_count: 1,
+    enabled: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    deleted_at: null,
+  };
+}
+
+describe('buildTrendPoints', () => {
+  // Newest first, as returned by ReadingRepository.findBySensor
+  const readings = [
+    reading('r3', '2026-01-03T00:00:00Z', 41),
+    reading('r2', '2026-01-02T00:00:00Z', null),
+    reading('r1', '2026-01-01T00:00:00Z', 40),
+  ];
+  const metrics = [
+    metricRow('r1', 'x', 0.2),
+    metricRow('r1', 'y', 0.6),
+    metricRow('r3', 'x', 0.3),
+    metricRow('r3', 'y', 0.1),
+  ];
+
+  it('should return oldest first, skipping readings without the metric', () => {
+    const points = buildTrendPoints(readings, metrics, 'rms', null);
+
+    expect(points.map((p) => p.reading_id)).toEqual(['r1', 'r3']);
+    expect(points.map((p) => p.value)).toEqual([0.6, 0.3]);
+  });
+
+  it('should read a single axis or the reading temperature', () => {
+    expect(buildTrendPoints(readings, metrics, 'rms', 'x').map((p) => p.value)).toEqual([0.2, 0.3]);
+    expect(buildTrendPoints(readings, metrics, 'temperature', null).map((p) => p.value)).toEqual([
+      40, 41,
+    ]);
+  });
+});
+
+describe('trendThresholds', () => {
+  it('should keep only rules on the same metric and axis', () => {
+    const rules = [rule('a', 'rms', null), rule('b', 'rms', 'x'), rule('c', 'peak', null)];
+
+    expect(trendThresholds(rules, 'rms', null).map((t) => t.rule_id)).toEqual(['a']);
+    expect(trendThresholds(rules, 'rms', 'x').map((t) => t.rule_id)).toEqual(['b']);
+    expect(trendThresholds(rules, 'temperature', null)).toEqual([]);
+  });
+});
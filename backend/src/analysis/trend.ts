@@ -0,0 +1,96 @@
+// Metric history of a sensor's readings, with the alarm thresholds that apply to it
+
+import { metricValue } from '../alarms/alarm-evaluator';
+import type {
+  AlarmMetric,
+  AlarmRule,
+  Axis,
+  ReadingMetric,
+  SensorReadingSummary,
+} from '../repositories/types';
+
+// Trendable values: any reading metric, or the temperature reported with the reading
+export type TrendMetric = AlarmMetric | 'temperature';
+
+export interface TrendPoint {
+  reading_id: string;
+  recorded_at: Date;
+  value: number;
+}
+
+export interface TrendThreshold {
+  rule_id: string;
+  name: string;
+  alert_level: number;
+  danger_level: number;
+}
+
+/**
+ * Value of a trend metric for one reading
+ *
+ * @param axis - Axis to read, or null for the largest value of the three axes
+ *               (ignored for temperature, which is per reading)
+ * @returns The value, or null if the reading has none
+ */
+export function trendValue(
+  reading: SensorReadingSummary,
+  metrics: ReadingMetric[],
+  metric: TrendMetric,
+  axis: Axis | null
+): number | null {
+  if (metric === 'temperature') {
+    return reading.temperature;
+  }
+  return metricValue(metrics, metric, axis);
+}
+
+/**
+ * Build trend points in recorded_at order, skipping readings without the metric
+ *
+ * @param readings - Reading summaries in any order
+ * @param metrics - reading_metrics rows for those readings
+ */
+export function buildTrendPoints(
+  readings: SensorReadingSummary[],
+  metrics: ReadingMetric[],
+  metric: TrendMetric,
+  axis: Axis | null
+): TrendPoint[] {
+  const metricsByReading = new Map<string, ReadingMetric[]>();
+  for (const row of metrics) {
+    const rows = metricsByReading.get(row.reading_id) ?? [];
+    rows.push(row);
+    metricsByReading.set(row.reading_id, rows);
+  }
+
+  const points: TrendPoint[] = [];
+  for (const reading of readings) {
+    const value = trendValue(reading, metricsByReading.get(reading.id) ?? [], metric, axis);
+    if (value !== null) {
+      points.push({ reading_id: reading.id, recorded_at: reading.recorded_at, value });
+    }
+  }
+
+  return points.sort((a, b) => a.recorded_at.getTime() - b.recorded_at.getTime());
+}
+
+/**
+ * Thresholds of the rules that evaluate exactly this metric and axis
+ *
+ * A rule on one axis is not drawn on the largest-axis trend (and vice versa)
+ * because its levels do not apply to the plotted values.
+ */
+export function trendThresholds(
+  rules: AlarmRule[],
+  metric: TrendMetric,
+  axis: Axis | null
+): TrendThreshold[] {
+  return rules
+    .filter((rule) => rule.metric === metric && rule.axis === axis)
+    .map((rule) => ({
+      rule_id: rule.id,
+      name: rule.name,
+      alert_level: rule.alert_level,
+      danger_level: rule.danger_level,
+    }));
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { accelerationToVelocitySpectrum, integrateToVelocity, rms } from './velocity';
+import { classifyIsoZone } from './iso10816';
+
+const sampleRate = 8192;
+
+// Acceleration sine in g, whole number of cycles over the record
+function accelerationSine(amplitudeG: number, frequency: number, count = 8192) {
+  return Array.from(
+    { length: count },
+    (_, i) => amplitudeG * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+}
+
+describe('integrateToVelocity', () => {
+  const options = { highPassHz: 10, lowPassHz: 1000 };
+
+  it('should integrate a sine to A / (2*pi*f) in mm/s', () => {
+    const velocity = integrateToVelocity(accelerationSine(1, 128), sampleRate, options);
+
+    // 1 g at 128 Hz: 9806.65 / (2 * pi * 128) = 12.19 mm/s peak
+    const expectedPeak = 9806.65 / (2 * Math.PI * 128);
+    expect(velocity).toHaveLength(8192);
+    expect(Math.max(...velocity)).toBeCloseTo(expectedPeak, 2);
+    expect(rms(velocity)).toBeCloseTo(expectedPeak / Math.SQRT2, 2);
+  });
+
+  it('should ignore the DC (gravity) offset', () => {
+    const samples = accelerationSine(1, 128).map((value) => value + 1);
+    const velocity = integrateToVelocity(samples, sampleRate, options);
+    expect(rms(velocity)).toBeCloseTo(9806.65 / (2 * Math.PI * 128) / Math.SQRT2, 2);
+  });
+
+  it('should remove content outside the high-pass/low-pass band', () => {
+    const lowFrequency = integrateToVelocity(accelerationSine(1, 4), sampleRate, options);
+    const highFrequency = integrateToVelocity(accelerationSine(1, 2048), sampleRate, options);
+
+    expect(rms(lowFrequency)).toBeLessThan(1e-9);
+    expect(rms(highFrequency)).toBeLessThan(1e-9);
+  });
+});
+
+describe('accelerationToVelocitySpectrum', () => {
+  it('should divide in-band bins by 2*pi*f and zero the rest', () => {
+    // 1 g in every bin, 4 Hz per bin: bins 0-2 are below 10 Hz, bin 300 above 1000 Hz
+    const amplitudes = new Array(301).fill(1);
+    const velocity = accelerationToVelocitySpectrum(amplitudes, 4, {
+      highPassHz: 10,
+      lowPassHz: 1000,
+    });
+
+    expect(velocity.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(velocity[32]).toBeCloseTo(9806.65 / (2 * Math.PI * 128), 6);
+    expect(velocity[300]).toBe(0);
+  });
+});
+
+describe('classifyIsoZone', () => {
+  it('should apply the class limits with inclusive upper bounds', () => {
+    expect(classifyIsoZone(0.71, 'I')).toBe('A');
+    expect(classifyIsoZone(0.72, 'I')).toBe('B');
+    expect(classifyIsoZone(4.5, 'III')).toBe('B');
+    expect(classifyIsoZone(11.2, 'III')).toBe('C');
+    expect(classifyIsoZone(18.1, 'IV')).toBe('D');
+  });
+
+  it('should judge the same velocity more leniently for larger machine classes', () => {
+    expect(classifyIsoZone(5, 'I')).toBe('D');
+    expect(classifyIsoZone(5, 'II')).toBe('C');
+    expect(classifyIsoZone(5, 'III')).toBe('C');
+    expect(classifyIsoZone(5, 'IV')).toBe('B');
+  });
+});
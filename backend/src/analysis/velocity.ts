@@ -0,0 +1,107 @@
+// Acceleration-to-velocity integration in the frequency domain
+
+import { fft, ifft, nextPowerOfTwo } from './fft';
+
+export interface IntegrationOptions {
+  highPassHz: number; // Bins below this are zeroed (suppresses 1/f blow-up of low-frequency noise)
+  lowPassHz: number; // Bins above this are zeroed (ISO 10816 measures 10-1000 Hz)
+}
+
+// Standard gravity in mm/s^2: converts g to the mm/s^2 that integrate to mm/s
+const STANDARD_GRAVITY_MM_S2 = 9806.65;
+
+/**
+ * Integrate an acceleration waveform (g) into a velocity waveform (mm/s)
+ *
+ * The mean is removed and the record is zero-padded to a power of two. Each
+ * bin inside [highPassHz, lowPassHz] is divided by j*2*pi*f; every other bin
+ * (including DC) is zeroed, so the cut-offs act as a brick-wall band-pass.
+ * The Nyquist bin is zeroed too: it has no conjugate partner, so dividing it by
+ * j*w would leave a component that is not the spectrum of a real signal.
+ *
+ * @param samples - Acceleration samples in g
+ * @param sampleRate - Sampling rate in Hz
+ * @returns Velocity samples in mm/s, same length as the input
+ */
+export function integrateToVelocity(
+  samples: number[],
+  sampleRate: number,
+  options: IntegrationOptions
+): number[] {
+  const count = samples.length;
+  if (count === 0) {
+    return [];
+  }
+  if (!(sampleRate > 0)) {
+    throw new Error(`Sample rate must be positive, got ${sampleRate}`);
+  }
+
+  const mean = samples.reduce((sum, value) => sum + value, 0) / count;
+  const size = nextPowerOfTwo(count);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < count; i++) {
+    re[i] = (samples[i]! - mean) * STANDARD_GRAVITY_MM_S2;
+  }
+
+  fft(re, im);
+
+  for (let k = 0; k < size; k++) {
+    // Bins above size/2 are the negative frequencies
+    const frequency = ((k <= size / 2 ? k : k - size) * sampleRate) / size;
+    const absFrequency = Math.abs(frequency);
+
+    const outsideBand =
+      absFrequency < options.highPassHz || absFrequency > options.lowPassHz;
+    if (absFrequency === 0 || k === size / 2 || outsideBand) {
+      re[k] = 0;
+      im[k] = 0;
+      continue;
+    }
+
+    // (re + j*im) / (j*w) = im/w - j*re/w
+    const omega = 2 * Math.PI * frequency;
+    const real = re[k]!;
+    re[k] = im[k]! / omega;
+    im[k] = -real / omega;
+  }
+
+  ifft(re, im);
+
+  return Array.from(re.subarray(0, count));
+}
+
+/**
+ * Convert an acceleration amplitude spectrum (g) to a velocity spectrum (mm/s)
+ *
+ * Each bin inside [highPassHz, lowPassHz] is divided by 2*pi*f, matching
+ * integrateToVelocity; every other bin (including DC) is zeroed.
+ *
+ * @param amplitudes - Single-sided acceleration amplitudes in g; bin k is at k * resolution
+ * @param resolution - Hz per bin
+ * @returns Velocity amplitudes in mm/s, one per input bin
+ */
+export function accelerationToVelocitySpectrum(
+  amplitudes: number[],
+  resolution: number,
+  options: IntegrationOptions
+): number[] {
+  return amplitudes.map((amplitude, k) => {
+    const frequency = k * resolution;
+    if (frequency === 0 || frequency < options.highPassHz || frequency > options.lowPassHz) {
+      return 0;
+    }
+    return (amplitude * STANDARD_GRAVITY_MM_S2) / (2 * Math.PI * frequency);
+  });
+}
+
+/**
+ * Root-mean-square of a waveform (0 for an empty waveform)
+ */
+export function rms(samples: number[]): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  const sumOfSquares = samples.reduce((sum, value) => sum + value * value, 0);
+  return Math.sqrt(sumOfSquares / samples.length);
+}
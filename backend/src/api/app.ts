@@ -1,3 +1,4 @@
+import { randomUUID } from 'node:crypto';
 import Fastify, { FastifyServerOptions } from 'fastify';
 import { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { serializerCompiler, validatorCompiler } from 'fastify-type-provider-zod';
@@ -5,6 +6,7 @@ import { apiConfig } from './config';
 import corsPlugin from './plugins/cors';
 import helmetPlugin from './plugins/helmet';
 import errorHandlerPlugin from './plugins/error-handler';
+import authPlugin from './plugins/auth';
 
 /**
  * Build and configure Fastify application
@@ -21,7 +23,7 @@ export async function buildApp(options: FastifyServerOptions = {}) {
   } else if (apiConfig.NODE_ENV === 'production') {
     logger = {
       level: apiConfig.LOG_LEVEL,
-      redact: ['req.headers.authorization', 'req.body.password'],
+      redact: ['req.headers.authorization', 'req.headers.cookie', 'req.body.password'],
     };
   } else {
     // Development: use pino-pretty for human-readable logs
@@ -40,6 +42,8 @@ export async function buildApp(options: FastifyServerOptions = {}) {
 
   // Create Fastify instance with Zod type provider
   const app = Fastify({
+    // Request IDs are recorded in the audit log, so they must be unique across restarts
+    genReqId: () => randomUUID(),
     ...options,
     logger,
   }).withTypeProvider<ZodTypeProvider>();
@@ -48,15 +52,30 @@ export async function buildApp(options: FastifyServerOptions = {}) {
   app.setValidatorCompiler(validatorCompiler);
   app.setSerializerCompiler(serializerCompiler);
 
-  // Register plugins in order: CORS, security headers, error handling
+  // Register plugins in order: CORS, security headers, error handling, authentication
   await app.register(corsPlugin);
   await app.register(helmetPlugin);
   await app.register(errorHandlerPlugin);
+  await app.register(authPlugin);
 
   // Register routes with /api prefix
   await app.register(import('./routes/health'), { prefix: '/api' });
+  await app.register(import('./routes/auth'), { prefix: '/api/auth' });
+  await app.register(import('./routes/users'), { prefix: '/api/users' });
+  await app.register(import('./routes/audit'), { prefix: '/api/audit' });
+  await app.register(import('./routes/organizations'), { prefix: '/api/organizations' });
   await app.register(import('./routes/factories'), { prefix: '/api/factories' });
   await app.register(import('./routes/gateways'), { prefix: '/api/gateways' });
+  await app.register(import('./routes/areas'), { prefix: '/api/areas' });
+  await app.register(import('./routes/assets'), { prefix: '/api/assets' });
+  await app.register(import('./routes/measurement-points'), {
+    prefix: '/api/measurement-points',
+  });
+  await app.register(import('./routes/alarm-rules'), { prefix: '/api/alarm-rules' });
+  await app.register(import('./routes/alarms'), { prefix: '/api/alarms' });
+  await app.register(import('./routes/sensors'), { prefix: '/api/sensors' });
+  await app.register(import('./routes/readings'), { prefix: '/api/readings' });
+  await app.register(import('./routes/stream'), { prefix: '/api/stream' });
 
   return app;
 }
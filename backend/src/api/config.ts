@@ -6,6 +6,12 @@ const apiConfigSchema = z.object({
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   CORS_ORIGIN: z.string().default('*'),
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
+  SESSION_TTL_HOURS: z.coerce.number().min(1).default(168),
+  // Unset: Secure cookies in production only (browsers drop them over plain HTTP)
+  SESSION_COOKIE_SECURE: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val === 'true')),
 });
 
 // Export the ApiConfig type
@@ -0,0 +1,151 @@
+import fastifyPlugin from 'fastify-plugin';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { apiConfig } from '../config';
+import { userSessionRepository } from '../../repositories/UserSessionRepository';
+import { roleAssignmentRepository } from '../../repositories/RoleAssignmentRepository';
+import { factoryRepository } from '../../repositories/FactoryRepository';
+import { User } from '../../repositories/types';
+import { generateSessionToken, hashSessionToken } from '../../utils/password';
+import { AccessScope, buildAccessScope } from '../../access/access-control';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    user: User | null; // Signed-in user (null only on public routes)
+    sessionId: string | null;
+    access: AccessScope; // Signed-in user's roles (unset on public routes)
+  }
+}
+
+export const SESSION_COOKIE_NAME = 'mti_session';
+
+// Routes reachable without signing in (matched against the registered route URL)
+const PUBLIC_ROUTES = new Set(['/api/health', '/api/auth/login']);
+
+// Session last_used_at is refreshed at most this often per session
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const secureCookie = apiConfig.SESSION_COOKIE_SECURE ?? apiConfig.NODE_ENV === 'production';
+
+/**
+ * Read one cookie from the Cookie request header
+ */
+function readCookie(request: FastifyRequest, name: string): string | undefined {
+  const header = request.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+function sessionCookie(value: string, maxAgeSeconds: number): string {
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${value}`,
+    'Path=/api',
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Lax',
+  ];
+  if (secureCookie) {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+}
+
+/**
+ * Resolve a user's role assignments into the organizations and factories they can reach
+ */
+export async function loadAccessScope(userId: string): Promise<AccessScope> {
+  const grants = await roleAssignmentRepository.findByUser(userId);
+  const factories = await factoryRepository.findInScopes(
+    grants.flatMap((grant) => (grant.organization_id ? [grant.organization_id] : [])),
+    grants.flatMap((grant) => (grant.factory_id ? [grant.factory_id] : []))
+  );
+  return buildAccessScope(grants, factories);
+}
+
+/**
+ * Start a session for a user and set the session cookie on the reply
+ */
+export async function startSession(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  user: User
+): Promise<void> {
+  const token = generateSessionToken();
+  const ttlSeconds = Math.round(apiConfig.SESSION_TTL_HOURS * 3600);
+
+  await userSessionRepository.create({
+    user_id: user.id,
+    token_hash: hashSessionToken(token),
+    expires_at: new Date(Date.now() + ttlSeconds * 1000),
+    user_agent: request.headers['user-agent'] ?? null,
+    ip_address: request.ip,
+  });
+
+  reply.header('set-cookie', sessionCookie(token, ttlSeconds));
+}
+
+/**
+ * End the request's session (if any) and clear the session cookie
+ */
+export async function endSession(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const token = readCookie(request, SESSION_COOKIE_NAME);
+  if (token) {
+    await userSessionRepository.deleteByTokenHash(hashSessionToken(token));
+  }
+
+  reply.header('set-cookie', sessionCookie('', 0));
+}
+
+/**
+ * Session authentication plugin
+ *
+ * Every route except PUBLIC_ROUTES requires a valid session cookie, issued by
+ * POST /api/auth/login. The cookie holds a random token; only its SHA-256 is
+ * stored in user_sessions. Requests without a valid, unexpired session for an
+ * active user get 401 UNAUTHORIZED; otherwise request.user is the signed-in user
+ * and request.access the roles they hold (see access/access-control.ts).
+ */
+export default fastifyPlugin(async (fastify: FastifyInstance) => {
+  fastify.decorateRequest('user', null);
+  fastify.decorateRequest('sessionId', null);
+  // Set by the hook below on every request that gets past it
+  fastify.decorateRequest('access', null as unknown as AccessScope);
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    // CORS preflights carry no cookies
+    if (request.method === 'OPTIONS' || PUBLIC_ROUTES.has(request.routeOptions.url ?? '')) {
+      return;
+    }
+
+    const token = readCookie(request, SESSION_COOKIE_NAME);
+    const found = token
+      ? await userSessionRepository.findUserByTokenHash(hashSessionToken(token))
+      : undefined;
+
+    if (!found) {
+      return reply.code(401).send({
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Sign in required',
+          statusCode: 401,
+        },
+      });
+    }
+
+    request.user = found.user;
+    request.sessionId = found.session.id;
+    request.access = await loadAccessScope(found.user.id);
+
+    if (Date.now() - found.session.last_used_at.getTime() > TOUCH_INTERVAL_MS) {
+      await userSessionRepository.touch(found.session.id);
+    }
+  });
+});
@@ -0,0 +1,303 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createAlarmRuleSchema,
+  updateAlarmRuleSchema,
+  alarmRuleResponseSchema,
+  alarmRuleListQuerySchema,
+  alarmRuleListResponseSchema,
+} from '../schemas/alarms';
+import { alarmRuleRepository } from '../../repositories/AlarmRuleRepository';
+import { sensorRepository } from '../../repositories/SensorRepository';
+import { assetRepository } from '../../repositories/AssetRepository';
+import { AlarmMetric, AlarmRule, Axis, Role } from '../../repositories/types';
+import { alarmEngine } from '../../alarms/alarm-engine';
+import {
+  AccessScope,
+  accessibleFactoryIds,
+  checkRole,
+  factoryRole,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+/**
+ * Convert repository AlarmRule type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes deleted_at
+ */
+function toAlarmRuleResponse(rule: AlarmRule) {
+  return {
+    id: rule.id,
+    sensor_id: rule.sensor_id,
+    asset_id: rule.asset_id,
+    name: rule.name,
+    metric: rule.metric as AlarmMetric,
+    axis: rule.axis as Axis | null,
+    alert_level: rule.alert_level,
+    danger_level: rule.danger_level,
+    hysteresis: rule.hysteresis,
+    consecutive_count: rule.consecutive_count,
+    enabled: rule.enabled,
+    created_at: rule.created_at.toISOString(),
+    updated_at: rule.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Check the user's role on the factory of a rule's sensor or asset
+ *
+ * @returns Error response body (404 ALARM_RULE_NOT_FOUND or 403 FORBIDDEN), or null if allowed
+ */
+async function checkRuleRole(access: AccessScope, ruleId: string, required: Role) {
+  const factoryId = await alarmRuleRepository.findFactoryId(ruleId);
+  return checkRole(factoryId ? factoryRole(access, factoryId) : null, required, {
+    code: 'ALARM_RULE_NOT_FOUND',
+    message: 'Alarm rule not found',
+  });
+}
+
+/**
+ * Alarm rule CRUD routes
+ *
+ * Rules are evaluated by the alarm engine every time a reading is stored:
+ * - POST / - Create rule for a sensor or an asset
+ * - GET / - List rules with pagination and sensor/asset filters
+ * - GET /:id - Get rule by ID
+ * - PUT /:id - Update rule thresholds, metric or enabled flag
+ * - DELETE /:id - Soft delete rule (its open alarm events are cleared; all are kept)
+ *
+ * A rule belongs to the factory of its sensor's gateway or of its asset. Users see
+ * only the rules of factories they hold a role on; creating, updating and deleting
+ * rules needs the engineer role on the rule's factory.
+ *
+ * Missing (or inaccessible) resources return 404 ALARM_RULE_NOT_FOUND (or SENSOR_NOT_FOUND,
+ * ASSET_NOT_FOUND on create)
+ * Insufficient roles return 403 FORBIDDEN
+ */
+const alarmRuleRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST / - Create rule
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createAlarmRuleSchema,
+        response: {
+          201: alarmRuleResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { sensor_id, asset_id } = request.body;
+
+      if (sensor_id) {
+        const factoryId = await sensorRepository.findFactoryId(sensor_id);
+        const denied = checkRole(
+          factoryId ? factoryRole(request.access, factoryId) : null,
+          'engineer',
+          { code: 'SENSOR_NOT_FOUND', message: 'Sensor not found' }
+        );
+        if (denied) {
+          return (reply as any).code(denied.error.statusCode).send(denied);
+        }
+      }
+
+      if (asset_id) {
+        const asset = await assetRepository.findById(asset_id);
+        const denied = checkRole(
+          asset ? factoryRole(request.access, asset.factory_id) : null,
+          'engineer',
+          { code: 'ASSET_NOT_FOUND', message: 'Asset not found' }
+        );
+        if (denied) {
+          return (reply as any).code(denied.error.statusCode).send(denied);
+        }
+      }
+
+      const rule = await alarmRuleRepository.create(request.body);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'alarm_rule',
+        entityId: rule.id,
+        after: rule,
+      });
+      return reply.status(201).send(toAlarmRuleResponse(rule));
+    }
+  );
+
+  // GET / - List rules the user can see, with pagination and optional target filters
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: alarmRuleListQuerySchema,
+        response: {
+          200: alarmRuleListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, sensor_id, asset_id } = request.query;
+      const factoryIds = accessibleFactoryIds(request.access);
+
+      const [rules, total] = await Promise.all([
+        alarmRuleRepository.findAll({ limit, offset, sensor_id, asset_id, factoryIds }),
+        alarmRuleRepository.count({ sensor_id, asset_id, factoryIds }),
+      ]);
+
+      return {
+        data: rules.map(toAlarmRuleResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get rule by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: alarmRuleResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkRuleRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const rule = await alarmRuleRepository.findById(request.params.id);
+
+      if (!rule) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ALARM_RULE_NOT_FOUND',
+            message: 'Alarm rule not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      return toAlarmRuleResponse(rule);
+    }
+  );
+
+  // PUT /:id - Update rule
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateAlarmRuleSchema,
+        response: {
+          200: alarmRuleResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkRuleRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const existing = await alarmRuleRepository.findById(request.params.id);
+
+      if (!existing) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ALARM_RULE_NOT_FOUND',
+            message: 'Alarm rule not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      // Levels may be updated one at a time, so check them against the stored rule
+      const alertLevel = request.body.alert_level ?? existing.alert_level;
+      const dangerLevel = request.body.danger_level ?? existing.danger_level;
+      if (dangerLevel < alertLevel) {
+        return (reply as any).code(400).send({
+          error: {
+            code: 'INVALID_ALARM_LEVELS',
+            message: 'danger_level must be greater than or equal to alert_level',
+            statusCode: 400,
+          },
+        });
+      }
+
+      const updated = await alarmRuleRepository.update(request.params.id, request.body);
+
+      if (!updated) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ALARM_RULE_NOT_FOUND',
+            message: 'Alarm rule not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'alarm_rule',
+        entityId: updated.id,
+        before: existing,
+        after: updated,
+      });
+      return toAlarmRuleResponse(updated);
+    }
+  );
+
+  // DELETE /:id - Soft delete rule
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkRuleRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await alarmRuleRepository.findById(request.params.id);
+      const deleted = await alarmEngine.deleteRule(request.params.id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'ALARM_RULE_NOT_FOUND',
+            message: 'Alarm rule not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'alarm_rule',
+        entityId: request.params.id,
+        before,
+      });
+      return reply.code(204).send();
+    }
+  );
+};
+
+export default alarmRuleRoutes;
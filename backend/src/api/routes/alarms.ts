@@ -0,0 +1,250 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  alarmEventResponseSchema,
+  alarmEventListQuerySchema,
+  alarmEventListResponseSchema,
+} from '../schemas/alarms';
+import {
+  alarmEventRepository,
+  AlarmEventDetail,
+} from '../../repositories/AlarmEventRepository';
+import { AlarmMetric, AlarmSeverity, AlarmStatus, Axis, Role } from '../../repositories/types';
+import { alarmEngine } from '../../alarms/alarm-engine';
+import {
+  AccessScope,
+  accessibleFactoryIds,
+  checkRole,
+  factoryRole,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+/**
+ * Lifecycle state of an alarm event (cleared takes precedence over acknowledged)
+ */
+function alarmStatus(event: AlarmEventDetail): AlarmStatus {
+  if (event.cleared_at) return 'cleared';
+  if (event.acknowledged_at) return 'acknowledged';
+  return 'active';
+}
+
+/**
+ * Convert repository AlarmEventDetail type to API response format
+ *
+ * Serializes Date objects to ISO strings and derives status
+ */
+function toAlarmEventResponse(event: AlarmEventDetail) {
+  return {
+    id: event.id,
+    rule_id: event.rule_id,
+    rule_name: event.rule_name,
+    metric: event.metric as AlarmMetric,
+    axis: event.axis as Axis | null,
+    sensor_id: event.sensor_id,
+    reading_id: event.reading_id,
+    asset_id: event.asset_id,
+    measurement_point_id: event.measurement_point_id,
+    severity: event.severity as AlarmSeverity,
+    status: alarmStatus(event),
+    value: event.value,
+    threshold: event.threshold,
+    raised_at: event.raised_at.toISOString(),
+    acknowledged_at: event.acknowledged_at?.toISOString() ?? null,
+    cleared_at: event.cleared_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Check the user's role on the factory of an event's sensor's gateway
+ *
+ * @returns Error response body (404 ALARM_NOT_FOUND or 403 FORBIDDEN), or null if allowed
+ */
+async function checkAlarmRole(access: AccessScope, alarmId: string, required: Role) {
+  const factoryId = await alarmEventRepository.findFactoryId(alarmId);
+  return checkRole(factoryId ? factoryRole(access, factoryId) : null, required, {
+    code: 'ALARM_NOT_FOUND',
+    message: 'Alarm not found',
+  });
+}
+
+/**
+ * Alarm event routes
+ *
+ * Events are raised, escalated and cleared by the alarm engine as readings are
+ * stored; users acknowledge them, and can clear them by hand (a still-violating
+ * sensor raises a new event once its rule's consecutive count is reached again):
+ * - GET / - List alarm events, newest first, with status/severity/sensor/rule/asset/point filters
+ * - GET /:id - Get alarm event by ID
+ * - POST /:id/acknowledge - Acknowledge alarm event
+ * - POST /:id/clear - Clear alarm event
+ *
+ * Users see only the events of sensors on gateways of factories they hold a role on;
+ * acknowledging and clearing events needs the engineer role on that factory.
+ *
+ * Acknowledge and clear are idempotent and published to live streams.
+ * Missing (or inaccessible) events return 404 ALARM_NOT_FOUND
+ * Insufficient roles return 403 FORBIDDEN
+ */
+const alarmRoutes: FastifyPluginAsyncZod = async (app) => {
+  // GET / - List alarm events the user can see, with pagination and optional filters
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: alarmEventListQuerySchema,
+        response: {
+          200: alarmEventListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, ...query } = request.query;
+      const filter = { ...query, factoryIds: accessibleFactoryIds(request.access) };
+
+      const [events, total] = await Promise.all([
+        alarmEventRepository.findAll({ ...filter, limit, offset }),
+        alarmEventRepository.count(filter),
+      ]);
+
+      return {
+        data: events.map(toAlarmEventResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get alarm event by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: alarmEventResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkAlarmRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const event = await alarmEventRepository.findById(request.params.id);
+
+      if (!event) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ALARM_NOT_FOUND',
+            message: 'Alarm not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      return toAlarmEventResponse(event);
+    }
+  );
+
+  // POST /:id/acknowledge - Acknowledge alarm event
+  app.post(
+    '/:id/acknowledge',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: alarmEventResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkAlarmRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await alarmEventRepository.findById(request.params.id);
+      const acknowledged = await alarmEventRepository.acknowledge(request.params.id);
+      const event = acknowledged
+        ? await alarmEventRepository.findById(request.params.id)
+        : undefined;
+
+      if (!event) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ALARM_NOT_FOUND',
+            message: 'Alarm not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await alarmEngine.publishChange(event, 'acknowledged');
+      await recordAudit(request, {
+        action: 'acknowledge',
+        entityType: 'alarm_event',
+        entityId: event.id,
+        before,
+        after: event,
+      });
+      return toAlarmEventResponse(event);
+    }
+  );
+
+  // POST /:id/clear - Clear alarm event
+  app.post(
+    '/:id/clear',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: alarmEventResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkAlarmRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await alarmEventRepository.findById(request.params.id);
+      const cleared = await alarmEventRepository.clear(request.params.id);
+      const event = cleared ? await alarmEventRepository.findById(request.params.id) : undefined;
+
+      if (!event) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ALARM_NOT_FOUND',
+            message: 'Alarm not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await alarmEngine.publishChange(event, 'cleared');
+      await recordAudit(request, {
+        action: 'clear',
+        entityType: 'alarm_event',
+        entityId: event.id,
+        before,
+        after: event,
+      });
+      return toAlarmEventResponse(event);
+    }
+  );
+};
+
+export default alarmRoutes;
@@ -0,0 +1,278 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createAreaSchema,
+  updateAreaSchema,
+  areaResponseSchema,
+  areaListResponseSchema,
+  areaListQuerySchema,
+} from '../schemas/areas';
+import { areaRepository } from '../../repositories/AreaRepository';
+import { assetRepository } from '../../repositories/AssetRepository';
+import { factoryRepository } from '../../repositories/FactoryRepository';
+import { Area } from '../../repositories/types';
+import { accessibleFactoryIds, checkRole, factoryRole } from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+const AREA_NOT_FOUND = { code: 'AREA_NOT_FOUND', message: 'Area not found' };
+
+/**
+ * Convert repository Area type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes deleted_at
+ */
+function toAreaResponse(area: Area) {
+  return {
+    id: area.id,
+    factory_id: area.factory_id,
+    name: area.name,
+    description: area.description,
+    metadata: (area.metadata || {}) as Record<string, unknown>,
+    created_at: area.created_at.toISOString(),
+    updated_at: area.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Area CRUD routes
+ *
+ * Areas are the production areas or lines of a factory that group its assets:
+ * - POST / - Create area in a factory
+ * - GET / - List areas with pagination and factory filter
+ * - GET /:id - Get area by ID
+ * - PUT /:id - Update area name, description or metadata
+ * - DELETE /:id - Soft delete an empty area
+ *
+ * Users see only the areas of factories they hold a role on; creating, updating
+ * and deleting areas needs the engineer role on the area's factory.
+ *
+ * Missing (or inaccessible) resources return 404 AREA_NOT_FOUND (or FACTORY_NOT_FOUND on create)
+ * Insufficient roles return 403 FORBIDDEN
+ * Deleting an area that still has assets returns 409 AREA_NOT_EMPTY
+ */
+const areaRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST / - Create area
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createAreaSchema,
+        response: {
+          201: areaResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const factory = await factoryRepository.findById(request.body.factory_id);
+      const denied = checkRole(
+        factory ? factoryRole(request.access, factory.id) : null,
+        'engineer',
+        { code: 'FACTORY_NOT_FOUND', message: 'Factory not found' }
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const area = await areaRepository.create(request.body as any);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'area',
+        entityId: area.id,
+        after: area,
+      });
+      return reply.status(201).send(toAreaResponse(area));
+    }
+  );
+
+  // GET / - List areas the user can see, with pagination and optional factory filter
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: areaListQuerySchema,
+        response: {
+          200: areaListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, factory_id } = request.query;
+
+      let areas: Area[];
+      let total: number;
+
+      if (factory_id) {
+        // Filter by factory_id (a factory the user cannot see has no areas for them)
+        const factoryAreas = factoryRole(request.access, factory_id)
+          ? await areaRepository.findByFactory(factory_id)
+          : [];
+        total = factoryAreas.length;
+        // Apply manual pagination to filtered results
+        areas = factoryAreas.slice(offset, offset + limit);
+      } else {
+        // No filter - fetch all accessible areas with pagination
+        const factoryIds = accessibleFactoryIds(request.access);
+        [areas, total] = await Promise.all([
+          areaRepository.findAll({ limit, offset, factoryIds }),
+          areaRepository.count({ factoryIds }),
+        ]);
+      }
+
+      return {
+        data: areas.map(toAreaResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get area by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: areaResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const area = await areaRepository.findById(request.params.id);
+
+      if (!area) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'AREA_NOT_FOUND',
+            message: 'Area not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, area.factory_id),
+        'viewer',
+        AREA_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      return toAreaResponse(area);
+    }
+  );
+
+  // PUT /:id - Update area
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateAreaSchema,
+        response: {
+          200: areaResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const before = await areaRepository.findById(request.params.id);
+      const denied = checkRole(
+        before ? factoryRole(request.access, before.factory_id) : null,
+        'engineer',
+        AREA_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const updated = await areaRepository.update(request.params.id, request.body as any);
+
+      if (!updated) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'AREA_NOT_FOUND',
+            message: 'Area not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'area',
+        entityId: updated.id,
+        before,
+        after: updated,
+      });
+      return toAreaResponse(updated);
+    }
+  );
+
+  // DELETE /:id - Soft delete area
+  //
+  // Assets must be moved or deleted first so none silently lose their area.
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const before = await areaRepository.findById(request.params.id);
+      const denied = checkRole(
+        before ? factoryRole(request.access, before.factory_id) : null,
+        'engineer',
+        AREA_NOT_FOUND
+      );
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const assets = await assetRepository.findByArea(request.params.id);
+      if (assets.length > 0) {
+        return reply.code(409).send({
+          error: {
+            code: 'AREA_NOT_EMPTY',
+            message: `Area still has ${assets.length} ${assets.length === 1 ? 'asset' : 'assets'}`,
+            statusCode: 409,
+          },
+        });
+      }
+
+      const deleted = await areaRepository.softDelete(request.params.id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'AREA_NOT_FOUND',
+            message: 'Area not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'area',
+        entityId: request.params.id,
+        before,
+      });
+      return reply.code(204).send();
+    }
+  );
+};
+
+export default areaRoutes;
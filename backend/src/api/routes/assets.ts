@@ -0,0 +1,341 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createAssetSchema,
+  updateAssetSchema,
+  assetResponseSchema,
+  assetListResponseSchema,
+  assetListQuerySchema,
+} from '../schemas/assets';
+import { assetRepository } from '../../repositories/AssetRepository';
+import { factoryRepository } from '../../repositories/FactoryRepository';
+import { areaRepository } from '../../repositories/AreaRepository';
+import { Asset, AssetType, MachineClass } from '../../repositories/types';
+import {
+  AccessScope,
+  accessibleFactoryIds,
+  checkRole,
+  factoryRole,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+const ASSET_NOT_FOUND = { code: 'ASSET_NOT_FOUND', message: 'Asset not found' };
+
+/**
+ * Convert repository Asset type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes deleted_at
+ */
+function toAssetResponse(asset: Asset) {
+  return {
+    id: asset.id,
+    factory_id: asset.factory_id,
+    area_id: asset.area_id,
+    name: asset.name,
+    asset_type: asset.asset_type as AssetType | null,
+    machine_class: asset.machine_class as MachineClass | null,
+    metadata: (asset.metadata || {}) as Record<string, unknown>,
+    created_at: asset.created_at.toISOString(),
+    updated_at: asset.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Check that an area exists and belongs to the asset's factory
+ *
+ * Areas of factories the user cannot see are reported as not found.
+ *
+ * @returns Error response body, or null if the area can hold the asset
+ */
+async function checkArea(access: AccessScope, areaId: string, factoryId: string) {
+  const area = await areaRepository.findById(areaId);
+  if (!area || !factoryRole(access, area.factory_id)) {
+    return {
+      error: { code: 'AREA_NOT_FOUND', message: 'Area not found', statusCode: 404 },
+    };
+  }
+  if (area.factory_id !== factoryId) {
+    return {
+      error: {
+        code: 'AREA_FACTORY_MISMATCH',
+        message: 'Area belongs to a different factory',
+        statusCode: 400,
+      },
+    };
+  }
+  return null;
+}
+
+/**
+ * Asset CRUD routes
+ *
+ * Assets are the machines sensors are mounted on. Their ISO 10816 machine
+ * class decides the severity zone of each new reading:
+ * - POST / - Create asset in a factory, optionally in one of its areas
+ * - GET / - List assets with pagination and factory or area filter
+ * - GET /:id - Get asset by ID
+ * - PUT /:id - Update asset name, area, type, machine class or metadata
+ * - DELETE /:id - Soft delete asset and its measurement points, unmounting their sensors
+ *
+ * Users see only the assets of factories they hold a role on; creating, updating
+ * and deleting assets needs the engineer role on the asset's factory.
+ *
+ * Missing (or inaccessible) resources return 404 ASSET_NOT_FOUND (or FACTORY_NOT_FOUND,
+ * AREA_NOT_FOUND)
+ * Insufficient roles return 403 FORBIDDEN
+ * Areas of another factory return 400 AREA_FACTORY_MISMATCH
+ */
+const assetRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST / - Create asset
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createAssetSchema,
+        response: {
+          201: assetResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const factory = await factoryRepository.findById(request.body.factory_id);
+      if (!factory) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'FACTORY_NOT_FOUND',
+            message: 'Factory not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(factoryRole(request.access, factory.id), 'engineer', {
+        code: 'FACTORY_NOT_FOUND',
+        message: 'Factory not found',
+      });
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      if (request.body.area_id) {
+        const areaError = await checkArea(request.access, request.body.area_id, factory.id);
+        if (areaError) {
+          return (reply as any).code(areaError.error.statusCode).send(areaError);
+        }
+      }
+
+      const asset = await assetRepository.create(request.body as any);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'asset',
+        entityId: asset.id,
+        after: asset,
+      });
+      return reply.status(201).send(toAssetResponse(asset));
+    }
+  );
+
+  // GET / - List assets the user can see, with pagination and optional factory or area filter
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: assetListQuerySchema,
+        response: {
+          200: assetListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, factory_id, area_id } = request.query;
+
+      let assets: Asset[];
+      let total: number;
+
+      if (area_id) {
+        // Filter by area_id (implies its factory, which the user must be able to see)
+        const areaAssets = (await assetRepository.findByArea(area_id)).filter((asset) =>
+          factoryRole(request.access, asset.factory_id)
+        );
+        total = areaAssets.length;
+        assets = areaAssets.slice(offset, offset + limit);
+      } else if (factory_id) {
+        // Filter by factory_id (a factory the user cannot see has no assets for them)
+        const factoryAssets = factoryRole(request.access, factory_id)
+          ? await assetRepository.findByFactory(factory_id)
+          : [];
+        total = factoryAssets.length;
+        // Apply manual pagination to filtered results
+        assets = factoryAssets.slice(offset, offset + limit);
+      } else {
+        // No filter - fetch all accessible assets with pagination
+        const factoryIds = accessibleFactoryIds(request.access);
+        [assets, total] = await Promise.all([
+          assetRepository.findAll({ limit, offset, factoryIds }),
+          assetRepository.count({ factoryIds }),
+        ]);
+      }
+
+      return {
+        data: assets.map(toAssetResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get asset by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: assetResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const asset = await assetRepository.findById(request.params.id);
+
+      if (!asset) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ASSET_NOT_FOUND',
+            message: 'Asset not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, asset.factory_id),
+        'viewer',
+        ASSET_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      return toAssetResponse(asset);
+    }
+  );
+
+  // PUT /:id - Update asset
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateAssetSchema,
+        response: {
+          200: assetResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const before = await assetRepository.findById(request.params.id);
+      if (!before) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ASSET_NOT_FOUND',
+            message: 'Asset not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, before.factory_id),
+        'engineer',
+        ASSET_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      if (request.body.area_id) {
+        const areaError = await checkArea(request.access, request.body.area_id, before.factory_id);
+        if (areaError) {
+          return (reply as any).code(areaError.error.statusCode).send(areaError);
+        }
+      }
+
+      const updated = await assetRepository.update(request.params.id, request.body as any);
+
+      if (!updated) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ASSET_NOT_FOUND',
+            message: 'Asset not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'asset',
+        entityId: updated.id,
+        before,
+        after: updated,
+      });
+      return toAssetResponse(updated);
+    }
+  );
+
+  // DELETE /:id - Soft delete asset
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const before = await assetRepository.findById(request.params.id);
+      const denied = checkRole(
+        before ? factoryRole(request.access, before.factory_id) : null,
+        'engineer',
+        ASSET_NOT_FOUND
+      );
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const deleted = await assetRepository.softDelete(request.params.id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'ASSET_NOT_FOUND',
+            message: 'Asset not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'asset',
+        entityId: deleted.id,
+        before,
+      });
+
+      return reply.code(204).send();
+    }
+  );
+};
+
+export default assetRoutes;
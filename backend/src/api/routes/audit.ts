@@ -0,0 +1,88 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { auditEventListQuerySchema, auditEventListResponseSchema } from '../schemas/audit';
+import { auditEventRepository } from '../../repositories/AuditEventRepository';
+import { AuditAction, AuditEntityType, AuditEvent } from '../../repositories/types';
+import { AuditChanges } from '../../audit/audit-diff';
+import { roleAtLeast } from '../../access/access-control';
+
+/**
+ * Convert repository AuditEvent type to API response format
+ *
+ * Serializes Date objects to ISO strings
+ */
+function toAuditEventResponse(event: AuditEvent) {
+  return {
+    id: event.id,
+    occurred_at: event.occurred_at.toISOString(),
+    user_id: event.user_id,
+    actor_email: event.actor_email,
+    action: event.action as AuditAction,
+    entity_type: event.entity_type as AuditEntityType,
+    entity_id: event.entity_id,
+    changes: (event.changes || {}) as AuditChanges,
+    request_id: event.request_id,
+    ip_address: event.ip_address,
+  };
+}
+
+/**
+ * Audit log routes
+ *
+ * Every mutating API call records an event (see audit/audit-log.ts); the log is
+ * read-only and only users with the admin role on every organization can see it:
+ * - GET / - List audit events, newest first, with entity/user/action/time range filters
+ *
+ * Other users get 403 FORBIDDEN
+ */
+const auditRoutes: FastifyPluginAsyncZod = async (app) => {
+  app.addHook('onRequest', async (request, reply) => {
+    if (!roleAtLeast(request.access.global, 'admin')) {
+      return reply.code(403).send({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Requires the admin role on every organization',
+          statusCode: 403,
+        },
+      });
+    }
+  });
+
+  // GET / - List audit events with pagination and filters
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: auditEventListQuerySchema,
+        response: {
+          200: auditEventListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, from, to, ...rest } = request.query;
+      const filter = {
+        ...rest,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      };
+
+      const [events, total] = await Promise.all([
+        auditEventRepository.findAll({ ...filter, limit, offset }),
+        auditEventRepository.count(filter),
+      ]);
+
+      return {
+        data: events.map(toAuditEventResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+};
+
+export default auditRoutes;
@@ -0,0 +1,127 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { loginSchema, currentUserResponseSchema } from '../schemas/auth';
+import { userRepository } from '../../repositories/UserRepository';
+import { roleAssignmentRepository } from '../../repositories/RoleAssignmentRepository';
+import { User } from '../../repositories/types';
+import { DUMMY_PASSWORD_HASH, verifyPassword } from '../../utils/password';
+import {
+  AccessScope,
+  factoryRole,
+  organizationRole,
+  visibleOrganizationIds,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+import { startSession, endSession, loadAccessScope } from '../plugins/auth';
+import { toUserResponse } from './users';
+import { closeSessionStreams } from './stream';
+
+/**
+ * Build the signed-in user response: the user, their role assignments and the
+ * effective role on every organization and factory they can see
+ *
+ * Lets the frontend hide actions the user's roles do not allow.
+ */
+async function toCurrentUserResponse(user: User, scope: AccessScope) {
+  const organizationIds = visibleOrganizationIds(scope) ?? [...scope.organizations.keys()];
+
+  return {
+    ...toUserResponse(user, await roleAssignmentRepository.findByUser(user.id)),
+    access: {
+      global: scope.global,
+      organizations: Object.fromEntries(
+        organizationIds.map((id) => [id, organizationRole(scope, id)!])
+      ),
+      factories: Object.fromEntries(
+        [...scope.factories.keys()].map((id) => [id, factoryRole(scope, id)!])
+      ),
+    },
+  };
+}
+
+/**
+ * Sign-in routes
+ *
+ * - POST /login - Check email and password, start a session and set the session cookie
+ * - POST /logout - End the current session and clear the cookie
+ * - GET /me - The signed-in user, their role assignments and effective roles
+ *
+ * Unknown emails and wrong passwords both return 401 INVALID_CREDENTIALS
+ * (neither the message nor the response time reveals which one was wrong)
+ */
+const authRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST /login - Start a session (public route)
+  app.post(
+    '/login',
+    {
+      schema: {
+        body: loginSchema,
+        response: {
+          200: currentUserResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await userRepository.findByEmail(request.body.email);
+      // Unknown emails are checked against a dummy hash so both paths take as long
+      const valid = await verifyPassword(
+        request.body.password,
+        user?.password_hash ?? DUMMY_PASSWORD_HASH
+      );
+
+      if (!user || !valid) {
+        return (reply as any).code(401).send({
+          error: {
+            code: 'INVALID_CREDENTIALS',
+            message: 'Invalid email or password',
+            statusCode: 401,
+          },
+        });
+      }
+
+      await startSession(request, reply, user);
+      await userRepository.touchLastLogin(user.id);
+      request.log.info({ userId: user.id }, 'User signed in');
+      await recordAudit(request, {
+        action: 'login',
+        entityType: 'user',
+        entityId: user.id,
+        actor: user, // Not signed in until this request completes
+      });
+
+      return toCurrentUserResponse(
+        { ...user, last_login_at: new Date() },
+        await loadAccessScope(user.id)
+      );
+    }
+  );
+
+  // POST /logout - End the current session
+  app.post('/logout', async (request, reply) => {
+    await endSession(request, reply);
+    closeSessionStreams(request.sessionId!);
+    await recordAudit(request, {
+      action: 'logout',
+      entityType: 'user',
+      entityId: request.user!.id,
+    });
+    return reply.code(204).send();
+  });
+
+  // GET /me - Signed-in user
+  app.get(
+    '/me',
+    {
+      schema: {
+        response: {
+          200: currentUserResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      // The auth plugin rejects requests without a user before this runs
+      return toCurrentUserResponse(request.user!, request.access);
+    }
+  );
+};
+
+export default authRoutes;
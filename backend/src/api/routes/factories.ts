@@ -7,15 +7,39 @@ import {
   factoryListResponseSchema,
 } from '../schemas/factories';
 import { paginationQuerySchema } from '../schemas/common';
+import { hierarchyResponseSchema } from '../schemas/hierarchy';
 import { factoryRepository } from '../../repositories/FactoryRepository';
-import { Factory } from '../../repositories/types';
+import { organizationRepository } from '../../repositories/OrganizationRepository';
+import { areaRepository } from '../../repositories/AreaRepository';
+import { assetRepository } from '../../repositories/AssetRepository';
+import { measurementPointRepository } from '../../repositories/MeasurementPointRepository';
+import { sensorRepository } from '../../repositories/SensorRepository';
+import { alarmEventRepository } from '../../repositories/AlarmEventRepository';
+import {
+  accessibleFactoryIds,
+  checkRole,
+  factoryRole,
+  organizationRole,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+import {
+  Asset,
+  AssetType,
+  Factory,
+  MachineClass,
+  MeasurementPoint,
+  PointOrientation,
+  Sensor,
+} from '../../repositories/types';
+
+const FACTORY_NOT_FOUND = { code: 'FACTORY_NOT_FOUND', message: 'Factory not found' };
 
 /**
  * Convert repository Factory type to API response format
  *
  * Serializes Date objects to ISO strings and excludes deleted_at
  */
-function toFactoryResponse(factory: Factory) {
+export function toFactoryResponse(factory: Factory) {
   return {
     id: factory.id,
     organization_id: factory.organization_id,
@@ -28,6 +52,42 @@ function toFactoryResponse(factory: Factory) {
   };
 }
 
+/**
+ * Build one asset node of the plant hierarchy
+ */
+function toHierarchyAsset(
+  asset: Asset,
+  points: MeasurementPoint[],
+  sensors: Map<string, Sensor>,
+  openAlarms: Map<string, number>
+) {
+  return {
+    id: asset.id,
+    name: asset.name,
+    asset_type: asset.asset_type as AssetType | null,
+    machine_class: asset.machine_class as MachineClass | null,
+    open_alarms: openAlarms.get(asset.id) ?? 0,
+    points: points
+      .filter((point) => point.asset_id === asset.id)
+      .map((point) => {
+        const sensor = point.sensor_id ? sensors.get(point.sensor_id) : undefined;
+        return {
+          id: point.id,
+          name: point.name,
+          orientation: point.orientation as PointOrientation | null,
+          sensor: sensor
+            ? {
+                id: sensor.id,
+                serial: sensor.serial,
+                name: sensor.name,
+                connected: sensor.connected,
+              }
+            : null,
+        };
+      }),
+  };
+}
+
 /**
  * Factory CRUD routes
  *
@@ -37,9 +97,14 @@ function toFactoryResponse(factory: Factory) {
  * - GET /:id - Get factory by ID (FACTORY-03)
  * - PUT /:id - Update factory (FACTORY-04)
  * - DELETE /:id - Soft delete factory (FACTORY-05)
+ * - GET /:id/hierarchy - Plant tree: areas, assets, measurement points and mounted sensors
+ *
+ * Users see only the factories they hold a role on. Creating a factory needs the
+ * admin role on its organization; updating or deleting one needs admin on the factory.
  *
  * Validation errors return 400 VALIDATION_ERROR (FACTORY-07)
- * Missing resources return 404 FACTORY_NOT_FOUND
+ * Missing (or inaccessible) resources return 404 FACTORY_NOT_FOUND (or ORGANIZATION_NOT_FOUND)
+ * Insufficient roles return 403 FORBIDDEN
  * Soft-deleted factories are excluded from all queries (FACTORY-06)
  */
 const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
@@ -55,12 +120,28 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const organization = await organizationRepository.findById(request.body.organization_id);
+      const denied = checkRole(
+        organization ? organizationRole(request.access, organization.id) : null,
+        'admin',
+        { code: 'ORGANIZATION_NOT_FOUND', message: 'Organization not found' }
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
       const factory = await factoryRepository.create(request.body as any);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'factory',
+        entityId: factory.id,
+        after: factory,
+      });
       return reply.status(201).send(toFactoryResponse(factory));
     }
   );
 
-  // GET / - List factories with pagination
+  // GET / - List factories the user can see, with pagination
   app.get(
     '/',
     {
@@ -73,11 +154,12 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
     },
     async (request) => {
       const { limit, offset } = request.query;
+      const factoryIds = accessibleFactoryIds(request.access);
 
       // Fetch paginated data and total count in parallel
       const [factories, total] = await Promise.all([
-        factoryRepository.findAll({ limit, offset }),
-        factoryRepository.count(),
+        factoryRepository.findAll({ limit, offset, factoryIds }),
+        factoryRepository.count({ factoryIds }),
       ]);
 
       return {
@@ -107,6 +189,15 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const denied = checkRole(
+        factoryRole(request.access, request.params.id),
+        'viewer',
+        FACTORY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
       const factory = await factoryRepository.findById(request.params.id);
 
       if (!factory) {
@@ -138,6 +229,16 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const denied = checkRole(
+        factoryRole(request.access, request.params.id),
+        'admin',
+        FACTORY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await factoryRepository.findById(request.params.id);
       const updated = await factoryRepository.update(
         request.params.id,
         request.body as any
@@ -153,10 +254,86 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
         });
       }
 
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'factory',
+        entityId: updated.id,
+        before,
+        after: updated,
+      });
       return toFactoryResponse(updated);
     }
   );
 
+  // GET /:id/hierarchy - Plant tree of a factory
+  //
+  // Loads each level in one query and assembles the tree in memory.
+  app.get(
+    '/:id/hierarchy',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: hierarchyResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = checkRole(
+        factoryRole(request.access, request.params.id),
+        'viewer',
+        FACTORY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const factory = await factoryRepository.findById(request.params.id);
+      if (!factory) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'FACTORY_NOT_FOUND',
+            message: 'Factory not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const [areas, assets] = await Promise.all([
+        areaRepository.findByFactory(factory.id),
+        assetRepository.findByFactory(factory.id),
+      ]);
+      const assetIds = assets.map((asset) => asset.id);
+      const [points, openAlarms] = await Promise.all([
+        measurementPointRepository.findByAssets(assetIds),
+        alarmEventRepository.countOpenByAssets(assetIds),
+      ]);
+      const sensorIds = points.flatMap((point) => (point.sensor_id ? [point.sensor_id] : []));
+      const sensors = new Map(
+        (await sensorRepository.findByIds(sensorIds)).map((sensor) => [sensor.id, sensor])
+      );
+
+      const areaIds = new Set(areas.map((area) => area.id));
+      const toAsset = (asset: Asset) => toHierarchyAsset(asset, points, sensors, openAlarms);
+
+      return {
+        factory_id: factory.id,
+        areas: areas.map((area) => ({
+          id: area.id,
+          name: area.name,
+          description: area.description,
+          assets: assets.filter((asset) => asset.area_id === area.id).map(toAsset),
+        })),
+        // Includes assets whose area was deleted
+        unassigned_assets: assets
+          .filter((asset) => !asset.area_id || !areaIds.has(asset.area_id))
+          .map(toAsset),
+      };
+    }
+  );
+
   // DELETE /:id - Soft delete factory
   app.delete(
     '/:id',
@@ -168,6 +345,16 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const denied = checkRole(
+        factoryRole(request.access, request.params.id),
+        'admin',
+        FACTORY_NOT_FOUND
+      );
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await factoryRepository.findById(request.params.id);
       const deleted = await factoryRepository.softDelete(request.params.id);
 
       if (!deleted) {
@@ -180,6 +367,12 @@ const factoryRoutes: FastifyPluginAsyncZod = async (app) => {
         });
       }
 
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'factory',
+        entityId: request.params.id,
+        before,
+      });
       return reply.code(204).send();
     }
   );
@@ -6,17 +6,43 @@ import {
   gatewayResponseSchema,
   gatewayListResponseSchema,
   gatewayListQuerySchema,
+  gatewayStatusResponseSchema,
+  gatewayConnectionEventListResponseSchema,
+  testConnectionSchema,
+  testSavedConnectionSchema,
+  connectionTestResponseSchema,
 } from '../schemas/gateways';
+import { sensorListResponseSchema } from '../schemas/sensors';
+import { paginationQuerySchema } from '../schemas/common';
 import { gatewayRepository } from '../../repositories/GatewayRepository';
-import { Gateway } from '../../repositories/types';
+import { sensorRepository } from '../../repositories/SensorRepository';
+import {
+  gatewayConnectionEventRepository,
+} from '../../repositories/GatewayConnectionEventRepository';
+import { firmwareChangeRepository } from '../../repositories/FirmwareChangeRepository';
+import {
+  Gateway,
+  GatewayConnectionEvent,
+  GatewayConnectionEventType,
+} from '../../repositories/types';
+import { firmwareChangeListResponseSchema } from '../schemas/firmware';
+import { toFirmwareChangeResponse, toSensorResponse } from './sensors';
+import { accessibleFactoryIds, checkRole, factoryRole } from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+import { gatewaySupervisor } from '../../supervisor/gateway-supervisor';
+import { checkConnection, ConnectionCheckResult } from '../../gateway/connection-check';
+import { ConnectionState } from '../../types/connection';
+
+const GATEWAY_NOT_FOUND = { code: 'GATEWAY_NOT_FOUND', message: 'Gateway not found' };
 
 /**
  * Convert repository Gateway type to API response format
  *
- * Serializes Date objects to ISO strings and excludes internal fields.
+ * Serializes Date objects to ISO strings and excludes internal fields, and adds the
+ * live connection state from the gateway supervisor.
  * CRITICAL: Never includes password_encrypted (GATEWAY-07 security requirement).
  */
-function toGatewayResponse(gateway: Gateway) {
+function toGatewayResponse(gateway: Gateway, sensorCount: number) {
   return {
     id: gateway.id,
     factory_id: gateway.factory_id,
@@ -29,6 +55,8 @@ function toGatewayResponse(gateway: Gateway) {
     model: gateway.model,
     firmware_version: gateway.firmware_version,
     last_seen_at: gateway.last_seen_at ? gateway.last_seen_at.toISOString() : null,
+    connection_state: gatewaySupervisor.getSession(gateway.id)?.getState() ?? null,
+    sensor_count: sensorCount,
     metadata: (gateway.metadata || {}) as Record<string, unknown>,
     created_at: gateway.created_at.toISOString(),
     updated_at: gateway.updated_at.toISOString(),
@@ -36,6 +64,52 @@ function toGatewayResponse(gateway: Gateway) {
   };
 }
 
+/**
+ * Count the (non-deleted) sensors attached to one gateway
+ */
+async function countSensors(gatewayId: string): Promise<number> {
+  const counts = await sensorRepository.countByGateways([gatewayId]);
+  return counts.get(gatewayId) ?? 0;
+}
+
+/**
+ * Convert a connection event to API response format
+ */
+function toConnectionEventResponse(event: GatewayConnectionEvent) {
+  return {
+    id: event.id,
+    occurred_at: event.occurred_at.toISOString(),
+    event_type: event.event_type as GatewayConnectionEventType,
+    state: event.state as ConnectionState | null,
+    previous_state: event.previous_state as ConnectionState | null,
+    error: event.error,
+  };
+}
+
+/**
+ * Convert a connection check result to API response format
+ */
+function toConnectionTestResponse(result: ConnectionCheckResult) {
+  return {
+    success: result.success,
+    failed_stage: result.failedStage,
+    error: result.error,
+    duration_ms: result.durationMs,
+    latency_ms: result.latencyMs,
+    user: result.user
+      ? {
+          email: result.user.Email,
+          first_name: result.user.First,
+          last_name: result.user.Last,
+          access_level: result.user.AccessLevel,
+          verified: result.user.Verified,
+        }
+      : null,
+    sensor_count: result.sensorCount,
+    connected_sensor_count: result.connectedSensorCount,
+  };
+}
+
 /**
  * Gateway CRUD routes
  *
@@ -45,9 +119,21 @@ function toGatewayResponse(gateway: Gateway) {
  * - GET /:id - Get gateway by ID (GATEWAY-03)
  * - PUT /:id - Update gateway with optional password re-encryption (GATEWAY-04)
  * - DELETE /:id - Soft delete gateway (GATEWAY-05)
+ * - GET /:id/sensors - List sensors attached to gateway
+ * - GET /:id/status - Live connection state, uptime, reconnect count and last error
+ * - GET /:id/events - Connection event timeline, newest first
+ * - GET /:id/firmware-history - Firmware changes of the gateway and its sensors
+ * - POST /test-connection - Test connection settings before saving a gateway
+ * - POST /:id/test-connection - Test a saved gateway's connection settings
+ *
+ * Users see only the gateways of factories they hold a role on; creating, updating,
+ * deleting and testing gateways needs the engineer role on the gateway's factory.
  *
  * Validation errors return 400 VALIDATION_ERROR (GATEWAY-09)
- * Missing resources return 404 GATEWAY_NOT_FOUND
+ * Testing a saved gateway with an edited URL or email but no password returns
+ * 400 PASSWORD_REQUIRED
+ * Missing (or inaccessible) resources return 404 GATEWAY_NOT_FOUND (or FACTORY_NOT_FOUND)
+ * Insufficient roles return 403 FORBIDDEN
  * Soft-deleted gateways are excluded from all queries (GATEWAY-07)
  * Database errors return 500 with safe messages (GATEWAY-08)
  */
@@ -64,13 +150,55 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const denied = checkRole(factoryRole(request.access, request.body.factory_id), 'engineer', {
+        code: 'FACTORY_NOT_FOUND',
+        message: 'Factory not found',
+      });
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
       // Repository encrypts password automatically
       const gateway = await gatewayRepository.create(request.body as any);
-      return reply.status(201).send(toGatewayResponse(gateway));
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'gateway',
+        entityId: gateway.id,
+        after: gateway,
+      });
+      return reply.status(201).send(toGatewayResponse(gateway, 0));
     }
   );
 
-  // GET / - List gateways with pagination and optional factory filter
+  // POST /test-connection - Connect, log in and list sensors with unsaved settings
+  //
+  // Always 200 once the request is valid: a failed test is reported in the result
+  app.post(
+    '/test-connection',
+    {
+      schema: {
+        body: testConnectionSchema,
+        response: {
+          200: connectionTestResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = checkRole(factoryRole(request.access, request.body.factory_id), 'engineer', {
+        code: 'FACTORY_NOT_FOUND',
+        message: 'Factory not found',
+      });
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const { url, email, password } = request.body;
+      const result = await checkConnection(url, { email, password });
+      return toConnectionTestResponse(result);
+    }
+  );
+
+  // GET / - List gateways the user can see, with pagination and optional factory filter
   app.get(
     '/',
     {
@@ -88,21 +216,28 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
       let total: number;
 
       if (factory_id) {
-        // Filter by factory_id
-        const factoryGateways = await gatewayRepository.findActive(factory_id);
+        // Filter by factory_id (a factory the user cannot see has no gateways for them)
+        const factoryGateways = factoryRole(request.access, factory_id)
+          ? await gatewayRepository.findActive(factory_id)
+          : [];
         total = factoryGateways.length;
         // Apply manual pagination to filtered results
         gateways = factoryGateways.slice(offset, offset + limit);
       } else {
-        // No filter - fetch all with pagination
+        // No filter - fetch all accessible gateways with pagination
+        const factoryIds = accessibleFactoryIds(request.access);
         [gateways, total] = await Promise.all([
-          gatewayRepository.findAll({ limit, offset }),
-          gatewayRepository.count(),
+          gatewayRepository.findAll({ limit, offset, factoryIds }),
+          gatewayRepository.count({ factoryIds }),
         ]);
       }
 
+      const sensorCounts = await sensorRepository.countByGateways(gateways.map((g) => g.id));
+
       return {
-        data: gateways.map(toGatewayResponse),
+        data: gateways.map((gateway) =>
+          toGatewayResponse(gateway, sensorCounts.get(gateway.id) ?? 0)
+        ),
         pagination: {
           total,
           limit,
@@ -140,7 +275,16 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
         });
       }
 
-      return toGatewayResponse(gateway);
+      const denied = checkRole(
+        factoryRole(request.access, gateway.factory_id),
+        'viewer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      return toGatewayResponse(gateway, await countSensors(gateway.id));
     }
   );
 
@@ -159,6 +303,16 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+      const denied = checkRole(
+        gateway ? factoryRole(request.access, gateway.factory_id) : null,
+        'engineer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
       const { password, ...otherUpdates } = request.body;
       let updated: Gateway | undefined;
 
@@ -198,7 +352,317 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
         }
       }
 
-      return toGatewayResponse(updated);
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'gateway',
+        entityId: updated.id,
+        before: gateway,
+        after: updated,
+      });
+      return toGatewayResponse(updated, await countSensors(updated.id));
+    }
+  );
+
+  // GET /:id/sensors - List sensors attached to gateway
+  app.get(
+    '/:id/sensors',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: sensorListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+
+      if (!gateway) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'GATEWAY_NOT_FOUND',
+            message: 'Gateway not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, gateway.factory_id),
+        'viewer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const { limit, offset } = request.query;
+      const sensors = await sensorRepository.findByGateway(gateway.id);
+      const total = sensors.length;
+
+      return {
+        data: sensors.slice(offset, offset + limit).map(toSensorResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id/status - Connection health of the gateway's supervisor session
+  //
+  // last_seen_at is the later of the stored value and the session's last message
+  // (the stored value is written at most every few seconds). Without a session the
+  // last error comes from the gateway's connection events.
+  app.get(
+    '/:id/status',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: gatewayStatusResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+
+      if (!gateway) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'GATEWAY_NOT_FOUND',
+            message: 'Gateway not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, gateway.factory_id),
+        'viewer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const health = gatewaySupervisor.getSession(gateway.id)?.getHealth();
+      const lastSeen = [gateway.last_seen_at, health?.lastMessageAt]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+
+      let lastError = health?.lastError ?? null;
+      if (!lastError) {
+        const event = await gatewayConnectionEventRepository.findLatestError(gateway.id);
+        lastError = event ? { message: event.error ?? '', occurredAt: event.occurred_at } : null;
+      }
+
+      return {
+        gateway_id: gateway.id,
+        state: health?.state ?? ConnectionState.DISCONNECTED,
+        supervised: health !== undefined,
+        session_started_at: health?.startedAt.toISOString() ?? null,
+        connected_since: health?.connectedSince?.toISOString() ?? null,
+        uptime_seconds: health?.uptimeSeconds ?? null,
+        reconnect_count: health?.reconnectCount ?? 0,
+        last_seen_at: lastSeen?.toISOString() ?? null,
+        last_heartbeat_at: health?.lastHeartbeatAt?.toISOString() ?? null,
+        last_error: lastError
+          ? { message: lastError.message, occurred_at: lastError.occurredAt.toISOString() }
+          : null,
+      };
+    }
+  );
+
+  // GET /:id/events - Connection event timeline of the gateway, newest first
+  app.get(
+    '/:id/events',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: gatewayConnectionEventListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+
+      if (!gateway) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'GATEWAY_NOT_FOUND',
+            message: 'Gateway not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, gateway.factory_id),
+        'viewer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const { limit, offset } = request.query;
+      const [events, total] = await Promise.all([
+        gatewayConnectionEventRepository.findByGateway(gateway.id, { limit, offset }),
+        gatewayConnectionEventRepository.countByGateway(gateway.id),
+      ]);
+
+      return {
+        data: events.map(toConnectionEventResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id/firmware-history - Firmware changes reported by the gateway and its sensors
+  app.get(
+    '/:id/firmware-history',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: firmwareChangeListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+
+      if (!gateway) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'GATEWAY_NOT_FOUND',
+            message: 'Gateway not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, gateway.factory_id),
+        'viewer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const { limit, offset } = request.query;
+      const [changes, total] = await Promise.all([
+        firmwareChangeRepository.findAll({ gateway_id: gateway.id, limit, offset }),
+        firmwareChangeRepository.count({ gateway_id: gateway.id }),
+      ]);
+
+      return {
+        data: changes.map(toFirmwareChangeResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // POST /:id/test-connection - Test a saved gateway, optionally with edited settings
+  //
+  // Uses the stored (decrypted) password unless the body gives a new one, and only
+  // while the URL and email are the saved ones: otherwise the stored password would
+  // be sent to whatever host the caller named. Runs beside the supervisor's session,
+  // so the gateway sees a second login while it lasts.
+  app.post(
+    '/:id/test-connection',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: testSavedConnectionSchema,
+        response: {
+          200: connectionTestResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+
+      if (!gateway) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'GATEWAY_NOT_FOUND',
+            message: 'Gateway not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(
+        factoryRole(request.access, gateway.factory_id),
+        'engineer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const url = request.body.url ?? gateway.url;
+      const email = request.body.email ?? gateway.email;
+      if (!request.body.password && (url !== gateway.url || email !== gateway.email)) {
+        return (reply as any).code(400).send({
+          error: {
+            code: 'PASSWORD_REQUIRED',
+            message: 'Testing an edited URL or email needs the password',
+            statusCode: 400,
+          },
+        });
+      }
+
+      const result = await checkConnection(url, {
+        email,
+        password: request.body.password ?? gatewayRepository.getDecryptedPassword(gateway),
+      });
+      await recordAudit(request, {
+        action: 'test_connection',
+        entityType: 'gateway',
+        entityId: gateway.id,
+        after: {
+          url,
+          email,
+          password: request.body.password,
+          success: result.success,
+          failed_stage: result.failedStage,
+        },
+      });
+      return toConnectionTestResponse(result);
     }
   );
 
@@ -213,6 +677,16 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
       },
     },
     async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.params.id);
+      const denied = checkRole(
+        gateway ? factoryRole(request.access, gateway.factory_id) : null,
+        'engineer',
+        GATEWAY_NOT_FOUND
+      );
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
       const deleted = await gatewayRepository.softDelete(request.params.id);
 
       if (!deleted) {
@@ -225,6 +699,12 @@ const gatewayRoutes: FastifyPluginAsyncZod = async (app) => {
         });
       }
 
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'gateway',
+        entityId: request.params.id,
+        before: gateway,
+      });
       return reply.code(204).send();
     }
   );
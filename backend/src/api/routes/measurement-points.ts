@@ -0,0 +1,385 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createMeasurementPointSchema,
+  updateMeasurementPointSchema,
+  measurementPointResponseSchema,
+  measurementPointListResponseSchema,
+  measurementPointListQuerySchema,
+} from '../schemas/measurement-points';
+import { measurementPointRepository } from '../../repositories/MeasurementPointRepository';
+import { assetRepository } from '../../repositories/AssetRepository';
+import { sensorRepository } from '../../repositories/SensorRepository';
+import { Asset, MeasurementPoint, PointOrientation, Role } from '../../repositories/types';
+import {
+  AccessScope,
+  accessibleFactoryIds,
+  checkRole,
+  factoryRole,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+/**
+ * Convert repository MeasurementPoint type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes deleted_at
+ */
+function toMeasurementPointResponse(point: MeasurementPoint) {
+  return {
+    id: point.id,
+    asset_id: point.asset_id,
+    name: point.name,
+    orientation: point.orientation as PointOrientation | null,
+    sensor_id: point.sensor_id,
+    metadata: (point.metadata || {}) as Record<string, unknown>,
+    created_at: point.created_at.toISOString(),
+    updated_at: point.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Check the user's role on the factory of a point's asset
+ *
+ * @returns Error response body (404 MEASUREMENT_POINT_NOT_FOUND or 403), or null if allowed
+ */
+async function checkPointRole(access: AccessScope, pointId: string, required: Role) {
+  const factoryId = await measurementPointRepository.findFactoryId(pointId);
+  return checkRole(factoryId ? factoryRole(access, factoryId) : null, required, {
+    code: 'MEASUREMENT_POINT_NOT_FOUND',
+    message: 'Measurement point not found',
+  });
+}
+
+/**
+ * Check that a sensor can be mounted on a point of an asset
+ *
+ * Sensors on gateways of factories the user cannot see are reported as not found.
+ *
+ * @param pointId - The point being updated (a sensor may stay on its own point)
+ * @returns Error response body, or null if the sensor can be mounted
+ */
+async function checkMountable(
+  access: AccessScope,
+  sensorId: string,
+  asset: Asset,
+  pointId?: string
+) {
+  const factoryId = await sensorRepository.findFactoryId(sensorId);
+  if (!factoryId || !factoryRole(access, factoryId)) {
+    return {
+      error: { code: 'SENSOR_NOT_FOUND', message: 'Sensor not found', statusCode: 404 },
+    };
+  }
+  if (factoryId !== asset.factory_id) {
+    return {
+      error: {
+        code: 'SENSOR_FACTORY_MISMATCH',
+        message: "Sensor's gateway belongs to a different factory than the asset",
+        statusCode: 400,
+      },
+    };
+  }
+
+  const mounted = await measurementPointRepository.findBySensor(sensorId);
+  if (mounted && mounted.id !== pointId) {
+    return {
+      error: {
+        code: 'SENSOR_ALREADY_MOUNTED',
+        message: `Sensor is already mounted on measurement point "${mounted.name}"`,
+        statusCode: 409,
+      },
+    };
+  }
+  return null;
+}
+
+/**
+ * Keep sensors.asset_id in step with the points sensors are mounted on
+ *
+ * The asset decides a reading's machine class and which asset alarm rules apply,
+ * so a mounted sensor takes its point's asset and an unmounted one loses it.
+ */
+async function syncSensorAssets(
+  previousSensorId: string | null,
+  sensorId: string | null,
+  assetId: string
+): Promise<void> {
+  if (previousSensorId && previousSensorId !== sensorId) {
+    const previous = await sensorRepository.findById(previousSensorId);
+    if (previous?.asset_id === assetId) {
+      await sensorRepository.update(previousSensorId, { asset_id: null });
+    }
+  }
+  if (sensorId) {
+    await sensorRepository.update(sensorId, { asset_id: assetId });
+  }
+}
+
+/**
+ * Measurement point CRUD routes
+ *
+ * A measurement point is a location on an asset (e.g. "motor NDE horizontal")
+ * that a sensor is mounted on. Readings and alarms are attributed to the point
+ * and asset the sensor is mounted on when the reading is stored:
+ * - POST / - Create point on an asset, optionally mounting a sensor
+ * - GET / - List points with pagination and asset filter
+ * - GET /:id - Get point by ID
+ * - PUT /:id - Update point name, orientation, metadata, or mount/unmount a sensor
+ * - DELETE /:id - Soft delete point and unmount its sensor
+ *
+ * Users see only the points on assets of factories they hold a role on; creating,
+ * updating and deleting points needs the engineer role on the asset's factory.
+ *
+ * Missing (or inaccessible) resources return 404 MEASUREMENT_POINT_NOT_FOUND (or
+ * ASSET_NOT_FOUND, SENSOR_NOT_FOUND)
+ * Insufficient roles return 403 FORBIDDEN
+ * Sensors on another factory's gateway return 400 SENSOR_FACTORY_MISMATCH
+ * Sensors mounted on another point return 409 SENSOR_ALREADY_MOUNTED
+ */
+const measurementPointRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST / - Create measurement point
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createMeasurementPointSchema,
+        response: {
+          201: measurementPointResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const asset = await assetRepository.findById(request.body.asset_id);
+      if (!asset) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ASSET_NOT_FOUND',
+            message: 'Asset not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const denied = checkRole(factoryRole(request.access, asset.factory_id), 'engineer', {
+        code: 'ASSET_NOT_FOUND',
+        message: 'Asset not found',
+      });
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensorId = request.body.sensor_id ?? null;
+      if (sensorId) {
+        const mountError = await checkMountable(request.access, sensorId, asset);
+        if (mountError) {
+          return (reply as any).code(mountError.error.statusCode).send(mountError);
+        }
+      }
+
+      const point = await measurementPointRepository.create(request.body as any);
+      await syncSensorAssets(null, sensorId, asset.id);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'measurement_point',
+        entityId: point.id,
+        after: point,
+      });
+      return reply.status(201).send(toMeasurementPointResponse(point));
+    }
+  );
+
+  // GET / - List measurement points the user can see, with pagination and optional asset filter
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: measurementPointListQuerySchema,
+        response: {
+          200: measurementPointListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, asset_id } = request.query;
+
+      let points: MeasurementPoint[];
+      let total: number;
+
+      if (asset_id) {
+        // Filter by asset_id (an asset the user cannot see has no points for them)
+        const asset = await assetRepository.findById(asset_id);
+        const assetPoints =
+          asset && factoryRole(request.access, asset.factory_id)
+            ? await measurementPointRepository.findByAssets([asset_id])
+            : [];
+        total = assetPoints.length;
+        // Apply manual pagination to filtered results
+        points = assetPoints.slice(offset, offset + limit);
+      } else {
+        // No filter - fetch all accessible points with pagination
+        const factoryIds = accessibleFactoryIds(request.access);
+        [points, total] = await Promise.all([
+          measurementPointRepository.findAll({ limit, offset, factoryIds }),
+          measurementPointRepository.count({ factoryIds }),
+        ]);
+      }
+
+      return {
+        data: points.map(toMeasurementPointResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get measurement point by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: measurementPointResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkPointRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const point = await measurementPointRepository.findById(request.params.id);
+
+      if (!point) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'MEASUREMENT_POINT_NOT_FOUND',
+            message: 'Measurement point not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      return toMeasurementPointResponse(point);
+    }
+  );
+
+  // PUT /:id - Update measurement point
+  //
+  // sensor_id mounts that sensor (replacing the current one); null unmounts.
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateMeasurementPointSchema,
+        response: {
+          200: measurementPointResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkPointRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const point = await measurementPointRepository.findById(request.params.id);
+      const asset = point ? await assetRepository.findById(point.asset_id) : undefined;
+      if (!point || !asset) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'MEASUREMENT_POINT_NOT_FOUND',
+            message: 'Measurement point not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const sensorId = request.body.sensor_id;
+      if (sensorId) {
+        const mountError = await checkMountable(request.access, sensorId, asset, point.id);
+        if (mountError) {
+          return (reply as any).code(mountError.error.statusCode).send(mountError);
+        }
+      }
+
+      const updated = await measurementPointRepository.update(point.id, request.body as any);
+      if (!updated) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'MEASUREMENT_POINT_NOT_FOUND',
+            message: 'Measurement point not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      if (sensorId !== undefined) {
+        await syncSensorAssets(point.sensor_id, sensorId, asset.id);
+      }
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'measurement_point',
+        entityId: updated.id,
+        before: point,
+        after: updated,
+      });
+      return toMeasurementPointResponse(updated);
+    }
+  );
+
+  // DELETE /:id - Soft delete measurement point
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkPointRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const point = await measurementPointRepository.findById(request.params.id);
+      const deleted = point ? await measurementPointRepository.softDelete(point.id) : undefined;
+
+      if (!point || !deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'MEASUREMENT_POINT_NOT_FOUND',
+            message: 'Measurement point not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await syncSensorAssets(point.sensor_id, null, point.asset_id);
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'measurement_point',
+        entityId: point.id,
+        before: point,
+      });
+
+      return reply.code(204).send();
+    }
+  );
+};
+
+export default measurementPointRoutes;
@@ -0,0 +1,336 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  organizationResponseSchema,
+  organizationListResponseSchema,
+} from '../schemas/organizations';
+import { factoryListResponseSchema } from '../schemas/factories';
+import { paginationQuerySchema } from '../schemas/common';
+import { organizationRepository } from '../../repositories/OrganizationRepository';
+import { factoryRepository } from '../../repositories/FactoryRepository';
+import { Organization } from '../../repositories/types';
+import { toFactoryResponse } from './factories';
+import {
+  checkRole,
+  factoryRole,
+  organizationRole,
+  roleAtLeast,
+  visibleOrganizationIds,
+} from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+const ORGANIZATION_NOT_FOUND = {
+  code: 'ORGANIZATION_NOT_FOUND',
+  message: 'Organization not found',
+};
+
+/**
+ * Convert repository Organization type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes deleted_at
+ */
+function toOrganizationResponse(organization: Organization) {
+  return {
+    id: organization.id,
+    name: organization.name,
+    metadata: (organization.metadata || {}) as Record<string, unknown>,
+    created_at: organization.created_at.toISOString(),
+    updated_at: organization.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Organization CRUD routes
+ *
+ * Organizations own factories:
+ * - POST / - Create organization
+ * - GET / - List organizations with pagination
+ * - GET /:id - Get organization by ID
+ * - PUT /:id - Update organization name or metadata
+ * - DELETE /:id - Soft delete an organization without factories
+ * - GET /:id/factories - List factories of an organization
+ *
+ * Users see the organizations they hold a role on, or on one of whose factories
+ * they hold a role (and then only those factories). Creating organizations needs
+ * the admin role on every organization; updating or deleting one needs admin on it.
+ *
+ * Missing (or inaccessible) resources return 404 ORGANIZATION_NOT_FOUND
+ * Insufficient roles return 403 FORBIDDEN
+ * Deleting an organization that still has factories returns 409 ORGANIZATION_NOT_EMPTY
+ * Soft-deleted organizations are excluded from all queries
+ */
+const organizationRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST / - Create organization
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createOrganizationSchema,
+        response: {
+          201: organizationResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!roleAtLeast(request.access.global, 'admin')) {
+        return (reply as any).code(403).send({
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Requires the admin role on every organization',
+            statusCode: 403,
+          },
+        });
+      }
+
+      const organization = await organizationRepository.create(request.body as any);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'organization',
+        entityId: organization.id,
+        after: organization,
+      });
+      return reply.status(201).send(toOrganizationResponse(organization));
+    }
+  );
+
+  // GET / - List organizations the user can see, with pagination
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: paginationQuerySchema,
+        response: {
+          200: organizationListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset } = request.query;
+      const organizationIds = visibleOrganizationIds(request.access);
+
+      // Fetch paginated data and total count in parallel
+      const [organizations, total] = await Promise.all([
+        organizationRepository.findAll({ limit, offset, organizationIds }),
+        organizationRepository.count({ organizationIds }),
+      ]);
+
+      return {
+        data: organizations.map(toOrganizationResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get organization by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: organizationResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = checkRole(
+        organizationRole(request.access, request.params.id),
+        'viewer',
+        ORGANIZATION_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const organization = await organizationRepository.findById(request.params.id);
+
+      if (!organization) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      return toOrganizationResponse(organization);
+    }
+  );
+
+  // PUT /:id - Update organization
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateOrganizationSchema,
+        response: {
+          200: organizationResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = checkRole(
+        organizationRole(request.access, request.params.id),
+        'admin',
+        ORGANIZATION_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await organizationRepository.findById(request.params.id);
+      const updated = await organizationRepository.update(
+        request.params.id,
+        request.body as any
+      );
+
+      if (!updated) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'organization',
+        entityId: updated.id,
+        before,
+        after: updated,
+      });
+      return toOrganizationResponse(updated);
+    }
+  );
+
+  // GET /:id/factories - List the factories of an organization the user can see
+  app.get(
+    '/:id/factories',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: factoryListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = checkRole(
+        organizationRole(request.access, request.params.id),
+        'viewer',
+        ORGANIZATION_NOT_FOUND
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const organization = await organizationRepository.findById(request.params.id);
+
+      if (!organization) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { limit, offset } = request.query;
+      const factories = (await factoryRepository.findByOrganization(organization.id)).filter(
+        (factory) => factoryRole(request.access, factory.id)
+      );
+      const total = factories.length;
+
+      return {
+        data: factories.slice(offset, offset + limit).map(toFactoryResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // DELETE /:id - Soft delete organization
+  //
+  // Factories must be deleted first so none are left without a live organization.
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const denied = checkRole(
+        organizationRole(request.access, request.params.id),
+        'admin',
+        ORGANIZATION_NOT_FOUND
+      );
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const factories = await factoryRepository.findByOrganization(request.params.id);
+      if (factories.length > 0) {
+        return reply.code(409).send({
+          error: {
+            code: 'ORGANIZATION_NOT_EMPTY',
+            message: `Organization still has ${factories.length} ${
+              factories.length === 1 ? 'factory' : 'factories'
+            }`,
+            statusCode: 409,
+          },
+        });
+      }
+
+      const before = await organizationRepository.findById(request.params.id);
+      const deleted = await organizationRepository.softDelete(request.params.id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'organization',
+        entityId: request.params.id,
+        before,
+      });
+      return reply.code(204).send();
+    }
+  );
+};
+
+export default organizationRoutes;
@@ -0,0 +1,277 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  readingResponseSchema,
+  spectrumQuerySchema,
+  spectrumResponseSchema,
+  waveformQuerySchema,
+  waveformResponseSchema,
+} from '../schemas/readings';
+import { readingRepository } from '../../repositories/ReadingRepository';
+import { readingMetricsRepository } from '../../repositories/ReadingMetricsRepository';
+import {
+  SensorReadingSummary,
+  ReadingMetric,
+  Axis,
+  MachineClass,
+  IsoZone,
+  Role,
+} from '../../repositories/types';
+import { AccessScope, checkRole, factoryRole } from '../../access/access-control';
+import { computeSpectrum } from '../../analysis/spectrum';
+import { accelerationToVelocitySpectrum, integrateToVelocity } from '../../analysis/velocity';
+import { analysisConfig } from '../../analysis/config';
+
+// Same band as the velocity metrics computed at ingest
+const VELOCITY_BAND = {
+  highPassHz: analysisConfig.VELOCITY_HIGHPASS_HZ,
+  lowPassHz: analysisConfig.VELOCITY_LOWPASS_HZ,
+};
+
+/**
+ * Group a reading's metric rows by axis (null unless all three axes are present)
+ */
+function toMetricsResponse(metrics: ReadingMetric[]) {
+  const byAxis = new Map(metrics.map((m) => [m.axis as Axis, m]));
+  const x = byAxis.get('x');
+  const y = byAxis.get('y');
+  const z = byAxis.get('z');
+  if (!x || !y || !z) {
+    return null;
+  }
+
+  const toAxis = (m: ReadingMetric) => ({
+    rms: m.rms,
+    peak: m.peak,
+    peak_to_peak: m.peak_to_peak,
+    crest_factor: m.crest_factor,
+    kurtosis: m.kurtosis,
+    skewness: m.skewness,
+    velocity_rms: m.velocity_rms,
+  });
+  return { x: toAxis(x), y: toAxis(y), z: toAxis(z) };
+}
+
+/**
+ * Convert repository SensorReading type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes waveform samples.
+ * Exported for the /api/sensors/:id/readings routes.
+ *
+ * @param metrics - The reading's reading_metrics rows (any order)
+ */
+export function toReadingResponse(reading: SensorReadingSummary, metrics: ReadingMetric[]) {
+  return {
+    id: reading.id,
+    gateway_id: reading.gateway_id,
+    sensor_serial: reading.sensor_serial,
+    gateway_reading_id: reading.gateway_reading_id,
+    recorded_at: reading.recorded_at.toISOString(),
+    sample_rate: reading.sample_rate,
+    sample_count: reading.sample_count,
+    temperature: reading.temperature,
+    velocity_rms: reading.velocity_rms,
+    machine_class: reading.machine_class as MachineClass | null,
+    iso_zone: reading.iso_zone as IsoZone | null,
+    asset_id: reading.asset_id,
+    measurement_point_id: reading.measurement_point_id,
+    metrics: toMetricsResponse(metrics),
+    created_at: reading.created_at.toISOString(),
+  };
+}
+
+/**
+ * Check the user's role on the factory of the gateway a reading came from
+ *
+ * @returns Error response body (404 READING_NOT_FOUND or 403 FORBIDDEN), or null if allowed
+ */
+async function checkReadingRole(access: AccessScope, readingId: string, required: Role) {
+  const factoryId = await readingRepository.findFactoryId(readingId);
+  return checkRole(factoryId ? factoryRole(access, factoryId) : null, required, {
+    code: 'READING_NOT_FOUND',
+    message: 'Reading not found',
+  });
+}
+
+/**
+ * Reading routes
+ *
+ * Readings are created by acquisition (scheduled or POST /api/sensors/:id/readings)
+ * and are read-only through the API:
+ * - GET /:id - Get reading summary and metrics by ID
+ * - GET /:id/waveform - X/Y/Z time waveform in g or mm/s
+ * - GET /:id/spectrum - Amplitude spectrum of one axis in g or mm/s (computed on request)
+ *
+ * Reading a reading needs a role on the factory of the gateway it came from.
+ * Missing (or inaccessible) resources return 404 READING_NOT_FOUND
+ * Spectrum options the waveform is too short for return 400 INVALID_SPECTRUM_OPTIONS
+ */
+const readingRoutes: FastifyPluginAsyncZod = async (app) => {
+  // GET /:id - Get reading by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: readingResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkReadingRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const reading = await readingRepository.findById(request.params.id);
+
+      if (!reading) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'READING_NOT_FOUND',
+            message: 'Reading not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const metrics = await readingMetricsRepository.findByReading(reading.id);
+      return toReadingResponse(reading, metrics);
+    }
+  );
+
+  // GET /:id/waveform - Time waveform of all three axes
+  app.get(
+    '/:id/waveform',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: waveformQuerySchema,
+        response: {
+          200: waveformResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkReadingRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const reading = await readingRepository.findById(request.params.id);
+
+      if (!reading) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'READING_NOT_FOUND',
+            message: 'Reading not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { unit } = request.query;
+      // sample_count is the stored X length; trimming keeps Y and Z no longer than X
+      const toUnit = (samples: number[]) => {
+        const trimmed = samples.slice(0, reading.sample_count);
+        return unit === 'mm/s'
+          ? integrateToVelocity(trimmed, reading.sample_rate, VELOCITY_BAND)
+          : trimmed;
+      };
+
+      return {
+        reading_id: reading.id,
+        sample_rate: reading.sample_rate,
+        sample_count: reading.sample_count,
+        unit,
+        x: toUnit(reading.x_samples),
+        y: toUnit(reading.y_samples),
+        z: toUnit(reading.z_samples),
+      };
+    }
+  );
+
+  // GET /:id/spectrum - Amplitude spectrum of one axis
+  app.get(
+    '/:id/spectrum',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: spectrumQuerySchema,
+        response: {
+          200: spectrumResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkReadingRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const reading = await readingRepository.findById(request.params.id);
+
+      if (!reading) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'READING_NOT_FOUND',
+            message: 'Reading not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { axis, window, averages, zero_padding, unit } = request.query;
+      const waveforms = { x: reading.x_samples, y: reading.y_samples, z: reading.z_samples };
+      // sample_count is the stored X length; trimming keeps Y and Z no longer than X
+      const samples = waveforms[axis].slice(0, reading.sample_count);
+
+      let spectrum;
+      try {
+        spectrum = computeSpectrum(samples, reading.sample_rate, {
+          window,
+          averages,
+          zeroPadding: zero_padding,
+        });
+      } catch (error) {
+        return (reply as any).code(400).send({
+          error: {
+            code: 'INVALID_SPECTRUM_OPTIONS',
+            message: error instanceof Error ? error.message : 'Invalid spectrum options',
+            statusCode: 400,
+          },
+        });
+      }
+
+      return {
+        reading_id: reading.id,
+        axis,
+        window,
+        averages,
+        zero_padding,
+        sample_rate: reading.sample_rate,
+        sample_count: samples.length,
+        fft_size: spectrum.fftSize,
+        resolution: spectrum.resolution,
+        unit,
+        amplitudes:
+          unit === 'mm/s'
+            ? accelerationToVelocitySpectrum(
+                spectrum.amplitudes,
+                spectrum.resolution,
+                VELOCITY_BAND
+              )
+            : spectrum.amplitudes,
+      };
+    }
+  );
+};
+
+export default readingRoutes;
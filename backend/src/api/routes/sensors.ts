@@ -0,0 +1,1020 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createSensorSchema,
+  updateSensorSchema,
+  sensorResponseSchema,
+  sensorListResponseSchema,
+  sensorListQuerySchema,
+} from '../schemas/sensors';
+import {
+  upsertScheduleSchema,
+  scheduleResponseSchema,
+  acquisitionRunListResponseSchema,
+} from '../schemas/schedules';
+import { paginationQuerySchema } from '../schemas/common';
+import {
+  readingResponseSchema,
+  readingListQuerySchema,
+  readingListResponseSchema,
+} from '../schemas/readings';
+import { temperatureQuerySchema, temperatureResponseSchema } from '../schemas/temperature';
+import { trendQuerySchema, trendResponseSchema } from '../schemas/trend';
+import { firmwareChangeListResponseSchema } from '../schemas/firmware';
+import { toReadingResponse } from './readings';
+import { sensorRepository } from '../../repositories/SensorRepository';
+import { gatewayRepository } from '../../repositories/GatewayRepository';
+import { assetRepository } from '../../repositories/AssetRepository';
+import { measurementPointRepository } from '../../repositories/MeasurementPointRepository';
+import { readingRepository } from '../../repositories/ReadingRepository';
+import { readingMetricsRepository } from '../../repositories/ReadingMetricsRepository';
+import { temperatureRepository } from '../../repositories/TemperatureRepository';
+import { alarmRuleRepository } from '../../repositories/AlarmRuleRepository';
+import { acquisitionScheduleRepository } from '../../repositories/AcquisitionScheduleRepository';
+import { acquisitionRunRepository } from '../../repositories/AcquisitionRunRepository';
+import {
+  firmwareChangeRepository,
+  FirmwareChangeWithSerial,
+} from '../../repositories/FirmwareChangeRepository';
+import {
+  Sensor,
+  SensorReading,
+  AcquisitionSchedule,
+  AcquisitionRun,
+  AcquisitionRunStatus,
+  Role,
+} from '../../repositories/types';
+import { alignToWindow } from '../../acquisition/schedule-timing';
+import { buildTrendPoints, trendThresholds } from '../../analysis/trend';
+import { gatewaySupervisor } from '../../supervisor/gateway-supervisor';
+import {
+  AccessScope,
+  accessibleFactoryIds,
+  checkRole,
+  factoryRole,
+} from '../../access/access-control';
+import { checkAssetAssignment } from '../../hierarchy/sensor-placement';
+import { recordAudit } from '../../audit/audit-log';
+
+// Temperature series defaults and limits
+const DEFAULT_TEMPERATURE_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_TEMPERATURE_BUCKETS = 10000;
+
+// Trend defaults and limits (readings beyond the limit are dropped oldest first)
+const DEFAULT_TREND_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_TREND_POINTS = 2000;
+
+/**
+ * Convert repository Sensor type to API response format
+ *
+ * Serializes Date objects to ISO strings and excludes deleted_at.
+ * Exported for the nested GET /api/gateways/:id/sensors route.
+ */
+export function toSensorResponse(sensor: Sensor) {
+  return {
+    id: sensor.id,
+    gateway_id: sensor.gateway_id,
+    serial: sensor.serial,
+    name: sensor.name,
+    asset_id: sensor.asset_id,
+    asset_name: sensor.asset_name,
+    part_number: sensor.part_number,
+    read_rate: sensor.read_rate,
+    samples: sensor.samples,
+    hardware_version: sensor.hardware_version,
+    firmware_version: sensor.firmware_version,
+    access_point: sensor.access_point,
+    connected: sensor.connected,
+    last_discovered_at: sensor.last_discovered_at ? sensor.last_discovered_at.toISOString() : null,
+    metadata: (sensor.metadata || {}) as Record<string, unknown>,
+    created_at: sensor.created_at.toISOString(),
+    updated_at: sensor.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Convert a firmware change to API response format
+ *
+ * Exported for the nested GET /api/gateways/:id/firmware-history route.
+ */
+export function toFirmwareChangeResponse(change: FirmwareChangeWithSerial) {
+  return {
+    id: change.id,
+    detected_at: change.detected_at.toISOString(),
+    gateway_id: change.gateway_id,
+    sensor_id: change.sensor_id,
+    sensor_serial: change.sensor_serial,
+    previous_version: change.previous_version,
+    firmware_version: change.firmware_version,
+    hardware_version: change.hardware_version,
+  };
+}
+
+/**
+ * Check the user's role on the factory of a sensor's gateway
+ *
+ * @returns Error response body (404 SENSOR_NOT_FOUND or 403 FORBIDDEN), or null if allowed
+ */
+async function checkSensorRole(access: AccessScope, sensorId: string, required: Role) {
+  const factoryId = await sensorRepository.findFactoryId(sensorId);
+  return checkRole(factoryId ? factoryRole(access, factoryId) : null, required, {
+    code: 'SENSOR_NOT_FOUND',
+    message: 'Sensor not found',
+  });
+}
+
+/**
+ * Check that an asset exists and belongs to the factory of the sensor's gateway
+ *
+ * Assets of factories the user cannot see are reported as not found.
+ *
+ * @returns Error response body, or null if the sensor can be assigned to the asset
+ */
+async function checkAsset(access: AccessScope, assetId: string, factoryId: string) {
+  const asset = await assetRepository.findById(assetId);
+  if (!asset || !factoryRole(access, asset.factory_id)) {
+    return {
+      error: { code: 'ASSET_NOT_FOUND', message: 'Asset not found', statusCode: 404 },
+    };
+  }
+  if (asset.factory_id !== factoryId) {
+    return {
+      error: {
+        code: 'ASSET_FACTORY_MISMATCH',
+        message: 'Asset belongs to a different factory',
+        statusCode: 400,
+      },
+    };
+  }
+  return null;
+}
+
+/**
+ * Convert repository AcquisitionSchedule type to API response format
+ *
+ * Postgres returns time columns as HH:MM:SS; the API uses HH:MM.
+ */
+function toScheduleResponse(schedule: AcquisitionSchedule) {
+  return {
+    id: schedule.id,
+    sensor_id: schedule.sensor_id,
+    interval_minutes: schedule.interval_minutes,
+    window_start: schedule.window_start ? schedule.window_start.slice(0, 5) : null,
+    window_end: schedule.window_end ? schedule.window_end.slice(0, 5) : null,
+    enabled: schedule.enabled,
+    next_run_at: schedule.next_run_at.toISOString(),
+    last_run_at: schedule.last_run_at ? schedule.last_run_at.toISOString() : null,
+    created_at: schedule.created_at.toISOString(),
+    updated_at: schedule.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Convert repository AcquisitionRun type to API response format
+ */
+function toAcquisitionRunResponse(run: AcquisitionRun) {
+  return {
+    id: run.id,
+    schedule_id: run.schedule_id,
+    sensor_id: run.sensor_id,
+    scheduled_for: run.scheduled_for.toISOString(),
+    started_at: run.started_at ? run.started_at.toISOString() : null,
+    finished_at: run.finished_at ? run.finished_at.toISOString() : null,
+    status: run.status as AcquisitionRunStatus,
+    reading_id: run.reading_id,
+    error: run.error,
+    created_at: run.created_at.toISOString(),
+  };
+}
+
+/**
+ * Sensor CRUD routes
+ *
+ * Sensors are normally created by gateway discovery (the supervisor upserts every
+ * sensor reported by GET_DYN_CONNECTED). These routes let users name sensors,
+ * assign them to machines/assets, and pre-register sensors before discovery:
+ * - POST / - Register sensor by serial on a gateway
+ * - GET / - List sensors with pagination and gateway filter
+ * - GET /:id - Get sensor by ID
+ * - PUT /:id - Update user-assigned fields (name, asset_id, asset_name, metadata)
+ * - DELETE /:id - Soft delete sensor
+ * - GET /:id/readings - List reading summaries with metrics (for trending)
+ * - POST /:id/readings - Take a reading now and wait for it to be stored
+ * - GET /:id/temperature - Temperature series downsampled to min/max/avg buckets
+ * - GET /:id/trend - One metric per reading over a time range, with alarm thresholds
+ * - GET/PUT/DELETE /:id/schedule - Manage the sensor's periodic acquisition schedule
+ * - GET /:id/acquisition-runs - List scheduled runs (succeeded, failed, missed)
+ * - GET /:id/firmware-history - Firmware versions the sensor reported, newest first
+ *
+ * Users see only the sensors on gateways of factories they hold a role on. Taking a
+ * reading needs the technician role on the factory; registering, updating and deleting
+ * sensors and managing schedules need the engineer role.
+ *
+ * Missing (or inaccessible) resources return 404 SENSOR_NOT_FOUND (or SCHEDULE_NOT_FOUND,
+ * ASSET_NOT_FOUND, GATEWAY_NOT_FOUND)
+ * Insufficient roles return 403 FORBIDDEN
+ * Assets of another factory return 400 ASSET_FACTORY_MISMATCH
+ * Other assets than the mounted point's return 409 SENSOR_MOUNTED_ON_OTHER_ASSET
+ * Duplicate active serials return 409 SENSOR_ALREADY_EXISTS
+ * Readings on a gateway without a ready session return 503 GATEWAY_NOT_CONNECTED
+ * Readings that fail at the gateway return 502 READING_FAILED
+ * Empty or oversized temperature ranges return 400 INVALID_TEMPERATURE_RANGE
+ * Empty trend ranges return 400 INVALID_TREND_RANGE
+ */
+const sensorRoutes: FastifyPluginAsyncZod = async (app) => {
+  // POST / - Register sensor
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createSensorSchema,
+        response: {
+          201: sensorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const gateway = await gatewayRepository.findById(request.body.gateway_id);
+      const denied = checkRole(
+        gateway ? factoryRole(request.access, gateway.factory_id) : null,
+        'engineer',
+        { code: 'GATEWAY_NOT_FOUND', message: 'Gateway not found' }
+      );
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const invalid =
+        gateway && request.body.asset_id
+          ? await checkAsset(request.access, request.body.asset_id, gateway.factory_id)
+          : null;
+      if (invalid) {
+        return (reply as any).code(invalid.error.statusCode).send(invalid);
+      }
+
+      const existing = await sensorRepository.findBySerial(request.body.serial);
+      if (existing) {
+        return (reply as any).code(409).send({
+          error: {
+            code: 'SENSOR_ALREADY_EXISTS',
+            message: `Sensor with serial ${request.body.serial} already exists`,
+            statusCode: 409,
+          },
+        });
+      }
+
+      const sensor = await sensorRepository.create(request.body as any);
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'sensor',
+        entityId: sensor.id,
+        after: sensor,
+      });
+      return reply.status(201).send(toSensorResponse(sensor));
+    }
+  );
+
+  // GET / - List sensors the user can see, with pagination and optional gateway filter
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: sensorListQuerySchema,
+        response: {
+          200: sensorListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset, gateway_id } = request.query;
+
+      let sensors: Sensor[];
+      let total: number;
+
+      if (gateway_id) {
+        // Filter by gateway_id (a gateway the user cannot see has no sensors for them)
+        const gateway = await gatewayRepository.findById(gateway_id);
+        const gatewaySensors =
+          gateway && factoryRole(request.access, gateway.factory_id)
+            ? await sensorRepository.findByGateway(gateway_id)
+            : [];
+        total = gatewaySensors.length;
+        // Apply manual pagination to filtered results
+        sensors = gatewaySensors.slice(offset, offset + limit);
+      } else {
+        // No filter - fetch all accessible sensors with pagination
+        const factoryIds = accessibleFactoryIds(request.access);
+        [sensors, total] = await Promise.all([
+          sensorRepository.findAll({ limit, offset, factoryIds }),
+          sensorRepository.count({ factoryIds }),
+        ]);
+      }
+
+      return {
+        data: sensors.map(toSensorResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get sensor by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: sensorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      return toSensorResponse(sensor);
+    }
+  );
+
+  // PUT /:id - Update sensor
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateSensorSchema,
+        response: {
+          200: sensorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const factoryId = await sensorRepository.findFactoryId(request.params.id);
+      const invalid =
+        factoryId && request.body.asset_id
+          ? await checkAsset(request.access, request.body.asset_id, factoryId)
+          : null;
+      if (invalid) {
+        return (reply as any).code(invalid.error.statusCode).send(invalid);
+      }
+
+      if (request.body.asset_id !== undefined) {
+        const mounted = await measurementPointRepository.findBySensor(request.params.id);
+        const conflict = checkAssetAssignment(mounted, request.body.asset_id);
+        if (conflict) {
+          return (reply as any).code(conflict.error.statusCode).send(conflict);
+        }
+      }
+
+      const before = await sensorRepository.findById(request.params.id);
+      const updated = await sensorRepository.update(request.params.id, request.body as any);
+
+      if (!updated) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'sensor',
+        entityId: updated.id,
+        before,
+        after: updated,
+      });
+      return toSensorResponse(updated);
+    }
+  );
+
+  // DELETE /:id - Soft delete sensor
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const before = await sensorRepository.findById(request.params.id);
+      const deleted = await sensorRepository.softDelete(request.params.id);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'sensor',
+        entityId: request.params.id,
+        before,
+      });
+      return reply.code(204).send();
+    }
+  );
+
+  // GET /:id/readings - List reading summaries and metrics, newest first
+  app.get(
+    '/:id/readings',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: readingListQuerySchema,
+        response: {
+          200: readingListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { limit, offset } = request.query;
+      const range = {
+        from: request.query.from ? new Date(request.query.from) : undefined,
+        to: request.query.to ? new Date(request.query.to) : undefined,
+      };
+
+      const [readings, total] = await Promise.all([
+        readingRepository.findBySensor(sensor.gateway_id, sensor.serial, {
+          ...range,
+          limit,
+          offset,
+        }),
+        readingRepository.countBySensor(sensor.gateway_id, sensor.serial, range),
+      ]);
+
+      const metrics = await readingMetricsRepository.findByReadings(readings.map((r) => r.id));
+
+      return {
+        data: readings.map((reading) =>
+          toReadingResponse(
+            reading,
+            metrics.filter((m) => m.reading_id === reading.id)
+          )
+        ),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // POST /:id/readings - Take a reading now through the sensor's gateway session
+  //
+  // Resolves once NOT_DYN_READING has been received and stored (typically
+  // 10-60s); readings on the same gateway are queued behind each other.
+  app.post(
+    '/:id/readings',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          201: readingResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'technician');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const session = gatewaySupervisor.getSession(sensor.gateway_id);
+      if (!session || !session.isReady()) {
+        return (reply as any).code(503).send({
+          error: {
+            code: 'GATEWAY_NOT_CONNECTED',
+            message: 'Gateway for this sensor is not connected',
+            statusCode: 503,
+          },
+        });
+      }
+
+      let reading: SensorReading;
+      try {
+        reading = await session.takeReading(sensor.serial);
+      } catch (error) {
+        request.log.warn({ err: error, sensorSerial: sensor.serial }, 'On-demand reading failed');
+        return (reply as any).code(502).send({
+          error: {
+            code: 'READING_FAILED',
+            message: error instanceof Error ? error.message : 'Reading failed',
+            statusCode: 502,
+          },
+        });
+      }
+
+      // The reading is stored; later failures are server errors, not gateway failures
+      const metrics = await readingMetricsRepository.findByReading(reading.id);
+      // Samples are measurement data, not configuration; record only that the reading was taken
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'reading',
+        entityId: reading.id,
+        after: {
+          sensor_id: sensor.id,
+          recorded_at: reading.recorded_at,
+          sample_count: reading.sample_count,
+          sample_rate: reading.sample_rate,
+        },
+      });
+      return reply.status(201).send(toReadingResponse(reading, metrics));
+    }
+  );
+
+  // GET /:id/temperature - Temperature series in [from, to), downsampled per bucket
+  //
+  // Defaults to the 24 hours before `to` (default now) in 1 hour buckets.
+  app.get(
+    '/:id/temperature',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: temperatureQuerySchema,
+        response: {
+          200: temperatureResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const bucketSeconds = request.query.bucket;
+      const to = request.query.to ? new Date(request.query.to) : new Date();
+      const from = request.query.from
+        ? new Date(request.query.from)
+        : new Date(to.getTime() - DEFAULT_TEMPERATURE_RANGE_MS);
+
+      const bucketCount = (to.getTime() - from.getTime()) / (bucketSeconds * 1000);
+      if (bucketCount <= 0 || bucketCount > MAX_TEMPERATURE_BUCKETS) {
+        return (reply as any).code(400).send({
+          error: {
+            code: 'INVALID_TEMPERATURE_RANGE',
+            message:
+              bucketCount <= 0
+                ? 'from must be before to'
+                : `Range spans more than ${MAX_TEMPERATURE_BUCKETS} buckets; use a larger bucket`,
+            statusCode: 400,
+          },
+        });
+      }
+
+      const buckets = await temperatureRepository.findBuckets(sensor.serial, {
+        from,
+        to,
+        bucketSeconds,
+      });
+
+      return {
+        sensor_id: sensor.id,
+        sensor_serial: sensor.serial,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        bucket_seconds: bucketSeconds,
+        data: buckets.map((bucket) => ({
+          ...bucket,
+          bucket_start: bucket.bucket_start.toISOString(),
+        })),
+      };
+    }
+  );
+
+  // GET /:id/trend - Metric history in [from, to], one point per reading
+  //
+  // Defaults to the 7 days before `to` (default now). At most MAX_TREND_POINTS
+  // of the newest readings are returned; `truncated` reports when more exist.
+  app.get(
+    '/:id/trend',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: trendQuerySchema,
+        response: {
+          200: trendResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { metric } = request.query;
+      const axis = request.query.axis ?? null;
+      const to = request.query.to ? new Date(request.query.to) : new Date();
+      const from = request.query.from
+        ? new Date(request.query.from)
+        : new Date(to.getTime() - DEFAULT_TREND_RANGE_MS);
+
+      if (from >= to) {
+        return (reply as any).code(400).send({
+          error: {
+            code: 'INVALID_TREND_RANGE',
+            message: 'from must be before to',
+            statusCode: 400,
+          },
+        });
+      }
+
+      // One extra row tells whether the range holds more than fits
+      const [readings, rules] = await Promise.all([
+        readingRepository.findBySensor(sensor.gateway_id, sensor.serial, {
+          from,
+          to,
+          limit: MAX_TREND_POINTS + 1,
+        }),
+        alarmRuleRepository.findEnabledForSensor(sensor.id, sensor.asset_id),
+      ]);
+      const truncated = readings.length > MAX_TREND_POINTS;
+      const kept = readings.slice(0, MAX_TREND_POINTS);
+
+      const metrics =
+        metric === 'temperature'
+          ? []
+          : await readingMetricsRepository.findByReadings(kept.map((r) => r.id));
+
+      return {
+        sensor_id: sensor.id,
+        metric,
+        axis,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        truncated,
+        data: buildTrendPoints(kept, metrics, metric, axis).map((point) => ({
+          ...point,
+          recorded_at: point.recorded_at.toISOString(),
+        })),
+        thresholds: trendThresholds(rules, metric, axis),
+      };
+    }
+  );
+
+  // GET /:id/schedule - Get the sensor's acquisition schedule
+  app.get(
+    '/:id/schedule',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: scheduleResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const schedule = await acquisitionScheduleRepository.findBySensor(sensor.id);
+      if (!schedule) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SCHEDULE_NOT_FOUND',
+            message: 'Sensor has no acquisition schedule',
+            statusCode: 404,
+          },
+        });
+      }
+
+      return toScheduleResponse(schedule);
+    }
+  );
+
+  // PUT /:id/schedule - Create or replace the sensor's acquisition schedule
+  app.put(
+    '/:id/schedule',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: upsertScheduleSchema,
+        response: {
+          200: scheduleResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const timezone = await sensorRepository.findFactoryTimezone(request.params.id);
+      if (!timezone) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const existing = await acquisitionScheduleRepository.findBySensor(request.params.id);
+      const timing = request.body;
+
+      // Keep the pending slot when only unrelated fields change; otherwise start
+      // at the next opportunity inside the window
+      const unchanged =
+        existing !== undefined &&
+        existing.enabled &&
+        existing.interval_minutes === timing.interval_minutes &&
+        (existing.window_start?.slice(0, 5) ?? null) === timing.window_start &&
+        (existing.window_end?.slice(0, 5) ?? null) === timing.window_end;
+      const nextRunAt = unchanged
+        ? existing.next_run_at
+        : alignToWindow(timing, new Date(), timezone);
+
+      const schedule = await acquisitionScheduleRepository.upsert({
+        sensor_id: request.params.id,
+        interval_minutes: timing.interval_minutes,
+        window_start: timing.window_start,
+        window_end: timing.window_end,
+        enabled: timing.enabled,
+        next_run_at: nextRunAt,
+      });
+
+      await recordAudit(request, {
+        action: existing ? 'update' : 'create',
+        entityType: 'acquisition_schedule',
+        entityId: schedule.id,
+        before: existing,
+        after: schedule,
+      });
+      return toScheduleResponse(schedule);
+    }
+  );
+
+  // DELETE /:id/schedule - Remove the sensor's acquisition schedule
+  app.delete(
+    '/:id/schedule',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'engineer');
+      if (denied) {
+        return reply.code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return reply.code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const deleted = await acquisitionScheduleRepository.deleteBySensor(sensor.id);
+      if (!deleted) {
+        return reply.code(404).send({
+          error: {
+            code: 'SCHEDULE_NOT_FOUND',
+            message: 'Sensor has no acquisition schedule',
+            statusCode: 404,
+          },
+        });
+      }
+
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'acquisition_schedule',
+        entityId: deleted.id,
+        before: deleted,
+      });
+      return reply.code(204).send();
+    }
+  );
+
+  // GET /:id/acquisition-runs - List scheduled runs with pagination
+  app.get(
+    '/:id/acquisition-runs',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: acquisitionRunListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { limit, offset } = request.query;
+      const [runs, total] = await Promise.all([
+        acquisitionRunRepository.findBySensor(sensor.id, { limit, offset }),
+        acquisitionRunRepository.countBySensor(sensor.id),
+      ]);
+
+      return {
+        data: runs.map(toAcquisitionRunResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id/firmware-history - Firmware changes reported by the sensor, newest first
+  app.get(
+    '/:id/firmware-history',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: firmwareChangeListResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const denied = await checkSensorRole(request.access, request.params.id, 'viewer');
+      if (denied) {
+        return (reply as any).code(denied.error.statusCode).send(denied);
+      }
+
+      const sensor = await sensorRepository.findById(request.params.id);
+      if (!sensor) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'SENSOR_NOT_FOUND',
+            message: 'Sensor not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const { limit, offset } = request.query;
+      const [changes, total] = await Promise.all([
+        firmwareChangeRepository.findAll({ sensor_id: sensor.id, limit, offset }),
+        firmwareChangeRepository.count({ sensor_id: sensor.id }),
+      ]);
+
+      return {
+        data: changes.map(toFirmwareChangeResponse),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+};
+
+export default sensorRoutes;
@@ -0,0 +1,173 @@
+import type { ServerResponse } from 'node:http';
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { streamQuerySchema } from '../schemas/stream';
+import { factoryRepository } from '../../repositories/FactoryRepository';
+import { gatewayRepository } from '../../repositories/GatewayRepository';
+import { userSessionRepository } from '../../repositories/UserSessionRepository';
+import { LiveEvent, LiveEventFilter, liveEvents } from '../../events/live-events';
+import { accessibleFactoryIds, factoryRole } from '../../access/access-control';
+import { loadAccessScope } from '../plugins/auth';
+
+// Comment frame interval that keeps proxies from closing idle streams
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+// Delay EventSource waits before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 3_000;
+
+// How often an open stream re-reads its session and the user's roles
+const ACCESS_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * An open stream and the sign-in session it was opened with
+ */
+interface OpenStream {
+  sessionId: string;
+  filter: LiveEventFilter;
+  requiredFactoryIds: string[]; // Factories of the factory_id/gateway_id filters
+}
+
+// Every open stream (module-level so sign-out can end the session's streams)
+const openStreams = new Map<ServerResponse, OpenStream>();
+
+/**
+ * Format one Server-Sent Events frame
+ */
+function formatEvent(id: number, event: LiveEvent): string {
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Re-read an open stream's session and narrow its filter to the user's current roles
+ *
+ * @returns false if the session ended or expired, its user was deleted, or the user
+ *   lost access to the factory or gateway the stream was filtered to
+ */
+async function refreshAccess(open: OpenStream): Promise<boolean> {
+  const found = await userSessionRepository.findUserBySessionId(open.sessionId);
+  if (!found) {
+    return false;
+  }
+
+  const access = await loadAccessScope(found.user.id);
+  if (open.requiredFactoryIds.some((factoryId) => !factoryRole(access, factoryId))) {
+    return false;
+  }
+  open.filter.factory_ids = accessibleFactoryIds(access);
+  return true;
+}
+
+/**
+ * End the open streams of a sign-in session (called on sign-out)
+ */
+export function closeSessionStreams(sessionId: string): void {
+  for (const [stream, open] of openStreams) {
+    if (open.sessionId === sessionId) {
+      stream.end();
+    }
+  }
+}
+
+/**
+ * Live event stream route
+ *
+ * - GET / - Server-Sent Events stream of gateway state changes, reading starts,
+ *   stored readings, temperatures and alarm changes
+ *
+ * Streams carry only events of factories the user holds a role on. Optional
+ * factory_id/gateway_id filters narrow the stream; unknown (or inaccessible) IDs
+ * return 404 FACTORY_NOT_FOUND or GATEWAY_NOT_FOUND before the stream opens.
+ * Open streams re-check the session and roles every ACCESS_CHECK_INTERVAL_MS and
+ * end once the session is gone or the filtered factory is out of reach; signing
+ * out ends the session's streams at once. Events are not replayed: clients
+ * refetch REST data after reconnecting.
+ */
+const streamRoutes: FastifyPluginAsyncZod = async (app) => {
+  // Open streams never go idle, so end them before the server closes
+  app.addHook('preClose', async () => {
+    for (const stream of openStreams.keys()) {
+      stream.end();
+    }
+  });
+
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: streamQuerySchema,
+      },
+    },
+    async (request, reply) => {
+      const { factory_id, gateway_id } = request.query;
+
+      const factory = factory_id ? await factoryRepository.findById(factory_id) : undefined;
+      if (factory_id && (!factory || !factoryRole(request.access, factory.id))) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'FACTORY_NOT_FOUND',
+            message: 'Factory not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      const gateway = gateway_id ? await gatewayRepository.findById(gateway_id) : undefined;
+      if (gateway_id && (!gateway || !factoryRole(request.access, gateway.factory_id))) {
+        return (reply as any).code(404).send({
+          error: {
+            code: 'GATEWAY_NOT_FOUND',
+            message: 'Gateway not found',
+            statusCode: 404,
+          },
+        });
+      }
+
+      // The response is written directly; keep headers set by plugins (CORS, helmet)
+      reply.hijack();
+      const stream = reply.raw;
+      stream.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      stream.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      // The auth plugin only lets requests with a session through
+      const open: OpenStream = {
+        sessionId: request.sessionId!,
+        filter: { factory_id, gateway_id, factory_ids: accessibleFactoryIds(request.access) },
+        requiredFactoryIds: [factory?.id, gateway?.factory_id].filter(
+          (id): id is string => id !== undefined
+        ),
+      };
+      openStreams.set(stream, open);
+
+      let nextId = 1;
+      const unsubscribe = liveEvents.subscribe(open.filter, (event) => {
+        stream.write(formatEvent(nextId++, event));
+      });
+      const keepalive = setInterval(() => stream.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+      const accessCheck = setInterval(() => {
+        refreshAccess(open)
+          .then((valid) => {
+            if (!valid) {
+              stream.end();
+            }
+          })
+          .catch((error) => {
+            request.log.error({ err: error }, 'Failed to re-check live stream access');
+          });
+      }, ACCESS_CHECK_INTERVAL_MS);
+
+      stream.on('close', () => {
+        clearInterval(keepalive);
+        clearInterval(accessCheck);
+        unsubscribe();
+        openStreams.delete(stream);
+      });
+    }
+  );
+};
+
+export default streamRoutes;
@@ -0,0 +1,382 @@
+import { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createUserSchema,
+  updateUserSchema,
+  userResponseSchema,
+  userListResponseSchema,
+} from '../schemas/users';
+import { paginationQuerySchema } from '../schemas/common';
+import { userRepository } from '../../repositories/UserRepository';
+import { userSessionRepository } from '../../repositories/UserSessionRepository';
+import { roleAssignmentRepository } from '../../repositories/RoleAssignmentRepository';
+import { organizationRepository } from '../../repositories/OrganizationRepository';
+import { factoryRepository } from '../../repositories/FactoryRepository';
+import { Role, RoleAssignment, User } from '../../repositories/types';
+import { hashPassword } from '../../utils/password';
+import { roleAtLeast } from '../../access/access-control';
+import { recordAudit } from '../../audit/audit-log';
+
+type RoleAssignmentInput = {
+  role: Role;
+  organization_id?: string | null;
+  factory_id?: string | null;
+};
+
+/**
+ * Convert repository User type and the user's role assignments to API response format
+ *
+ * Serializes Date objects to ISO strings.
+ * CRITICAL: Never includes password_hash.
+ */
+export function toUserResponse(user: User, roles: RoleAssignment[]) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    // NO password_hash field
+    roles: roles.map((assignment) => ({
+      role: assignment.role as Role,
+      organization_id: assignment.organization_id,
+      factory_id: assignment.factory_id,
+    })),
+    last_login_at: user.last_login_at ? user.last_login_at.toISOString() : null,
+    metadata: (user.metadata || {}) as Record<string, unknown>,
+    created_at: user.created_at.toISOString(),
+    updated_at: user.updated_at.toISOString(),
+  };
+}
+
+function userNotFound() {
+  return {
+    error: {
+      code: 'USER_NOT_FOUND',
+      message: 'User not found',
+      statusCode: 404,
+    },
+  };
+}
+
+function userAlreadyExists(email: string) {
+  return {
+    error: {
+      code: 'USER_ALREADY_EXISTS',
+      message: `User with email ${email.toLowerCase()} already exists`,
+      statusCode: 409,
+    },
+  };
+}
+
+/**
+ * Check that the organizations and factories role assignments are scoped to exist
+ *
+ * @returns Error response body, or null if every scope exists
+ */
+async function checkRoleScopes(roles: RoleAssignmentInput[]) {
+  for (const assignment of roles) {
+    if (assignment.organization_id) {
+      if (!(await organizationRepository.findById(assignment.organization_id))) {
+        return {
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found',
+            statusCode: 404,
+          },
+        };
+      }
+    } else if (assignment.factory_id) {
+      if (!(await factoryRepository.findById(assignment.factory_id))) {
+        return {
+          error: {
+            code: 'FACTORY_NOT_FOUND',
+            message: 'Factory not found',
+            statusCode: 404,
+          },
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function isGlobalAdmin(assignment: RoleAssignmentInput): boolean {
+  return assignment.role === 'admin' && !assignment.organization_id && !assignment.factory_id;
+}
+
+function toRoleAssignments(roles: RoleAssignmentInput[]) {
+  return roles.map((assignment) => ({
+    role: assignment.role,
+    organization_id: assignment.organization_id ?? null,
+    factory_id: assignment.factory_id ?? null,
+  }));
+}
+
+/**
+ * User as recorded in the audit log: the account and its role assignments
+ */
+function toAuditSnapshot(user: User, assignments: RoleAssignment[]) {
+  return {
+    ...user,
+    roles: assignments.map(({ role, organization_id, factory_id }) => ({
+      role,
+      organization_id,
+      factory_id,
+    })),
+  };
+}
+
+/**
+ * User account CRUD routes
+ *
+ * Only users with the admin role on every organization can manage accounts.
+ * Passwords are hashed with scrypt before storage and never returned:
+ * - POST / - Create user with role assignments
+ * - GET / - List users with pagination
+ * - GET /:id - Get user by ID
+ * - PUT /:id - Update email, name, password, role assignments or metadata
+ * - DELETE /:id - Soft delete user and end their sessions
+ *
+ * Other users get 403 FORBIDDEN
+ * Missing resources return 404 USER_NOT_FOUND (or ORGANIZATION_NOT_FOUND, FACTORY_NOT_FOUND
+ * for role assignment scopes)
+ * Duplicate active emails return 409 USER_ALREADY_EXISTS
+ * Deleting your own account returns 400 CANNOT_DELETE_SELF
+ * Removing your own admin role on every organization returns 400 CANNOT_DEMOTE_SELF
+ */
+const userRoutes: FastifyPluginAsyncZod = async (app) => {
+  app.addHook('onRequest', async (request, reply) => {
+    if (!roleAtLeast(request.access.global, 'admin')) {
+      return reply.code(403).send({
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Requires the admin role on every organization',
+          statusCode: 403,
+        },
+      });
+    }
+  });
+
+  // POST / - Create user
+  app.post(
+    '/',
+    {
+      schema: {
+        body: createUserSchema,
+        response: {
+          201: userResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { password, roles, ...fields } = request.body;
+
+      if (await userRepository.findByEmail(fields.email)) {
+        return (reply as any).code(409).send(userAlreadyExists(fields.email));
+      }
+
+      const scopeError = await checkRoleScopes(roles);
+      if (scopeError) {
+        return (reply as any).code(scopeError.error.statusCode).send(scopeError);
+      }
+
+      const user = await userRepository.create({
+        ...fields,
+        password_hash: await hashPassword(password),
+      } as any);
+      const assignments = await roleAssignmentRepository.replaceForUser(
+        user.id,
+        toRoleAssignments(roles)
+      );
+      await recordAudit(request, {
+        action: 'create',
+        entityType: 'user',
+        entityId: user.id,
+        after: toAuditSnapshot(user, assignments),
+      });
+      return reply.status(201).send(toUserResponse(user, assignments));
+    }
+  );
+
+  // GET / - List users with pagination
+  app.get(
+    '/',
+    {
+      schema: {
+        querystring: paginationQuerySchema,
+        response: {
+          200: userListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { limit, offset } = request.query;
+
+      // Fetch paginated data and total count in parallel
+      const [users, total] = await Promise.all([
+        userRepository.findAll({ limit, offset }),
+        userRepository.count(),
+      ]);
+      const roles = await roleAssignmentRepository.findByUsers(users.map((user) => user.id));
+
+      return {
+        data: users.map((user) => toUserResponse(user, roles.get(user.id) ?? [])),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasNext: offset + limit < total,
+          hasPrev: offset > 0,
+        },
+      };
+    }
+  );
+
+  // GET /:id - Get user by ID
+  app.get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: userResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await userRepository.findById(request.params.id);
+
+      if (!user) {
+        return (reply as any).code(404).send(userNotFound());
+      }
+
+      return toUserResponse(user, await roleAssignmentRepository.findByUser(user.id));
+    }
+  );
+
+  // PUT /:id - Update user
+  //
+  // A new password ends all of the user's sessions (other than the caller's own).
+  // Role changes apply to the user's next request.
+  app.put(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateUserSchema,
+        response: {
+          200: userResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { password, roles, ...fields } = request.body;
+
+      if (
+        roles &&
+        request.user?.id === request.params.id &&
+        !roles.some((assignment) => isGlobalAdmin(assignment))
+      ) {
+        return (reply as any).code(400).send({
+          error: {
+            code: 'CANNOT_DEMOTE_SELF',
+            message: 'You cannot remove your own admin role on every organization',
+            statusCode: 400,
+          },
+        });
+      }
+
+      if (fields.email) {
+        const existing = await userRepository.findByEmail(fields.email);
+        if (existing && existing.id !== request.params.id) {
+          return (reply as any).code(409).send(userAlreadyExists(fields.email));
+        }
+      }
+
+      if (roles) {
+        const scopeError = await checkRoleScopes(roles);
+        if (scopeError) {
+          return (reply as any).code(scopeError.error.statusCode).send(scopeError);
+        }
+      }
+
+      const previous = await userRepository.findById(request.params.id);
+      const before = previous
+        ? toAuditSnapshot(previous, await roleAssignmentRepository.findByUser(previous.id))
+        : undefined;
+      const updated = await userRepository.update(request.params.id, {
+        ...fields,
+        ...(password ? { password_hash: await hashPassword(password) } : {}),
+      } as any);
+
+      if (!updated) {
+        return (reply as any).code(404).send(userNotFound());
+      }
+
+      if (password) {
+        await userSessionRepository.deleteByUser(updated.id, request.sessionId ?? undefined);
+      }
+
+      const assignments = roles
+        ? await roleAssignmentRepository.replaceForUser(updated.id, toRoleAssignments(roles))
+        : await roleAssignmentRepository.findByUser(updated.id);
+
+      await recordAudit(request, {
+        action: 'update',
+        entityType: 'user',
+        entityId: updated.id,
+        before,
+        after: toAuditSnapshot(updated, assignments),
+      });
+      return toUserResponse(updated, assignments);
+    }
+  );
+
+  // DELETE /:id - Soft delete user
+  app.delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      if (request.user?.id === request.params.id) {
+        return reply.code(400).send({
+          error: {
+            code: 'CANNOT_DELETE_SELF',
+            message: 'You cannot delete your own account',
+            statusCode: 400,
+          },
+        });
+      }
+
+      const previous = await userRepository.findById(request.params.id);
+      const before = previous
+        ? toAuditSnapshot(previous, await roleAssignmentRepository.findByUser(previous.id))
+        : undefined;
+      const deleted = await userRepository.softDelete(request.params.id);
+
+      if (!deleted) {
+        return reply.code(404).send(userNotFound());
+      }
+
+      await userSessionRepository.deleteByUser(deleted.id);
+      await recordAudit(request, {
+        action: 'delete',
+        entityType: 'user',
+        entityId: deleted.id,
+        before,
+      });
+
+      return reply.code(204).send();
+    }
+  );
+};
+
+export default userRoutes;
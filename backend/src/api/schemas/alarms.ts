@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for alarm API validation
+ *
+ * - createAlarmRuleSchema: Validates POST /api/alarm-rules request body
+ * - updateAlarmRuleSchema: Validates PUT /api/alarm-rules/:id request body
+ * - alarmRuleResponseSchema: Validates individual rule response (excludes deleted_at)
+ * - alarmRuleListQuerySchema: Extends pagination with optional sensor_id/asset_id filters
+ * - alarmRuleListResponseSchema: Validates paginated rule list response
+ * - alarmEventResponseSchema: Validates individual alarm event response
+ * - alarmEventListQuerySchema: Extends pagination with status/severity/sensor/rule/asset/point
+ *   filters
+ * - alarmEventListResponseSchema: Validates paginated alarm event list response
+ *
+ * A rule targets exactly one of sensor_id or asset_id; asset rules apply to every
+ * sensor mounted on the asset. A null axis evaluates the largest of the three axes.
+ * Events carry the asset and measurement point the sensor was mounted on when raised.
+ */
+
+// Reading metric a rule watches (see reading metrics in the readings API)
+export const alarmMetricSchema = z.enum([
+  'rms',
+  'peak',
+  'peak_to_peak',
+  'crest_factor',
+  'kurtosis',
+  'skewness',
+  'velocity_rms',
+]);
+
+export const alarmSeveritySchema = z.enum(['alert', 'danger']);
+
+export const alarmStatusSchema = z.enum(['active', 'acknowledged', 'cleared']);
+
+// Create rule request body
+export const createAlarmRuleSchema = z
+  .object({
+    sensor_id: z.string().uuid().optional(),
+    asset_id: z.string().uuid().optional(),
+    name: z.string().min(1).max(255),
+    metric: alarmMetricSchema,
+    axis: z.enum(['x', 'y', 'z']).nullable().default(null),
+    alert_level: z.number(),
+    danger_level: z.number(),
+    hysteresis: z.number().min(0).default(0),
+    consecutive_count: z.number().int().min(1).max(100).default(1),
+    enabled: z.boolean().default(true),
+  })
+  .refine((data) => (data.sensor_id === undefined) !== (data.asset_id === undefined), {
+    message: 'Exactly one of sensor_id and asset_id must be set',
+    path: ['sensor_id'],
+  })
+  .refine((data) => data.danger_level >= data.alert_level, {
+    message: 'danger_level must be greater than or equal to alert_level',
+    path: ['danger_level'],
+  });
+
+// Update rule request body (all fields optional, target not updatable)
+export const updateAlarmRuleSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  metric: alarmMetricSchema.optional(),
+  axis: z.enum(['x', 'y', 'z']).nullable().optional(),
+  alert_level: z.number().optional(),
+  danger_level: z.number().optional(),
+  hysteresis: z.number().min(0).optional(),
+  consecutive_count: z.number().int().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+});
+
+// Rule response (excludes deleted_at, dates as ISO strings)
+export const alarmRuleResponseSchema = z.object({
+  id: z.string().uuid(),
+  sensor_id: z.string().uuid().nullable(),
+  asset_id: z.string().uuid().nullable(),
+  name: z.string(),
+  metric: alarmMetricSchema,
+  axis: z.enum(['x', 'y', 'z']).nullable(),
+  alert_level: z.number(),
+  danger_level: z.number(),
+  hysteresis: z.number(),
+  consecutive_count: z.number(),
+  enabled: z.boolean(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Rule list query parameters (pagination + optional target filters)
+export const alarmRuleListQuerySchema = paginationQuerySchema.extend({
+  sensor_id: z.string().uuid().optional(),
+  asset_id: z.string().uuid().optional(),
+});
+
+// Paginated rule list response
+export const alarmRuleListResponseSchema = z.object({
+  data: z.array(alarmRuleResponseSchema),
+  pagination: paginationResponseSchema,
+});
+
+// Alarm event response; status is derived from acknowledged_at/cleared_at
+export const alarmEventResponseSchema = z.object({
+  id: z.string().uuid(),
+  rule_id: z.string().uuid(),
+  rule_name: z.string(),
+  metric: alarmMetricSchema,
+  axis: z.enum(['x', 'y', 'z']).nullable(),
+  sensor_id: z.string().uuid(),
+  reading_id: z.string().uuid().nullable(),
+  asset_id: z.string().uuid().nullable(),
+  measurement_point_id: z.string().uuid().nullable(),
+  severity: alarmSeveritySchema,
+  status: alarmStatusSchema,
+  value: z.number(),
+  threshold: z.number(),
+  raised_at: z.string().datetime(),
+  acknowledged_at: z.string().datetime().nullable(),
+  cleared_at: z.string().datetime().nullable(),
+});
+
+// Alarm event list query parameters (pagination + optional filters)
+export const alarmEventListQuerySchema = paginationQuerySchema.extend({
+  status: alarmStatusSchema.optional(),
+  severity: alarmSeveritySchema.optional(),
+  sensor_id: z.string().uuid().optional(),
+  rule_id: z.string().uuid().optional(),
+  asset_id: z.string().uuid().optional(),
+  measurement_point_id: z.string().uuid().optional(),
+});
+
+// Paginated alarm event list response
+export const alarmEventListResponseSchema = z.object({
+  data: z.array(alarmEventResponseSchema),
+  pagination: paginationResponseSchema,
+});
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for area API validation
+ *
+ * - createAreaSchema: Validates POST /api/areas request body
+ * - updateAreaSchema: Validates PUT /api/areas/:id request body
+ * - areaResponseSchema: Validates individual area response (excludes deleted_at)
+ * - areaListQuerySchema: Extends pagination with optional factory_id filter
+ * - areaListResponseSchema: Validates paginated list response with metadata
+ *
+ * An area is a production area or line of a factory that groups its assets.
+ */
+
+// Create area request body
+export const createAreaSchema = z.object({
+  factory_id: z.string().uuid(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Update area request body (all fields optional, factory_id not updatable)
+export const updateAreaSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Area response (excludes deleted_at, dates as ISO strings)
+export const areaResponseSchema = z.object({
+  id: z.string().uuid(),
+  factory_id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Area list query parameters (pagination + optional factory filter)
+export const areaListQuerySchema = paginationQuerySchema.extend({
+  factory_id: z.string().uuid().optional(),
+});
+
+// Paginated area list response
+export const areaListResponseSchema = z.object({
+  data: z.array(areaResponseSchema),
+  pagination: paginationResponseSchema,
+});
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for asset API validation
+ *
+ * - createAssetSchema: Validates POST /api/assets request body
+ * - updateAssetSchema: Validates PUT /api/assets/:id request body
+ * - assetResponseSchema: Validates individual asset response (excludes deleted_at)
+ * - assetListQuerySchema: Extends pagination with optional factory_id/area_id filters
+ * - assetListResponseSchema: Validates paginated list response with metadata
+ *
+ * machine_class is the ISO 10816 class (I-IV) used to classify readings into
+ * zones A-D; null leaves the asset's readings unclassified. area_id places the
+ * asset in an area of its factory; null keeps it directly under the factory.
+ */
+
+// ISO 10816 machine class
+export const machineClassSchema = z.enum(['I', 'II', 'III', 'IV']);
+
+// Kind of machine
+export const assetTypeSchema = z.enum([
+  'motor',
+  'pump',
+  'gearbox',
+  'fan',
+  'compressor',
+  'bearing',
+  'other',
+]);
+
+// Create asset request body
+export const createAssetSchema = z.object({
+  factory_id: z.string().uuid(),
+  area_id: z.string().uuid().nullable().optional(),
+  name: z.string().min(1).max(255),
+  asset_type: assetTypeSchema.nullable().optional(),
+  machine_class: machineClassSchema.nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Update asset request body (all fields optional, factory_id not updatable)
+export const updateAssetSchema = z.object({
+  area_id: z.string().uuid().nullable().optional(),
+  name: z.string().min(1).max(255).optional(),
+  asset_type: assetTypeSchema.nullable().optional(),
+  machine_class: machineClassSchema.nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Asset response (excludes deleted_at, dates as ISO strings)
+export const assetResponseSchema = z.object({
+  id: z.string().uuid(),
+  factory_id: z.string().uuid(),
+  area_id: z.string().uuid().nullable(),
+  name: z.string(),
+  asset_type: assetTypeSchema.nullable(),
+  machine_class: machineClassSchema.nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Asset list query parameters (pagination + optional factory or area filter)
+export const assetListQuerySchema = paginationQuerySchema.extend({
+  factory_id: z.string().uuid().optional(),
+  area_id: z.string().uuid().optional(),
+});
+
+// Paginated asset list response
+export const assetListResponseSchema = z.object({
+  data: z.array(assetResponseSchema),
+  pagination: paginationResponseSchema,
+});
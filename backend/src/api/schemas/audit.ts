@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for audit log API validation
+ *
+ * - auditEventResponseSchema: Validates individual audit event response
+ * - auditEventListQuerySchema: Extends pagination with entity/user/action/time range filters
+ * - auditEventListResponseSchema: Validates paginated audit event list response
+ *
+ * changes maps each changed field to its value before and/or after the call
+ * (created entities have only after, deleted ones only before). Secret fields
+ * are stored as '[REDACTED]'.
+ */
+
+export const auditActionSchema = z.enum([
+  'create',
+  'update',
+  'delete',
+  'acknowledge',
+  'clear',
+  'test_connection',
+  'login',
+  'logout',
+]);
+
+export const auditEntityTypeSchema = z.enum([
+  'organization',
+  'factory',
+  'gateway',
+  'sensor',
+  'acquisition_schedule',
+  'reading',
+  'area',
+  'asset',
+  'measurement_point',
+  'alarm_rule',
+  'alarm_event',
+  'user',
+]);
+
+// Audit event response (dates as ISO strings)
+export const auditEventResponseSchema = z.object({
+  id: z.string().uuid(),
+  occurred_at: z.string().datetime(),
+  user_id: z.string().uuid().nullable(),
+  actor_email: z.string().nullable(),
+  action: auditActionSchema,
+  entity_type: auditEntityTypeSchema,
+  entity_id: z.string().uuid().nullable(),
+  changes: z.record(
+    z.string(),
+    z.object({ before: z.unknown().optional(), after: z.unknown().optional() })
+  ),
+  request_id: z.string().nullable(),
+  ip_address: z.string().nullable(),
+});
+
+// Audit event list query parameters (pagination + optional filters, time range inclusive)
+export const auditEventListQuerySchema = paginationQuerySchema.extend({
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.string().uuid().optional(),
+  user_id: z.string().uuid().optional(),
+  action: auditActionSchema.optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+// Paginated audit event list response
+export const auditEventListResponseSchema = z.object({
+  data: z.array(auditEventResponseSchema),
+  pagination: paginationResponseSchema,
+});
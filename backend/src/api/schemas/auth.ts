@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { roleSchema, userResponseSchema } from './users';
+
+/**
+ * Zod schemas for sign-in API validation
+ *
+ * - loginSchema: Validates POST /api/auth/login request body
+ * - currentUserResponseSchema: Validates login and GET /api/auth/me responses
+ *   (the user plus the roles they hold on each organization and factory)
+ */
+
+// Login request body
+export const loginSchema = z.object({
+  email: z.string().min(1).max(255),
+  password: z.string().min(1).max(200),
+});
+
+// Signed-in user with effective roles (global applies wherever no entry is listed)
+export const currentUserResponseSchema = userResponseSchema.extend({
+  access: z.object({
+    global: roleSchema.nullable(),
+    organizations: z.record(z.string(), roleSchema),
+    factories: z.record(z.string(), roleSchema),
+  }),
+});
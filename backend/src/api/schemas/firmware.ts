@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for firmware history API validation
+ *
+ * - firmwareChangeResponseSchema: Validates one recorded firmware change
+ * - firmwareChangeListResponseSchema: Validates paginated firmware history, newest first
+ *
+ * Changes are recorded by gateway sessions when a gateway (on login) or a sensor
+ * (in discovery) reports a firmware version that differs from the stored one.
+ */
+
+// Firmware change (sensor_id and sensor_serial are null for the gateway's own firmware)
+export const firmwareChangeResponseSchema = z.object({
+  id: z.string().uuid(),
+  detected_at: z.string().datetime(),
+  gateway_id: z.string().uuid(),
+  sensor_id: z.string().uuid().nullable(),
+  sensor_serial: z.number().nullable(),
+  previous_version: z.string().nullable(), // null when first recorded
+  firmware_version: z.string(),
+  hardware_version: z.string().nullable(), // Sensor HwVer or gateway model
+});
+
+// Paginated firmware history
+export const firmwareChangeListResponseSchema = z.object({
+  data: z.array(firmwareChangeResponseSchema),
+  pagination: paginationResponseSchema,
+});
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { paginationQuerySchema, paginationResponseSchema } from './common';
+import { ConnectionState } from '../../types/connection';
 
 /**
  * Zod schemas for gateway API validation
@@ -9,6 +10,10 @@ import { paginationQuerySchema, paginationResponseSchema } from './common';
  * - gatewayResponseSchema: Validates individual gateway response (EXCLUDES password fields for GATEWAY-07 security)
  * - gatewayListQuerySchema: Extends pagination with optional factory_id filter
  * - gatewayListResponseSchema: Validates paginated list response with metadata
+ * - gatewayStatusResponseSchema: Validates GET /api/gateways/:id/status response
+ * - gatewayConnectionEventListResponseSchema: Validates paginated connection event timeline
+ * - testConnectionSchema / testSavedConnectionSchema: Validate connection test request bodies
+ * - connectionTestResponseSchema: Validates connection test results
  */
 
 // Create gateway request body (password will be encrypted by repository)
@@ -55,6 +60,9 @@ export const gatewayResponseSchema = z.object({
   model: z.string().nullable(),
   firmware_version: z.string().nullable(),
   last_seen_at: z.string().datetime().nullable(),
+  // Live state of the supervisor's connection, null when the gateway has no session
+  connection_state: z.enum(ConnectionState).nullable(),
+  sensor_count: z.number(),
   metadata: z.record(z.string(), z.unknown()),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),
@@ -71,3 +79,76 @@ export const gatewayListResponseSchema = z.object({
   data: z.array(gatewayResponseSchema),
   pagination: paginationResponseSchema,
 });
+
+// Live connection health of a gateway's supervisor session
+//
+// Uptime and reconnect_count cover the current session (the supervisor starts a new
+// one when connection settings change or authentication is retried). Gateways without
+// a session (not yet synced, or the supervisor is disabled) report DISCONNECTED.
+export const gatewayStatusResponseSchema = z.object({
+  gateway_id: z.string().uuid(),
+  state: z.enum(ConnectionState),
+  supervised: z.boolean(),
+  session_started_at: z.string().datetime().nullable(),
+  connected_since: z.string().datetime().nullable(),
+  uptime_seconds: z.number().nullable(),
+  reconnect_count: z.number(),
+  last_seen_at: z.string().datetime().nullable(),
+  last_heartbeat_at: z.string().datetime().nullable(),
+  last_error: z
+    .object({
+      message: z.string(),
+      occurred_at: z.string().datetime(),
+    })
+    .nullable(),
+});
+
+// Connection event (state, previous_state only for state_change; error only for failures)
+export const gatewayConnectionEventResponseSchema = z.object({
+  id: z.string().uuid(),
+  occurred_at: z.string().datetime(),
+  event_type: z.enum(['state_change', 'heartbeat', 'auth_succeeded', 'auth_failed', 'error']),
+  state: z.enum(ConnectionState).nullable(),
+  previous_state: z.enum(ConnectionState).nullable(),
+  error: z.string().nullable(),
+});
+
+// Paginated connection event timeline, newest first
+export const gatewayConnectionEventListResponseSchema = z.object({
+  data: z.array(gatewayConnectionEventResponseSchema),
+  pagination: paginationResponseSchema,
+});
+
+// Connection test of an unsaved gateway (factory_id scopes the access check)
+export const testConnectionSchema = createGatewaySchema.pick({
+  factory_id: true,
+  url: true,
+  email: true,
+  password: true,
+});
+
+// Connection test of a saved gateway: given fields replace the stored ones (e.g. an edited URL)
+export const testSavedConnectionSchema = updateGatewaySchema
+  .pick({ url: true, email: true, password: true })
+  .default({});
+
+// Connection test result (failures are results too: success is false with the failed stage)
+export const connectionTestResponseSchema = z.object({
+  success: z.boolean(),
+  failed_stage: z.enum(['connect', 'authenticate', 'discover']).nullable(),
+  error: z.string().nullable(),
+  duration_ms: z.number(),
+  latency_ms: z.number().nullable(), // GET_DYN_CONNECTED round trip
+  // Account the gateway logged in (from RTN_LOGIN)
+  user: z
+    .object({
+      email: z.string(),
+      first_name: z.string(),
+      last_name: z.string(),
+      access_level: z.number(),
+      verified: z.boolean(),
+    })
+    .nullable(),
+  sensor_count: z.number().nullable(),
+  connected_sensor_count: z.number().nullable(),
+});
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { assetTypeSchema, machineClassSchema } from './assets';
+import { pointOrientationSchema } from './measurement-points';
+
+/**
+ * Zod schemas for the plant hierarchy API
+ *
+ * - hierarchyResponseSchema: Validates GET /api/factories/:id/hierarchy response
+ *
+ * The tree is factory -> area -> asset -> measurement point -> mounted sensor.
+ * Assets without an area are listed under unassigned_assets.
+ */
+
+// Sensor mounted on a point (just enough to label the tree node and link to it)
+export const hierarchySensorSchema = z.object({
+  id: z.string().uuid(),
+  serial: z.number(),
+  name: z.string().nullable(),
+  connected: z.boolean(),
+});
+
+export const hierarchyPointSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  orientation: pointOrientationSchema.nullable(),
+  sensor: hierarchySensorSchema.nullable(),
+});
+
+// Asset with its points; open_alarms counts alarm events not yet cleared
+export const hierarchyAssetSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  asset_type: assetTypeSchema.nullable(),
+  machine_class: machineClassSchema.nullable(),
+  open_alarms: z.number(),
+  points: z.array(hierarchyPointSchema),
+});
+
+export const hierarchyAreaSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  assets: z.array(hierarchyAssetSchema),
+});
+
+// Full tree of one factory, every level sorted by name
+export const hierarchyResponseSchema = z.object({
+  factory_id: z.string().uuid(),
+  areas: z.array(hierarchyAreaSchema),
+  unassigned_assets: z.array(hierarchyAssetSchema),
+});
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for measurement point API validation
+ *
+ * - createMeasurementPointSchema: Validates POST /api/measurement-points request body
+ * - updateMeasurementPointSchema: Validates PUT /api/measurement-points/:id request body
+ * - measurementPointResponseSchema: Validates individual point response (excludes deleted_at)
+ * - measurementPointListQuerySchema: Extends pagination with optional asset_id filter
+ * - measurementPointListResponseSchema: Validates paginated list response with metadata
+ *
+ * A measurement point is a location on an asset (e.g. "motor NDE horizontal").
+ * Setting sensor_id mounts that sensor on the point; null unmounts it.
+ */
+
+// Measured direction of a point
+export const pointOrientationSchema = z.enum(['horizontal', 'vertical', 'axial']);
+
+// Create measurement point request body
+export const createMeasurementPointSchema = z.object({
+  asset_id: z.string().uuid(),
+  name: z.string().min(1).max(255),
+  orientation: pointOrientationSchema.nullable().optional(),
+  sensor_id: z.string().uuid().nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Update measurement point request body (all fields optional, asset_id not updatable)
+export const updateMeasurementPointSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  orientation: pointOrientationSchema.nullable().optional(),
+  sensor_id: z.string().uuid().nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Measurement point response (excludes deleted_at, dates as ISO strings)
+export const measurementPointResponseSchema = z.object({
+  id: z.string().uuid(),
+  asset_id: z.string().uuid(),
+  name: z.string(),
+  orientation: pointOrientationSchema.nullable(),
+  sensor_id: z.string().uuid().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Measurement point list query parameters (pagination + optional asset filter)
+export const measurementPointListQuerySchema = paginationQuerySchema.extend({
+  asset_id: z.string().uuid().optional(),
+});
+
+// Paginated measurement point list response
+export const measurementPointListResponseSchema = z.object({
+  data: z.array(measurementPointResponseSchema),
+  pagination: paginationResponseSchema,
+});
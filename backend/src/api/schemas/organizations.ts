@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for organization API validation
+ *
+ * - createOrganizationSchema: Validates POST /api/organizations request body
+ * - updateOrganizationSchema: Validates PUT /api/organizations/:id request body
+ * - organizationResponseSchema: Validates individual organization response (excludes deleted_at)
+ * - organizationListResponseSchema: Validates paginated list response with metadata
+ */
+
+// Create organization request body
+export const createOrganizationSchema = z.object({
+  name: z.string().min(1).max(255),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Update organization request body (all fields optional)
+export const updateOrganizationSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Organization response (excludes deleted_at, dates as ISO strings)
+export const organizationResponseSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Paginated organization list response
+export const organizationListResponseSchema = z.object({
+  data: z.array(organizationResponseSchema),
+  pagination: paginationResponseSchema,
+});
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for reading API validation
+ *
+ * - readingResponseSchema: Validates reading summary response with per-axis metrics (no waveform samples)
+ * - readingListQuerySchema: Extends pagination with optional from/to time range
+ * - readingListResponseSchema: Validates paginated reading list response
+ * - waveformQuerySchema: Validates GET /api/readings/:id/waveform query (unit)
+ * - waveformResponseSchema: Validates X/Y/Z time waveform response
+ * - spectrumQuerySchema: Validates GET /api/readings/:id/spectrum query (axis, window, averaging, zero-padding, unit)
+ * - spectrumResponseSchema: Validates amplitude spectrum response
+ *
+ * Waveform samples are large (up to tens of thousands of points per axis) and
+ * are only returned by endpoints that need them.
+ */
+
+// Overall vibration metrics for one axis (g, mean removed; velocity_rms in mm/s)
+export const axisMetricsSchema = z.object({
+  rms: z.number(),
+  peak: z.number(),
+  peak_to_peak: z.number(),
+  crest_factor: z.number(),
+  kurtosis: z.number(),
+  skewness: z.number(),
+  velocity_rms: z.number().nullable(),
+});
+
+// Reading summary response (dates as ISO strings, excludes x/y/z samples)
+// metrics is null for readings stored before metrics were computed at ingest.
+// velocity_rms is the largest axis velocity RMS (mm/s); iso_zone is set only when
+// the sensor's asset had an ISO 10816 machine class at ingest time. asset_id and
+// measurement_point_id are where the sensor was mounted at ingest (null if unmounted).
+export const readingResponseSchema = z.object({
+  id: z.string().uuid(),
+  gateway_id: z.string().uuid(),
+  sensor_serial: z.number(),
+  gateway_reading_id: z.number(),
+  recorded_at: z.string().datetime(),
+  sample_rate: z.number(),
+  sample_count: z.number(),
+  temperature: z.number().nullable(),
+  velocity_rms: z.number().nullable(),
+  machine_class: z.enum(['I', 'II', 'III', 'IV']).nullable(),
+  iso_zone: z.enum(['A', 'B', 'C', 'D']).nullable(),
+  asset_id: z.string().uuid().nullable(),
+  measurement_point_id: z.string().uuid().nullable(),
+  metrics: z
+    .object({
+      x: axisMetricsSchema,
+      y: axisMetricsSchema,
+      z: axisMetricsSchema,
+    })
+    .nullable(),
+  created_at: z.string().datetime(),
+});
+
+// Reading list query parameters (pagination + optional recorded_at range)
+export const readingListQuerySchema = paginationQuerySchema.extend({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+// Paginated reading list response
+export const readingListResponseSchema = z.object({
+  data: z.array(readingResponseSchema),
+  pagination: paginationResponseSchema,
+});
+
+// Signal units: acceleration as measured, or velocity integrated over the ISO 10816 band
+export const signalUnitSchema = z.enum(['g', 'mm/s']);
+
+// Waveform query parameters
+export const waveformQuerySchema = z.object({
+  unit: signalUnitSchema.default('g'),
+});
+
+// Time waveform of all three axes; sample i is at i / sample_rate seconds
+export const waveformResponseSchema = z.object({
+  reading_id: z.string().uuid(),
+  sample_rate: z.number(),
+  sample_count: z.number(),
+  unit: signalUnitSchema,
+  x: z.array(z.number()),
+  y: z.array(z.number()),
+  z: z.array(z.number()),
+});
+
+// Spectrum query parameters (query strings arrive as strings)
+export const spectrumQuerySchema = z.object({
+  axis: z.enum(['x', 'y', 'z']).default('x'),
+  window: z.enum(['rectangular', 'hann', 'flattop']).default('hann'),
+  averages: z.coerce.number().int().min(1).max(32).default(1),
+  zero_padding: z
+    .enum(['1', '2', '4', '8'])
+    .default('1')
+    .transform((val) => Number(val)),
+  unit: signalUnitSchema.default('g'),
+});
+
+// Amplitude spectrum response; bin k is at k * resolution Hz
+export const spectrumResponseSchema = z.object({
+  reading_id: z.string().uuid(),
+  axis: z.enum(['x', 'y', 'z']),
+  window: z.enum(['rectangular', 'hann', 'flattop']),
+  averages: z.number(),
+  zero_padding: z.number(),
+  sample_rate: z.number(),
+  sample_count: z.number(),
+  fft_size: z.number(),
+  resolution: z.number(),
+  unit: signalUnitSchema,
+  amplitudes: z.array(z.number()),
+});
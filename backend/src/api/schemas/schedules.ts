@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for acquisition schedule API validation
+ *
+ * - upsertScheduleSchema: Validates PUT /api/sensors/:id/schedule request body
+ * - scheduleResponseSchema: Validates schedule response (window times as HH:MM)
+ * - acquisitionRunResponseSchema: Validates individual scheduled run response
+ * - acquisitionRunListResponseSchema: Validates paginated run history response
+ *
+ * Windows are wall-clock times in the sensor's factory timezone and must be
+ * given together (or both omitted/null for a schedule that runs all day).
+ */
+
+// 'HH:MM' 24-hour time of day
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+// Create or replace schedule request body
+export const upsertScheduleSchema = z
+  .object({
+    interval_minutes: z.number().int().min(1).max(7 * 24 * 60),
+    window_start: timeOfDaySchema.nullable().default(null),
+    window_end: timeOfDaySchema.nullable().default(null),
+    enabled: z.boolean().default(true),
+  })
+  .refine((data) => (data.window_start === null) === (data.window_end === null), {
+    message: 'window_start and window_end must be set together',
+    path: ['window_end'],
+  });
+
+// Schedule response (dates as ISO strings)
+export const scheduleResponseSchema = z.object({
+  id: z.string().uuid(),
+  sensor_id: z.string().uuid(),
+  interval_minutes: z.number(),
+  window_start: z.string().nullable(),
+  window_end: z.string().nullable(),
+  enabled: z.boolean(),
+  next_run_at: z.string().datetime(),
+  last_run_at: z.string().datetime().nullable(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Scheduled run response
+export const acquisitionRunResponseSchema = z.object({
+  id: z.string().uuid(),
+  schedule_id: z.string().uuid().nullable(),
+  sensor_id: z.string().uuid(),
+  scheduled_for: z.string().datetime(),
+  started_at: z.string().datetime().nullable(),
+  finished_at: z.string().datetime().nullable(),
+  status: z.enum(['succeeded', 'failed', 'missed']),
+  reading_id: z.string().uuid().nullable(),
+  error: z.string().nullable(),
+  created_at: z.string().datetime(),
+});
+
+// Paginated run history response
+export const acquisitionRunListResponseSchema = z.object({
+  data: z.array(acquisitionRunResponseSchema),
+  pagination: paginationResponseSchema,
+});
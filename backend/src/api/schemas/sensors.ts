@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { paginationQuerySchema, paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for sensor API validation
+ *
+ * - createSensorSchema: Validates POST /api/sensors request body (manual registration)
+ * - updateSensorSchema: Validates PUT /api/sensors/:id request body (user-assigned fields only)
+ * - sensorResponseSchema: Validates individual sensor response (excludes deleted_at)
+ * - sensorListQuerySchema: Extends pagination with optional gateway_id filter
+ * - sensorListResponseSchema: Validates paginated list response with metadata
+ *
+ * Device fields (part_number, read_rate, firmware_version, connected...) are
+ * owned by gateway discovery and are not writable through the API.
+ */
+
+// Create sensor request body (device fields are filled in by discovery)
+export const createSensorSchema = z.object({
+  gateway_id: z.string().uuid(),
+  serial: z.number().int().positive(),
+  name: z.string().min(1).max(255).nullable().optional(),
+  asset_id: z.string().uuid().nullable().optional(),
+  asset_name: z.string().min(1).max(255).nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Update sensor request body (all fields optional, serial and gateway_id not updatable)
+export const updateSensorSchema = z.object({
+  name: z.string().min(1).max(255).nullable().optional(),
+  asset_id: z.string().uuid().nullable().optional(),
+  asset_name: z.string().min(1).max(255).nullable().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Sensor response (excludes deleted_at, dates as ISO strings)
+export const sensorResponseSchema = z.object({
+  id: z.string().uuid(),
+  gateway_id: z.string().uuid(),
+  serial: z.number(),
+  name: z.string().nullable(),
+  asset_id: z.string().uuid().nullable(),
+  asset_name: z.string().nullable(),
+  part_number: z.string().nullable(),
+  read_rate: z.number().nullable(),
+  samples: z.number().nullable(),
+  hardware_version: z.string().nullable(),
+  firmware_version: z.string().nullable(),
+  access_point: z.string().nullable(),
+  connected: z.boolean(),
+  last_discovered_at: z.string().datetime().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Sensor list query parameters (pagination + optional gateway filter)
+export const sensorListQuerySchema = paginationQuerySchema.extend({
+  gateway_id: z.string().uuid().optional(),
+});
+
+// Paginated sensor list response
+export const sensorListResponseSchema = z.object({
+  data: z.array(sensorResponseSchema),
+  pagination: paginationResponseSchema,
+});
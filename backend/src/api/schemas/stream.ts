@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for the live event stream
+ *
+ * - streamQuerySchema: Validates GET /api/stream query (optional factory/gateway filters)
+ *
+ * The stream itself is text/event-stream; each event's data is a LiveEvent
+ * (see events/live-events.ts) serialized as JSON.
+ */
+
+// Stream filters; omit both to receive events from every gateway
+export const streamQuerySchema = z.object({
+  factory_id: z.string().uuid().optional(),
+  gateway_id: z.string().uuid().optional(),
+});
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for temperature API validation
+ *
+ * - temperatureQuerySchema: Validates GET /api/sensors/:id/temperature query (range and bucket)
+ * - temperatureResponseSchema: Validates downsampled temperature series response
+ *
+ * Temperatures are stored as reported by NOT_DYN_TEMP (one sample per notification)
+ * and downsampled to min/max/avg per bucket on read.
+ */
+
+const BUCKET_UNIT_SECONDS = { m: 60, h: 3600, d: 86400 } as const;
+
+// Temperature query parameters; bucket is '<count><m|h|d>' and is parsed to seconds
+export const temperatureQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  bucket: z
+    .string()
+    .regex(/^[1-9]\d{0,3}[mhd]$/, 'Expected a duration like 15m, 1h or 1d')
+    .default('1h')
+    .transform((val) => {
+      const unit = val.slice(-1) as keyof typeof BUCKET_UNIT_SECONDS;
+      return Number(val.slice(0, -1)) * BUCKET_UNIT_SECONDS[unit];
+    }),
+});
+
+// One bucket of the downsampled series (buckets without samples are omitted)
+export const temperatureBucketSchema = z.object({
+  bucket_start: z.string().datetime(),
+  min: z.number(),
+  max: z.number(),
+  avg: z.number(),
+  count: z.number(),
+});
+
+// Downsampled temperature series for [from, to)
+export const temperatureResponseSchema = z.object({
+  sensor_id: z.string().uuid(),
+  sensor_serial: z.number(),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  bucket_seconds: z.number(),
+  data: z.array(temperatureBucketSchema),
+});
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { alarmMetricSchema } from './alarms';
+
+/**
+ * Zod schemas for sensor trend API validation
+ *
+ * - trendQuerySchema: Validates GET /api/sensors/:id/trend query (metric, axis, range)
+ * - trendResponseSchema: Validates metric history with applicable alarm thresholds
+ *
+ * One point per reading; values come from the metrics computed at ingest, so
+ * trending never touches waveform samples.
+ */
+
+// Any reading metric, or the temperature reported with the reading (°C)
+export const trendMetricSchema = z.enum([...alarmMetricSchema.options, 'temperature']);
+
+// Trend query parameters; omitting axis trends the largest of the three axes
+export const trendQuerySchema = z.object({
+  metric: trendMetricSchema.default('velocity_rms'),
+  axis: z.enum(['x', 'y', 'z']).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+// One reading's value; reading_id links to the reading's waveform and spectrum
+export const trendPointSchema = z.object({
+  reading_id: z.string().uuid(),
+  recorded_at: z.string().datetime(),
+  value: z.number(),
+});
+
+// Levels of an enabled alarm rule on the same metric and axis
+export const trendThresholdSchema = z.object({
+  rule_id: z.string().uuid(),
+  name: z.string(),
+  alert_level: z.number(),
+  danger_level: z.number(),
+});
+
+// Metric history for [from, to], oldest first; truncated when only the newest points fit
+export const trendResponseSchema = z.object({
+  sensor_id: z.string().uuid(),
+  metric: trendMetricSchema,
+  axis: z.enum(['x', 'y', 'z']).nullable(),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  truncated: z.boolean(),
+  data: z.array(trendPointSchema),
+  thresholds: z.array(trendThresholdSchema),
+});
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { paginationResponseSchema } from './common';
+
+/**
+ * Zod schemas for user account API validation
+ *
+ * - roleAssignmentSchema: Validates one role assignment in a user request body
+ * - createUserSchema: Validates POST /api/users request body
+ * - updateUserSchema: Validates PUT /api/users/:id request body
+ * - userResponseSchema: Validates individual user response with role assignments
+ *   (never includes password_hash)
+ * - userListResponseSchema: Validates paginated list response with metadata
+ */
+
+// Passwords are only ever accepted in request bodies, never returned
+export const passwordSchema = z.string().min(8).max(200);
+
+// Roles from least to most privileged
+export const roleSchema = z.enum(['viewer', 'technician', 'engineer', 'admin']);
+
+// Role assignment (without organization_id or factory_id it covers every organization)
+export const roleAssignmentSchema = z
+  .object({
+    role: roleSchema,
+    organization_id: z.string().uuid().nullable().optional(),
+    factory_id: z.string().uuid().nullable().optional(),
+  })
+  .refine((assignment) => !(assignment.organization_id && assignment.factory_id), {
+    message: 'A role assignment is scoped to an organization or a factory, not both',
+  });
+
+// Create user request body
+export const createUserSchema = z.object({
+  email: z.string().email().max(255),
+  name: z.string().max(255).nullable().optional(),
+  password: passwordSchema,
+  roles: z.array(roleAssignmentSchema).max(100).default([]),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Update user request body (all fields optional; a new password signs the user out
+// everywhere, and roles replaces all of the user's role assignments)
+export const updateUserSchema = z.object({
+  email: z.string().email().max(255).optional(),
+  name: z.string().max(255).nullable().optional(),
+  password: passwordSchema.optional(),
+  roles: z.array(roleAssignmentSchema).max(100).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// User response (excludes password_hash and deleted_at, dates as ISO strings)
+export const userResponseSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string(),
+  name: z.string().nullable(),
+  roles: z.array(
+    z.object({
+      role: roleSchema,
+      organization_id: z.string().uuid().nullable(),
+      factory_id: z.string().uuid().nullable(),
+    })
+  ),
+  last_login_at: z.string().datetime().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+// Paginated user list response
+export const userListResponseSchema = z.object({
+  data: z.array(userResponseSchema),
+  pagination: paginationResponseSchema,
+});
@@ -1,12 +1,17 @@
 import { buildApp } from './app';
 import { apiConfig } from './config';
 import { closeDatabase } from '../database/kysely';
+import { gatewaySupervisor } from '../supervisor/gateway-supervisor';
+import { acquisitionScheduler } from '../supervisor/acquisition-scheduler';
+import { supervisorConfig } from '../supervisor/config';
 
 /**
  * Start the Fastify API server
  *
- * Listens on the configured port (default 3000) and handles graceful shutdown
- * including database connection cleanup on SIGINT/SIGTERM.
+ * Listens on the configured port (default 3000), starts the gateway supervisor
+ * (unless SUPERVISOR_ENABLED=false) and the acquisition scheduler (unless
+ * SCHEDULER_ENABLED=false) and handles graceful shutdown including gateway
+ * sessions and database connection cleanup on SIGINT/SIGTERM.
  */
 export async function startServer() {
   const app = await buildApp();
@@ -19,9 +24,21 @@ export async function startServer() {
     process.exit(1);
   }
 
+  // Connect to every active gateway in the database
+  if (supervisorConfig.SUPERVISOR_ENABLED) {
+    await gatewaySupervisor.start();
+
+    // Take readings for every enabled acquisition schedule
+    if (supervisorConfig.SCHEDULER_ENABLED) {
+      acquisitionScheduler.start();
+    }
+  }
+
   // Graceful shutdown handler
   const shutdown = async (signal: string) => {
     app.log.info(`${signal} received, shutting down`);
+    acquisitionScheduler.stop(); // Stop triggering scheduled readings
+    gatewaySupervisor.stop(); // Close gateway sessions
     await app.close();       // Complete in-flight requests
     await closeDatabase();   // Close Kysely connection pool
     process.exit(0);
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, isSecretField, toAuditValue, REDACTED } from './audit-diff';
+
+const created = new Date('2024-02-01T08:00:00Z');
+
+const gateway = {
+  id: 'gw-1',
+  name: 'Line 1 gateway',
+  url: 'ws://10.0.0.5',
+  password_encrypted: 'iv:cipher-one',
+  metadata: { rack: 'A3' },
+  last_seen_at: created,
+  created_at: created,
+  updated_at: created,
+};
+
+describe('isSecretField', () => {
+  it('should match password, token and key fields', () => {
+    expect(isSecretField('password')).toBe(true);
+    expect(isSecretField('password_encrypted')).toBe(true);
+    expect(isSecretField('password_hash')).toBe(true);
+    expect(isSecretField('token_hash')).toBe(true);
+    expect(isSecretField('apiKey')).toBe(true);
+    expect(isSecretField('email')).toBe(false);
+  });
+});
+
+describe('toAuditValue', () => {
+  it('should redact secrets nested in objects and arrays', () => {
+    expect(
+      toAuditValue('metadata', { site: 'north', credentials: [{ client_secret: 'abc' }] })
+    ).toEqual({ site: 'north', credentials: [{ client_secret: REDACTED }] });
+  });
+
+  it('should store dates as ISO strings and missing values as null', () => {
+    expect(toAuditValue('last_seen_at', created)).toBe('2024-02-01T08:00:00.000Z');
+    expect(toAuditValue('password', null)).toBeNull();
+    expect(toAuditValue('name', undefined)).toBeNull();
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('should record every field of a created entity as after', () => {
+    const changes = diffSnapshots(null, gateway);
+
+    expect(changes.name).toEqual({ after: 'Line 1 gateway' });
+    expect(changes.password_encrypted).toEqual({ after: REDACTED });
+    expect(changes.last_seen_at).toEqual({ after: '2024-02-01T08:00:00.000Z' });
+    expect(changes).not.toHaveProperty('created_at');
+  });
+
+  it('should record every field of a deleted entity as before', () => {
+    const changes = diffSnapshots(gateway, null);
+
+    expect(changes.url).toEqual({ before: 'ws://10.0.0.5' });
+    expect(changes.metadata).toEqual({ before: { rack: 'A3' } });
+  });
+
+  it('should record only the fields an update changed', () => {
+    const updated = {
+      ...gateway,
+      name: 'Line 1 gateway (spare)',
+      last_seen_at: new Date(created.getTime()),
+      metadata: { rack: 'A3' },
+      updated_at: new Date('2024-03-01T08:00:00Z'),
+    };
+
+    expect(diffSnapshots(gateway, updated)).toEqual({
+      name: { before: 'Line 1 gateway', after: 'Line 1 gateway (spare)' },
+    });
+  });
+
+  it('should show that a secret changed without its values', () => {
+    const changes = diffSnapshots(gateway, { ...gateway, password_encrypted: 'iv:cipher-two' });
+
+    expect(changes).toEqual({ password_encrypted: { before: REDACTED, after: REDACTED } });
+  });
+
+  it('should ignore fields missing from either side of an update', () => {
+    expect(diffSnapshots({ id: 'u-1', name: 'Ann' }, { id: 'u-1', roles: [] })).toEqual({});
+  });
+});
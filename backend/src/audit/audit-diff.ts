@@ -0,0 +1,93 @@
+// Field-level before/after diffs of audited entities, with secrets redacted
+
+// Stands in for the value of a secret field; the change itself is still recorded
+export const REDACTED = '[REDACTED]';
+
+// Fields that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+const SECRET_FIELD = /password|secret|token|api_?key/i;
+
+// A snapshot of an entity as stored or returned by the API (a row or response object)
+export type AuditSnapshot = object;
+
+// Changed fields; a created entity has only `after`, a deleted one only `before`
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+/**
+ * Whether a field holds a secret (passwords, tokens, keys)
+ */
+export function isSecretField(field: string): boolean {
+  return SECRET_FIELD.test(field);
+}
+
+/**
+ * Convert a value to the JSON that is stored, redacting secret fields at any depth
+ */
+export function toAuditValue(field: string, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (isSecretField(field)) {
+    return REDACTED;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toAuditValue(field, item));
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, toAuditValue(key, nested)])
+    );
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) =>
+    JSON.stringify(value instanceof Date ? value.toISOString() : (value ?? null));
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Diff two snapshots of an entity
+ *
+ * Pass null as `before` for a created entity and as `after` for a deleted one.
+ * When both are given, only fields present in both snapshots are compared.
+ * Secret fields are compared on their real values, so a changed password shows
+ * up as changed, but both sides are stored as {@link REDACTED}.
+ */
+export function diffSnapshots(
+  before: AuditSnapshot | null | undefined,
+  after: AuditSnapshot | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const oldValues = before as Record<string, unknown> | null | undefined;
+  const newValues = after as Record<string, unknown> | null | undefined;
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const old = oldValues?.[field];
+    const current = newValues?.[field];
+
+    if (!before) {
+      if (current !== undefined) {
+        changes[field] = { after: toAuditValue(field, current) };
+      }
+    } else if (!after) {
+      if (old !== undefined) {
+        changes[field] = { before: toAuditValue(field, old) };
+      }
+    } else if (old !== undefined && current !== undefined && !sameValue(old, current)) {
+      changes[field] = { before: toAuditValue(field, old), after: toAuditValue(field, current) };
+    }
+  }
+
+  return changes;
+}
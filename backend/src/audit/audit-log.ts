@@ -0,0 +1,45 @@
+import type { FastifyRequest } from 'fastify';
+import { auditEventRepository } from '../repositories/AuditEventRepository';
+import { AuditAction, AuditEntityType, User } from '../repositories/types';
+import { AuditSnapshot, diffSnapshots } from './audit-diff';
+
+/**
+ * A change to record, with the entity as it was before and after the call
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  before?: AuditSnapshot | null; // Omitted for created entities
+  after?: AuditSnapshot | null; // Omitted for deleted entities
+  actor?: User; // Defaults to the signed-in user (set explicitly on sign-in)
+}
+
+/**
+ * Record a configuration change made by an API call
+ *
+ * Called by route handlers after the change succeeded. Only the changed fields
+ * are stored, with secrets redacted (see audit-diff.ts). A failure to write the
+ * event is logged but does not fail the call, since the change itself is done.
+ */
+export async function recordAudit(request: FastifyRequest, entry: AuditEntry): Promise<void> {
+  const actor = entry.actor ?? request.user;
+
+  try {
+    await auditEventRepository.create({
+      user_id: actor?.id ?? null,
+      actor_email: actor?.email ?? null,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      changes: JSON.stringify(diffSnapshots(entry.before, entry.after)),
+      request_id: request.id,
+      ip_address: request.ip,
+    });
+  } catch (error) {
+    request.log.error(
+      { err: error, action: entry.action, entityType: entry.entityType, entityId: entry.entityId },
+      'Failed to record audit event'
+    );
+  }
+}
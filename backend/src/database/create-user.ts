@@ -0,0 +1,65 @@
+import { Pool } from 'pg';
+import { databaseConfig } from './config';
+import { hashPassword } from '../utils/password';
+
+/**
+ * Create a user account, or reset the password of an existing one
+ *
+ * Usage: npm run db:create-user -- <email> <password> [name]
+ * Needed to sign in to a fresh production database, which has no seed users.
+ * New accounts get the admin role on every organization, so they can create
+ * the other users (with narrower roles) through the API.
+ */
+async function createUser() {
+  const [email, password, name] = process.argv.slice(2);
+
+  if (!email || !password) {
+    console.error('Usage: npm run db:create-user -- <email> <password> [name]');
+    process.exit(1);
+  }
+  if (password.length < 8) {
+    console.error('Password must be at least 8 characters');
+    process.exit(1);
+  }
+
+  const pool = new Pool({
+    host: databaseConfig.DATABASE_HOST,
+    port: databaseConfig.DATABASE_PORT,
+    database: databaseConfig.DATABASE_NAME,
+    user: databaseConfig.DATABASE_USER,
+    password: databaseConfig.DATABASE_PASSWORD,
+  });
+
+  try {
+    const passwordHash = await hashPassword(password);
+
+    const updated = await pool.query(
+      `UPDATE users SET password_hash = $2, name = COALESCE($3, name)
+       WHERE email = $1 AND deleted_at IS NULL
+       RETURNING id`,
+      [email.toLowerCase(), passwordHash, name ?? null]
+    );
+
+    if (updated.rowCount) {
+      // A reset password also signs the user out everywhere
+      await pool.query('DELETE FROM user_sessions WHERE user_id = $1', [updated.rows[0].id]);
+      console.log(`Reset password for ${email.toLowerCase()}`);
+    } else {
+      const created = await pool.query(
+        `INSERT INTO users (email, name, password_hash) VALUES ($1, $2, $3) RETURNING id`,
+        [email.toLowerCase(), name ?? null, passwordHash]
+      );
+      await pool.query(`INSERT INTO role_assignments (user_id, role) VALUES ($1, 'admin')`, [
+        created.rows[0].id,
+      ]);
+      console.log(`Created user ${email.toLowerCase()} (admin on every organization)`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+createUser().catch((error) => {
+  console.error('Create user failed:', error);
+  process.exit(1);
+});
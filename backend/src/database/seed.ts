@@ -1,6 +1,7 @@
 import { Pool } from 'pg';
 import { databaseConfig } from './config';
 import { encryptPassword, getEncryptionKey } from '../utils/encryption';
+import { hashPassword } from '../utils/password';
 
 async function seed() {
   const pool = new Pool({
@@ -21,12 +22,35 @@ async function seed() {
     const encrypted = encryptPassword('admin123', encryptionKey);
     const encryptedPasswordJson = JSON.stringify(encrypted);
 
+    // Hash the development sign-in passwords with scrypt
+    const adminPasswordHash = await hashPassword('admin123');
+    const contractorPasswordHash = await hashPassword('contractor123');
+
     // Use a transaction to ensure atomicity
     await pool.query('BEGIN');
 
     // Clear existing data (reverse FK order)
     console.log('Clearing existing data...');
-    await pool.query('TRUNCATE TABLE gateways, factories, organizations CASCADE');
+    await pool.query('TRUNCATE TABLE gateways, factories, organizations, users CASCADE');
+
+    // Seed development users (sign in as admin@example.com / admin123, or
+    // contractor@example.com / contractor123 to see a single factory)
+    console.log('Seeding users...');
+    const userResults = await pool.query(
+      `INSERT INTO users (email, name, password_hash)
+       VALUES ($1, $2, $3), ($4, $5, $6)
+       RETURNING id`,
+      [
+        'admin@example.com',
+        'Admin',
+        adminPasswordHash,
+        'contractor@example.com',
+        'Contractor',
+        contractorPasswordHash,
+      ]
+    );
+    const [adminId, contractorId] = userResults.rows.map((row) => row.id);
+    console.log('Seeded 2 users');
 
     // Seed organization
     console.log('Seeding organization...');
@@ -73,6 +97,15 @@ async function seed() {
     const factories = factoryResults.rows;
     console.log('Seeded 3 factories');
 
+    // Seed role assignments (admin everywhere, technician at Detroit Assembly only)
+    console.log('Seeding role assignments...');
+    await pool.query(
+      `INSERT INTO role_assignments (user_id, role, factory_id)
+       VALUES ($1, 'admin', NULL), ($2, 'technician', $3)`,
+      [adminId, contractorId, factories[1].id]
+    );
+    console.log('Seeded 2 role assignments');
+
     // Seed gateways (2 per factory)
     console.log('Seeding gateways...');
 
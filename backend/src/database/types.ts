@@ -23,6 +23,103 @@ export type JsonValue = JsonArray | JsonObject | JsonPrimitive;
 
 export type Timestamp = ColumnType<Date, Date | string, Date | string>;
 
+export interface AcquisitionRuns {
+  created_at: Generated<Timestamp>;
+  error: string | null;
+  finished_at: Timestamp | null;
+  id: Generated<string>;
+  reading_id: string | null;
+  schedule_id: string | null;
+  scheduled_for: Timestamp;
+  sensor_id: string;
+  started_at: Timestamp | null;
+  status: string;
+}
+
+export interface AcquisitionSchedules {
+  created_at: Generated<Timestamp>;
+  enabled: Generated<boolean>;
+  id: Generated<string>;
+  interval_minutes: number;
+  last_run_at: Timestamp | null;
+  next_run_at: Timestamp;
+  sensor_id: string;
+  updated_at: Generated<Timestamp>;
+  window_end: string | null;
+  window_start: string | null;
+}
+
+export interface AlarmEvents {
+  acknowledged_at: Timestamp | null;
+  asset_id: string | null;
+  cleared_at: Timestamp | null;
+  created_at: Generated<Timestamp>;
+  id: Generated<string>;
+  measurement_point_id: string | null;
+  raised_at: Generated<Timestamp>;
+  reading_id: string | null;
+  rule_id: string;
+  sensor_id: string;
+  severity: string;
+  threshold: number;
+  updated_at: Generated<Timestamp>;
+  value: number;
+}
+
+export interface AlarmRules {
+  alert_level: number;
+  asset_id: string | null;
+  axis: string | null;
+  consecutive_count: Generated<number>;
+  created_at: Generated<Timestamp>;
+  danger_level: number;
+  deleted_at: Timestamp | null;
+  enabled: Generated<boolean>;
+  hysteresis: Generated<number>;
+  id: Generated<string>;
+  metric: string;
+  name: string;
+  sensor_id: string | null;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface Areas {
+  created_at: Generated<Timestamp>;
+  deleted_at: Timestamp | null;
+  description: string | null;
+  factory_id: string;
+  id: Generated<string>;
+  metadata: Generated<Json>;
+  name: string;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface Assets {
+  area_id: string | null;
+  asset_type: string | null;
+  created_at: Generated<Timestamp>;
+  deleted_at: Timestamp | null;
+  factory_id: string;
+  id: Generated<string>;
+  machine_class: string | null;
+  metadata: Generated<Json>;
+  name: string;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface AuditEvents {
+  action: string;
+  actor_email: string | null;
+  changes: Generated<Json>;
+  entity_id: string | null;
+  entity_type: string;
+  id: Generated<string>;
+  ip_address: string | null;
+  occurred_at: Generated<Timestamp>;
+  request_id: string | null;
+  user_id: string | null;
+}
+
 export interface Factories {
   created_at: Generated<Timestamp>;
   deleted_at: Timestamp | null;
@@ -35,6 +132,26 @@ export interface Factories {
   updated_at: Generated<Timestamp>;
 }
 
+export interface FirmwareChanges {
+  detected_at: Generated<Timestamp>;
+  firmware_version: string;
+  gateway_id: string;
+  hardware_version: string | null;
+  id: Generated<string>;
+  previous_version: string | null;
+  sensor_id: string | null;
+}
+
+export interface GatewayConnectionEvents {
+  error: string | null;
+  event_type: string;
+  gateway_id: string;
+  id: Generated<string>;
+  occurred_at: Generated<Timestamp>;
+  previous_state: string | null;
+  state: string | null;
+}
+
 export interface Gateways {
   created_at: Generated<Timestamp>;
   deleted_at: Timestamp | null;
@@ -52,6 +169,18 @@ export interface Gateways {
   url: string;
 }
 
+export interface MeasurementPoints {
+  asset_id: string;
+  created_at: Generated<Timestamp>;
+  deleted_at: Timestamp | null;
+  id: Generated<string>;
+  metadata: Generated<Json>;
+  name: string;
+  orientation: string | null;
+  sensor_id: string | null;
+  updated_at: Generated<Timestamp>;
+}
+
 export interface Organizations {
   created_at: Generated<Timestamp>;
   deleted_at: Timestamp | null;
@@ -67,9 +196,121 @@ export interface Pgmigrations {
   run_on: Timestamp;
 }
 
+export interface ReadingMetrics {
+  axis: string;
+  created_at: Generated<Timestamp>;
+  crest_factor: number;
+  id: Generated<string>;
+  kurtosis: number;
+  peak: number;
+  peak_to_peak: number;
+  reading_id: string;
+  rms: number;
+  skewness: number;
+  velocity_rms: number | null;
+}
+
+export interface RoleAssignments {
+  created_at: Generated<Timestamp>;
+  factory_id: string | null;
+  id: Generated<string>;
+  organization_id: string | null;
+  role: string;
+  user_id: string;
+}
+
+export interface SensorReadings {
+  asset_id: string | null;
+  created_at: Generated<Timestamp>;
+  gateway_id: string;
+  gateway_reading_id: number;
+  id: Generated<string>;
+  iso_zone: string | null;
+  machine_class: string | null;
+  measurement_point_id: string | null;
+  recorded_at: Timestamp;
+  sample_count: number;
+  sample_rate: number;
+  sensor_serial: number;
+  temperature: number | null;
+  velocity_rms: number | null;
+  x_samples: number[];
+  y_samples: number[];
+  z_samples: number[];
+}
+
+export interface SensorTemperatures {
+  gateway_id: string;
+  id: Generated<string>;
+  recorded_at: Generated<Timestamp>;
+  sensor_serial: number;
+  temperature: number;
+}
+
+export interface Sensors {
+  access_point: string | null;
+  asset_id: string | null;
+  asset_name: string | null;
+  connected: Generated<boolean>;
+  created_at: Generated<Timestamp>;
+  deleted_at: Timestamp | null;
+  firmware_version: string | null;
+  gateway_id: string;
+  hardware_version: string | null;
+  id: Generated<string>;
+  last_discovered_at: Timestamp | null;
+  metadata: Generated<Json>;
+  name: string | null;
+  part_number: string | null;
+  read_rate: number | null;
+  samples: number | null;
+  serial: number;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface Users {
+  created_at: Generated<Timestamp>;
+  deleted_at: Timestamp | null;
+  email: string;
+  id: Generated<string>;
+  last_login_at: Timestamp | null;
+  metadata: Generated<Json>;
+  name: string | null;
+  password_hash: string;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface UserSessions {
+  created_at: Generated<Timestamp>;
+  expires_at: Timestamp;
+  id: Generated<string>;
+  ip_address: string | null;
+  last_used_at: Generated<Timestamp>;
+  token_hash: string;
+  user_agent: string | null;
+  user_id: string;
+}
+
 export interface DB {
+  acquisition_runs: AcquisitionRuns;
+  acquisition_schedules: AcquisitionSchedules;
+  alarm_events: AlarmEvents;
+  alarm_rules: AlarmRules;
+  areas: Areas;
+  assets: Assets;
+  audit_events: AuditEvents;
   factories: Factories;
+  firmware_changes: FirmwareChanges;
+  gateway_connection_events: GatewayConnectionEvents;
   gateways: Gateways;
+  measurement_points: MeasurementPoints;
   organizations: Organizations;
   pgmigrations: Pgmigrations;
+  reading_metrics: ReadingMetrics;
+  role_assignments: RoleAssignments;
+  sensor_readings: SensorReadings;
+  sensor_temperatures: SensorTemperatures;
+  sensors: Sensors;
+  user_sessions: UserSessions;
+  users: Users;
 }
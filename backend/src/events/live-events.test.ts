@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { LiveEvent, LiveEventBus, LiveEventFilter, matchesFilter } from './live-events';
+
+function readingStarted(gatewayId: string, factoryId: string): LiveEvent {
+  return {
+    type: 'reading.started',
+    gateway_id: gatewayId,
+    factory_id: factoryId,
+    sensor_serial: 100001,
+    success: true,
+  };
+}
+
+describe('matchesFilter', () => {
+  const event = readingStarted('gw-1', 'factory-1');
+
+  it('should match everything without a filter', () => {
+    expect(matchesFilter(event, {})).toBe(true);
+  });
+
+  it('should require every given scope to match', () => {
+    expect(matchesFilter(event, { factory_id: 'factory-1' })).toBe(true);
+    expect(matchesFilter(event, { factory_id: 'factory-2' })).toBe(false);
+    expect(matchesFilter(event, { factory_id: 'factory-1', gateway_id: 'gw-1' })).toBe(true);
+    expect(matchesFilter(event, { factory_id: 'factory-1', gateway_id: 'gw-2' })).toBe(false);
+  });
+
+  it("should drop events of factories outside the subscriber's access", () => {
+    expect(matchesFilter(event, { factory_ids: ['factory-1', 'factory-2'] })).toBe(true);
+    expect(matchesFilter(event, { factory_ids: ['factory-2'] })).toBe(false);
+    expect(matchesFilter(event, { factory_ids: [] })).toBe(false);
+  });
+});
+
+describe('LiveEventBus', () => {
+  it('should deliver matching events until unsubscribed', () => {
+    const bus = new LiveEventBus();
+    const received: LiveEvent[] = [];
+    const unsubscribe = bus.subscribe({ gateway_id: 'gw-1' }, (event) => received.push(event));
+
+    bus.publish(readingStarted('gw-1', 'factory-1'));
+    bus.publish(readingStarted('gw-2', 'factory-1'));
+    unsubscribe();
+    bus.publish(readingStarted('gw-1', 'factory-1'));
+
+    expect(received).toHaveLength(1);
+    expect(bus.getSubscriberCount()).toBe(0);
+  });
+
+  it('should apply a filter narrowed after subscribing', () => {
+    const bus = new LiveEventBus();
+    const received: LiveEvent[] = [];
+    const filter: LiveEventFilter = { factory_ids: ['factory-1', 'factory-2'] };
+    bus.subscribe(filter, (event) => received.push(event));
+
+    bus.publish(readingStarted('gw-1', 'factory-1'));
+    // The user lost their role on factory-1
+    filter.factory_ids = ['factory-2'];
+    bus.publish(readingStarted('gw-1', 'factory-1'));
+
+    expect(received).toHaveLength(1);
+  });
+
+  it('should isolate a throwing listener from the publisher and other listeners', () => {
+    const bus = new LiveEventBus();
+    const received: LiveEvent[] = [];
+    bus.subscribe({}, () => {
+      throw new Error('stream closed');
+    });
+    bus.subscribe({}, (event) => received.push(event));
+
+    expect(() => bus.publish(readingStarted('gw-1', 'factory-1'))).not.toThrow();
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { EventEmitter } from 'node:events';
+import { ConnectionState } from '../types/connection';
+import { AlarmSeverity, IsoZone } from '../repositories/types';
+
+/**
+ * Gateway and factory an event belongs to (used to filter subscribers)
+ */
+interface LiveEventScope {
+  gateway_id: string;
+  factory_id: string;
+}
+
+/**
+ * What happened to an alarm event
+ */
+export type AlarmChangeAction = 'raised' | 'escalated' | 'acknowledged' | 'cleared';
+
+/**
+ * Events pushed to browser clients over /api/stream
+ */
+export type LiveEvent = LiveEventScope &
+  (
+    | {
+        type: 'gateway.state';
+        state: ConnectionState;
+        previous: ConnectionState;
+      }
+    | {
+        type: 'reading.started';
+        sensor_serial: number;
+        success: boolean;
+      }
+    | {
+        type: 'reading.created';
+        reading_id: string;
+        sensor_serial: number;
+        recorded_at: string;
+        velocity_rms: number | null;
+        iso_zone: IsoZone | null;
+      }
+    | {
+        type: 'temperature';
+        sensor_serial: number;
+        temperature: number;
+        recorded_at: string;
+      }
+    | {
+        type: 'alarm.changed';
+        alarm_id: string;
+        rule_id: string;
+        sensor_id: string;
+        sensor_serial: number;
+        severity: AlarmSeverity;
+        action: AlarmChangeAction;
+      }
+  );
+
+export type LiveEventType = LiveEvent['type'];
+
+/**
+ * Subscriber filter: an event matches when it belongs to every scope given
+ */
+export interface LiveEventFilter {
+  factory_id?: string;
+  gateway_id?: string;
+  factory_ids?: string[]; // Factories the subscriber can see (undefined: every factory)
+}
+
+/**
+ * True when the event belongs to the filter's factory and gateway, and to a factory
+ * the subscriber can see
+ */
+export function matchesFilter(event: LiveEvent, filter: LiveEventFilter): boolean {
+  if (filter.factory_ids !== undefined && !filter.factory_ids.includes(event.factory_id)) {
+    return false;
+  }
+  if (filter.factory_id !== undefined && event.factory_id !== filter.factory_id) {
+    return false;
+  }
+  if (filter.gateway_id !== undefined && event.gateway_id !== filter.gateway_id) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * LiveEventBus fans out gateway, reading, temperature and alarm events
+ *
+ * Publishers (gateway sessions, the alarm engine, alarm routes) call publish();
+ * each /api/stream connection subscribes with its own filter. Publishing never
+ * throws: a failing listener is isolated from the publisher and other listeners.
+ */
+export class LiveEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open browser stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: LiveEvent): void {
+    this.emitter.emit('event', event);
+  }
+
+  /**
+   * Register a listener for matching events
+   *
+   * The filter is read on every event, so the subscriber may narrow it later
+   * (/api/stream does when the user's roles change).
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(filter: LiveEventFilter, listener: (event: LiveEvent) => void): () => void {
+    const handler = (event: LiveEvent) => {
+      if (!matchesFilter(event, filter)) {
+        return;
+      }
+      try {
+        listener(event);
+      } catch {
+        // A broken stream must not affect the publisher or other streams
+      }
+    };
+
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  /**
+   * Number of active subscribers (for monitoring)
+   */
+  getSubscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+}
+
+// Export singleton instance
+export const liveEvents = new LiveEventBus();
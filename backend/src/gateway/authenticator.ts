@@ -1,5 +1,6 @@
 import type { CommandClient } from './command-client';
-import type { Config } from '../config';
+import type { GatewayCredentials } from '../types/connection';
+import type { RtnLoginResponse } from '../types/messages';
 import { logger } from '../utils/logger';
 
 const AUTH_TIMEOUT_MS = 10_000; // 10 second auth timeout (industry best practice)
@@ -7,20 +8,21 @@ const AUTH_TIMEOUT_MS = 10_000; // 10 second auth timeout (industry best practic
 /**
  * Authenticate with gateway using POST_LOGIN command.
  *
- * Sends credentials from config immediately after connection opens.
+ * Sends credentials immediately after connection opens.
  * Uses a shorter timeout (10s) than default command timeout because
  * authentication should be fast.
  *
  * @param commandClient - Command client for sending POST_LOGIN
- * @param config - Application config with GATEWAY_EMAIL and GATEWAY_PASSWORD
- * @returns Response data from POST_LOGIN (structure unknown, logged for discovery)
+ * @param credentials - Gateway email and plaintext password
+ * @returns RTN_LOGIN account data (plus any extra fields the gateway reports)
  * @throws Error if authentication fails (RTN_ERR) or times out
+ * @throws CommandResponseError if the response is not a valid RTN_LOGIN
  */
 export async function authenticate(
   commandClient: CommandClient,
-  config: Config
-): Promise<unknown> {
-  logger.info(`Authenticating with gateway as ${config.GATEWAY_EMAIL}`);
+  credentials: GatewayCredentials
+): Promise<RtnLoginResponse['Data']> {
+  logger.info(`Authenticating with gateway as ${credentials.email}`);
 
   try {
     const responseData = await commandClient.sendCommand(
@@ -29,16 +31,15 @@ export async function authenticate(
         From: 'UI',
         To: 'SERV',
         Data: {
-          Email: config.GATEWAY_EMAIL,
-          Password: config.GATEWAY_PASSWORD,
+          Email: credentials.email,
+          Password: credentials.password,
         },
       },
       AUTH_TIMEOUT_MS
     );
 
     logger.info('Authentication successful');
-    // Log response data at debug level to discover POST_LOGIN response structure
-    // (Open question from research: exact RTN_DYN structure for POST_LOGIN unknown)
+    // Log response data at debug level to discover fields beyond the schema
     logger.debug('POST_LOGIN response data:', responseData);
 
     return responseData;
@@ -48,7 +49,7 @@ export async function authenticate(
 
     // Provide actionable guidance for credential errors
     if (message.includes('Invalid') || message.includes('credential')) {
-      logger.error('Check GATEWAY_EMAIL and GATEWAY_PASSWORD in .env file');
+      logger.error('Check the gateway email and password');
     }
 
     throw error; // Re-throw for caller to handle (close connection, exit)
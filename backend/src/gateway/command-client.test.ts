@@ -1,7 +1,24 @@
 import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
-import { CommandClient } from './command-client';
+import { CommandClient, CommandResponseError } from './command-client';
 import type { SendCommand, ResponseMessage, ReturnErrorResponse } from '../types/messages';
 
+const LOGIN_DATA = {
+  Email: 'test@example.com',
+  First: 'Test',
+  Last: 'User',
+  Success: true,
+  AccessLevel: 1,
+  Verified: true,
+};
+
+const SENSOR_METADATA = {
+  Serial: 100001,
+  Connected: 1,
+  PartNum: 'VIB-3X',
+  ReadRate: 25600,
+  Samples: 8192,
+};
+
 describe('CommandClient', () => {
   let sendFn: ReturnType<typeof vi.fn>;
   let client: CommandClient;
@@ -44,18 +61,18 @@ describe('CommandClient', () => {
 
       // Simulate response - use FIFO matching (no CorrelationId in response either)
       const response: ResponseMessage = {
-        Type: 'RTN_DYN',
+        Type: 'RTN_LOGIN',
         From: 'SERV',
         Target: 'UI',
         CorrelationId: undefined as any, // Gateway doesn't return CorrelationId
-        Data: { success: true, token: 'abc123' },
+        Data: LOGIN_DATA,
       };
 
       client.handleResponse(response);
 
       // Should resolve with response data
       const result = await promise;
-      expect(result).toEqual({ success: true, token: 'abc123' });
+      expect(result).toEqual(LOGIN_DATA);
     });
 
     it('should reject with timeout error when no response arrives', async () => {
@@ -131,6 +148,82 @@ describe('CommandClient', () => {
     });
   });
 
+  describe('response validation', () => {
+    const getDynConnected: SendCommand = {
+      Type: 'GET_DYN_CONNECTED',
+      From: 'UI',
+      To: 'SERV',
+      Data: {},
+    };
+
+    it('should resolve GET_DYN_CONNECTED with sensors keyed by serial', async () => {
+      const promise = client.sendCommand(getDynConnected);
+
+      client.handleResponse({
+        Type: 'RTN_DYN',
+        From: 'SERV',
+        Target: 'UI',
+        Data: { '100001': { ...SENSOR_METADATA, FmVer: '2.3.1' } },
+      });
+
+      const { sensors, invalid } = await promise;
+      expect(sensors['100001']).toMatchObject({ Serial: 100001, FmVer: '2.3.1' });
+      expect(invalid).toEqual([]);
+    });
+
+    it('should map the empty array the gateway sends for no sensors to an empty record', async () => {
+      const promise = client.sendCommand(getDynConnected);
+
+      client.handleResponse({ Type: 'RTN_DYN', From: 'SERV', Target: 'UI', Data: [] });
+
+      await expect(promise).resolves.toEqual({ sensors: {}, invalid: [] });
+    });
+
+    it('should return the valid sensors alongside a malformed entry', async () => {
+      const promise = client.sendCommand(getDynConnected);
+
+      client.handleResponse({
+        Type: 'RTN_DYN',
+        From: 'SERV',
+        Target: 'UI',
+        Data: {
+          '100001': SENSOR_METADATA,
+          '100002': { ...SENSOR_METADATA, Serial: 'not-a-number' },
+        },
+      });
+
+      const { sensors, invalid } = await promise;
+      expect(Object.keys(sensors)).toEqual(['100001']);
+      expect(invalid).toHaveLength(1);
+      expect(invalid[0]).toMatchObject({ serial: '100002' });
+      expect(invalid[0].issues[0]?.path).toEqual(['Serial']);
+    });
+
+    it('should reject with CommandResponseError when Data does not match the schema', async () => {
+      const promise = client.sendCommand(getDynConnected);
+
+      client.handleResponse({ Type: 'RTN_DYN', From: 'SERV', Target: 'UI', Data: 'not-a-record' });
+
+      const error = await promise.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(CommandResponseError);
+      expect(error).toMatchObject({ commandType: 'GET_DYN_CONNECTED', responseType: 'RTN_DYN' });
+      expect(client.getPendingCount()).toBe(0);
+    });
+
+    it('should reject a POST_LOGIN answered without account data', async () => {
+      const promise = client.sendCommand({
+        Type: 'POST_LOGIN',
+        From: 'UI',
+        To: 'SERV',
+        Data: { Email: 'test@example.com', Password: 'password123' },
+      });
+
+      client.handleResponse({ Type: 'RTN_DYN', From: 'SERV', Target: 'UI', Data: {} });
+
+      await expect(promise).rejects.toThrow(/Invalid RTN_DYN response to POST_LOGIN/);
+    });
+  });
+
   describe('handleResponse', () => {
     it('should log warning and not throw when CorrelationId not found', () => {
       const unknownResponse: ResponseMessage = {
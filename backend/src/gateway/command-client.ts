@@ -1,18 +1,42 @@
 import { randomUUID } from 'node:crypto';
-import type { SendCommand, ResponseMessage } from '../types/messages';
+import type { z } from 'zod';
+import { commandResponseSchemas } from '../types/messages';
+import type {
+  CommandResponse,
+  CommandType,
+  SendCommand,
+  ResponseMessage,
+} from '../types/messages';
 import { logger } from '../utils/logger';
 
 /**
  * Pending request metadata
  */
 interface PendingRequest {
-  resolve: (data: any) => void;
+  resolve: (data: unknown) => void;
   reject: (error: Error) => void;
   timeoutId: NodeJS.Timeout;
-  commandType: string;
+  commandType: CommandType;
   sentAt: number;
 }
 
+/**
+ * Error for a response whose Data does not match the command's response schema
+ */
+export class CommandResponseError extends Error {
+  constructor(
+    readonly commandType: CommandType,
+    readonly responseType: ResponseMessage['Type'],
+    readonly issues: z.core.$ZodIssue[]
+  ) {
+    const summary = issues
+      .map((issue) => `${issue.path.join('.') || 'Data'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid ${responseType} response to ${commandType}: ${summary}`);
+    this.name = 'CommandResponseError';
+  }
+}
+
 /**
  * CommandClient handles request/response correlation over WebSocket
  *
@@ -20,6 +44,7 @@ interface PendingRequest {
  * - UUID-based correlation ID injection
  * - Configurable timeout
  * - RTN_ERR error handling
+ * - Response Data validated against commandResponseSchemas (CommandResponseError on mismatch)
  * - Safe cleanup of pending requests
  */
 export class CommandClient {
@@ -41,9 +66,13 @@ export class CommandClient {
    *
    * @param command - Command to send (CorrelationId will be injected if not present)
    * @param timeoutMs - Optional timeout override (defaults to constructor defaultTimeoutMs)
-   * @returns Promise that resolves with response Data or rejects on timeout/error
+   * @returns Promise that resolves with the validated response Data or rejects on
+   *   timeout/error
    */
-  async sendCommand(command: SendCommand, timeoutMs?: number): Promise<any> {
+  async sendCommand<C extends SendCommand>(
+    command: C,
+    timeoutMs?: number
+  ): Promise<CommandResponse<C['Type']>> {
     const timeout = timeoutMs ?? this.defaultTimeoutMs;
 
     // Generate correlation ID for internal tracking only
@@ -53,7 +82,7 @@ export class CommandClient {
     // Keep ID for internal FIFO matching, but don't send to gateway
 
     // Create promise with timeout
-    return new Promise((resolve, reject) => {
+    return new Promise<CommandResponse<C['Type']>>((resolve, reject) => {
       // Set timeout
       const timeoutId = setTimeout(() => {
         // Delete first (race condition protection)
@@ -68,7 +97,7 @@ export class CommandClient {
 
       // Store pending request
       this.pending.set(correlationId, {
-        resolve,
+        resolve: (data) => resolve(data as CommandResponse<C['Type']>),
         reject,
         timeoutId,
         commandType: command.Type,
@@ -148,9 +177,16 @@ export class CommandClient {
       );
       pending.reject(error);
     } else {
-      // Success response - resolve with data
+      // Success response - resolve with data validated for the command
       logger.debug(`Received ${Type}: CorrelationId: ${correlationId}`);
-      pending.resolve(Data);
+      const parsed = commandResponseSchemas[pending.commandType].safeParse(Data);
+      if (parsed.success) {
+        pending.resolve(parsed.data);
+      } else {
+        const error = new CommandResponseError(pending.commandType, Type, parsed.error.issues);
+        logger.warn(error.message);
+        pending.reject(error);
+      }
     }
   }
 
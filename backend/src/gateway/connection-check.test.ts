@@ -0,0 +1,61 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import { checkConnection } from './connection-check.js';
+import { createSensorFleet, GatewaySimulator } from '../simulator/gateway-simulator.js';
+
+const CREDENTIALS = { email: 'check@example.com', password: 'secret' };
+
+describe('checkConnection against the gateway simulator', () => {
+  let simulator: GatewaySimulator;
+  let url: string;
+
+  beforeEach(async () => {
+    const [first, second, third] = createSensorFleet(3);
+    simulator = new GatewaySimulator({
+      ...CREDENTIALS,
+      sensors: [first, second, { ...third, metadata: { ...third.metadata, Connected: 0 } }],
+      seed: 1,
+    });
+    url = `ws://127.0.0.1:${await simulator.start()}`;
+  });
+
+  afterEach(async () => {
+    await simulator.stop();
+  });
+
+  it('should report the logged-in account and sensor counts', async () => {
+    const result = await checkConnection(url, CREDENTIALS, 1000);
+
+    expect(result).toMatchObject({
+      success: true,
+      failedStage: null,
+      error: null,
+      user: { Email: CREDENTIALS.email, Success: true },
+      sensorCount: 3,
+      connectedSensorCount: 2,
+    });
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(result.durationMs).toBeGreaterThanOrEqual(result.latencyMs!);
+  });
+
+  it('should report bad credentials as an authentication failure', async () => {
+    const result = await checkConnection(url, { ...CREDENTIALS, password: 'wrong' }, 1000);
+
+    expect(result).toMatchObject({
+      success: false,
+      failedStage: 'authenticate',
+      error: 'Command error: Invalid email or password (Attempt: POST_LOGIN)',
+      user: null,
+      sensorCount: null,
+    });
+  });
+
+  it('should report an unreachable gateway as a connect failure', async () => {
+    await simulator.stop();
+
+    const result = await checkConnection(url, CREDENTIALS, 1000);
+
+    expect(result.success).toBe(false);
+    expect(result.failedStage).toBe('connect');
+    expect(result.error).toMatch(/ECONNREFUSED/);
+  });
+});
@@ -0,0 +1,126 @@
+import { WebSocketConnection } from './connection';
+import { CommandClient } from './command-client';
+import { MessageRouter } from './message-router';
+import { NotificationHandler } from './notification-handler';
+import { authenticate } from './authenticator';
+import { listSensors } from './sensor-discovery';
+import { ConnectionState, GatewayCredentials } from '../types/connection';
+import type { RtnLoginResponse } from '../types/messages';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// Step of the check that failed
+export type ConnectionCheckStage = 'connect' | 'authenticate' | 'discover';
+
+/**
+ * Outcome of a one-off connection check against a gateway
+ */
+export interface ConnectionCheckResult {
+  success: boolean;
+  failedStage: ConnectionCheckStage | null;
+  error: string | null;
+  durationMs: number; // Whole check, from opening the socket
+  latencyMs: number | null; // GET_DYN_CONNECTED round trip
+  user: RtnLoginResponse['Data'] | null; // RTN_LOGIN account info
+  sensorCount: number | null;
+  connectedSensorCount: number | null;
+}
+
+/**
+ * Wait for a connection to open, fail or time out
+ */
+function waitForOpen(connection: WebSocketConnection, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Connection timeout after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+    const settle = (error?: Error) => {
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    connection.onOpen(() => settle());
+    connection.onError((error) => settle(error));
+    connection.onStateChange((state) => {
+      if (state === ConnectionState.CLOSED) {
+        settle(new Error('Connection closed by gateway'));
+      }
+    });
+  });
+}
+
+/**
+ * Check that a gateway is reachable with the given credentials
+ *
+ * Opens a temporary connection (never reconnected, and independent of any
+ * supervisor session), authenticates with POST_LOGIN and lists sensors with
+ * GET_DYN_CONNECTED, then closes. Failures are reported in the result rather
+ * than thrown, together with the step that failed.
+ *
+ * @param url - Gateway WebSocket URL
+ * @param credentials - Gateway email and plaintext password
+ * @param timeoutMs - Limit for opening the socket and for GET_DYN_CONNECTED
+ */
+export async function checkConnection(
+  url: string,
+  credentials: GatewayCredentials,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<ConnectionCheckResult> {
+  const connection = new WebSocketConnection({
+    url,
+    reconnect: { initialDelay: 1000, maxDelay: 1000, multiplier: 1 },
+    heartbeat: { interval: timeoutMs, timeout: timeoutMs },
+  });
+  const commandClient = new CommandClient((msg) => connection.send(msg), timeoutMs);
+  const router = new MessageRouter(commandClient, new NotificationHandler());
+  connection.onMessage((data) => router.handleMessage(data));
+
+  const startedAt = Date.now();
+  const result: ConnectionCheckResult = {
+    success: false,
+    failedStage: null,
+    error: null,
+    durationMs: 0,
+    latencyMs: null,
+    user: null,
+    sensorCount: null,
+    connectedSensorCount: null,
+  };
+
+  let stage: ConnectionCheckStage = 'connect';
+  try {
+    const opened = waitForOpen(connection, timeoutMs);
+    connection.connect();
+    await opened;
+
+    stage = 'authenticate';
+    result.user = await authenticate(commandClient, credentials);
+
+    stage = 'discover';
+    const sentAt = Date.now();
+    const sensors = await listSensors(commandClient);
+    result.latencyMs = Date.now() - sentAt;
+    result.sensorCount = sensors.length;
+    result.connectedSensorCount = sensors.filter((s) => s.Connected === 1).length;
+
+    result.success = true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Connection check of ${url} failed while trying to ${stage}: ${message}`);
+    result.failedStage = stage;
+    result.error = message;
+  } finally {
+    // close() also cancels any reconnect the failure scheduled
+    commandClient.cleanup();
+    connection.close(1000, 'Connection check finished');
+  }
+
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionHealth, LAST_SEEN_WRITE_INTERVAL_MS } from './connection-health';
+import { ConnectionState } from '../types/connection';
+
+const start = new Date('2024-03-01T08:00:00Z');
+
+function at(seconds: number): Date {
+  return new Date(start.getTime() + seconds * 1000);
+}
+
+describe('ConnectionHealth', () => {
+  it('should start disconnected with nothing recorded', () => {
+    const health = new ConnectionHealth(start);
+
+    expect(health.snapshot(at(10))).toEqual({
+      state: ConnectionState.DISCONNECTED,
+      startedAt: start,
+      connectedSince: null,
+      uptimeSeconds: null,
+      reconnectCount: 0,
+      lastMessageAt: null,
+      lastHeartbeatAt: null,
+      lastError: null,
+    });
+  });
+
+  it('should measure uptime from the socket opening through authentication', () => {
+    const health = new ConnectionHealth(start);
+    health.recordState(ConnectionState.CONNECTING, at(0));
+    health.recordState(ConnectionState.CONNECTED, at(1));
+    health.recordState(ConnectionState.AUTHENTICATED, at(2));
+
+    const snapshot = health.snapshot(at(91.5));
+    expect(snapshot.state).toBe(ConnectionState.AUTHENTICATED);
+    expect(snapshot.connectedSince).toEqual(at(1));
+    expect(snapshot.uptimeSeconds).toBe(90);
+  });
+
+  it('should count reconnects and reset uptime when the connection drops', () => {
+    const health = new ConnectionHealth(start);
+    health.recordState(ConnectionState.CONNECTING, at(0));
+    health.recordState(ConnectionState.CONNECTED, at(1));
+    health.recordState(ConnectionState.CLOSED, at(60));
+    health.recordState(ConnectionState.DISCONNECTED, at(60));
+
+    expect(health.snapshot(at(61)).uptimeSeconds).toBeNull();
+
+    health.recordState(ConnectionState.CONNECTING, at(62));
+    health.recordState(ConnectionState.CONNECTED, at(63));
+    health.recordState(ConnectionState.CLOSED, at(70));
+    health.recordState(ConnectionState.DISCONNECTED, at(70));
+    health.recordState(ConnectionState.CONNECTING, at(72));
+
+    expect(health.snapshot(at(73)).reconnectCount).toBe(2);
+  });
+
+  it('should keep the most recent error', () => {
+    const health = new ConnectionHealth(start);
+    health.recordError('connect ECONNREFUSED', at(1));
+    health.recordError('Heartbeat timeout', at(5));
+
+    expect(health.snapshot(at(6)).lastError).toEqual({
+      message: 'Heartbeat timeout',
+      occurredAt: at(5),
+    });
+  });
+
+  it('should ask for last_seen_at writes at most once per interval', () => {
+    const health = new ConnectionHealth(start);
+    const interval = LAST_SEEN_WRITE_INTERVAL_MS / 1000;
+
+    expect(health.recordMessage(at(0))).toBe(true);
+    expect(health.recordMessage(at(1))).toBe(false);
+    expect(health.recordHeartbeat(at(interval)).lastSeenDue).toBe(true);
+
+    const snapshot = health.snapshot(at(interval));
+    expect(snapshot.lastMessageAt).toEqual(at(interval));
+    expect(snapshot.lastHeartbeatAt).toEqual(at(interval));
+  });
+
+  it('should mark only the first heartbeat of each connection', () => {
+    const health = new ConnectionHealth(start);
+    health.recordState(ConnectionState.CONNECTED, at(0));
+
+    expect(health.recordHeartbeat(at(30)).first).toBe(true);
+    expect(health.recordHeartbeat(at(60)).first).toBe(false);
+
+    // The gateway answers again after a reconnect
+    health.recordState(ConnectionState.DISCONNECTED, at(70));
+    health.recordState(ConnectionState.CONNECTING, at(71));
+    health.recordState(ConnectionState.CONNECTED, at(72));
+    expect(health.recordHeartbeat(at(100)).first).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { ConnectionState } from '../types/connection';
+
+// last_seen_at is written at most this often per gateway (messages can arrive in bursts)
+export const LAST_SEEN_WRITE_INTERVAL_MS = 5000;
+
+/**
+ * Health of one gateway session's connection at a point in time
+ */
+export interface ConnectionHealthSnapshot {
+  state: ConnectionState;
+  startedAt: Date; // When the session started (counters cover the session's lifetime)
+  connectedSince: Date | null; // When the current socket opened, null while not connected
+  uptimeSeconds: number | null;
+  reconnectCount: number;
+  lastMessageAt: Date | null;
+  lastHeartbeatAt: Date | null;
+  lastError: { message: string; occurredAt: Date } | null;
+}
+
+/**
+ * ConnectionHealth tracks the health of one gateway session's connection
+ *
+ * Fed by GatewaySession from WebSocketConnection callbacks. Every reconnect
+ * re-enters CONNECTING, so reconnects are the connection attempts after the first.
+ * The connection counts as up from CONNECTED (socket open) until it leaves
+ * CONNECTED/AUTHENTICATED.
+ */
+export class ConnectionHealth {
+  private state: ConnectionState = ConnectionState.DISCONNECTED;
+  private connectAttempts = 0;
+  private connectedSince: Date | null = null;
+  private lastMessageAt: Date | null = null;
+  private lastHeartbeatAt: Date | null = null;
+  private heartbeatSinceConnect = false;
+  private lastWrittenAt: Date | null = null;
+  private lastError: { message: string; occurredAt: Date } | null = null;
+
+  constructor(private readonly startedAt: Date = new Date()) {}
+
+  /**
+   * Record a connection state transition
+   */
+  recordState(state: ConnectionState, at: Date = new Date()): void {
+    this.state = state;
+
+    if (state === ConnectionState.CONNECTING) {
+      this.connectAttempts++;
+    } else if (state === ConnectionState.CONNECTED) {
+      this.connectedSince = at;
+      this.heartbeatSinceConnect = false;
+    } else if (state !== ConnectionState.AUTHENTICATED) {
+      this.connectedSince = null;
+    }
+  }
+
+  /**
+   * Record an inbound message
+   *
+   * @returns true if last_seen_at is due to be written (see LAST_SEEN_WRITE_INTERVAL_MS)
+   */
+  recordMessage(at: Date = new Date()): boolean {
+    this.lastMessageAt = at;
+
+    if (
+      this.lastWrittenAt !== null &&
+      at.getTime() - this.lastWrittenAt.getTime() < LAST_SEEN_WRITE_INTERVAL_MS
+    ) {
+      return false;
+    }
+    this.lastWrittenAt = at;
+    return true;
+  }
+
+  /**
+   * Record a heartbeat response (also an inbound message)
+   *
+   * @returns lastSeenDue: true if last_seen_at is due to be written; first: true for
+   *   the first heartbeat since the socket opened (the gateway answers again after
+   *   an outage), the only one worth recording as a connection event
+   */
+  recordHeartbeat(at: Date = new Date()): { lastSeenDue: boolean; first: boolean } {
+    this.lastHeartbeatAt = at;
+    const first = !this.heartbeatSinceConnect;
+    this.heartbeatSinceConnect = true;
+    return { lastSeenDue: this.recordMessage(at), first };
+  }
+
+  /**
+   * Record a connection or authentication failure
+   */
+  recordError(message: string, at: Date = new Date()): void {
+    this.lastError = { message, occurredAt: at };
+  }
+
+  /**
+   * Current health
+   */
+  snapshot(now: Date = new Date()): ConnectionHealthSnapshot {
+    return {
+      state: this.state,
+      startedAt: this.startedAt,
+      connectedSince: this.connectedSince,
+      uptimeSeconds: this.connectedSince
+        ? Math.max(0, Math.floor((now.getTime() - this.connectedSince.getTime()) / 1000))
+        : null,
+      reconnectCount: Math.max(0, this.connectAttempts - 1),
+      lastMessageAt: this.lastMessageAt,
+      lastHeartbeatAt: this.lastHeartbeatAt,
+      lastError: this.lastError,
+    };
+  }
+}
@@ -17,10 +17,14 @@ export class WebSocketConnection {
   private isShuttingDown: boolean = false;
   private onMessageCallback: ((data: string) => void) | null = null;
   private onOpenCallback: (() => void) | null = null;
+  private onStateChangeCallback: ((state: ConnectionState, previous: ConnectionState) => void) | null =
+    null;
+  private onHeartbeatCallback: (() => void) | null = null;
+  private onErrorCallback: ((error: Error) => void) | null = null;
 
   constructor(config: ConnectionConfig) {
     this.config = config;
-    this.reconnectManager = new ReconnectionManager();
+    this.reconnectManager = new ReconnectionManager(config.reconnect);
     this.heartbeatManager = new HeartbeatManager(config.heartbeat);
     this.heartbeatManager.onTimeout(() => this.handleHeartbeatTimeout());
   }
@@ -46,6 +50,27 @@ export class WebSocketConnection {
     this.onOpenCallback = callback;
   }
 
+  /**
+   * Register callback for connection state transitions
+   */
+  onStateChange(callback: (state: ConnectionState, previous: ConnectionState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  /**
+   * Register callback for heartbeat responses (pongs are not passed to onMessage)
+   */
+  onHeartbeat(callback: () => void): void {
+    this.onHeartbeatCallback = callback;
+  }
+
+  /**
+   * Register callback for socket errors and heartbeat timeouts
+   */
+  onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
   /**
    * Mark connection as authenticated after POST_LOGIN succeeds.
    * Only valid transition: CONNECTED -> AUTHENTICATED.
@@ -58,8 +83,10 @@ export class WebSocketConnection {
     this.setState(ConnectionState.AUTHENTICATED);
 
     // Discovery: Gateway doesn't support heartbeat messages
-    // Disabled for Milestone 0 spike (short-lived connection, heartbeat not needed)
-    // this.heartbeatManager.start((msg) => this.send(msg));
+    // Opt-in only (the gateway simulator answers them)
+    if (this.config.heartbeat.enabled) {
+      this.heartbeatManager.start((msg) => this.send(msg));
+    }
   }
 
   /**
@@ -143,6 +170,10 @@ export class WebSocketConnection {
     const oldState = this.state;
     this.state = newState;
     logger.info(`Connection state: ${oldState} -> ${newState}`);
+
+    if (this.onStateChangeCallback) {
+      this.onStateChangeCallback(newState, oldState);
+    }
   }
 
   /**
@@ -187,6 +218,10 @@ export class WebSocketConnection {
   private handleError(error: Error): void {
     logger.error(`WebSocket error: ${error.message}`);
     // Note: error event is always followed by close event in ws library
+
+    if (this.onErrorCallback) {
+      this.onErrorCallback(error);
+    }
   }
 
   /**
@@ -200,6 +235,9 @@ export class WebSocketConnection {
       const parsed = JSON.parse(message);
       if (parsed.type === 'pong') {
         this.heartbeatManager.handleHeartbeatResponse();
+        if (this.onHeartbeatCallback) {
+          this.onHeartbeatCallback();
+        }
         return;
       }
     } catch {
@@ -245,13 +283,16 @@ export class WebSocketConnection {
   private handleHeartbeatTimeout(): void {
     logger.warn('Heartbeat timeout - connection dead, reconnecting');
 
+    if (this.onErrorCallback) {
+      this.onErrorCallback(new Error('Heartbeat timeout'));
+    }
+
+    // handleClose follows the terminate and schedules the reconnect (close code 1006)
     if (this.state === ConnectionState.CONNECTED || this.state === ConnectionState.AUTHENTICATED) {
+      this.heartbeatManager.stop();
       if (this.ws) {
         this.ws.terminate();
       }
-      this.heartbeatManager.stop();
-      this.setState(ConnectionState.CLOSED);
-      this.scheduleReconnect();
     }
   }
 }
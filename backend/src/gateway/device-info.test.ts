@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { gatewayDeviceInfo, isFirmwareChange } from './device-info';
+
+describe('gatewayDeviceInfo', () => {
+  it('should report nothing for the account-only RTN_LOGIN data', () => {
+    const data = {
+      Email: 'ops@example.com',
+      First: 'Plant',
+      Last: 'Operator',
+      Success: true,
+      AccessLevel: 1,
+      Verified: true,
+    };
+
+    expect(gatewayDeviceInfo(data)).toEqual({ model: null, firmwareVersion: null });
+  });
+
+  it('should read FmVer and prefer Model over HwVer', () => {
+    expect(gatewayDeviceInfo({ FmVer: ' 4.2.0 ', HwVer: 'rev B' })).toEqual({
+      model: 'rev B',
+      firmwareVersion: '4.2.0',
+    });
+    expect(gatewayDeviceInfo({ Model: 'CTC-W100', HwVer: 'rev B' }).model).toBe('CTC-W100');
+  });
+
+  it('should ignore empty and non-string values and cap lengths', () => {
+    expect(gatewayDeviceInfo({ Model: '', FmVer: 42 })).toEqual({
+      model: null,
+      firmwareVersion: null,
+    });
+    expect(gatewayDeviceInfo({ FmVer: 'x'.repeat(80) }).firmwareVersion).toHaveLength(50);
+    expect(gatewayDeviceInfo(null)).toEqual({ model: null, firmwareVersion: null });
+  });
+});
+
+describe('isFirmwareChange', () => {
+  it('should treat a first or different version as a change', () => {
+    expect(isFirmwareChange(null, '2.3.1')).toBe(true);
+    expect(isFirmwareChange('2.3.0', '2.3.1')).toBe(true);
+  });
+
+  it('should not treat an unchanged or missing version as a change', () => {
+    expect(isFirmwareChange('2.3.1', '2.3.1')).toBe(false);
+    expect(isFirmwareChange('2.3.1', null)).toBe(false);
+    expect(isFirmwareChange('2.3.1', undefined)).toBe(false);
+  });
+});
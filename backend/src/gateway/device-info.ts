@@ -0,0 +1,57 @@
+// Column sizes of gateways.model and gateways.firmware_version
+const MODEL_MAX_LENGTH = 100;
+const FIRMWARE_MAX_LENGTH = 50;
+
+/**
+ * What a gateway reports about itself (null when not reported)
+ */
+export interface GatewayDeviceInfo {
+  model: string | null;
+  firmwareVersion: string | null;
+}
+
+/**
+ * A non-empty string field of a message's Data, trimmed and capped to a column size
+ */
+function reportedString(data: Record<string, unknown>, key: string, maxLength: number) {
+  const value = data[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  return value.trim().slice(0, maxLength);
+}
+
+/**
+ * Read the gateway's model and firmware version from a POST_LOGIN response
+ *
+ * The protocol has no version command, and the RTN_LOGIN fields seen so far only
+ * describe the logged-in account. Gateways that also report FmVer and HwVer (the
+ * names sensor metadata uses) or Model there have them picked up.
+ *
+ * @param loginData - Data returned by authenticate()
+ */
+export function gatewayDeviceInfo(loginData: unknown): GatewayDeviceInfo {
+  if (!loginData || typeof loginData !== 'object' || Array.isArray(loginData)) {
+    return { model: null, firmwareVersion: null };
+  }
+
+  const data = loginData as Record<string, unknown>;
+  return {
+    model:
+      reportedString(data, 'Model', MODEL_MAX_LENGTH) ??
+      reportedString(data, 'HwVer', MODEL_MAX_LENGTH),
+    firmwareVersion: reportedString(data, 'FmVer', FIRMWARE_MAX_LENGTH),
+  };
+}
+
+/**
+ * Whether a reported firmware version is new for the device
+ *
+ * A device that reports no version has not changed firmware, whatever is stored.
+ */
+export function isFirmwareChange(
+  stored: string | null | undefined,
+  reported: string | null | undefined
+): reported is string {
+  return !!reported && reported !== stored;
+}
@@ -66,13 +66,17 @@ export class ReconnectionManager {
   private backoff: ExponentialBackoff;
   private reconnectTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
-    // Default config from research: start at 1s, max 30s, double each attempt
-    this.backoff = new ExponentialBackoff({
+  /**
+   * @param config Backoff settings (defaults from research: start at 1s, max 30s, double each attempt)
+   */
+  constructor(
+    config: ReconnectConfig = {
       initialDelay: 1000,
       maxDelay: 30000,
       multiplier: 2,
-    });
+    }
+  ) {
+    this.backoff = new ExponentialBackoff(config);
   }
 
   /**
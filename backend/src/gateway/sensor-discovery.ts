@@ -1,14 +1,46 @@
 import type { CommandClient } from './command-client';
 import type { SensorMetadata } from '../types/messages';
-import { SensorMetadataSchema } from '../types/messages';
 import { logger } from '../utils/logger';
 
 /**
- * Discover connected sensors and select one for acquisition.
+ * List all sensors known to the gateway.
  *
  * Sends GET_DYN_CONNECTED to query all known sensors from gateway.
- * Response Data is a dictionary: { [serialString]: SensorMetadata, ... }
- * Each entry is validated individually with safeParse (invalid entries logged, not fatal).
+ * Response Data is a dictionary: { [serialString]: SensorMetadata, ... }, validated
+ * by the command client entry by entry. Malformed entries are logged and skipped.
+ * Data that is not a dictionary fails the command with CommandResponseError.
+ *
+ * @param commandClient - Authenticated command client
+ * @returns Metadata for every sensor, connected or not
+ */
+export async function listSensors(commandClient: CommandClient): Promise<SensorMetadata[]> {
+  // Discovery: Gateway returns array [] when empty (the schema maps it to {})
+  const { sensors, invalid } = await commandClient.sendCommand({
+    Type: 'GET_DYN_CONNECTED',
+    From: 'UI',
+    To: 'SERV',
+    Data: {},
+  });
+
+  for (const entry of invalid) {
+    const summary = entry.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    logger.warn(`Skipping malformed sensor ${entry.serial}: ${summary}`);
+  }
+
+  const allSensors = Object.values(sensors);
+  for (const sensor of allSensors) {
+    logger.debug(`Sensor ${sensor.Serial}: Connected=${sensor.Connected}, PartNum=${sensor.PartNum}`);
+  }
+
+  return allSensors;
+}
+
+/**
+ * Discover connected sensors and select one for acquisition.
+ *
+ * Lists sensors via GET_DYN_CONNECTED (see listSensors).
  * Filters for Connected === 1, then selects preferred or first.
  *
  * @param commandClient - Authenticated command client
@@ -22,31 +54,7 @@ export async function discoverSensor(
 ): Promise<SensorMetadata> {
   logger.info('Discovering connected sensors...');
 
-  const responseData = await commandClient.sendCommand({
-    Type: 'GET_DYN_CONNECTED',
-    From: 'UI',
-    To: 'SERV',
-    Data: {},
-  });
-
-  // Discovery: Gateway returns array [] when empty, object {...} when sensors exist
-  const allSensors: SensorMetadata[] = [];
-
-  if (Array.isArray(responseData)) {
-    // Empty array = no sensors
-    logger.debug('GET_DYN_CONNECTED returned empty array (no sensors connected)');
-  } else if (responseData && typeof responseData === 'object') {
-    // Parse sensor dictionary: { "[serial]": SensorMetadata, ... }
-    for (const [serialKey, metadata] of Object.entries(responseData)) {
-      const parsed = SensorMetadataSchema.safeParse(metadata);
-      if (parsed.success) {
-        allSensors.push(parsed.data);
-        logger.debug(`Sensor ${serialKey}: Connected=${parsed.data.Connected}, PartNum=${parsed.data.PartNum}`);
-      } else {
-        logger.warn(`Invalid sensor metadata for serial ${serialKey}: ${parsed.error.message}`);
-      }
-    }
-  }
+  const allSensors = await listSensors(commandClient);
 
   // Filter for connected sensors only (DISC-04: Connected === 1)
   const connectedSensors = allSensors.filter(s => s.Connected === 1);
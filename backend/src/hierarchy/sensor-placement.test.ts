@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { checkAssetAssignment, leavesFactory } from './sensor-placement';
+
+const pump = 'asset-pump';
+const fan = 'asset-fan';
+const motorNde = { name: 'Motor NDE', asset_id: pump };
+
+describe('leavesFactory', () => {
+  it('should keep the placement of a sensor moving between gateways of one factory', () => {
+    expect(leavesFactory('springfield', 'springfield')).toBe(false);
+  });
+
+  it('should clear the placement of a sensor moving to another factory', () => {
+    expect(leavesFactory('springfield', 'shelbyville')).toBe(true);
+  });
+
+  it('should have nothing to clear for a newly discovered sensor', () => {
+    expect(leavesFactory(undefined, 'springfield')).toBe(false);
+  });
+});
+
+describe('checkAssetAssignment', () => {
+  it('should allow any asset for an unmounted sensor', () => {
+    expect(checkAssetAssignment(undefined, fan)).toBeNull();
+    expect(checkAssetAssignment(undefined, null)).toBeNull();
+  });
+
+  it("should allow a mounted sensor to keep its point's asset", () => {
+    expect(checkAssetAssignment(motorNde, pump)).toBeNull();
+  });
+
+  it("should reject moving a mounted sensor off its point's asset", () => {
+    expect(checkAssetAssignment(motorNde, fan)).toMatchObject({
+      error: { code: 'SENSOR_MOUNTED_ON_OTHER_ASSET', statusCode: 409 },
+    });
+    expect(checkAssetAssignment(motorNde, null)?.error.message).toContain('"Motor NDE"');
+  });
+});
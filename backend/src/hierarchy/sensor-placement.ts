@@ -0,0 +1,54 @@
+/**
+ * Where a sensor sits in the plant hierarchy
+ *
+ * A reading is attributed to the asset of the measurement point its sensor is
+ * mounted on, and that asset decides the reading's machine class, ISO zone and
+ * asset alarm rules. These rules keep a sensor's asset_id in step with its mount.
+ */
+
+/**
+ * Whether a sensor discovered on a gateway must lose its asset_id and mount
+ *
+ * Assets and their points belong to one factory, so a sensor reported by a
+ * gateway of another factory than before cannot stay on them. Sensors discovered
+ * for the first time have nothing to clear.
+ *
+ * @param previousFactoryId - Factory of the sensor's current gateway (undefined if new)
+ * @param factoryId - Factory of the gateway that reported the sensor
+ */
+export function leavesFactory(previousFactoryId: string | undefined, factoryId: string): boolean {
+  return previousFactoryId !== undefined && previousFactoryId !== factoryId;
+}
+
+/**
+ * The measurement point a sensor is mounted on
+ */
+export interface MountedPoint {
+  name: string;
+  asset_id: string;
+}
+
+/**
+ * Check that a sensor can be assigned to an asset
+ *
+ * A mounted sensor belongs to its point's asset: assigning it to another asset
+ * (or to none) would attribute its readings to two assets at once.
+ *
+ * @param mounted - The point the sensor is mounted on, if any
+ * @param assetId - Requested asset_id (null clears it)
+ * @returns Error response body (409 SENSOR_MOUNTED_ON_OTHER_ASSET), or null if allowed
+ */
+export function checkAssetAssignment(mounted: MountedPoint | undefined, assetId: string | null) {
+  if (mounted && mounted.asset_id !== assetId) {
+    return {
+      error: {
+        code: 'SENSOR_MOUNTED_ON_OTHER_ASSET',
+        message:
+          `Sensor is mounted on measurement point "${mounted.name}" of another asset; ` +
+          'unmount it first',
+        statusCode: 409,
+      },
+    };
+  }
+  return null;
+}
@@ -10,6 +10,7 @@ import { NotificationHandler } from './gateway/notification-handler';
 import { authenticate } from './gateway/authenticator';
 import { discoverSensor } from './gateway/sensor-discovery';
 import { AcquisitionManager } from './acquisition/acquisition-manager';
+import { displayReadingResults } from './output/waveform-display';
 
 // Initialize logger with configured log level
 initLogger(config.LOG_LEVEL);
@@ -108,7 +109,10 @@ process.on('SIGTERM', () => shutdown('SIGTERM'));
 async function onConnectionOpen(): Promise<void> {
   try {
     // AUTH-01, AUTH-02: Send POST_LOGIN with credentials
-    await authenticate(commandClient, config);
+    await authenticate(commandClient, {
+      email: config.GATEWAY_EMAIL,
+      password: config.GATEWAY_PASSWORD,
+    });
 
     // AUTH-05: Transition to AUTHENTICATED state
     connection.markAuthenticated();
@@ -120,7 +124,13 @@ async function onConnectionOpen(): Promise<void> {
     await acquisitionManager.subscribe();
 
     // ACQ-01 through ACQ-08, OUT-01 through OUT-06: Trigger reading and display results
-    await acquisitionManager.acquireReading(sensor);
+    const acquired = await acquisitionManager.acquireReading(sensor);
+    displayReadingResults(
+      acquired.sensor,
+      acquired.reading,
+      acquired.waveforms,
+      acquired.temperature
+    );
 
     // SUB-04: Unsubscribe and exit cleanly
     await acquisitionManager.unsubscribe();
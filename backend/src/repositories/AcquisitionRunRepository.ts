@@ -0,0 +1,61 @@
+import { db } from '../database/kysely';
+import { AcquisitionRun, NewAcquisitionRun } from './types';
+
+/**
+ * AcquisitionRunRepository - Type-safe data access for scheduled acquisition runs
+ *
+ * Runs are append-only history: one row per scheduled attempt, including
+ * attempts that were missed or failed. Rows are removed only with their sensor.
+ */
+class AcquisitionRunRepository {
+  /**
+   * Find runs for a sensor, newest first
+   */
+  async findBySensor(
+    sensorId: string,
+    options?: { limit?: number; offset?: number }
+  ): Promise<AcquisitionRun[]> {
+    let query = db
+      .selectFrom('acquisition_runs')
+      .selectAll()
+      .where('sensor_id', '=', sensorId)
+      .orderBy('scheduled_for', 'desc');
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Record a run outcome
+   */
+  async create(run: NewAcquisitionRun): Promise<AcquisitionRun> {
+    return await db
+      .insertInto('acquisition_runs')
+      .values(run)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Count runs for a sensor
+   */
+  async countBySensor(sensorId: string): Promise<number> {
+    const result = await db
+      .selectFrom('acquisition_runs')
+      .select(db.fn.countAll().as('count'))
+      .where('sensor_id', '=', sensorId)
+      .executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const acquisitionRunRepository = new AcquisitionRunRepository();
@@ -0,0 +1,104 @@
+import { db } from '../database/kysely';
+import { AcquisitionSchedule, NewAcquisitionSchedule, AcquisitionScheduleUpdate } from './types';
+
+/**
+ * Due schedule joined with what the scheduler needs to run it
+ */
+export interface DueSchedule extends AcquisitionSchedule {
+  gateway_id: string;
+  sensor_serial: number;
+  timezone: string;
+}
+
+/**
+ * AcquisitionScheduleRepository - Type-safe data access for acquisition schedules
+ *
+ * Each sensor has at most one schedule (unique sensor_id). Schedules are
+ * configuration rather than history, so they are hard-deleted; their past
+ * runs keep a NULL schedule_id.
+ */
+class AcquisitionScheduleRepository {
+  /**
+   * Find schedule by sensor ID
+   */
+  async findBySensor(sensorId: string): Promise<AcquisitionSchedule | undefined> {
+    return await db
+      .selectFrom('acquisition_schedules')
+      .selectAll()
+      .where('sensor_id', '=', sensorId)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find enabled schedules due at or before `now`, oldest first
+   *
+   * Skips sensors and gateways that have been soft-deleted and includes the
+   * owning factory's timezone for window calculations.
+   */
+  async findDue(now: Date): Promise<DueSchedule[]> {
+    return await db
+      .selectFrom('acquisition_schedules')
+      .innerJoin('sensors', 'sensors.id', 'acquisition_schedules.sensor_id')
+      .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+      .innerJoin('factories', 'factories.id', 'gateways.factory_id')
+      .selectAll('acquisition_schedules')
+      .select(['sensors.gateway_id', 'sensors.serial as sensor_serial', 'factories.timezone'])
+      .where('acquisition_schedules.enabled', '=', true)
+      .where('acquisition_schedules.next_run_at', '<=', now)
+      .where('sensors.deleted_at', 'is', null)
+      .where('gateways.deleted_at', 'is', null)
+      .orderBy('acquisition_schedules.next_run_at', 'asc')
+      .execute();
+  }
+
+  /**
+   * Create or replace the schedule for a sensor
+   */
+  async upsert(schedule: NewAcquisitionSchedule): Promise<AcquisitionSchedule> {
+    const { sensor_id: _sensorId, ...updates } = schedule;
+
+    return await db
+      .insertInto('acquisition_schedules')
+      .values(schedule)
+      .onConflict((oc) =>
+        oc.column('sensor_id').doUpdateSet({
+          ...updates,
+          updated_at: new Date(),
+        })
+      )
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update schedule by ID
+   */
+  async update(
+    id: string,
+    updates: AcquisitionScheduleUpdate
+  ): Promise<AcquisitionSchedule | undefined> {
+    return await db
+      .updateTable('acquisition_schedules')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Delete the schedule for a sensor
+   */
+  async deleteBySensor(sensorId: string): Promise<AcquisitionSchedule | undefined> {
+    return await db
+      .deleteFrom('acquisition_schedules')
+      .where('sensor_id', '=', sensorId)
+      .returningAll()
+      .executeTakeFirst();
+  }
+}
+
+// Export singleton instance
+export const acquisitionScheduleRepository = new AcquisitionScheduleRepository();
@@ -0,0 +1,272 @@
+import { ExpressionBuilder } from 'kysely';
+import { db } from '../database/kysely';
+import { DB } from '../database/types';
+import {
+  AlarmEvent,
+  NewAlarmEvent,
+  AlarmEventUpdate,
+  AlarmSeverity,
+  AlarmStatus,
+} from './types';
+
+export interface AlarmEventFilter {
+  status?: AlarmStatus;
+  severity?: AlarmSeverity;
+  sensor_id?: string;
+  rule_id?: string;
+  asset_id?: string;
+  measurement_point_id?: string;
+  factoryIds?: string[]; // Only events of sensors on gateways of these factories
+}
+
+/**
+ * Alarm event joined with the rule that raised it
+ */
+export interface AlarmEventDetail extends AlarmEvent {
+  rule_name: string;
+  metric: string;
+  axis: string | null;
+}
+
+/**
+ * Build the WHERE clause for an event filter
+ *
+ * Status is derived from the timestamps: cleared_at set means cleared,
+ * otherwise acknowledged_at set means acknowledged, otherwise active.
+ */
+function filterEvents(
+  eb: ExpressionBuilder<DB, 'alarm_events'>,
+  filter: AlarmEventFilter | undefined
+) {
+  const conditions = [];
+
+  if (filter?.status === 'cleared') {
+    conditions.push(eb('alarm_events.cleared_at', 'is not', null));
+  } else if (filter?.status === 'acknowledged') {
+    conditions.push(eb('alarm_events.cleared_at', 'is', null));
+    conditions.push(eb('alarm_events.acknowledged_at', 'is not', null));
+  } else if (filter?.status === 'active') {
+    conditions.push(eb('alarm_events.cleared_at', 'is', null));
+    conditions.push(eb('alarm_events.acknowledged_at', 'is', null));
+  }
+
+  if (filter?.severity) {
+    conditions.push(eb('alarm_events.severity', '=', filter.severity));
+  }
+
+  if (filter?.sensor_id) {
+    conditions.push(eb('alarm_events.sensor_id', '=', filter.sensor_id));
+  }
+
+  if (filter?.rule_id) {
+    conditions.push(eb('alarm_events.rule_id', '=', filter.rule_id));
+  }
+
+  if (filter?.asset_id) {
+    conditions.push(eb('alarm_events.asset_id', '=', filter.asset_id));
+  }
+
+  if (filter?.measurement_point_id) {
+    conditions.push(eb('alarm_events.measurement_point_id', '=', filter.measurement_point_id));
+  }
+
+  if (filter?.factoryIds) {
+    conditions.push(
+      eb(
+        'alarm_events.sensor_id',
+        'in',
+        eb
+          .selectFrom('sensors')
+          .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+          .select('sensors.id')
+          .where('gateways.factory_id', 'in', filter.factoryIds)
+      )
+    );
+  }
+
+  return eb.and(conditions);
+}
+
+/**
+ * AlarmEventRepository - Type-safe data access for alarm events
+ *
+ * Events are raised and cleared by the alarm engine and acknowledged by users.
+ * They are history and are never deleted (except with their rule or sensor, CASCADE).
+ * Each rule has at most one open (not cleared) event per sensor.
+ */
+class AlarmEventRepository {
+  /**
+   * Find event by ID, with its rule
+   */
+  async findById(id: string): Promise<AlarmEventDetail | undefined> {
+    return await db
+      .selectFrom('alarm_events')
+      .innerJoin('alarm_rules', 'alarm_rules.id', 'alarm_events.rule_id')
+      .selectAll('alarm_events')
+      .select(['alarm_rules.name as rule_name', 'alarm_rules.metric', 'alarm_rules.axis'])
+      .where('alarm_events.id', '=', id)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find the factory whose roles apply to an event: its sensor's gateway's
+   */
+  async findFactoryId(id: string): Promise<string | undefined> {
+    const result = await db
+      .selectFrom('alarm_events')
+      .innerJoin('sensors', 'sensors.id', 'alarm_events.sensor_id')
+      .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+      .select('gateways.factory_id')
+      .where('alarm_events.id', '=', id)
+      .executeTakeFirst();
+
+    return result?.factory_id;
+  }
+
+  /**
+   * Find events with their rules, newest first
+   */
+  async findAll(
+    options?: AlarmEventFilter & { limit?: number; offset?: number }
+  ): Promise<AlarmEventDetail[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('alarm_events')
+      .innerJoin('alarm_rules', 'alarm_rules.id', 'alarm_events.rule_id')
+      .selectAll('alarm_events')
+      .select(['alarm_rules.name as rule_name', 'alarm_rules.metric', 'alarm_rules.axis'])
+      .where((eb) => filterEvents(eb, options))
+      .orderBy('alarm_events.raised_at', 'desc');
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find the open (not cleared) event of a rule on a sensor
+   */
+  async findOpen(ruleId: string, sensorId: string): Promise<AlarmEvent | undefined> {
+    return await db
+      .selectFrom('alarm_events')
+      .selectAll()
+      .where('rule_id', '=', ruleId)
+      .where('sensor_id', '=', sensorId)
+      .where('cleared_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Create new event
+   */
+  async create(event: NewAlarmEvent): Promise<AlarmEvent> {
+    return await db
+      .insertInto('alarm_events')
+      .values(event)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update event
+   */
+  async update(id: string, updates: AlarmEventUpdate): Promise<AlarmEvent | undefined> {
+    return await db
+      .updateTable('alarm_events')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Acknowledge event (keeps the first acknowledgement time)
+   *
+   * @returns true if the event exists
+   */
+  async acknowledge(id: string): Promise<boolean> {
+    const now = new Date();
+    const result = await db
+      .updateTable('alarm_events')
+      .set((eb) => ({
+        acknowledged_at: eb.fn.coalesce('acknowledged_at', eb.val(now)),
+        updated_at: now,
+      }))
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return result.numUpdatedRows > 0n;
+  }
+
+  /**
+   * Clear event (keeps the first clear time)
+   *
+   * @returns true if the event exists
+   */
+  async clear(id: string): Promise<boolean> {
+    const now = new Date();
+    const result = await db
+      .updateTable('alarm_events')
+      .set((eb) => ({
+        cleared_at: eb.fn.coalesce('cleared_at', eb.val(now)),
+        updated_at: now,
+      }))
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return result.numUpdatedRows > 0n;
+  }
+
+  /**
+   * Count open (not cleared) events per asset, for several assets in one query
+   *
+   * @returns Map of asset ID to count (assets without open events are absent)
+   */
+  async countOpenByAssets(assetIds: string[]): Promise<Map<string, number>> {
+    if (assetIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .selectFrom('alarm_events')
+      .select(['asset_id', db.fn.countAll().as('count')])
+      .where('asset_id', 'in', assetIds)
+      .where('cleared_at', 'is', null)
+      .groupBy('asset_id')
+      .execute();
+
+    return new Map(rows.map((row) => [row.asset_id as string, Number(row.count)]));
+  }
+
+  /**
+   * Count events matching a filter
+   */
+  async count(filter?: AlarmEventFilter): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    const result = await db
+      .selectFrom('alarm_events')
+      .select(db.fn.countAll().as('count'))
+      .where((eb) => filterEvents(eb, filter))
+      .executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const alarmEventRepository = new AlarmEventRepository();
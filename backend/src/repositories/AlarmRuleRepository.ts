@@ -0,0 +1,226 @@
+import { ExpressionBuilder } from 'kysely';
+import { db } from '../database/kysely';
+import { DB } from '../database/types';
+import { AlarmEvent, AlarmRule, NewAlarmRule, AlarmRuleUpdate } from './types';
+
+export interface AlarmRuleFilter {
+  sensor_id?: string;
+  asset_id?: string;
+  factoryIds?: string[]; // Only rules whose sensor's gateway or asset is in these factories
+}
+
+/**
+ * AlarmRuleRepository - Type-safe data access for alarm rules
+ *
+ * A rule targets one sensor (sensor_id) or every sensor mounted on an asset (asset_id).
+ * Provides CRUD operations with soft delete filtering.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ */
+class AlarmRuleRepository {
+  /**
+   * Find rule by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<AlarmRule | undefined> {
+    return await db
+      .selectFrom('alarm_rules')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find the factory whose roles apply to a rule: its sensor's gateway's or its asset's
+   */
+  async findFactoryId(id: string): Promise<string | undefined> {
+    const result = await db
+      .selectFrom('alarm_rules')
+      .leftJoin('sensors', 'sensors.id', 'alarm_rules.sensor_id')
+      .leftJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+      .leftJoin('assets', 'assets.id', 'alarm_rules.asset_id')
+      .select((eb) => eb.fn.coalesce('gateways.factory_id', 'assets.factory_id').as('factory_id'))
+      .where('alarm_rules.id', '=', id)
+      .where('alarm_rules.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return result?.factory_id ?? undefined;
+  }
+
+  /**
+   * Find rules, optionally for one sensor or asset (excludes soft-deleted)
+   */
+  async findAll(
+    options?: AlarmRuleFilter & { limit?: number; offset?: number }
+  ): Promise<AlarmRule[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('alarm_rules')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc');
+
+    if (options?.sensor_id) {
+      query = query.where('sensor_id', '=', options.sensor_id);
+    }
+
+    if (options?.asset_id) {
+      query = query.where('asset_id', '=', options.asset_id);
+    }
+
+    const factoryIds = options?.factoryIds;
+    if (factoryIds) {
+      query = query.where((eb) => this.inFactories(eb, factoryIds));
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find the enabled rules that apply to a sensor: its own and its asset's
+   *
+   * @param assetId - The sensor's asset_id (null if not mounted on an asset)
+   */
+  async findEnabledForSensor(sensorId: string, assetId: string | null): Promise<AlarmRule[]> {
+    return await db
+      .selectFrom('alarm_rules')
+      .selectAll()
+      .where((eb) =>
+        assetId
+          ? eb.or([eb('sensor_id', '=', sensorId), eb('asset_id', '=', assetId)])
+          : eb('sensor_id', '=', sensorId)
+      )
+      .where('enabled', '=', true)
+      .where('deleted_at', 'is', null)
+      .execute();
+  }
+
+  /**
+   * Create new rule
+   */
+  async create(rule: NewAlarmRule): Promise<AlarmRule> {
+    return await db
+      .insertInto('alarm_rules')
+      .values(rule)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update rule (only if not soft-deleted)
+   */
+  async update(id: string, updates: AlarmRuleUpdate): Promise<AlarmRule | undefined> {
+    return await db
+      .updateTable('alarm_rules')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Soft delete rule (only if not already deleted) and clear its open events
+   *
+   * No reading evaluates a deleted rule, so its open events are cleared in the same
+   * transaction; otherwise they would stay active forever. Events are kept for history.
+   *
+   * @returns The deleted rule and the events it cleared, or undefined if not found
+   */
+  async softDelete(
+    id: string
+  ): Promise<{ rule: AlarmRule; clearedEvents: AlarmEvent[] } | undefined> {
+    return await db.transaction().execute(async (trx) => {
+      const now = new Date();
+      const rule = await trx
+        .updateTable('alarm_rules')
+        .set({ deleted_at: now })
+        .where('id', '=', id)
+        .where('deleted_at', 'is', null) // Prevent double-delete
+        .returningAll()
+        .executeTakeFirst();
+
+      if (!rule) {
+        return undefined;
+      }
+
+      const clearedEvents = await trx
+        .updateTable('alarm_events')
+        .set({ cleared_at: now, updated_at: now })
+        .where('rule_id', '=', id)
+        .where('cleared_at', 'is', null)
+        .returningAll()
+        .execute();
+
+      return { rule, clearedEvents };
+    });
+  }
+
+  /**
+   * Count non-deleted rules, optionally for one sensor or asset
+   */
+  async count(filter?: AlarmRuleFilter): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
+      .selectFrom('alarm_rules')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null);
+
+    if (filter?.sensor_id) {
+      query = query.where('sensor_id', '=', filter.sensor_id);
+    }
+
+    if (filter?.asset_id) {
+      query = query.where('asset_id', '=', filter.asset_id);
+    }
+
+    const factoryIds = filter?.factoryIds;
+    if (factoryIds) {
+      query = query.where((eb) => this.inFactories(eb, factoryIds));
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+    return Number(result.count);
+  }
+
+  /**
+   * Condition matching rules on sensors or assets of some factories
+   */
+  private inFactories(eb: ExpressionBuilder<DB, 'alarm_rules'>, factoryIds: string[]) {
+    return eb.or([
+      eb(
+        'sensor_id',
+        'in',
+        eb
+          .selectFrom('sensors')
+          .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+          .select('sensors.id')
+          .where('gateways.factory_id', 'in', factoryIds)
+      ),
+      eb(
+        'asset_id',
+        'in',
+        eb.selectFrom('assets').select('id').where('factory_id', 'in', factoryIds)
+      ),
+    ]);
+  }
+}
+
+// Export singleton instance
+export const alarmRuleRepository = new AlarmRuleRepository();
@@ -0,0 +1,138 @@
+import { db } from '../database/kysely';
+import { Area, NewArea, AreaUpdate } from './types';
+
+/**
+ * AreaRepository - Type-safe data access for areas
+ *
+ * Areas are the production areas or lines of a factory; assets are placed in them.
+ * Provides CRUD operations with soft delete filtering.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ */
+class AreaRepository {
+  /**
+   * Find area by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<Area | undefined> {
+    return await db
+      .selectFrom('areas')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find all areas (excludes soft-deleted)
+   *
+   * @param options.factoryIds - Only areas of these factories
+   */
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    factoryIds?: string[];
+  }): Promise<Area[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('areas')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc');
+
+    if (options?.factoryIds) {
+      query = query.where('factory_id', 'in', options.factoryIds);
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find areas by factory (excludes soft-deleted)
+   */
+  async findByFactory(factoryId: string): Promise<Area[]> {
+    return await db
+      .selectFrom('areas')
+      .selectAll()
+      .where('factory_id', '=', factoryId)
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc')
+      .execute();
+  }
+
+  /**
+   * Create new area
+   */
+  async create(area: NewArea): Promise<Area> {
+    return await db
+      .insertInto('areas')
+      .values(area)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update area (only if not soft-deleted)
+   */
+  async update(id: string, updates: AreaUpdate): Promise<Area | undefined> {
+    return await db
+      .updateTable('areas')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Soft delete area (only if not already deleted)
+   */
+  async softDelete(id: string): Promise<Area | undefined> {
+    return await db
+      .updateTable('areas')
+      .set({ deleted_at: new Date() })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null) // Prevent double-delete
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Count total non-deleted areas
+   *
+   * @param filter.factoryIds - Only count areas of these factories
+   */
+  async count(filter?: { factoryIds?: string[] }): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
+      .selectFrom('areas')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null);
+
+    if (filter?.factoryIds) {
+      query = query.where('factory_id', 'in', filter.factoryIds);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const areaRepository = new AreaRepository();
@@ -0,0 +1,206 @@
+import { db } from '../database/kysely';
+import { Asset, NewAsset, AssetUpdate, MachineClass } from './types';
+
+/**
+ * AssetRepository - Type-safe data access for assets
+ *
+ * Assets are the monitored machines of a factory, optionally placed in one of
+ * its areas; sensors are mounted on their measurement points.
+ * Provides CRUD operations with soft delete filtering.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ */
+class AssetRepository {
+  /**
+   * Find asset by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<Asset | undefined> {
+    return await db
+      .selectFrom('assets')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find all assets (excludes soft-deleted)
+   *
+   * @param options.factoryIds - Only assets of these factories
+   */
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    factoryIds?: string[];
+  }): Promise<Asset[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('assets')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc');
+
+    if (options?.factoryIds) {
+      query = query.where('factory_id', 'in', options.factoryIds);
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find assets by factory (excludes soft-deleted)
+   */
+  async findByFactory(factoryId: string): Promise<Asset[]> {
+    return await db
+      .selectFrom('assets')
+      .selectAll()
+      .where('factory_id', '=', factoryId)
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc')
+      .execute();
+  }
+
+  /**
+   * Find assets in an area (excludes soft-deleted)
+   */
+  async findByArea(areaId: string): Promise<Asset[]> {
+    return await db
+      .selectFrom('assets')
+      .selectAll()
+      .where('area_id', '=', areaId)
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc')
+      .execute();
+  }
+
+  /**
+   * Find the ISO 10816 machine class of the asset a sensor is mounted on
+   *
+   * A mounted sensor's asset is its point's asset (as in reading attribution).
+   * @returns Machine class, or null if the sensor has no asset or the asset has no class
+   */
+  async findMachineClassBySensorSerial(serial: number): Promise<MachineClass | null> {
+    const result = await db
+      .selectFrom('sensors')
+      .leftJoin('measurement_points', (join) =>
+        join
+          .onRef('measurement_points.sensor_id', '=', 'sensors.id')
+          .on('measurement_points.deleted_at', 'is', null)
+      )
+      .innerJoin('assets', (join) =>
+        join.on((eb) =>
+          eb('assets.id', '=', eb.fn.coalesce('measurement_points.asset_id', 'sensors.asset_id'))
+        )
+      )
+      .select('assets.machine_class')
+      .where('sensors.serial', '=', serial)
+      .where('sensors.deleted_at', 'is', null)
+      .where('assets.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return (result?.machine_class as MachineClass | null | undefined) ?? null;
+  }
+
+  /**
+   * Create new asset
+   */
+  async create(asset: NewAsset): Promise<Asset> {
+    return await db
+      .insertInto('assets')
+      .values(asset)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update asset (only if not soft-deleted)
+   */
+  async update(id: string, updates: AssetUpdate): Promise<Asset | undefined> {
+    return await db
+      .updateTable('assets')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Soft delete asset (only if not already deleted) with its measurement points
+   *
+   * Sensors mounted on the asset are unmounted and lose their asset_id in the same
+   * transaction, so they stop matching the asset's alarm rules.
+   */
+  async softDelete(id: string): Promise<Asset | undefined> {
+    return await db.transaction().execute(async (trx) => {
+      const now = new Date();
+      const deleted = await trx
+        .updateTable('assets')
+        .set({ deleted_at: now })
+        .where('id', '=', id)
+        .where('deleted_at', 'is', null) // Prevent double-delete
+        .returningAll()
+        .executeTakeFirst();
+
+      if (!deleted) {
+        return undefined;
+      }
+
+      await trx
+        .updateTable('measurement_points')
+        .set({ deleted_at: now, sensor_id: null })
+        .where('asset_id', '=', id)
+        .where('deleted_at', 'is', null)
+        .execute();
+
+      await trx
+        .updateTable('sensors')
+        .set({ asset_id: null, updated_at: now })
+        .where('asset_id', '=', id)
+        .where('deleted_at', 'is', null)
+        .execute();
+
+      return deleted;
+    });
+  }
+
+  /**
+   * Count total non-deleted assets
+   *
+   * @param filter.factoryIds - Only count assets of these factories
+   */
+  async count(filter?: { factoryIds?: string[] }): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
+      .selectFrom('assets')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null);
+
+    if (filter?.factoryIds) {
+      query = query.where('factory_id', 'in', filter.factoryIds);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const assetRepository = new AssetRepository();
@@ -0,0 +1,109 @@
+import { ExpressionBuilder } from 'kysely';
+import { db } from '../database/kysely';
+import { DB } from '../database/types';
+import { AuditEvent, NewAuditEvent } from './types';
+
+export interface AuditEventFilter {
+  entity_type?: string;
+  entity_id?: string;
+  user_id?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Build the WHERE clause for an audit event filter
+ */
+function filterEvents(
+  eb: ExpressionBuilder<DB, 'audit_events'>,
+  filter: AuditEventFilter | undefined
+) {
+  const conditions = [];
+
+  if (filter?.entity_type) {
+    conditions.push(eb('entity_type', '=', filter.entity_type));
+  }
+
+  if (filter?.entity_id) {
+    conditions.push(eb('entity_id', '=', filter.entity_id));
+  }
+
+  if (filter?.user_id) {
+    conditions.push(eb('user_id', '=', filter.user_id));
+  }
+
+  if (filter?.action) {
+    conditions.push(eb('action', '=', filter.action));
+  }
+
+  if (filter?.from) {
+    conditions.push(eb('occurred_at', '>=', filter.from));
+  }
+
+  if (filter?.to) {
+    conditions.push(eb('occurred_at', '<=', filter.to));
+  }
+
+  return eb.and(conditions);
+}
+
+/**
+ * AuditEventRepository - Type-safe data access for the audit log
+ *
+ * One event is recorded per configuration change made through the API. The log
+ * is append-only: events are never updated or deleted, and outlive the users
+ * who made them (user_id is set to NULL, actor_email is kept).
+ */
+class AuditEventRepository {
+  /**
+   * Find events, newest first
+   */
+  async findAll(
+    options?: AuditEventFilter & { limit?: number; offset?: number }
+  ): Promise<AuditEvent[]> {
+    let query = db
+      .selectFrom('audit_events')
+      .selectAll()
+      .where((eb) => filterEvents(eb, options))
+      .orderBy('occurred_at', 'desc')
+      .orderBy('id', 'desc');
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Record an event
+   */
+  async create(data: NewAuditEvent): Promise<AuditEvent> {
+    return await db
+      .insertInto('audit_events')
+      .values(data)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Count events matching a filter
+   */
+  async count(filter?: AuditEventFilter): Promise<number> {
+    const result = await db
+      .selectFrom('audit_events')
+      .select(db.fn.countAll().as('count'))
+      .where((eb) => filterEvents(eb, filter))
+      .executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const auditEventRepository = new AuditEventRepository();
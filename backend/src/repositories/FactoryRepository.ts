@@ -22,14 +22,28 @@ class FactoryRepository {
 
   /**
    * Find all factories (excludes soft-deleted)
+   *
+   * @param options.factoryIds - Only these factories (a signed-in user's accessible factories)
    */
-  async findAll(options?: { limit?: number; offset?: number }): Promise<Factory[]> {
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    factoryIds?: string[];
+  }): Promise<Factory[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
     let query = db
       .selectFrom('factories')
       .selectAll()
       .where('deleted_at', 'is', null)
       .orderBy('name', 'asc');
 
+    if (options?.factoryIds) {
+      query = query.where('id', 'in', options.factoryIds);
+    }
+
     if (options?.limit) {
       query = query.limit(options.limit);
     }
@@ -54,6 +68,31 @@ class FactoryRepository {
       .execute();
   }
 
+  /**
+   * Find the factories role assignments reach: every factory of the given
+   * organizations plus the given factories (excludes soft-deleted)
+   */
+  async findInScopes(
+    organizationIds: string[],
+    factoryIds: string[]
+  ): Promise<Pick<Factory, 'id' | 'organization_id'>[]> {
+    if (organizationIds.length === 0 && factoryIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectFrom('factories')
+      .select(['id', 'organization_id'])
+      .where((eb) =>
+        eb.or([
+          ...(organizationIds.length > 0 ? [eb('organization_id', 'in', organizationIds)] : []),
+          ...(factoryIds.length > 0 ? [eb('id', 'in', factoryIds)] : []),
+        ])
+      )
+      .where('deleted_at', 'is', null)
+      .execute();
+  }
+
   /**
    * Create new factory
    */
@@ -96,13 +135,24 @@ class FactoryRepository {
 
   /**
    * Count total non-deleted factories
+   *
+   * @param filter.factoryIds - Only count these factories
    */
-  async count(): Promise<number> {
-    const result = await db
+  async count(filter?: { factoryIds?: string[] }): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
       .selectFrom('factories')
       .select(db.fn.countAll().as('count'))
-      .where('deleted_at', 'is', null)
-      .executeTakeFirstOrThrow();
+      .where('deleted_at', 'is', null);
+
+    if (filter?.factoryIds) {
+      query = query.where('id', 'in', filter.factoryIds);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
 
     return Number(result.count);
   }
@@ -0,0 +1,94 @@
+import { ExpressionBuilder } from 'kysely';
+import { db } from '../database/kysely';
+import { DB } from '../database/types';
+import { FirmwareChange, NewFirmwareChange } from './types';
+
+export interface FirmwareChangeFilter {
+  gateway_id?: string;
+  sensor_id?: string;
+}
+
+// A firmware change with the serial of its sensor (null for gateway firmware)
+export type FirmwareChangeWithSerial = FirmwareChange & { sensor_serial: number | null };
+
+/**
+ * Build the WHERE clause for a firmware change filter
+ */
+function filterChanges(
+  eb: ExpressionBuilder<DB, 'firmware_changes'>,
+  filter: FirmwareChangeFilter | undefined
+) {
+  const conditions = [];
+
+  if (filter?.gateway_id) {
+    conditions.push(eb('firmware_changes.gateway_id', '=', filter.gateway_id));
+  }
+
+  if (filter?.sensor_id) {
+    conditions.push(eb('firmware_changes.sensor_id', '=', filter.sensor_id));
+  }
+
+  return eb.and(conditions);
+}
+
+/**
+ * FirmwareChangeRepository - Type-safe data access for firmware history
+ *
+ * Gateway sessions record a change whenever a gateway or sensor reports a firmware
+ * version that differs from the stored one (and when a version is first reported).
+ * Changes are append-only and are removed only with their gateway or sensor (CASCADE).
+ */
+class FirmwareChangeRepository {
+  /**
+   * Find changes, newest first
+   */
+  async findAll(
+    options?: FirmwareChangeFilter & { limit?: number; offset?: number }
+  ): Promise<FirmwareChangeWithSerial[]> {
+    let query = db
+      .selectFrom('firmware_changes')
+      .leftJoin('sensors', 'sensors.id', 'firmware_changes.sensor_id')
+      .selectAll('firmware_changes')
+      .select('sensors.serial as sensor_serial')
+      .where((eb) => filterChanges(eb, options))
+      .orderBy('firmware_changes.detected_at', 'desc')
+      .orderBy('firmware_changes.id', 'desc');
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Record changes
+   */
+  async createMany(data: NewFirmwareChange[]): Promise<FirmwareChange[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return await db.insertInto('firmware_changes').values(data).returningAll().execute();
+  }
+
+  /**
+   * Count changes matching a filter
+   */
+  async count(filter?: FirmwareChangeFilter): Promise<number> {
+    const result = await db
+      .selectFrom('firmware_changes')
+      .select(db.fn.countAll().as('count'))
+      .where((eb) => filterChanges(eb, filter))
+      .executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const firmwareChangeRepository = new FirmwareChangeRepository();
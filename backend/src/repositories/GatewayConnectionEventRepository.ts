@@ -0,0 +1,91 @@
+import { db } from '../database/kysely';
+import { GatewayConnectionEvent, NewGatewayConnectionEvent } from './types';
+
+/**
+ * GatewayConnectionEventRepository - Type-safe data access for gateway connection history
+ *
+ * Gateway sessions record state transitions, the first heartbeat of each connection,
+ * authentication outcomes and connection errors as they happen. Events are
+ * append-only; they are removed with their gateway (CASCADE) or once older than
+ * the supervisor's retention period (see deleteOlderThan).
+ */
+class GatewayConnectionEventRepository {
+  /**
+   * Find a gateway's events, newest first
+   */
+  async findByGateway(
+    gatewayId: string,
+    options?: { limit?: number; offset?: number }
+  ): Promise<GatewayConnectionEvent[]> {
+    let query = db
+      .selectFrom('gateway_connection_events')
+      .selectAll()
+      .where('gateway_id', '=', gatewayId)
+      .orderBy('occurred_at', 'desc');
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find a gateway's most recent authentication failure or connection error
+   */
+  async findLatestError(gatewayId: string): Promise<GatewayConnectionEvent | undefined> {
+    return await db
+      .selectFrom('gateway_connection_events')
+      .selectAll()
+      .where('gateway_id', '=', gatewayId)
+      .where('event_type', 'in', ['auth_failed', 'error'])
+      .orderBy('occurred_at', 'desc')
+      .limit(1)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Record an event
+   */
+  async create(data: NewGatewayConnectionEvent): Promise<GatewayConnectionEvent> {
+    return await db
+      .insertInto('gateway_connection_events')
+      .values(data)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Delete every gateway's events that occurred before the cutoff
+   *
+   * @returns Number of deleted events
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await db
+      .deleteFrom('gateway_connection_events')
+      .where('occurred_at', '<', cutoff)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+
+  /**
+   * Count a gateway's events
+   */
+  async countByGateway(gatewayId: string): Promise<number> {
+    const result = await db
+      .selectFrom('gateway_connection_events')
+      .select(db.fn.countAll().as('count'))
+      .where('gateway_id', '=', gatewayId)
+      .executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const gatewayConnectionEventRepository = new GatewayConnectionEventRepository();
@@ -48,14 +48,28 @@ class GatewayRepository {
 
   /**
    * Find all gateways (excludes soft-deleted)
+   *
+   * @param options.factoryIds - Only gateways of these factories (a user's accessible factories)
    */
-  async findAll(options?: { limit?: number; offset?: number }): Promise<Gateway[]> {
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    factoryIds?: string[];
+  }): Promise<Gateway[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
     let query = db
       .selectFrom('gateways')
       .selectAll()
       .where('deleted_at', 'is', null)
       .orderBy('name', 'asc');
 
+    if (options?.factoryIds) {
+      query = query.where('factory_id', 'in', options.factoryIds);
+    }
+
     if (options?.limit) {
       query = query.limit(options.limit);
     }
@@ -143,6 +157,19 @@ class GatewayRepository {
       .executeTakeFirst();
   }
 
+  /**
+   * Record that a message was received from the gateway
+   *
+   * Does not bump updated_at (see the gateways updated_at trigger).
+   */
+  async touchLastSeen(id: string, seenAt: Date): Promise<void> {
+    await db
+      .updateTable('gateways')
+      .set({ last_seen_at: seenAt })
+      .where('id', '=', id)
+      .execute();
+  }
+
   /**
    * Soft delete gateway (only if not already deleted)
    */
@@ -158,13 +185,24 @@ class GatewayRepository {
 
   /**
    * Count total non-deleted gateways
+   *
+   * @param filter.factoryIds - Only count gateways of these factories
    */
-  async count(): Promise<number> {
-    const result = await db
+  async count(filter?: { factoryIds?: string[] }): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
       .selectFrom('gateways')
       .select(db.fn.countAll().as('count'))
-      .where('deleted_at', 'is', null)
-      .executeTakeFirstOrThrow();
+      .where('deleted_at', 'is', null);
+
+    if (filter?.factoryIds) {
+      query = query.where('factory_id', 'in', filter.factoryIds);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
 
     return Number(result.count);
   }
@@ -0,0 +1,216 @@
+import { db } from '../database/kysely';
+import { MeasurementPoint, NewMeasurementPoint, MeasurementPointUpdate } from './types';
+
+/**
+ * Asset and measurement point a sensor is mounted on, as stamped on readings and alarms
+ */
+export interface SensorAttribution {
+  asset_id: string | null;
+  measurement_point_id: string | null;
+}
+
+/**
+ * MeasurementPointRepository - Type-safe data access for measurement points
+ *
+ * A measurement point is a location on an asset (e.g. "motor NDE horizontal")
+ * with at most one sensor mounted on it; a sensor is mounted on at most one point.
+ * Provides CRUD operations with soft delete filtering.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ */
+class MeasurementPointRepository {
+  /**
+   * Find measurement point by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<MeasurementPoint | undefined> {
+    return await db
+      .selectFrom('measurement_points')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find all measurement points (excludes soft-deleted)
+   *
+   * @param options.factoryIds - Only points on assets of these factories
+   */
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    factoryIds?: string[];
+  }): Promise<MeasurementPoint[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('measurement_points')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc');
+
+    if (options?.factoryIds) {
+      query = query.where('asset_id', 'in', this.assetsOf(options.factoryIds));
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find measurement points of several assets in one query (excludes soft-deleted)
+   */
+  async findByAssets(assetIds: string[]): Promise<MeasurementPoint[]> {
+    if (assetIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectFrom('measurement_points')
+      .selectAll()
+      .where('asset_id', 'in', assetIds)
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc')
+      .execute();
+  }
+
+  /**
+   * Find the point a sensor is mounted on (excludes soft-deleted)
+   */
+  async findBySensor(sensorId: string): Promise<MeasurementPoint | undefined> {
+    return await db
+      .selectFrom('measurement_points')
+      .selectAll()
+      .where('sensor_id', '=', sensorId)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find the factory of a point's asset (the factory whose roles apply to the point)
+   */
+  async findFactoryId(id: string): Promise<string | undefined> {
+    const result = await db
+      .selectFrom('measurement_points')
+      .innerJoin('assets', 'assets.id', 'measurement_points.asset_id')
+      .select('assets.factory_id')
+      .where('measurement_points.id', '=', id)
+      .where('measurement_points.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return result?.factory_id;
+  }
+
+  /**
+   * Find the asset and point the active sensor with this serial is mounted on
+   *
+   * A mounted sensor is attributed to its point's asset; a sensor placed on an asset
+   * without a point is attributed to the asset only.
+   */
+  async findAttributionBySensorSerial(serial: number): Promise<SensorAttribution> {
+    const result = await db
+      .selectFrom('sensors')
+      .leftJoin('measurement_points', (join) =>
+        join
+          .onRef('measurement_points.sensor_id', '=', 'sensors.id')
+          .on('measurement_points.deleted_at', 'is', null)
+      )
+      .select((eb) => [
+        eb.fn.coalesce('measurement_points.asset_id', 'sensors.asset_id').as('asset_id'),
+        'measurement_points.id as measurement_point_id',
+      ])
+      .where('sensors.serial', '=', serial)
+      .where('sensors.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return {
+      asset_id: result?.asset_id ?? null,
+      measurement_point_id: result?.measurement_point_id ?? null,
+    };
+  }
+
+  /**
+   * Create new measurement point
+   */
+  async create(point: NewMeasurementPoint): Promise<MeasurementPoint> {
+    return await db
+      .insertInto('measurement_points')
+      .values(point)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update measurement point (only if not soft-deleted)
+   */
+  async update(
+    id: string,
+    updates: MeasurementPointUpdate
+  ): Promise<MeasurementPoint | undefined> {
+    return await db
+      .updateTable('measurement_points')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Soft delete measurement point and unmount its sensor (only if not already deleted)
+   */
+  async softDelete(id: string): Promise<MeasurementPoint | undefined> {
+    return await db
+      .updateTable('measurement_points')
+      .set({ deleted_at: new Date(), sensor_id: null })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null) // Prevent double-delete
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Count total non-deleted measurement points
+   *
+   * @param filter.factoryIds - Only count points on assets of these factories
+   */
+  async count(filter?: { factoryIds?: string[] }): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
+      .selectFrom('measurement_points')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null);
+
+    if (filter?.factoryIds) {
+      query = query.where('asset_id', 'in', this.assetsOf(filter.factoryIds));
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+
+  /**
+   * Subquery selecting the IDs of the assets of some factories
+   */
+  private assetsOf(factoryIds: string[]) {
+    return db.selectFrom('assets').select('id').where('factory_id', 'in', factoryIds);
+  }
+}
+
+// Export singleton instance
+export const measurementPointRepository = new MeasurementPointRepository();
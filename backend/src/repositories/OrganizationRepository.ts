@@ -0,0 +1,125 @@
+import { db } from '../database/kysely';
+import { Organization, NewOrganization, OrganizationUpdate } from './types';
+
+/**
+ * OrganizationRepository - Type-safe data access for organizations
+ *
+ * Organizations are the tenants that own factories.
+ * Provides CRUD operations with soft delete filtering.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ */
+class OrganizationRepository {
+  /**
+   * Find organization by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<Organization | undefined> {
+    return await db
+      .selectFrom('organizations')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find all organizations (excludes soft-deleted)
+   *
+   * @param options.organizationIds - Only these organizations (a user's visible organizations)
+   */
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    organizationIds?: string[];
+  }): Promise<Organization[]> {
+    if (options?.organizationIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('organizations')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('name', 'asc');
+
+    if (options?.organizationIds) {
+      query = query.where('id', 'in', options.organizationIds);
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Create new organization
+   */
+  async create(organization: NewOrganization): Promise<Organization> {
+    return await db
+      .insertInto('organizations')
+      .values(organization)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update organization (only if not soft-deleted)
+   */
+  async update(id: string, updates: OrganizationUpdate): Promise<Organization | undefined> {
+    return await db
+      .updateTable('organizations')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Soft delete organization (only if not already deleted)
+   */
+  async softDelete(id: string): Promise<Organization | undefined> {
+    return await db
+      .updateTable('organizations')
+      .set({ deleted_at: new Date() })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null) // Prevent double-delete
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Count total non-deleted organizations
+   *
+   * @param filter.organizationIds - Only count these organizations
+   */
+  async count(filter?: { organizationIds?: string[] }): Promise<number> {
+    if (filter?.organizationIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
+      .selectFrom('organizations')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null);
+
+    if (filter?.organizationIds) {
+      query = query.where('id', 'in', filter.organizationIds);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const organizationRepository = new OrganizationRepository();
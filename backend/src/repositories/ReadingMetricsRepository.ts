@@ -0,0 +1,56 @@
+import { db } from '../database/kysely';
+import { ReadingMetric, NewReadingMetric } from './types';
+
+/**
+ * ReadingMetricsRepository - Type-safe data access for per-axis reading metrics
+ *
+ * Metrics are computed once at ingest (one row per axis) and never updated.
+ * Rows are removed with their reading (CASCADE).
+ */
+class ReadingMetricsRepository {
+  /**
+   * Find metrics for a reading, ordered by axis
+   */
+  async findByReading(readingId: string): Promise<ReadingMetric[]> {
+    return await db
+      .selectFrom('reading_metrics')
+      .selectAll()
+      .where('reading_id', '=', readingId)
+      .orderBy('axis', 'asc')
+      .execute();
+  }
+
+  /**
+   * Find metrics for several readings in one query, ordered by axis
+   */
+  async findByReadings(readingIds: string[]): Promise<ReadingMetric[]> {
+    if (readingIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectFrom('reading_metrics')
+      .selectAll()
+      .where('reading_id', 'in', readingIds)
+      .orderBy('axis', 'asc')
+      .execute();
+  }
+
+  /**
+   * Store metrics for a reading
+   */
+  async createMany(metrics: NewReadingMetric[]): Promise<ReadingMetric[]> {
+    if (metrics.length === 0) {
+      return [];
+    }
+
+    return await db
+      .insertInto('reading_metrics')
+      .values(metrics)
+      .returningAll()
+      .execute();
+  }
+}
+
+// Export singleton instance
+export const readingMetricsRepository = new ReadingMetricsRepository();
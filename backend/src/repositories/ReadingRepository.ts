@@ -0,0 +1,129 @@
+import { db } from '../database/kysely';
+import { SensorReading, SensorReadingSummary, NewSensorReading } from './types';
+
+// Columns of a reading except the (large) waveform arrays
+const SUMMARY_COLUMNS = [
+  'id',
+  'gateway_id',
+  'sensor_serial',
+  'gateway_reading_id',
+  'recorded_at',
+  'sample_rate',
+  'sample_count',
+  'temperature',
+  'velocity_rms',
+  'machine_class',
+  'iso_zone',
+  'asset_id',
+  'measurement_point_id',
+  'created_at',
+] as const;
+
+/**
+ * ReadingRepository - Type-safe data access for vibration readings
+ *
+ * Readings are append-only: there is no update or soft delete.
+ * Rows are removed only when their gateway is hard-deleted (CASCADE).
+ */
+class ReadingRepository {
+  /**
+   * Find reading by ID
+   */
+  async findById(id: string): Promise<SensorReading | undefined> {
+    return await db
+      .selectFrom('sensor_readings')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find the factory of a reading's gateway (the factory whose roles apply to the reading)
+   */
+  async findFactoryId(id: string): Promise<string | undefined> {
+    const result = await db
+      .selectFrom('sensor_readings')
+      .innerJoin('gateways', 'gateways.id', 'sensor_readings.gateway_id')
+      .select('gateways.factory_id')
+      .where('sensor_readings.id', '=', id)
+      .executeTakeFirst();
+
+    return result?.factory_id;
+  }
+
+  /**
+   * Find reading summaries (no waveforms) for a sensor, newest first,
+   * optionally within [from, to]
+   */
+  async findBySensor(
+    gatewayId: string,
+    sensorSerial: number,
+    options?: { limit?: number; offset?: number; from?: Date; to?: Date }
+  ): Promise<SensorReadingSummary[]> {
+    let query = db
+      .selectFrom('sensor_readings')
+      .select(SUMMARY_COLUMNS)
+      .where('gateway_id', '=', gatewayId)
+      .where('sensor_serial', '=', sensorSerial)
+      .orderBy('recorded_at', 'desc');
+
+    if (options?.from) {
+      query = query.where('recorded_at', '>=', options.from);
+    }
+
+    if (options?.to) {
+      query = query.where('recorded_at', '<=', options.to);
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Store a completed reading
+   */
+  async create(reading: NewSensorReading): Promise<SensorReading> {
+    return await db
+      .insertInto('sensor_readings')
+      .values(reading)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Count readings for a sensor, optionally within [from, to]
+   */
+  async countBySensor(
+    gatewayId: string,
+    sensorSerial: number,
+    options?: { from?: Date; to?: Date }
+  ): Promise<number> {
+    let query = db
+      .selectFrom('sensor_readings')
+      .select(db.fn.countAll().as('count'))
+      .where('gateway_id', '=', gatewayId)
+      .where('sensor_serial', '=', sensorSerial);
+
+    if (options?.from) {
+      query = query.where('recorded_at', '>=', options.from);
+    }
+
+    if (options?.to) {
+      query = query.where('recorded_at', '<=', options.to);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const readingRepository = new ReadingRepository();
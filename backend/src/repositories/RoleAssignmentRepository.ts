@@ -0,0 +1,70 @@
+import { db } from '../database/kysely';
+import { RoleAssignment, NewRoleAssignment } from './types';
+
+/**
+ * RoleAssignmentRepository - Type-safe data access for user role assignments
+ *
+ * An assignment grants a role on every organization (both scopes NULL), one
+ * organization or one factory. A user's assignments are always replaced as a
+ * set, so rows are never updated in place (and are not soft-deleted).
+ */
+class RoleAssignmentRepository {
+  /**
+   * Find a user's role assignments
+   */
+  async findByUser(userId: string): Promise<RoleAssignment[]> {
+    return await db
+      .selectFrom('role_assignments')
+      .selectAll()
+      .where('user_id', '=', userId)
+      .orderBy('created_at', 'asc')
+      .execute();
+  }
+
+  /**
+   * Find the role assignments of several users in one query, grouped by user ID
+   */
+  async findByUsers(userIds: string[]): Promise<Map<string, RoleAssignment[]>> {
+    const grouped = new Map<string, RoleAssignment[]>();
+    if (userIds.length === 0) {
+      return grouped;
+    }
+
+    const rows = await db
+      .selectFrom('role_assignments')
+      .selectAll()
+      .where('user_id', 'in', userIds)
+      .orderBy('created_at', 'asc')
+      .execute();
+
+    for (const row of rows) {
+      grouped.set(row.user_id, [...(grouped.get(row.user_id) ?? []), row]);
+    }
+    return grouped;
+  }
+
+  /**
+   * Replace all of a user's role assignments
+   */
+  async replaceForUser(
+    userId: string,
+    assignments: Omit<NewRoleAssignment, 'user_id'>[]
+  ): Promise<RoleAssignment[]> {
+    return await db.transaction().execute(async (trx) => {
+      await trx.deleteFrom('role_assignments').where('user_id', '=', userId).execute();
+
+      if (assignments.length === 0) {
+        return [];
+      }
+
+      return await trx
+        .insertInto('role_assignments')
+        .values(assignments.map((assignment) => ({ ...assignment, user_id: userId })))
+        .returningAll()
+        .execute();
+    });
+  }
+}
+
+// Export singleton instance
+export const roleAssignmentRepository = new RoleAssignmentRepository();
@@ -0,0 +1,329 @@
+import { db } from '../database/kysely';
+import { Sensor, NewSensor, SensorUpdate } from './types';
+import type { SensorMetadata } from '../types/messages';
+import { leavesFactory } from '../hierarchy/sensor-placement';
+
+/**
+ * SensorRepository - Type-safe data access for sensors
+ *
+ * Provides CRUD operations with soft delete filtering plus discovery upserts.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ * A sensor's identity is its serial: discovery updates device fields in place
+ * and never overwrites user-assigned fields (name, asset_name, metadata).
+ */
+class SensorRepository {
+  /**
+   * Find sensor by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<Sensor | undefined> {
+    return await db
+      .selectFrom('sensors')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find sensor by serial number (excludes soft-deleted)
+   */
+  async findBySerial(serial: number): Promise<Sensor | undefined> {
+    return await db
+      .selectFrom('sensors')
+      .selectAll()
+      .where('serial', '=', serial)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find sensors by serial number (excludes soft-deleted)
+   */
+  async findBySerials(serials: number[]): Promise<Sensor[]> {
+    if (serials.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectFrom('sensors')
+      .selectAll()
+      .where('serial', 'in', serials)
+      .where('deleted_at', 'is', null)
+      .execute();
+  }
+
+  /**
+   * Find all sensors (excludes soft-deleted)
+   *
+   * @param options.factoryIds - Only sensors on gateways of these factories
+   */
+  async findAll(options?: {
+    limit?: number;
+    offset?: number;
+    factoryIds?: string[];
+  }): Promise<Sensor[]> {
+    if (options?.factoryIds?.length === 0) {
+      return [];
+    }
+
+    let query = db
+      .selectFrom('sensors')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('serial', 'asc');
+
+    if (options?.factoryIds) {
+      query = query.where('gateway_id', 'in', this.gatewaysOf(options.factoryIds));
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Find sensors attached to a gateway (excludes soft-deleted)
+   */
+  async findByGateway(gatewayId: string): Promise<Sensor[]> {
+    return await db
+      .selectFrom('sensors')
+      .selectAll()
+      .where('gateway_id', '=', gatewayId)
+      .where('deleted_at', 'is', null)
+      .orderBy('serial', 'asc')
+      .execute();
+  }
+
+  /**
+   * Find several sensors by ID in one query (excludes soft-deleted)
+   */
+  async findByIds(ids: string[]): Promise<Sensor[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectFrom('sensors')
+      .selectAll()
+      .where('id', 'in', ids)
+      .where('deleted_at', 'is', null)
+      .execute();
+  }
+
+  /**
+   * Find the timezone of the factory a sensor's gateway belongs to
+   */
+  async findFactoryTimezone(id: string): Promise<string | undefined> {
+    const result = await db
+      .selectFrom('sensors')
+      .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+      .innerJoin('factories', 'factories.id', 'gateways.factory_id')
+      .select('factories.timezone')
+      .where('sensors.id', '=', id)
+      .where('sensors.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return result?.timezone;
+  }
+
+  /**
+   * Find the factory a sensor's gateway belongs to
+   */
+  async findFactoryId(id: string): Promise<string | undefined> {
+    const result = await db
+      .selectFrom('sensors')
+      .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+      .select('gateways.factory_id')
+      .where('sensors.id', '=', id)
+      .where('sensors.deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return result?.factory_id;
+  }
+
+  /**
+   * Create new sensor
+   */
+  async create(sensor: NewSensor): Promise<Sensor> {
+    return await db
+      .insertInto('sensors')
+      .values(sensor)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update sensor (only if not soft-deleted)
+   */
+  async update(id: string, updates: SensorUpdate): Promise<Sensor | undefined> {
+    return await db
+      .updateTable('sensors')
+      .set({
+        ...updates,
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Insert or update a sensor from GET_DYN_CONNECTED metadata
+   *
+   * Matches on serial among active rows. Device fields and gateway_id are refreshed
+   * (sensors can move between gateways); user-assigned fields are left untouched,
+   * except that a sensor moving to a gateway of another factory loses its asset_id
+   * and is unmounted from its measurement point in the same transaction.
+   */
+  async upsertFromDiscovery(gatewayId: string, metadata: SensorMetadata): Promise<Sensor> {
+    const deviceFields = {
+      gateway_id: gatewayId,
+      part_number: metadata.PartNum,
+      read_rate: metadata.ReadRate,
+      samples: metadata.Samples,
+      hardware_version: metadata.HwVer ?? null,
+      firmware_version: metadata.FmVer ?? null,
+      access_point: metadata.AccessPoint ?? null,
+      connected: metadata.Connected === 1,
+      last_discovered_at: new Date(),
+    };
+
+    return await db.transaction().execute(async (trx) => {
+      const previous = await trx
+        .selectFrom('sensors')
+        .innerJoin('gateways', 'gateways.id', 'sensors.gateway_id')
+        .select(['sensors.id', 'gateways.factory_id'])
+        .where('sensors.serial', '=', metadata.Serial)
+        .where('sensors.deleted_at', 'is', null)
+        .executeTakeFirst();
+      const gateway = await trx
+        .selectFrom('gateways')
+        .select('factory_id')
+        .where('id', '=', gatewayId)
+        .executeTakeFirstOrThrow();
+      const clearPlacement = leavesFactory(previous?.factory_id, gateway.factory_id);
+
+      if (previous && clearPlacement) {
+        await trx
+          .updateTable('measurement_points')
+          .set({ sensor_id: null, updated_at: new Date() })
+          .where('sensor_id', '=', previous.id)
+          .where('deleted_at', 'is', null)
+          .execute();
+      }
+
+      return await trx
+        .insertInto('sensors')
+        .values({
+          ...deviceFields,
+          serial: metadata.Serial,
+          name: metadata.Name ?? null,
+        })
+        .onConflict((oc) =>
+          oc
+            .column('serial')
+            .where('deleted_at', 'is', null)
+            .doUpdateSet({
+              ...deviceFields,
+              ...(clearPlacement ? { asset_id: null } : {}),
+              updated_at: new Date(),
+            })
+        )
+        .returningAll()
+        .executeTakeFirstOrThrow();
+    });
+  }
+
+  /**
+   * Mark a gateway's sensors as disconnected, except the given serials
+   */
+  async markDisconnected(gatewayId: string, exceptSerials: number[]): Promise<void> {
+    let query = db
+      .updateTable('sensors')
+      .set({ connected: false, updated_at: new Date() })
+      .where('gateway_id', '=', gatewayId)
+      .where('connected', '=', true)
+      .where('deleted_at', 'is', null);
+
+    if (exceptSerials.length > 0) {
+      query = query.where('serial', 'not in', exceptSerials);
+    }
+
+    await query.execute();
+  }
+
+  /**
+   * Soft delete sensor (only if not already deleted)
+   */
+  async softDelete(id: string): Promise<Sensor | undefined> {
+    return await db
+      .updateTable('sensors')
+      .set({ deleted_at: new Date() })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null) // Prevent double-delete
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Count total non-deleted sensors
+   *
+   * @param filter.factoryIds - Only count sensors on gateways of these factories
+   */
+  async count(filter?: { factoryIds?: string[] }): Promise<number> {
+    if (filter?.factoryIds?.length === 0) {
+      return 0;
+    }
+
+    let query = db
+      .selectFrom('sensors')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null);
+
+    if (filter?.factoryIds) {
+      query = query.where('gateway_id', 'in', this.gatewaysOf(filter.factoryIds));
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+
+  /**
+   * Count non-deleted sensors per gateway, for several gateways in one query
+   *
+   * @returns Map of gateway ID to count (gateways without sensors are absent)
+   */
+  async countByGateways(gatewayIds: string[]): Promise<Map<string, number>> {
+    if (gatewayIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .selectFrom('sensors')
+      .select(['gateway_id', db.fn.countAll().as('count')])
+      .where('gateway_id', 'in', gatewayIds)
+      .where('deleted_at', 'is', null)
+      .groupBy('gateway_id')
+      .execute();
+
+    return new Map(rows.map((row) => [row.gateway_id, Number(row.count)]));
+  }
+
+  /**
+   * Subquery selecting the IDs of the gateways of some factories
+   */
+  private gatewaysOf(factoryIds: string[]) {
+    return db.selectFrom('gateways').select('id').where('factory_id', 'in', factoryIds);
+  }
+}
+
+// Export singleton instance
+export const sensorRepository = new SensorRepository();
@@ -0,0 +1,82 @@
+import { sql } from 'kysely';
+import { db } from '../database/kysely';
+import { SensorTemperature, NewSensorTemperature } from './types';
+
+/**
+ * Temperature statistics for one time bucket
+ */
+export interface TemperatureBucket {
+  bucket_start: Date;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+/**
+ * TemperatureRepository - Type-safe data access for the temperature time series
+ *
+ * One row per NOT_DYN_TEMP notification, keyed by sensor serial.
+ * Samples are append-only: there is no update or soft delete.
+ * Rows are removed only when their gateway is hard-deleted (CASCADE).
+ */
+class TemperatureRepository {
+  /**
+   * Store a temperature sample
+   */
+  async create(sample: NewSensorTemperature): Promise<SensorTemperature> {
+    return await db
+      .insertInto('sensor_temperatures')
+      .values(sample)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Downsample a sensor's temperatures in [from, to) into fixed-width buckets
+   *
+   * Buckets are aligned to the Unix epoch (a 1 h bucket starts on the hour, UTC).
+   * Buckets without samples are omitted.
+   *
+   * @param bucketSeconds - Bucket width in seconds
+   * @returns Buckets in chronological order
+   */
+  async findBuckets(
+    sensorSerial: number,
+    options: { from: Date; to: Date; bucketSeconds: number }
+  ): Promise<TemperatureBucket[]> {
+    const bucketStart = sql<Date>`date_bin(
+      make_interval(secs => ${options.bucketSeconds}),
+      recorded_at,
+      TIMESTAMPTZ '1970-01-01 00:00:00+00'
+    )`;
+
+    const rows = await db
+      .selectFrom('sensor_temperatures')
+      .select([
+        bucketStart.as('bucket_start'),
+        (eb) => eb.fn.min('temperature').as('min'),
+        (eb) => eb.fn.max('temperature').as('max'),
+        (eb) => eb.fn.avg<number>('temperature').as('avg'),
+        (eb) => eb.fn.countAll().as('count'),
+      ])
+      .where('sensor_serial', '=', sensorSerial)
+      .where('recorded_at', '>=', options.from)
+      .where('recorded_at', '<', options.to)
+      .groupBy('bucket_start')
+      .orderBy('bucket_start', 'asc')
+      .execute();
+
+    // avg and count come back as strings (numeric / bigint)
+    return rows.map((row) => ({
+      bucket_start: row.bucket_start,
+      min: row.min,
+      max: row.max,
+      avg: Number(row.avg),
+      count: Number(row.count),
+    }));
+  }
+}
+
+// Export singleton instance
+export const temperatureRepository = new TemperatureRepository();
@@ -0,0 +1,124 @@
+import { db } from '../database/kysely';
+import { User, NewUser, UserUpdate } from './types';
+
+/**
+ * UserRepository - Type-safe data access for user accounts
+ *
+ * Emails are stored lower-cased; callers pass them in any case.
+ * Provides CRUD operations with soft delete filtering.
+ * All queries automatically exclude soft-deleted records (deleted_at IS NULL).
+ */
+class UserRepository {
+  /**
+   * Find user by ID (excludes soft-deleted)
+   */
+  async findById(id: string): Promise<User | undefined> {
+    return await db
+      .selectFrom('users')
+      .selectAll()
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find user by email, case-insensitively (excludes soft-deleted)
+   */
+  async findByEmail(email: string): Promise<User | undefined> {
+    return await db
+      .selectFrom('users')
+      .selectAll()
+      .where('email', '=', email.toLowerCase())
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Find all users (excludes soft-deleted)
+   */
+  async findAll(options?: { limit?: number; offset?: number }): Promise<User[]> {
+    let query = db
+      .selectFrom('users')
+      .selectAll()
+      .where('deleted_at', 'is', null)
+      .orderBy('email', 'asc');
+
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+
+    return await query.execute();
+  }
+
+  /**
+   * Create new user (password_hash must already be hashed)
+   */
+  async create(user: NewUser): Promise<User> {
+    return await db
+      .insertInto('users')
+      .values({ ...user, email: user.email.toLowerCase() })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Update user (only if not soft-deleted)
+   */
+  async update(id: string, updates: UserUpdate): Promise<User | undefined> {
+    return await db
+      .updateTable('users')
+      .set({
+        ...updates,
+        ...(updates.email ? { email: updates.email.toLowerCase() } : {}),
+        updated_at: new Date(),
+      })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Record a successful sign-in
+   */
+  async touchLastLogin(id: string): Promise<void> {
+    await db
+      .updateTable('users')
+      .set({ last_login_at: new Date() })
+      .where('id', '=', id)
+      .execute();
+  }
+
+  /**
+   * Soft delete user (only if not already deleted)
+   */
+  async softDelete(id: string): Promise<User | undefined> {
+    return await db
+      .updateTable('users')
+      .set({ deleted_at: new Date() })
+      .where('id', '=', id)
+      .where('deleted_at', 'is', null) // Prevent double-delete
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  /**
+   * Count total non-deleted users
+   */
+  async count(): Promise<number> {
+    const result = await db
+      .selectFrom('users')
+      .select(db.fn.countAll().as('count'))
+      .where('deleted_at', 'is', null)
+      .executeTakeFirstOrThrow();
+
+    return Number(result.count);
+  }
+}
+
+// Export singleton instance
+export const userRepository = new UserRepository();
@@ -0,0 +1,121 @@
+import { db } from '../database/kysely';
+import { User, UserSession, NewUserSession } from './types';
+
+/**
+ * UserSessionRepository - Type-safe data access for sign-in sessions
+ *
+ * Sessions are looked up by the SHA-256 of the cookie token; the token itself
+ * is never stored. Signing out deletes the row (sessions are not soft-deleted).
+ */
+class UserSessionRepository {
+  /**
+   * Create a session for a user
+   */
+  async create(session: NewUserSession): Promise<UserSession> {
+    return await db
+      .insertInto('user_sessions')
+      .values(session)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+  }
+
+  /**
+   * Find the active user of an unexpired session
+   *
+   * Returns undefined when the session is unknown or expired, or its user was deleted.
+   */
+  async findUserByTokenHash(
+    tokenHash: string
+  ): Promise<{ session: UserSession; user: User } | undefined> {
+    const session = await db
+      .selectFrom('user_sessions')
+      .selectAll()
+      .where('token_hash', '=', tokenHash)
+      .where('expires_at', '>', new Date())
+      .executeTakeFirst();
+
+    return session ? await this.withActiveUser(session) : undefined;
+  }
+
+  /**
+   * Find the active user of an unexpired session by session ID
+   *
+   * Used to re-check long-lived requests (live streams) after they were authenticated.
+   */
+  async findUserBySessionId(id: string): Promise<{ session: UserSession; user: User } | undefined> {
+    const session = await db
+      .selectFrom('user_sessions')
+      .selectAll()
+      .where('id', '=', id)
+      .where('expires_at', '>', new Date())
+      .executeTakeFirst();
+
+    return session ? await this.withActiveUser(session) : undefined;
+  }
+
+  /**
+   * Pair a session with its user, unless the user was deleted
+   */
+  private async withActiveUser(
+    session: UserSession
+  ): Promise<{ session: UserSession; user: User } | undefined> {
+    const user = await db
+      .selectFrom('users')
+      .selectAll()
+      .where('id', '=', session.user_id)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst();
+
+    return user ? { session, user } : undefined;
+  }
+
+  /**
+   * Record session use (callers throttle this to avoid a write per request)
+   */
+  async touch(id: string): Promise<void> {
+    await db
+      .updateTable('user_sessions')
+      .set({ last_used_at: new Date() })
+      .where('id', '=', id)
+      .execute();
+  }
+
+  /**
+   * Delete a session by token hash (sign out)
+   */
+  async deleteByTokenHash(tokenHash: string): Promise<void> {
+    await db.deleteFrom('user_sessions').where('token_hash', '=', tokenHash).execute();
+  }
+
+  /**
+   * Delete every session of a user (password change, account deletion)
+   *
+   * @param exceptId - Session to keep (the caller's own when changing their password)
+   */
+  async deleteByUser(userId: string, exceptId?: string): Promise<void> {
+    let query = db.deleteFrom('user_sessions').where('user_id', '=', userId);
+
+    if (exceptId) {
+      query = query.where('id', '!=', exceptId);
+    }
+
+    await query.execute();
+  }
+
+  /**
+   * Delete expired sessions
+   *
+   * @returns Number of sessions deleted
+   */
+  async deleteExpired(): Promise<number> {
+    const result = await db
+      .deleteFrom('user_sessions')
+      .where('expires_at', '<=', new Date())
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+}
+
+// Export singleton instance
+export const userSessionRepository = new UserSessionRepository();
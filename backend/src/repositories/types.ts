@@ -1,6 +1,27 @@
 import { z } from 'zod';
 import { Selectable, Insertable, Updateable } from 'kysely';
-import { Factories, Gateways, Organizations } from '../database/types';
+import {
+  AcquisitionRuns,
+  AcquisitionSchedules,
+  AlarmEvents,
+  AlarmRules,
+  Areas,
+  Assets,
+  AuditEvents,
+  Factories,
+  FirmwareChanges,
+  GatewayConnectionEvents,
+  Gateways,
+  MeasurementPoints,
+  Organizations,
+  ReadingMetrics,
+  RoleAssignments,
+  SensorReadings,
+  SensorTemperatures,
+  Sensors,
+  UserSessions,
+  Users,
+} from '../database/types';
 
 // Kysely type aliases for factory operations
 export type Factory = Selectable<Factories>;
@@ -12,11 +33,157 @@ export type Gateway = Selectable<Gateways>;
 export type NewGateway = Insertable<Gateways>;
 export type GatewayUpdate = Updateable<Gateways>;
 
+// Kysely type aliases for gateway connection events (append-only)
+export type GatewayConnectionEvent = Selectable<GatewayConnectionEvents>;
+export type NewGatewayConnectionEvent = Insertable<GatewayConnectionEvents>;
+
+// What a gateway connection event records
+export type GatewayConnectionEventType =
+  | 'state_change'
+  | 'heartbeat'
+  | 'auth_succeeded'
+  | 'auth_failed'
+  | 'error';
+
+// Kysely type aliases for firmware changes (append-only; sensor_id null for gateway firmware)
+export type FirmwareChange = Selectable<FirmwareChanges>;
+export type NewFirmwareChange = Insertable<FirmwareChanges>;
+
 // Kysely type aliases for organization operations
 export type Organization = Selectable<Organizations>;
 export type NewOrganization = Insertable<Organizations>;
 export type OrganizationUpdate = Updateable<Organizations>;
 
+// Kysely type aliases for area operations
+export type Area = Selectable<Areas>;
+export type NewArea = Insertable<Areas>;
+export type AreaUpdate = Updateable<Areas>;
+
+// Kysely type aliases for asset operations
+export type Asset = Selectable<Assets>;
+export type NewAsset = Insertable<Assets>;
+export type AssetUpdate = Updateable<Assets>;
+
+// Kind of machine an asset is
+export type AssetType = 'motor' | 'pump' | 'gearbox' | 'fan' | 'compressor' | 'bearing' | 'other';
+
+// Kysely type aliases for measurement point operations
+export type MeasurementPoint = Selectable<MeasurementPoints>;
+export type NewMeasurementPoint = Insertable<MeasurementPoints>;
+export type MeasurementPointUpdate = Updateable<MeasurementPoints>;
+
+// Measured direction of a measurement point
+export type PointOrientation = 'horizontal' | 'vertical' | 'axial';
+
+// ISO 10816 machine classes and evaluation zones
+export type MachineClass = 'I' | 'II' | 'III' | 'IV';
+export type IsoZone = 'A' | 'B' | 'C' | 'D';
+
+// Kysely type aliases for sensor operations
+export type Sensor = Selectable<Sensors>;
+export type NewSensor = Insertable<Sensors>;
+export type SensorUpdate = Updateable<Sensors>;
+
+// Kysely type aliases for sensor reading operations (readings are immutable - no update type)
+export type SensorReading = Selectable<SensorReadings>;
+export type NewSensorReading = Insertable<SensorReadings>;
+
+// Reading without its waveform arrays (for lists and trends)
+export type SensorReadingSummary = Omit<SensorReading, 'x_samples' | 'y_samples' | 'z_samples'>;
+
+// Kysely type aliases for per-axis reading metrics (computed once at ingest - no update type)
+export type ReadingMetric = Selectable<ReadingMetrics>;
+export type NewReadingMetric = Insertable<ReadingMetrics>;
+
+// Kysely type aliases for temperature samples (append-only time series)
+export type SensorTemperature = Selectable<SensorTemperatures>;
+export type NewSensorTemperature = Insertable<SensorTemperatures>;
+
+// Waveform axis of a reading
+export type Axis = 'x' | 'y' | 'z';
+
+// Kysely type aliases for acquisition schedule operations
+export type AcquisitionSchedule = Selectable<AcquisitionSchedules>;
+export type NewAcquisitionSchedule = Insertable<AcquisitionSchedules>;
+export type AcquisitionScheduleUpdate = Updateable<AcquisitionSchedules>;
+
+// Kysely type aliases for acquisition run operations (runs are append-only)
+export type AcquisitionRun = Selectable<AcquisitionRuns>;
+export type NewAcquisitionRun = Insertable<AcquisitionRuns>;
+
+// Outcome of a scheduled acquisition attempt
+export type AcquisitionRunStatus = 'succeeded' | 'failed' | 'missed';
+
+// Kysely type aliases for alarm rule operations
+export type AlarmRule = Selectable<AlarmRules>;
+export type NewAlarmRule = Insertable<AlarmRules>;
+export type AlarmRuleUpdate = Updateable<AlarmRules>;
+
+// Kysely type aliases for alarm event operations
+export type AlarmEvent = Selectable<AlarmEvents>;
+export type NewAlarmEvent = Insertable<AlarmEvents>;
+export type AlarmEventUpdate = Updateable<AlarmEvents>;
+
+// Reading metric an alarm rule can watch (a reading_metrics column)
+export type AlarmMetric =
+  | 'rms'
+  | 'peak'
+  | 'peak_to_peak'
+  | 'crest_factor'
+  | 'kurtosis'
+  | 'skewness'
+  | 'velocity_rms';
+
+// Alarm severity (danger outranks alert) and lifecycle state derived from the event timestamps
+export type AlarmSeverity = 'alert' | 'danger';
+export type AlarmStatus = 'active' | 'acknowledged' | 'cleared';
+
+// Kysely type aliases for user operations
+export type User = Selectable<Users>;
+export type NewUser = Insertable<Users>;
+export type UserUpdate = Updateable<Users>;
+
+// Kysely type aliases for sign-in sessions (only last_used_at changes after creation)
+export type UserSession = Selectable<UserSessions>;
+export type NewUserSession = Insertable<UserSessions>;
+
+// Kysely type aliases for role assignments (replaced as a set, never updated in place)
+export type RoleAssignment = Selectable<RoleAssignments>;
+export type NewRoleAssignment = Insertable<RoleAssignments>;
+
+// Account role, from least to most privileged
+export type Role = 'viewer' | 'technician' | 'engineer' | 'admin';
+
+// Kysely type aliases for audit events (append-only, never updated or deleted)
+export type AuditEvent = Selectable<AuditEvents>;
+export type NewAuditEvent = Insertable<AuditEvents>;
+
+// What an audited API call did
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'acknowledge'
+  | 'clear'
+  | 'test_connection'
+  | 'login'
+  | 'logout';
+
+// Kind of entity an audited API call changed
+export type AuditEntityType =
+  | 'organization'
+  | 'factory'
+  | 'gateway'
+  | 'sensor'
+  | 'acquisition_schedule'
+  | 'reading'
+  | 'area'
+  | 'asset'
+  | 'measurement_point'
+  | 'alarm_rule'
+  | 'alarm_event'
+  | 'user';
+
 // Zod schema for runtime validation of Factory query results
 export const FactorySchema = z.object({
   id: z.string().uuid(),
@@ -57,3 +224,37 @@ export const OrganizationSchema = z.object({
   updated_at: z.date(),
   deleted_at: z.date().nullable(),
 });
+
+// Zod schema for runtime validation of Asset query results
+export const AssetSchema = z.object({
+  id: z.string().uuid(),
+  factory_id: z.string().uuid(),
+  name: z.string(),
+  machine_class: z.enum(['I', 'II', 'III', 'IV']).nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.date(),
+  updated_at: z.date(),
+  deleted_at: z.date().nullable(),
+});
+
+// Zod schema for runtime validation of Sensor query results
+export const SensorSchema = z.object({
+  id: z.string().uuid(),
+  gateway_id: z.string().uuid(),
+  serial: z.number().int(),
+  name: z.string().nullable(),
+  asset_id: z.string().uuid().nullable(),
+  asset_name: z.string().nullable(),
+  part_number: z.string().nullable(),
+  read_rate: z.number().nullable(),
+  samples: z.number().nullable(),
+  hardware_version: z.string().nullable(),
+  firmware_version: z.string().nullable(),
+  access_point: z.string().nullable(),
+  connected: z.boolean(),
+  last_discovered_at: z.date().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  created_at: z.date(),
+  updated_at: z.date(),
+  deleted_at: z.date().nullable(),
+});
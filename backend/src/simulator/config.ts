@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Fault injection rate (probability in [0, 1])
+const rate = z.coerce.number().min(0).max(1).default(0);
+
+// Gateway simulator configuration schema with Zod validation
+const simulatorConfigSchema = z.object({
+  SIMULATOR_PORT: z.coerce.number().int().min(0).max(65535).default(8765),
+  SIMULATOR_HOST: z.string().default('127.0.0.1'),
+  SIMULATOR_EMAIL: z.string().email().default('simulator@example.com'),
+  SIMULATOR_PASSWORD: z.string().min(1).default('simulator'),
+  SIMULATOR_SENSORS: z.coerce.number().int().min(0).max(1000).default(6),
+  SIMULATOR_SEED: z.coerce.number().int().optional(),
+  SIMULATOR_READING_START_DELAY: z.coerce.number().min(0).default(200),
+  SIMULATOR_READING_DURATION: z.coerce.number().min(0).default(2000),
+  SIMULATOR_TEMPERATURE_INTERVAL: z.coerce.number().min(0).default(0),
+  SIMULATOR_DROP_RESPONSE_RATE: rate,
+  SIMULATOR_ERROR_RESPONSE_RATE: rate,
+  SIMULATOR_OMIT_CORRELATION_ID_RATE: rate,
+  SIMULATOR_READING_START_FAILURE_RATE: rate,
+  SIMULATOR_DROP_READING_RATE: rate,
+  SIMULATOR_NOTIFICATION_DELAY: z.coerce.number().min(0).default(0),
+  SIMULATOR_DROP_HEARTBEATS: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((val) => val === 'true'),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+});
+
+// Export the SimulatorConfig type
+export type SimulatorConfig = z.infer<typeof simulatorConfigSchema>;
+
+// Parse and validate simulator environment variables
+export const simulatorConfig = simulatorConfigSchema.parse(process.env);
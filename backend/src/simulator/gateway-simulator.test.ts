@@ -0,0 +1,202 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { WebSocket } from 'ws';
+import { createSensorFleet, GatewaySimulator, SimulatedSensor } from './gateway-simulator';
+
+const EMAIL = 'sim@example.com';
+const PASSWORD = 'secret';
+
+/**
+ * Two small, fast sensors (256 samples) so readings stay cheap
+ */
+function smallFleet(): SimulatedSensor[] {
+  return createSensorFleet(2).map((sensor) => ({
+    ...sensor,
+    metadata: { ...sensor.metadata, Samples: 256 },
+  }));
+}
+
+/**
+ * Minimal protocol client: collects every message the simulator sends
+ */
+class TestClient {
+  readonly messages: any[] = [];
+  private waiters: Array<{ match: (m: any) => boolean; resolve: (m: any) => void }> = [];
+
+  constructor(private socket: WebSocket) {
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      this.messages.push(message);
+      this.waiters = this.waiters.filter((waiter) => {
+        if (!waiter.match(message)) return true;
+        waiter.resolve(message);
+        return false;
+      });
+    });
+  }
+
+  static async connect(port: number): Promise<TestClient> {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    return new TestClient(socket);
+  }
+
+  send(message: object): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  command(Type: string, Data: object = {}, CorrelationId?: string): Promise<any> {
+    this.send({ Type, From: 'UI', To: 'SERV', Data, CorrelationId });
+    return this.waitFor((m) => typeof m.Type === 'string' && m.Type.startsWith('RTN_'));
+  }
+
+  waitFor(match: (m: any) => boolean, timeoutMs = 2000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for message')), timeoutMs);
+      this.waiters.push({
+        match,
+        resolve: (m) => {
+          clearTimeout(timer);
+          resolve(m);
+        },
+      });
+    });
+  }
+
+  async login(): Promise<void> {
+    await this.command('POST_LOGIN', { Email: EMAIL, Password: PASSWORD });
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+describe('GatewaySimulator', () => {
+  let simulator: GatewaySimulator;
+  let client: TestClient;
+
+  beforeEach(async () => {
+    simulator = new GatewaySimulator({
+      email: EMAIL,
+      password: PASSWORD,
+      sensors: smallFleet(),
+      seed: 1,
+      timing: { readingStartDelay: 10, readingDuration: 20, temperatureDelay: 5 },
+    });
+    const port = await simulator.start();
+    client = await TestClient.connect(port);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await simulator.stop();
+  });
+
+  describe('authentication', () => {
+    it('should answer valid credentials with RTN_LOGIN', async () => {
+      const response = await client.command('POST_LOGIN', { Email: EMAIL, Password: PASSWORD });
+
+      expect(response.Type).toBe('RTN_LOGIN');
+      expect(response.Data).toMatchObject({ Email: EMAIL, Success: true });
+    });
+
+    it('should reject bad credentials and commands before login', async () => {
+      const login = await client.command('POST_LOGIN', { Email: EMAIL, Password: 'wrong' });
+      expect(login).toMatchObject({ Type: 'RTN_ERR', Data: { Attempt: 'POST_LOGIN' } });
+
+      const list = await client.command('GET_DYN_CONNECTED');
+      expect(list).toMatchObject({ Type: 'RTN_ERR', Data: { Error: 'Not logged in' } });
+    });
+  });
+
+  describe('GET_DYN_CONNECTED', () => {
+    it('should return sensors keyed by serial, or [] when there are none', async () => {
+      await client.login();
+
+      const response = await client.command('GET_DYN_CONNECTED');
+      expect(Object.keys(response.Data)).toEqual(['100001', '100002']);
+      expect(response.Data['100001']).toMatchObject({ Serial: 100001, Connected: 1 });
+
+      simulator.setSensors([]);
+      const empty = await client.command('GET_DYN_CONNECTED');
+      expect(empty.Data).toEqual([]);
+    });
+  });
+
+  describe('TAKE_DYN_READING', () => {
+    it('should notify subscribed clients with started, reading and temperature', async () => {
+      await client.login();
+      await client.command('POST_SUB_CHANGES');
+
+      const reading = client.waitFor((m) => m.Type === 'NOT_DYN_READING');
+      const temperature = client.waitFor((m) => m.Type === 'NOT_DYN_TEMP');
+      const ack = await client.command('TAKE_DYN_READING', { Serial: 100001 });
+
+      expect(ack.Type).toBe('RTN_DYN');
+      const { Data } = await reading;
+      expect(Data.Serial).toBe('100001');
+      expect(Data.X.split(',')).toHaveLength(256);
+      expect((await temperature).Data.Serial).toBe('100001');
+
+      const started = client.messages.find((m) => m.Type === 'NOT_DYN_READING_STARTED');
+      expect(started.Data).toEqual({ Serial: 100001, Success: true });
+    });
+
+    it('should report Success=false for unknown sensors', async () => {
+      await client.login();
+      await client.command('POST_SUB_CHANGES');
+
+      const started = client.waitFor((m) => m.Type === 'NOT_DYN_READING_STARTED');
+      await client.command('TAKE_DYN_READING', { Serial: 999 });
+
+      expect((await started).Data).toEqual({ Serial: 999, Success: false });
+    });
+  });
+
+  describe('faults', () => {
+    it('should answer with RTN_ERR when errorResponseRate is 1', async () => {
+      await client.login();
+      simulator.setFaults({ errorResponseRate: 1, faultCommands: ['GET_DYN_CONNECTED'] });
+
+      const response = await client.command('GET_DYN_CONNECTED');
+      expect(response).toMatchObject({ Type: 'RTN_ERR', Data: { Attempt: 'GET_DYN_CONNECTED' } });
+    });
+
+    it('should drop responses when dropResponseRate is 1', async () => {
+      await client.login();
+      simulator.setFaults({ dropResponseRate: 1 });
+
+      client.send({ Type: 'GET_DYN_CONNECTED', From: 'UI', To: 'SERV', Data: {} });
+      await expect(client.waitFor((m) => m.Type?.startsWith('RTN_'), 200)).rejects.toThrow(
+        'Timed out'
+      );
+    });
+
+    it('should echo CorrelationId unless omitCorrelationIdRate is 1', async () => {
+      const correlationId = randomUUID();
+      const echoed = await client.command(
+        'POST_LOGIN',
+        { Email: EMAIL, Password: PASSWORD },
+        correlationId
+      );
+      expect(echoed.CorrelationId).toBe(correlationId);
+
+      simulator.setFaults({ omitCorrelationIdRate: 1 });
+      const omitted = await client.command('GET_DYN_CONNECTED', {}, randomUUID());
+      expect(omitted.CorrelationId).toBeUndefined();
+    });
+
+    it('should answer heartbeats unless dropHeartbeats is set', async () => {
+      client.send({ type: 'ping', timestamp: Date.now() });
+      await expect(client.waitFor((m) => m.type === 'pong')).resolves.toBeDefined();
+
+      simulator.setFaults({ dropHeartbeats: true });
+      client.send({ type: 'ping', timestamp: Date.now() });
+      await expect(client.waitFor((m) => m.type === 'pong', 200)).rejects.toThrow('Timed out');
+    });
+  });
+});
@@ -0,0 +1,513 @@
+import { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  SendCommandSchema,
+  type CommandType,
+  type SendCommand,
+  type SensorMetadata,
+} from '../types/messages';
+import {
+  createRandom,
+  encodeWaveform,
+  synthesizeReading,
+  WaveformProfile,
+  WAVEFORM_PRESETS,
+} from './waveform-synth';
+import { logger } from '../utils/logger';
+
+/**
+ * A simulated sensor: what GET_DYN_CONNECTED reports, and what it measures
+ */
+export interface SimulatedSensor {
+  metadata: SensorMetadata;
+  profile: WaveformProfile;
+  temperature: number; // Degrees C reported in NOT_DYN_TEMP
+}
+
+/**
+ * Faults the simulator injects (all rates are probabilities in [0, 1])
+ */
+export interface SimulatorFaults {
+  dropResponseRate: number; // Command gets no response at all
+  errorResponseRate: number; // Command is answered with RTN_ERR
+  omitCorrelationIdRate: number; // Response leaves out the request's CorrelationId
+  faultCommands: CommandType[] | null; // Commands the response faults apply to (null = all)
+  readingStartFailureRate: number; // NOT_DYN_READING_STARTED reports Success=false
+  dropReadingRate: number; // NOT_DYN_READING never arrives after a successful start
+  notificationDelay: number; // Extra delay before every notification in ms
+  dropHeartbeats: boolean; // Heartbeat pings are not answered
+}
+
+/**
+ * Timing of a simulated acquisition (ms)
+ */
+export interface SimulatorTiming {
+  readingStartDelay: number; // TAKE_DYN_READING -> NOT_DYN_READING_STARTED
+  readingDuration: number; // NOT_DYN_READING_STARTED -> NOT_DYN_READING
+  temperatureDelay: number; // NOT_DYN_READING -> NOT_DYN_TEMP
+  temperatureInterval: number; // Unsolicited NOT_DYN_TEMP for every connected sensor (0 = off)
+}
+
+export interface GatewaySimulatorOptions {
+  port?: number; // 0 (default) picks a free port
+  host?: string;
+  email: string;
+  password: string;
+  sensors: SimulatedSensor[];
+  faults?: Partial<SimulatorFaults>;
+  timing?: Partial<SimulatorTiming>;
+  seed?: number; // Seeds waveform noise and fault decisions
+}
+
+const DEFAULT_FAULTS: SimulatorFaults = {
+  dropResponseRate: 0,
+  errorResponseRate: 0,
+  omitCorrelationIdRate: 0,
+  faultCommands: null,
+  readingStartFailureRate: 0,
+  dropReadingRate: 0,
+  notificationDelay: 0,
+  dropHeartbeats: false,
+};
+
+const DEFAULT_TIMING: SimulatorTiming = {
+  readingStartDelay: 200,
+  readingDuration: 2000,
+  temperatureDelay: 100,
+  temperatureInterval: 0,
+};
+
+/**
+ * Per-socket protocol state
+ */
+interface ClientState {
+  authenticated: boolean;
+  subscribed: boolean;
+}
+
+/**
+ * Build a fleet of simulated sensors cycling through the waveform presets
+ *
+ * Serials start at 100001. Every sensor samples at 6400 Hz, 4096 samples per axis.
+ */
+export function createSensorFleet(count: number): SimulatedSensor[] {
+  const presets = Object.entries(WAVEFORM_PRESETS);
+
+  return Array.from({ length: count }, (_, i) => {
+    const [presetName, profile] = presets[i % presets.length]!;
+    const serial = 100001 + i;
+    return {
+      metadata: {
+        Serial: serial,
+        Connected: 1,
+        AccessPoint: 'SIM-AP-1',
+        PartNum: 'SIM-3AX-6400',
+        ReadRate: 6400,
+        GMode: 0,
+        FreqMode: 0,
+        ReadPeriod: 0,
+        Samples: 4096,
+        HwVer: '1.0',
+        FmVer: '2.3.1',
+        Name: `Simulated ${presetName.replace(/_/g, ' ')} ${serial}`,
+      },
+      profile,
+      temperature: 35 + (i % 5) * 2.5,
+    };
+  });
+}
+
+/**
+ * GatewaySimulator is a local stand-in for a CTC WiFi gateway
+ *
+ * Speaks the WebSocket protocol in types/messages.ts:
+ * - POST_LOGIN: RTN_LOGIN for the configured credentials, RTN_ERR otherwise;
+ *   every other command is refused with RTN_ERR until the socket logs in
+ * - POST_SUB_CHANGES / POST_UNSUB_CHANGES: toggle notifications for the socket
+ * - GET_DYN_CONNECTED: the sensor fleet keyed by serial ([] when empty)
+ * - TAKE_DYN_READING: acknowledged with RTN_DYN, then NOT_DYN_READING_STARTED,
+ *   NOT_DYN_READING (CSV waveforms in g) and NOT_DYN_TEMP are sent to every
+ *   subscribed socket, as the gateway broadcasts notifications
+ * - {"type":"ping"} heartbeats are answered with {"type":"pong"}
+ *
+ * Faults (see SimulatorFaults) can be changed while running with setFaults().
+ * Responses echo the request's CorrelationId when one is sent.
+ */
+export class GatewaySimulator {
+  private server: WebSocketServer | null = null;
+  private clients: Map<WebSocket, ClientState> = new Map();
+  private sensors: SimulatedSensor[];
+  private faults: SimulatorFaults;
+  private timing: SimulatorTiming;
+  private random: () => number;
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private temperatureTimer: NodeJS.Timeout | null = null;
+  private nextReadingId = 1;
+
+  constructor(private options: GatewaySimulatorOptions) {
+    this.sensors = options.sensors;
+    this.faults = { ...DEFAULT_FAULTS, ...options.faults };
+    this.timing = { ...DEFAULT_TIMING, ...options.timing };
+    this.random = createRandom(options.seed ?? Date.now());
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The port the simulator listens on
+   */
+  async start(): Promise<number> {
+    if (this.server) {
+      throw new Error('Gateway simulator already started');
+    }
+
+    const server = new WebSocketServer({
+      port: this.options.port ?? 0,
+      host: this.options.host ?? '127.0.0.1',
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+
+    server.on('connection', (socket) => this.handleConnection(socket));
+
+    if (this.timing.temperatureInterval > 0) {
+      this.temperatureTimer = setInterval(
+        () => this.broadcastTemperatures(),
+        this.timing.temperatureInterval
+      );
+    }
+
+    const port = this.getPort();
+    logger.info(`Gateway simulator listening on ws://${this.options.host ?? '127.0.0.1'}:${port}`);
+    return port;
+  }
+
+  /**
+   * Close every socket and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.temperatureTimer !== null) {
+      clearInterval(this.temperatureTimer);
+      this.temperatureTimer = null;
+    }
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+
+    for (const socket of this.clients.keys()) {
+      socket.terminate();
+    }
+    this.clients.clear();
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    logger.info('Gateway simulator stopped');
+  }
+
+  /**
+   * Port the simulator is listening on
+   */
+  getPort(): number {
+    if (!this.server) {
+      throw new Error('Gateway simulator not started');
+    }
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Number of open sockets
+   */
+  getConnectionCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Replace some or all of the active faults
+   */
+  setFaults(faults: Partial<SimulatorFaults>): void {
+    this.faults = { ...this.faults, ...faults };
+  }
+
+  /**
+   * Replace the sensor fleet (affects later GET_DYN_CONNECTED and readings)
+   */
+  setSensors(sensors: SimulatedSensor[]): void {
+    this.sensors = sensors;
+  }
+
+  /**
+   * Drop every open socket without a close handshake (simulates a network failure)
+   */
+  disconnectAll(): void {
+    for (const socket of this.clients.keys()) {
+      socket.terminate();
+    }
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    this.clients.set(socket, { authenticated: false, subscribed: false });
+    logger.debug(`Simulator: client connected (${this.clients.size} open)`);
+
+    socket.on('message', (data) => this.handleMessage(socket, data.toString()));
+    socket.on('close', () => {
+      this.clients.delete(socket);
+      logger.debug(`Simulator: client disconnected (${this.clients.size} open)`);
+    });
+    socket.on('error', (error) => {
+      logger.warn(`Simulator: socket error: ${error.message}`);
+    });
+  }
+
+  private handleMessage(socket: WebSocket, raw: string): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      this.sendError(socket, null, 'Invalid JSON', undefined);
+      return;
+    }
+
+    // Application-level heartbeat (see gateway/heartbeat.ts)
+    if (parsed?.type === 'ping') {
+      if (!this.faults.dropHeartbeats) {
+        this.send(socket, { type: 'pong', timestamp: Date.now() });
+      }
+      return;
+    }
+
+    const result = SendCommandSchema.safeParse(parsed);
+    if (!result.success) {
+      const attempt = typeof parsed?.Type === 'string' ? parsed.Type : null;
+      this.sendError(socket, attempt, 'Invalid command', parsed?.CorrelationId);
+      return;
+    }
+
+    this.handleCommand(socket, result.data);
+  }
+
+  private handleCommand(socket: WebSocket, command: SendCommand): void {
+    const state = this.clients.get(socket);
+    if (!state) {
+      return;
+    }
+
+    const faulty =
+      this.faults.faultCommands === null || this.faults.faultCommands.includes(command.Type);
+    if (faulty && this.chance(this.faults.dropResponseRate)) {
+      logger.debug(`Simulator: dropping response to ${command.Type}`);
+      return;
+    }
+
+    const correlationId =
+      faulty && this.chance(this.faults.omitCorrelationIdRate) ? undefined : command.CorrelationId;
+
+    if (faulty && this.chance(this.faults.errorResponseRate)) {
+      this.sendError(socket, command.Type, 'Simulated gateway error', correlationId);
+      return;
+    }
+
+    if (command.Type !== 'POST_LOGIN' && !state.authenticated) {
+      this.sendError(socket, command.Type, 'Not logged in', correlationId);
+      return;
+    }
+
+    switch (command.Type) {
+      case 'POST_LOGIN': {
+        const { Email, Password } = command.Data;
+        if (Email !== this.options.email || Password !== this.options.password) {
+          this.sendError(socket, 'POST_LOGIN', 'Invalid email or password', correlationId);
+          return;
+        }
+        state.authenticated = true;
+        this.send(socket, {
+          Type: 'RTN_LOGIN',
+          From: 'SERV',
+          Target: 'UI',
+          CorrelationId: correlationId,
+          Data: {
+            Email,
+            First: 'Simulated',
+            Last: 'Operator',
+            Success: true,
+            AccessLevel: 1,
+            Verified: true,
+          },
+        });
+        return;
+      }
+
+      case 'POST_SUB_CHANGES':
+        state.subscribed = true;
+        this.sendResult(socket, {}, correlationId);
+        return;
+
+      case 'POST_UNSUB_CHANGES':
+        state.subscribed = false;
+        this.sendResult(socket, {}, correlationId);
+        return;
+
+      case 'GET_DYN_CONNECTED': {
+        // The gateway returns [] rather than {} when it knows no sensors
+        const data =
+          this.sensors.length === 0
+            ? []
+            : Object.fromEntries(this.sensors.map((s) => [String(s.metadata.Serial), s.metadata]));
+        this.sendResult(socket, data, correlationId);
+        return;
+      }
+
+      case 'TAKE_DYN_READING':
+        this.sendResult(socket, {}, correlationId);
+        this.simulateReading(command.Data.Serial);
+        return;
+    }
+  }
+
+  /**
+   * Broadcast the notifications of one acquisition
+   */
+  private simulateReading(serial: number): void {
+    const sensor = this.sensors.find((s) => s.metadata.Serial === serial);
+    const started =
+      sensor !== undefined &&
+      sensor.metadata.Connected === 1 &&
+      !this.chance(this.faults.readingStartFailureRate);
+
+    this.schedule(this.timing.readingStartDelay, () => {
+      this.broadcast({
+        Type: 'NOT_DYN_READING_STARTED',
+        From: 'SERV',
+        Target: 'UI',
+        Data: { Serial: serial, Success: started },
+      });
+    });
+
+    if (!sensor || !started) {
+      return;
+    }
+
+    if (this.chance(this.faults.dropReadingRate)) {
+      logger.debug(`Simulator: dropping NOT_DYN_READING for Serial=${serial}`);
+      return;
+    }
+
+    const { ReadRate, Samples } = sensor.metadata;
+    const waveforms = synthesizeReading(sensor.profile, ReadRate, Samples, this.random);
+    const readingDelay = this.timing.readingStartDelay + this.timing.readingDuration;
+
+    this.schedule(readingDelay, () => {
+      this.broadcast({
+        Type: 'NOT_DYN_READING',
+        From: 'SERV',
+        Target: 'UI',
+        Data: {
+          ID: this.nextReadingId++,
+          Serial: String(serial),
+          Time: new Date().toISOString(),
+          X: encodeWaveform(waveforms.x),
+          Y: encodeWaveform(waveforms.y),
+          Z: encodeWaveform(waveforms.z),
+        },
+      });
+    });
+
+    this.schedule(readingDelay + this.timing.temperatureDelay, () => {
+      this.broadcastTemperature(sensor);
+    });
+  }
+
+  private broadcastTemperatures(): void {
+    for (const sensor of this.sensors) {
+      if (sensor.metadata.Connected === 1) {
+        this.broadcastTemperature(sensor);
+      }
+    }
+  }
+
+  private broadcastTemperature(sensor: SimulatedSensor): void {
+    // Small drift around the sensor's nominal temperature
+    const temperature = sensor.temperature + (this.random() - 0.5);
+    this.broadcast({
+      Type: 'NOT_DYN_TEMP',
+      From: 'SERV',
+      Target: 'UI',
+      Data: { Serial: String(sensor.metadata.Serial), Temp: Math.round(temperature * 10) / 10 },
+    });
+  }
+
+  /**
+   * Send a notification to every subscribed socket, after notificationDelay
+   */
+  private broadcast(message: object): void {
+    const deliver = () => {
+      for (const [socket, state] of this.clients) {
+        if (state.subscribed) {
+          this.send(socket, message);
+        }
+      }
+    };
+
+    if (this.faults.notificationDelay > 0) {
+      this.schedule(this.faults.notificationDelay, deliver);
+    } else {
+      deliver();
+    }
+  }
+
+  private sendResult(
+    socket: WebSocket,
+    data: Record<string, unknown> | unknown[],
+    correlationId: string | undefined
+  ): void {
+    this.send(socket, {
+      Type: 'RTN_DYN',
+      From: 'SERV',
+      Target: 'UI',
+      CorrelationId: correlationId,
+      Data: data,
+    });
+  }
+
+  private sendError(
+    socket: WebSocket,
+    attempt: string | null,
+    error: string,
+    correlationId: string | undefined
+  ): void {
+    this.send(socket, {
+      Type: 'RTN_ERR',
+      From: 'SERV',
+      Target: 'UI',
+      CorrelationId: correlationId,
+      Data: { Attempt: attempt, Error: error },
+    });
+  }
+
+  private send(socket: WebSocket, message: object): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private schedule(delay: number, fn: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private chance(rate: number): boolean {
+    return rate > 0 && this.random() < rate;
+  }
+}
@@ -0,0 +1,52 @@
+// Gateway simulator entry point: a local CTC gateway for development without hardware
+
+import { simulatorConfig } from './config';
+import { createSensorFleet, GatewaySimulator } from './gateway-simulator';
+import { initLogger, logger } from '../utils/logger';
+
+initLogger(simulatorConfig.LOG_LEVEL);
+
+const simulator = new GatewaySimulator({
+  port: simulatorConfig.SIMULATOR_PORT,
+  host: simulatorConfig.SIMULATOR_HOST,
+  email: simulatorConfig.SIMULATOR_EMAIL,
+  password: simulatorConfig.SIMULATOR_PASSWORD,
+  sensors: createSensorFleet(simulatorConfig.SIMULATOR_SENSORS),
+  seed: simulatorConfig.SIMULATOR_SEED,
+  timing: {
+    readingStartDelay: simulatorConfig.SIMULATOR_READING_START_DELAY,
+    readingDuration: simulatorConfig.SIMULATOR_READING_DURATION,
+    temperatureInterval: simulatorConfig.SIMULATOR_TEMPERATURE_INTERVAL,
+  },
+  faults: {
+    dropResponseRate: simulatorConfig.SIMULATOR_DROP_RESPONSE_RATE,
+    errorResponseRate: simulatorConfig.SIMULATOR_ERROR_RESPONSE_RATE,
+    omitCorrelationIdRate: simulatorConfig.SIMULATOR_OMIT_CORRELATION_ID_RATE,
+    readingStartFailureRate: simulatorConfig.SIMULATOR_READING_START_FAILURE_RATE,
+    dropReadingRate: simulatorConfig.SIMULATOR_DROP_READING_RATE,
+    notificationDelay: simulatorConfig.SIMULATOR_NOTIFICATION_DELAY,
+    dropHeartbeats: simulatorConfig.SIMULATOR_DROP_HEARTBEATS,
+  },
+});
+
+simulator
+  .start()
+  .then(() => {
+    logger.info(
+      `Simulating ${simulatorConfig.SIMULATOR_SENSORS} sensor(s); ` +
+        `log in as ${simulatorConfig.SIMULATOR_EMAIL}`
+    );
+  })
+  .catch((error) => {
+    logger.error(`Failed to start gateway simulator: ${error}`);
+    process.exit(1);
+  });
+
+// Graceful shutdown handling
+function shutdown(signal: string): void {
+  logger.info(`Received ${signal} - stopping gateway simulator`);
+  simulator.stop().then(() => process.exit(0));
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
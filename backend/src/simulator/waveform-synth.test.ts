@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRandom,
+  encodeWaveform,
+  synthesizeReading,
+  WAVEFORM_PRESETS,
+} from './waveform-synth';
+import { computeSpectrum } from '../analysis/spectrum';
+import { parseWaveform } from '../acquisition/waveform-parser';
+
+const SAMPLE_RATE = 6400;
+const SAMPLES = 4096;
+
+/**
+ * Frequency of the largest spectral line
+ */
+function dominantFrequency(samples: number[]): number {
+  const spectrum = computeSpectrum(samples, SAMPLE_RATE, {
+    window: 'hann',
+    averages: 1,
+    zeroPadding: 1,
+  });
+  let peak = 1;
+  for (let k = 1; k < spectrum.amplitudes.length; k++) {
+    if (spectrum.amplitudes[k]! > spectrum.amplitudes[peak]!) peak = k;
+  }
+  return peak * spectrum.resolution;
+}
+
+describe('createRandom', () => {
+  it('should be reproducible for a seed and stay in [0, 1)', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = Array.from({ length: 1000 }, () => a());
+
+    expect(values).toEqual(Array.from({ length: 1000 }, () => b()));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('synthesizeReading', () => {
+  it('should put the strongest line at 1x for unbalance and 2x for misalignment', () => {
+    const unbalance = synthesizeReading(
+      WAVEFORM_PRESETS.unbalance!,
+      SAMPLE_RATE,
+      SAMPLES,
+      createRandom(1)
+    );
+    const misalignment = synthesizeReading(
+      WAVEFORM_PRESETS.misalignment!,
+      SAMPLE_RATE,
+      SAMPLES,
+      createRandom(1)
+    );
+    const resolution = SAMPLE_RATE / SAMPLES;
+
+    expect(Math.abs(dominantFrequency(unbalance.x) - 29.5)).toBeLessThan(resolution);
+    expect(Math.abs(dominantFrequency(misalignment.x) - 49.2)).toBeLessThan(resolution);
+  });
+
+  it('should make bearing defects impulsive', () => {
+    const bearing = synthesizeReading(
+      WAVEFORM_PRESETS.bearing_outer_race!,
+      SAMPLE_RATE,
+      SAMPLES,
+      createRandom(1)
+    );
+    const peak = Math.max(...bearing.x.map(Math.abs));
+    const rms = Math.sqrt(bearing.x.reduce((sum, v) => sum + v * v, 0) / SAMPLES);
+
+    expect(peak / rms).toBeGreaterThan(4);
+  });
+
+  it('should survive the CSV round trip through the waveform parser', () => {
+    const reading = synthesizeReading(WAVEFORM_PRESETS.healthy!, SAMPLE_RATE, 512, createRandom(7));
+    const parsed = parseWaveform(
+      encodeWaveform(reading.x),
+      encodeWaveform(reading.y),
+      encodeWaveform(reading.z),
+      512
+    );
+
+    expect(parsed.x).toHaveLength(512);
+    expect(parsed.z[100]).toBeCloseTo(reading.z[100]!, 4);
+  });
+});
@@ -0,0 +1,193 @@
+// Synthetic vibration waveforms for the gateway simulator
+
+import type { WaveformData } from '../acquisition/waveform-parser';
+
+/**
+ * A pure tone, in g peak
+ */
+export interface ToneComponent {
+  frequency: number; // Hz
+  amplitude: number; // g peak
+  phase?: number; // radians
+}
+
+/**
+ * Periodic impacts from a rolling-element bearing defect
+ *
+ * Each impact excites a decaying resonance; the impact train repeats at the
+ * defect frequency (e.g. BPFO), so the spectrum shows the resonance band with
+ * sidebands spaced at the defect frequency.
+ */
+export interface BearingDefect {
+  defectFrequency: number; // Hz, impact repetition rate
+  resonanceFrequency: number; // Hz, ringing frequency excited by each impact
+  amplitude: number; // g peak of each impact
+  damping: number; // Decay rate of each impact in 1/s
+}
+
+/**
+ * Everything that makes up a sensor's simulated vibration
+ */
+export interface WaveformProfile {
+  runningSpeed: number; // Hz (1x)
+  harmonics: number[]; // g peak of 1x, 2x, 3x, ... of runningSpeed
+  tones: ToneComponent[]; // Extra tones not tied to running speed (e.g. gear mesh)
+  bearingDefect?: BearingDefect;
+  noise: number; // g RMS of white Gaussian noise
+}
+
+// Relative vibration level of each axis (radial axes are usually stronger than axial)
+const AXIS_GAINS = { x: 1, y: 0.8, z: 0.5 } as const;
+
+/**
+ * Small seeded PRNG (mulberry32) so simulated fleets and readings are reproducible
+ *
+ * @returns Function returning uniform values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random(); // (0, 1] so log() is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Synthesize one axis of acceleration (g)
+ *
+ * @param gain - Scales every component (axis level)
+ * @param phaseOffset - Added to every tone phase so axes are not identical
+ */
+function synthesizeAxis(
+  profile: WaveformProfile,
+  sampleRate: number,
+  samples: number,
+  gain: number,
+  phaseOffset: number,
+  random: () => number
+): number[] {
+  const tones: ToneComponent[] = [
+    ...profile.harmonics.map((amplitude, i) => ({
+      frequency: profile.runningSpeed * (i + 1),
+      amplitude,
+      phase: i * 0.7,
+    })),
+    ...profile.tones,
+  ];
+  const defect = profile.bearingDefect;
+  const impactPeriod = defect ? 1 / defect.defectFrequency : 0;
+
+  const values = new Array<number>(samples);
+  for (let n = 0; n < samples; n++) {
+    const t = n / sampleRate;
+    let value = 0;
+
+    for (const tone of tones) {
+      const phase = (tone.phase ?? 0) + phaseOffset;
+      value += tone.amplitude * Math.sin(2 * Math.PI * tone.frequency * t + phase);
+    }
+
+    if (defect) {
+      const sinceImpact = t % impactPeriod;
+      value +=
+        defect.amplitude *
+        Math.exp(-defect.damping * sinceImpact) *
+        Math.sin(2 * Math.PI * defect.resonanceFrequency * sinceImpact);
+    }
+
+    value += profile.noise * gaussian(random);
+    values[n] = value * gain;
+  }
+
+  return values;
+}
+
+/**
+ * Synthesize a three-axis reading
+ *
+ * @param profile - Vibration content of the sensor
+ * @param sampleRate - Sampling rate in Hz (the sensor's ReadRate)
+ * @param samples - Samples per axis (the sensor's Samples)
+ * @param random - Noise source (see createRandom)
+ */
+export function synthesizeReading(
+  profile: WaveformProfile,
+  sampleRate: number,
+  samples: number,
+  random: () => number
+): WaveformData {
+  return {
+    x: synthesizeAxis(profile, sampleRate, samples, AXIS_GAINS.x, 0, random),
+    y: synthesizeAxis(profile, sampleRate, samples, AXIS_GAINS.y, Math.PI / 2, random),
+    z: synthesizeAxis(profile, sampleRate, samples, AXIS_GAINS.z, Math.PI / 4, random),
+  };
+}
+
+/**
+ * Encode one axis the way the simulator sends it in NOT_DYN_READING (CSV of g values)
+ */
+export function encodeWaveform(values: number[]): string {
+  return values.map((value) => value.toFixed(5)).join(',');
+}
+
+/**
+ * Typical machine conditions, used to build a varied default fleet
+ */
+export const WAVEFORM_PRESETS: Record<string, WaveformProfile> = {
+  healthy: {
+    runningSpeed: 29.5,
+    harmonics: [0.05, 0.02, 0.01],
+    tones: [],
+    noise: 0.01,
+  },
+  unbalance: {
+    runningSpeed: 29.5,
+    harmonics: [0.6, 0.05, 0.02],
+    tones: [],
+    noise: 0.01,
+  },
+  misalignment: {
+    runningSpeed: 24.6,
+    harmonics: [0.25, 0.4, 0.15],
+    tones: [],
+    noise: 0.01,
+  },
+  looseness: {
+    runningSpeed: 24.6,
+    harmonics: [0.2, 0.15, 0.12, 0.1, 0.08, 0.06, 0.05, 0.04],
+    tones: [],
+    noise: 0.03,
+  },
+  bearing_outer_race: {
+    runningSpeed: 29.5,
+    harmonics: [0.08, 0.02],
+    tones: [],
+    // BPFO of a typical 9-ball bearing at 1770 rpm
+    bearingDefect: {
+      defectFrequency: 105.6,
+      resonanceFrequency: 2800,
+      amplitude: 1.5,
+      damping: 900,
+    },
+    noise: 0.02,
+  },
+  gear_mesh: {
+    runningSpeed: 24.6,
+    harmonics: [0.1, 0.03],
+    // 32-tooth pinion
+    tones: [{ frequency: 24.6 * 32, amplitude: 0.3 }],
+    noise: 0.02,
+  },
+};
@@ -0,0 +1,218 @@
+import { setTimeout as delay } from 'timers/promises';
+import {
+  acquisitionScheduleRepository,
+  DueSchedule,
+} from '../repositories/AcquisitionScheduleRepository';
+import { acquisitionRunRepository } from '../repositories/AcquisitionRunRepository';
+import { AcquisitionRunStatus } from '../repositories/types';
+import { alignToWindow, computeNextRun, isWithinWindow } from '../acquisition/schedule-timing';
+import { GatewaySupervisor, gatewaySupervisor } from './gateway-supervisor';
+import { supervisorConfig, SupervisorConfig } from './config';
+import { logger } from '../utils/logger';
+
+/**
+ * AcquisitionScheduler takes readings for every enabled acquisition schedule
+ *
+ * Every SCHEDULER_TICK_INTERVAL it loads due schedules and runs them through the
+ * supervisor's gateway sessions:
+ * - Due schedules are grouped per gateway and run one at a time, with
+ *   SCHEDULER_STAGGER_DELAY between triggers, so a gateway never receives
+ *   several TAKE_DYN_READING commands at once
+ * - A gateway still working through its previous batch is skipped until it finishes
+ * - Every attempt is recorded in acquisition_runs: succeeded, failed (gateway
+ *   not connected, acquisition error) or missed (picked up more than one interval
+ *   late, or after its daily window closed)
+ */
+export class AcquisitionScheduler {
+  private tickTimer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private busyGateways: Set<string> = new Set();
+
+  constructor(
+    private supervisor: GatewaySupervisor,
+    private config: SupervisorConfig
+  ) {}
+
+  /**
+   * Start periodic ticks
+   *
+   * Never throws: tick errors are logged and retried on the next interval.
+   */
+  start(): void {
+    if (this.tickTimer !== null) {
+      logger.warn('Acquisition scheduler already running');
+      return;
+    }
+
+    logger.info(
+      `Starting acquisition scheduler (tick interval: ${this.config.SCHEDULER_TICK_INTERVAL}ms)`
+    );
+
+    const runTick = () =>
+      this.tick().catch((error) => {
+        logger.error(`Acquisition scheduler tick failed: ${error}`);
+      });
+
+    this.tickTimer = setInterval(runTick, this.config.SCHEDULER_TICK_INTERVAL);
+    void runTick();
+  }
+
+  /**
+   * Stop ticking; gateway batches in progress stop after their current reading
+   */
+  stop(): void {
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+
+    logger.info('Acquisition scheduler stopped');
+  }
+
+  /**
+   * Start a batch for every gateway with due schedules that is not already busy
+   *
+   * Safe to call concurrently: overlapping calls are skipped.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
+
+    try {
+      const due = await acquisitionScheduleRepository.findDue(now);
+
+      const byGateway = new Map<string, DueSchedule[]>();
+      for (const schedule of due) {
+        if (this.busyGateways.has(schedule.gateway_id)) {
+          continue;
+        }
+        const batch = byGateway.get(schedule.gateway_id) ?? [];
+        batch.push(schedule);
+        byGateway.set(schedule.gateway_id, batch);
+      }
+
+      for (const [gatewayId, batch] of byGateway) {
+        this.busyGateways.add(gatewayId);
+        void this.runBatch(batch).finally(() => this.busyGateways.delete(gatewayId));
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Run one gateway's due schedules sequentially with a stagger delay
+   */
+  private async runBatch(batch: DueSchedule[]): Promise<void> {
+    for (let i = 0; i < batch.length; i++) {
+      if (this.tickTimer === null) {
+        return; // Stopped while the batch was running
+      }
+      if (i > 0 && this.config.SCHEDULER_STAGGER_DELAY > 0) {
+        await delay(this.config.SCHEDULER_STAGGER_DELAY);
+      }
+
+      const schedule = batch[i]!;
+      try {
+        await this.runSchedule(schedule);
+      } catch (error) {
+        logger.error(`Scheduled acquisition for sensor ${schedule.sensor_serial} failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Run a single due schedule, record the outcome and advance next_run_at
+   */
+  private async runSchedule(schedule: DueSchedule): Promise<void> {
+    const scheduledFor = schedule.next_run_at;
+    const startedAt = new Date();
+    const lateMinutes = (startedAt.getTime() - scheduledFor.getTime()) / 60_000;
+
+    // Too late to count as this slot: record the miss and take a reading as soon as possible
+    if (
+      lateMinutes > schedule.interval_minutes ||
+      !isWithinWindow(schedule, startedAt, schedule.timezone)
+    ) {
+      logger.warn(
+        `Missed scheduled reading for sensor ${schedule.sensor_serial} (due ${scheduledFor.toISOString()})`
+      );
+      await this.recordRun(schedule, 'missed', {
+        error: `Not run within its slot (${Math.round(lateMinutes)} minutes late)`,
+      });
+      await acquisitionScheduleRepository.update(schedule.id, {
+        next_run_at: alignToWindow(schedule, startedAt, schedule.timezone),
+      });
+      return;
+    }
+
+    let status: AcquisitionRunStatus;
+    let readingId: string | null = null;
+    let error: string | null = null;
+
+    const session = this.supervisor.getSession(schedule.gateway_id);
+    if (!session || !session.isReady()) {
+      status = 'failed';
+      error = 'Gateway not connected';
+    } else {
+      try {
+        const reading = await session.takeReading(schedule.sensor_serial);
+        status = 'succeeded';
+        readingId = reading.id;
+      } catch (err) {
+        status = 'failed';
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    const finishedAt = new Date();
+    if (status === 'failed') {
+      logger.warn(`Scheduled reading for sensor ${schedule.sensor_serial} failed: ${error}`);
+    } else {
+      logger.info(`Scheduled reading for sensor ${schedule.sensor_serial} stored (${readingId})`);
+    }
+
+    await this.recordRun(schedule, status, { startedAt, finishedAt, readingId, error });
+
+    // Keep the cadence anchored to the slot unless the reading overran it
+    let nextRunAt = computeNextRun(schedule, scheduledFor, schedule.timezone);
+    if (nextRunAt <= finishedAt) {
+      nextRunAt = computeNextRun(schedule, finishedAt, schedule.timezone);
+    }
+
+    await acquisitionScheduleRepository.update(schedule.id, {
+      last_run_at: startedAt,
+      next_run_at: nextRunAt,
+    });
+  }
+
+  /**
+   * Append an acquisition_runs row for a schedule slot
+   */
+  private async recordRun(
+    schedule: DueSchedule,
+    status: AcquisitionRunStatus,
+    details: {
+      startedAt?: Date;
+      finishedAt?: Date;
+      readingId?: string | null;
+      error?: string | null;
+    }
+  ): Promise<void> {
+    await acquisitionRunRepository.create({
+      schedule_id: schedule.id,
+      sensor_id: schedule.sensor_id,
+      scheduled_for: schedule.next_run_at,
+      started_at: details.startedAt ?? null,
+      finished_at: details.finishedAt ?? null,
+      status,
+      reading_id: details.readingId ?? null,
+      error: details.error ?? null,
+    });
+  }
+}
+
+// Export singleton instance bound to the API server's gateway supervisor
+export const acquisitionScheduler = new AcquisitionScheduler(gatewaySupervisor, supervisorConfig);
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Gateway supervisor configuration schema with Zod validation
+const supervisorConfigSchema = z.object({
+  SUPERVISOR_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+  SUPERVISOR_SYNC_INTERVAL: z.coerce.number().min(1000).default(30000),
+  SUPERVISOR_AUTH_RETRY_INTERVAL: z.coerce.number().min(1000).default(300000),
+  CONNECTION_EVENT_RETENTION_DAYS: z.coerce.number().min(1).default(30),
+  COMMAND_TIMEOUT: z.coerce.number().min(1000).default(30000),
+  ACQUISITION_TIMEOUT: z.coerce.number().min(1000).default(60000),
+  HEARTBEAT_INTERVAL: z.coerce.number().min(1000).default(30000),
+  SCHEDULER_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+  SCHEDULER_TICK_INTERVAL: z.coerce.number().min(1000).default(30000),
+  SCHEDULER_STAGGER_DELAY: z.coerce.number().min(0).default(5000),
+});
+
+// Export the SupervisorConfig type
+export type SupervisorConfig = z.infer<typeof supervisorConfigSchema>;
+
+// Parse and validate supervisor environment variables
+export const supervisorConfig = supervisorConfigSchema.parse(process.env);
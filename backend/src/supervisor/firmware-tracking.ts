@@ -0,0 +1,79 @@
+import { gatewayRepository } from '../repositories/GatewayRepository';
+import { firmwareChangeRepository } from '../repositories/FirmwareChangeRepository';
+import { GatewayDeviceInfo, isFirmwareChange } from '../gateway/device-info';
+import { GatewayUpdate, NewFirmwareChange, Sensor } from '../repositories/types';
+
+/**
+ * Store the model and firmware version a gateway reported on login
+ *
+ * Reported values replace the stored ones, which users type in and which go stale;
+ * unreported ones are left as they are. A firmware change is recorded whenever the
+ * reported version differs from the stored one.
+ */
+export async function recordGatewayDeviceInfo(
+  gatewayId: string,
+  info: GatewayDeviceInfo
+): Promise<void> {
+  if (!info.model && !info.firmwareVersion) {
+    return;
+  }
+
+  const gateway = await gatewayRepository.findById(gatewayId);
+  if (!gateway) {
+    return;
+  }
+
+  const updates: GatewayUpdate = {};
+  if (info.model && info.model !== gateway.model) {
+    updates.model = info.model;
+  }
+
+  if (isFirmwareChange(gateway.firmware_version, info.firmwareVersion)) {
+    updates.firmware_version = info.firmwareVersion;
+    await firmwareChangeRepository.createMany([
+      {
+        gateway_id: gatewayId,
+        sensor_id: null,
+        previous_version: gateway.firmware_version,
+        firmware_version: info.firmwareVersion,
+        hardware_version: info.model ?? gateway.model,
+      },
+    ]);
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await gatewayRepository.update(gatewayId, updates);
+  }
+}
+
+/**
+ * Record the firmware changes of sensors refreshed by discovery
+ *
+ * @param before - The sensors' rows before discovery (sensors seen for the first time have none)
+ * @param after - The rows discovery wrote
+ * @returns Number of changes recorded
+ */
+export async function recordSensorFirmwareChanges(
+  gatewayId: string,
+  before: Sensor[],
+  after: Sensor[]
+): Promise<number> {
+  const previousVersions = new Map(before.map((sensor) => [sensor.id, sensor.firmware_version]));
+  const changes: NewFirmwareChange[] = [];
+
+  for (const sensor of after) {
+    const previous = previousVersions.get(sensor.id) ?? null;
+    if (isFirmwareChange(previous, sensor.firmware_version)) {
+      changes.push({
+        gateway_id: gatewayId,
+        sensor_id: sensor.id,
+        previous_version: previous,
+        firmware_version: sensor.firmware_version,
+        hardware_version: sensor.hardware_version,
+      });
+    }
+  }
+
+  await firmwareChangeRepository.createMany(changes);
+  return changes.length;
+}
@@ -0,0 +1,439 @@
+import { WebSocketConnection } from '../gateway/connection';
+import { CommandClient } from '../gateway/command-client';
+import { MessageRouter } from '../gateway/message-router';
+import { NotificationHandler } from '../gateway/notification-handler';
+import { authenticate } from '../gateway/authenticator';
+import { ConnectionHealth, ConnectionHealthSnapshot } from '../gateway/connection-health';
+import { AcquisitionManager } from '../acquisition/acquisition-manager';
+import { ingestReading } from '../acquisition/reading-ingest';
+import { ingestTemperature } from '../acquisition/temperature-ingest';
+import { listSensors } from '../gateway/sensor-discovery';
+import { gatewayDeviceInfo } from '../gateway/device-info';
+import { recordGatewayDeviceInfo, recordSensorFirmwareChanges } from './firmware-tracking';
+import { sensorRepository } from '../repositories/SensorRepository';
+import { gatewayRepository } from '../repositories/GatewayRepository';
+import { gatewayConnectionEventRepository } from '../repositories/GatewayConnectionEventRepository';
+import { liveEvents } from '../events/live-events';
+import { ConnectionState, ConnectionConfig, GatewayCredentials } from '../types/connection';
+import type { NotDynReadingStarted, NotDynTemp, SensorMetadata } from '../types/messages';
+import {
+  Gateway,
+  GatewayConnectionEventType,
+  IsoZone,
+  Sensor,
+  SensorReading,
+} from '../repositories/types';
+import type { SupervisorConfig } from './config';
+import { logger } from '../utils/logger';
+
+/**
+ * Build a fingerprint of the gateway fields that affect the connection
+ *
+ * The supervisor compares fingerprints to decide whether a changed row needs
+ * a reconnect. updated_at is not used because the trigger bumps it on every
+ * write, including ones that don't touch connection settings.
+ */
+export function connectionFingerprint(gateway: Gateway): string {
+  return [gateway.url, gateway.email, gateway.password_encrypted].join('|');
+}
+
+/**
+ * GatewaySession owns the full message stack for one gateway row:
+ * WebSocketConnection + CommandClient + MessageRouter + NotificationHandler + AcquisitionManager
+ *
+ * Lifecycle per socket: open -> POST_LOGIN -> AUTHENTICATED -> POST_SUB_CHANGES -> sensor discovery.
+ * Reconnects are handled by WebSocketConnection; each reopen re-runs authentication
+ * and re-subscribes. Authentication failures close the session and are retried by
+ * the supervisor after SUPERVISOR_AUTH_RETRY_INTERVAL.
+ *
+ * Every NOT_DYN_TEMP received while subscribed is stored in the temperature series,
+ * whether or not a reading is in progress.
+ *
+ * Connection state changes, reading starts, stored readings and stored temperatures
+ * are published to liveEvents for browser streams.
+ *
+ * Connection state changes, the first heartbeat response of each connection,
+ * authentication outcomes and connection errors are recorded in
+ * gateway_connection_events, and every inbound message refreshes the gateway's
+ * last_seen_at (written at most every LAST_SEEN_WRITE_INTERVAL_MS). Uptime and reconnect counts are kept in memory
+ * for the session's lifetime (see getHealth).
+ *
+ * The model and firmware version the gateway reports on login, and the firmware
+ * versions its sensors report in discovery, update the stored rows; firmware changes
+ * are recorded in firmware_changes (see firmware-tracking.ts).
+ */
+export class GatewaySession {
+  readonly gatewayId: string;
+  readonly factoryId: string;
+  readonly label: string;
+  readonly fingerprint: string;
+
+  private connection: WebSocketConnection;
+  private commandClient: CommandClient;
+  private notificationHandler: NotificationHandler;
+  private messageRouter: MessageRouter;
+  private acquisitionManager: AcquisitionManager;
+  private credentials: GatewayCredentials;
+  private failedAt: number | null = null;
+  private health = new ConnectionHealth();
+  private isStopped = false;
+  // Readings are serialized per gateway: notifications carry no correlation to a request
+  private readingQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(gateway: Gateway, password: string, config: SupervisorConfig) {
+    this.gatewayId = gateway.id;
+    this.factoryId = gateway.factory_id;
+    this.label = `${gateway.gateway_id} (${gateway.name})`;
+    this.fingerprint = connectionFingerprint(gateway);
+    this.credentials = { email: gateway.email, password };
+
+    const connectionConfig: ConnectionConfig = {
+      url: gateway.url,
+      reconnect: {
+        initialDelay: 1000,
+        maxDelay: 30000,
+        multiplier: 2,
+      },
+      heartbeat: {
+        interval: config.HEARTBEAT_INTERVAL,
+        timeout: 5000,
+      },
+    };
+
+    this.connection = new WebSocketConnection(connectionConfig);
+    this.commandClient = new CommandClient(
+      (msg) => this.connection.send(msg),
+      config.COMMAND_TIMEOUT
+    );
+    this.notificationHandler = new NotificationHandler();
+    this.messageRouter = new MessageRouter(this.commandClient, this.notificationHandler);
+    this.acquisitionManager = new AcquisitionManager(
+      this.commandClient,
+      this.notificationHandler,
+      config.ACQUISITION_TIMEOUT
+    );
+
+    this.notificationHandler.on('NOT_DYN_TEMP', (data: NotDynTemp['Data']) => {
+      ingestTemperature(this.gatewayId, data)
+        .then((stored) => {
+          if (stored) {
+            liveEvents.publish({
+              type: 'temperature',
+              gateway_id: this.gatewayId,
+              factory_id: this.factoryId,
+              sensor_serial: stored.sensor_serial,
+              temperature: stored.temperature,
+              recorded_at: stored.recorded_at.toISOString(),
+            });
+          }
+        })
+        .catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error(`[${this.label}] Failed to store temperature: ${message}`);
+        });
+    });
+
+    this.notificationHandler.on(
+      'NOT_DYN_READING_STARTED',
+      (data: NotDynReadingStarted['Data']) => {
+        liveEvents.publish({
+          type: 'reading.started',
+          gateway_id: this.gatewayId,
+          factory_id: this.factoryId,
+          sensor_serial: data.Serial,
+          success: data.Success,
+        });
+      }
+    );
+
+    this.connection.onMessage((data) => {
+      this.handleInbound(false);
+      this.messageRouter.handleMessage(data);
+    });
+    this.connection.onHeartbeat(() => this.handleInbound(true));
+    this.connection.onError((error) => {
+      this.health.recordError(error.message);
+      this.recordEvent('error', { error: error.message });
+    });
+    this.connection.onStateChange((state, previous) => this.handleStateChange(state, previous));
+    this.connection.onOpen(() => {
+      this.handleOpen().catch((error) => {
+        logger.error(`[${this.label}] Unhandled error in session flow: ${error}`);
+      });
+    });
+  }
+
+  /**
+   * Open the WebSocket connection (authentication follows automatically)
+   */
+  start(): void {
+    logger.info(`[${this.label}] Starting gateway session`);
+    this.connection.connect();
+  }
+
+  /**
+   * Stop the session: best-effort unsubscribe, reject pending commands, close socket
+   */
+  stop(reason: string = 'Supervisor stopped session'): void {
+    if (this.isStopped) {
+      return;
+    }
+    this.isStopped = true;
+    logger.info(`[${this.label}] Stopping gateway session: ${reason}`);
+
+    // Unsubscribe is best-effort; don't block shutdown on the response
+    this.acquisitionManager.unsubscribe().catch(() => {});
+    this.commandClient.cleanup();
+    this.connection.close(1000, reason);
+  }
+
+  /**
+   * Current connection state of the underlying WebSocket
+   */
+  getState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+  /**
+   * True when the gateway is authenticated and ready to accept commands
+   */
+  isReady(): boolean {
+    return this.connection.isAuthenticated();
+  }
+
+  /**
+   * Timestamp (ms) of the last authentication failure, or null if healthy
+   */
+  getFailedAt(): number | null {
+    return this.failedAt;
+  }
+
+  /**
+   * Connection health since the session started (state, uptime, reconnects, last error)
+   */
+  getHealth(): ConnectionHealthSnapshot {
+    return this.health.snapshot();
+  }
+
+  getCommandClient(): CommandClient {
+    return this.commandClient;
+  }
+
+  getNotificationHandler(): NotificationHandler {
+    return this.notificationHandler;
+  }
+
+  getAcquisitionManager(): AcquisitionManager {
+    return this.acquisitionManager;
+  }
+
+  /**
+   * Take a reading from one sensor on this gateway and store it
+   *
+   * Queued behind any reading already in progress on this gateway.
+   *
+   * @param sensorSerial - Serial of a sensor connected to this gateway
+   * @returns Stored sensor_readings row
+   * @throws Error if the gateway is not ready, the sensor is not connected, or acquisition fails
+   */
+  takeReading(sensorSerial: number): Promise<SensorReading> {
+    const run = async (): Promise<SensorReading> => {
+      if (!this.isReady()) {
+        throw new Error(`Gateway ${this.label} is not connected (state: ${this.getState()})`);
+      }
+
+      const sensors = await this.refreshSensors();
+      const sensor = sensors.find((s) => s.Serial === sensorSerial && s.Connected === 1);
+      if (!sensor) {
+        throw new Error(`Sensor ${sensorSerial} is not connected to gateway ${this.label}`);
+      }
+
+      const acquired = await this.acquisitionManager.acquireReading(sensor);
+      const stored = await ingestReading(this.gatewayId, acquired);
+
+      liveEvents.publish({
+        type: 'reading.created',
+        gateway_id: this.gatewayId,
+        factory_id: this.factoryId,
+        reading_id: stored.id,
+        sensor_serial: stored.sensor_serial,
+        recorded_at: stored.recorded_at.toISOString(),
+        velocity_rms: stored.velocity_rms,
+        iso_zone: stored.iso_zone as IsoZone | null,
+      });
+      return stored;
+    };
+
+    const result = this.readingQueue.then(run, run);
+    this.readingQueue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Discover sensors on this gateway and upsert them into the sensors table
+   *
+   * Sensors no longer reported as connected are marked disconnected. Sensors that
+   * moved here from another gateway are logged (see upsertFromDiscovery for what a
+   * move to another factory clears).
+   * Database errors are logged, not thrown: discovery results are still returned.
+   *
+   * @returns Metadata for every sensor the gateway reported
+   */
+  async refreshSensors(): Promise<SensorMetadata[]> {
+    const sensors = await listSensors(this.commandClient);
+
+    try {
+      const before = await sensorRepository.findBySerials(sensors.map((s) => s.Serial));
+      const after: Sensor[] = [];
+      for (const sensor of sensors) {
+        const stored = await sensorRepository.upsertFromDiscovery(this.gatewayId, sensor);
+        const previous = before.find((s) => s.id === stored.id);
+        if (previous && previous.gateway_id !== this.gatewayId) {
+          const cleared = previous.asset_id && !stored.asset_id;
+          logger.warn(
+            `[${this.label}] Sensor ${stored.serial} moved here from gateway ` +
+              `${previous.gateway_id}${cleared ? '; cleared its asset and mount' : ''}`
+          );
+        }
+        after.push(stored);
+      }
+      await recordSensorFirmwareChanges(this.gatewayId, before, after);
+      const connectedSerials = sensors.filter((s) => s.Connected === 1).map((s) => s.Serial);
+      await sensorRepository.markDisconnected(this.gatewayId, connectedSerials);
+      logger.debug(`[${this.label}] Upserted ${sensors.length} sensor(s) from discovery`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`[${this.label}] Failed to store discovered sensors: ${message}`);
+    }
+
+    return sensors;
+  }
+
+  /**
+   * Authenticate, subscribe and discover sensors after every (re)connect
+   */
+  private async handleOpen(): Promise<void> {
+    if (this.isStopped) {
+      return;
+    }
+
+    let authenticated = false;
+    try {
+      const login = await authenticate(this.commandClient, this.credentials);
+      authenticated = true;
+      this.recordEvent('auth_succeeded');
+      this.captureDeviceInfo(login);
+      this.connection.markAuthenticated();
+      await this.acquisitionManager.subscribe();
+      this.failedAt = null;
+      logger.info(`[${this.label}] Gateway session ready`);
+    } catch (error) {
+      if (this.isStopped) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`[${this.label}] Session setup failed: ${message}`);
+      this.health.recordError(message);
+      this.recordEvent(authenticated ? 'error' : 'auth_failed', { error: message });
+      this.failedAt = Date.now();
+      this.commandClient.cleanup();
+      // Normal closure prevents the connection from reconnecting in a tight loop
+      // with bad credentials; the supervisor retries later
+      this.connection.close(1000, 'Authentication failed');
+      return;
+    }
+
+    // Discovery failure is not fatal - the session stays up and retries on the next reading
+    try {
+      await this.refreshSensors();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[${this.label}] Sensor discovery failed: ${message}`);
+    }
+  }
+
+  /**
+   * Store the model and firmware version reported on login without blocking the session
+   */
+  private captureDeviceInfo(login: unknown): void {
+    recordGatewayDeviceInfo(this.gatewayId, gatewayDeviceInfo(login)).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`[${this.label}] Failed to store gateway device info: ${message}`);
+    });
+  }
+
+  /**
+   * Refresh last_seen_at for an inbound message
+   *
+   * Only the first heartbeat response of each connection is recorded as an event:
+   * the rest would fill gateway_connection_events without telling anything new
+   * (heartbeat timeouts are recorded as errors).
+   */
+  private handleInbound(isHeartbeat: boolean): void {
+    const now = new Date();
+    let due: boolean;
+    if (isHeartbeat) {
+      const heartbeat = this.health.recordHeartbeat(now);
+      due = heartbeat.lastSeenDue;
+      if (heartbeat.first) {
+        this.recordEvent('heartbeat');
+      }
+    } else {
+      due = this.health.recordMessage(now);
+    }
+
+    if (due) {
+      gatewayRepository.touchLastSeen(this.gatewayId, now).catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`[${this.label}] Failed to update last_seen_at: ${message}`);
+      });
+    }
+  }
+
+  /**
+   * Store a connection event without blocking the connection flow
+   *
+   * Events are timestamped here so their order survives concurrent inserts.
+   */
+  private recordEvent(
+    eventType: GatewayConnectionEventType,
+    details: { state?: ConnectionState; previous_state?: ConnectionState; error?: string } = {}
+  ): void {
+    gatewayConnectionEventRepository
+      .create({
+        gateway_id: this.gatewayId,
+        occurred_at: new Date(),
+        event_type: eventType,
+        state: details.state ?? null,
+        previous_state: details.previous_state ?? null,
+        error: details.error ?? null,
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`[${this.label}] Failed to record ${eventType} event: ${message}`);
+      });
+  }
+
+  /**
+   * Publish the transition and drop per-socket state when the connection goes away
+   */
+  private handleStateChange(state: ConnectionState, previous: ConnectionState): void {
+    this.health.recordState(state);
+    this.recordEvent('state_change', { state, previous_state: previous });
+
+    liveEvents.publish({
+      type: 'gateway.state',
+      gateway_id: this.gatewayId,
+      factory_id: this.factoryId,
+      state,
+      previous,
+    });
+
+    if (state === ConnectionState.DISCONNECTED || state === ConnectionState.CLOSED) {
+      this.acquisitionManager.resetSubscription();
+      if (!this.isStopped) {
+        this.commandClient.cleanup();
+      }
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { gatewayRepository } from '../repositories/GatewayRepository';
+import { gatewayConnectionEventRepository } from '../repositories/GatewayConnectionEventRepository';
+import { Gateway } from '../repositories/types';
+import { GatewaySession, connectionFingerprint } from './gateway-session';
+import { supervisorConfig, SupervisorConfig } from './config';
+import { logger } from '../utils/logger';
+
+// How often connection events older than CONNECTION_EVENT_RETENTION_DAYS are deleted
+const EVENT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * GatewaySupervisor keeps one authenticated GatewaySession per active gateway row
+ *
+ * Periodically reconciles the in-memory sessions against the gateways table:
+ * - New rows get a session
+ * - Rows whose url/email/password changed get their session replaced
+ * - Soft-deleted rows have their session stopped
+ * - Sessions that failed authentication are retried after SUPERVISOR_AUTH_RETRY_INTERVAL
+ *
+ * Every EVENT_PRUNE_INTERVAL_MS it also deletes connection events older than
+ * CONNECTION_EVENT_RETENTION_DAYS.
+ */
+export class GatewaySupervisor {
+  private sessions: Map<string, GatewaySession> = new Map();
+  private syncTimer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private isSyncing = false;
+
+  constructor(private config: SupervisorConfig) {}
+
+  /**
+   * Run an initial sync and start periodic reconciliation
+   *
+   * Never throws: sync errors are logged and retried on the next interval.
+   */
+  async start(): Promise<void> {
+    if (this.syncTimer !== null) {
+      logger.warn('Gateway supervisor already running');
+      return;
+    }
+
+    logger.info(
+      `Starting gateway supervisor (sync interval: ${this.config.SUPERVISOR_SYNC_INTERVAL}ms)`
+    );
+
+    // A failed initial sync (e.g. database not ready) is retried on the next interval
+    const runSync = () =>
+      this.sync().catch((error) => {
+        logger.error(`Gateway supervisor sync failed: ${error}`);
+      });
+
+    this.syncTimer = setInterval(runSync, this.config.SUPERVISOR_SYNC_INTERVAL);
+    this.pruneTimer = setInterval(() => this.pruneEvents(), EVENT_PRUNE_INTERVAL_MS);
+    await runSync();
+    this.pruneEvents();
+  }
+
+  /**
+   * Stop reconciliation and close every session
+   */
+  stop(): void {
+    if (this.syncTimer !== null) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.pruneTimer !== null) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+
+    for (const session of this.sessions.values()) {
+      session.stop('Supervisor shutdown');
+    }
+    this.sessions.clear();
+
+    logger.info('Gateway supervisor stopped');
+  }
+
+  /**
+   * Reconcile sessions with the current set of active gateway rows
+   *
+   * Safe to call concurrently: overlapping calls are skipped.
+   */
+  async sync(): Promise<void> {
+    if (this.isSyncing) {
+      logger.debug('Gateway supervisor sync already in progress, skipping');
+      return;
+    }
+    this.isSyncing = true;
+
+    try {
+      const gateways = await gatewayRepository.findAll();
+      const activeIds = new Set(gateways.map((g) => g.id));
+
+      // Stop sessions for gateways that were soft-deleted
+      for (const [id, session] of this.sessions.entries()) {
+        if (!activeIds.has(id)) {
+          session.stop('Gateway deleted');
+          this.sessions.delete(id);
+        }
+      }
+
+      for (const gateway of gateways) {
+        const existing = this.sessions.get(gateway.id);
+
+        if (existing) {
+          if (existing.fingerprint !== connectionFingerprint(gateway)) {
+            existing.stop('Gateway connection settings changed');
+          } else if (this.shouldRetry(existing)) {
+            existing.stop('Retrying after authentication failure');
+          } else {
+            continue;
+          }
+          this.sessions.delete(gateway.id);
+        }
+
+        this.startSession(gateway);
+      }
+
+      logger.debug(`Gateway supervisor sync complete (${this.sessions.size} session(s))`);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * Get the session for a gateway row, if supervised
+   */
+  getSession(gatewayId: string): GatewaySession | undefined {
+    return this.sessions.get(gatewayId);
+  }
+
+  /**
+   * Get all supervised sessions
+   */
+  getSessions(): GatewaySession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Delete connection events past the retention period
+   *
+   * Never throws: a failed prune is logged and retried on the next interval.
+   */
+  private pruneEvents(): void {
+    const retentionMs = this.config.CONNECTION_EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    gatewayConnectionEventRepository
+      .deleteOlderThan(new Date(Date.now() - retentionMs))
+      .then((deleted) => {
+        if (deleted > 0) {
+          logger.debug(`Deleted ${deleted} connection event(s) past retention`);
+        }
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to prune gateway connection events: ${message}`);
+      });
+  }
+
+  /**
+   * Create and start a session for a gateway row
+   */
+  private startSession(gateway: Gateway): void {
+    let password: string;
+    try {
+      password = gatewayRepository.getDecryptedPassword(gateway);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Cannot decrypt password for gateway ${gateway.gateway_id}: ${message}`);
+      return;
+    }
+
+    const session = new GatewaySession(gateway, password, this.config);
+    this.sessions.set(gateway.id, session);
+    session.start();
+  }
+
+  /**
+   * Check whether a failed session is due for another attempt
+   */
+  private shouldRetry(session: GatewaySession): boolean {
+    const failedAt = session.getFailedAt();
+    if (failedAt === null) {
+      return false;
+    }
+    return Date.now() - failedAt >= this.config.SUPERVISOR_AUTH_RETRY_INTERVAL;
+  }
+}
+
+// Export singleton instance
+export const gatewaySupervisor = new GatewaySupervisor(supervisorConfig);
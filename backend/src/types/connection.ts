@@ -20,6 +20,7 @@ export interface ReconnectConfig {
 export interface HeartbeatConfig {
   interval: number; // How often to send heartbeat in ms
   timeout: number; // How long to wait for response in ms
+  enabled?: boolean; // Send heartbeats once authenticated (CTC gateway rejects them; default off)
 }
 
 // Complete connection configuration
@@ -28,3 +29,9 @@ export interface ConnectionConfig {
   reconnect: ReconnectConfig;
   heartbeat: HeartbeatConfig;
 }
+
+// Credentials used for POST_LOGIN authentication against a gateway
+export interface GatewayCredentials {
+  email: string;
+  password: string;
+}
@@ -104,7 +104,7 @@ export const RtnLoginResponseSchema = z.object({
     Success: z.boolean(),
     AccessLevel: z.number(),
     Verified: z.boolean(),
-  }),
+  }).passthrough(), // Keep any device fields (FmVer, HwVer, Model) for device-info.ts
 });
 
 // Discriminated union of all response messages
@@ -233,12 +233,47 @@ export type GatewayMessage = z.infer<typeof GatewayMessageSchema>;
 // Union of all command type literals
 export type CommandType = SendCommand['Type'];
 
-// Mapping from command types to their expected response types
-// This helps the command client know which response type to expect
-export const commandTypeToResponseType: Record<CommandType, 'RTN_DYN' | 'RTN_ERR'> = {
-  POST_LOGIN: 'RTN_DYN',
-  POST_SUB_CHANGES: 'RTN_DYN',
-  POST_UNSUB_CHANGES: 'RTN_DYN',
-  GET_DYN_CONNECTED: 'RTN_DYN',
-  TAKE_DYN_READING: 'RTN_DYN',
-};
+// Data of an acknowledgement that carries no information (gateway sends {} or [])
+const CommandAckSchema = ReturnDynResponseSchema.shape.Data;
+
+// GET_DYN_CONNECTED entry that does not match SensorMetadataSchema
+export interface InvalidSensorEntry {
+  serial: string;
+  issues: z.core.$ZodIssue[];
+}
+
+// GET_DYN_CONNECTED data: sensors keyed by serial ([] when the gateway knows none)
+// Entries are validated one by one so a malformed sensor does not hide the others
+const ConnectedSensorsSchema = z
+  .preprocess(
+    (data) => (Array.isArray(data) && data.length === 0 ? {} : data),
+    z.record(z.string(), z.unknown())
+  )
+  .transform((entries) => {
+    const sensors: Record<string, SensorMetadata> = {};
+    const invalid: InvalidSensorEntry[] = [];
+    for (const [serial, entry] of Object.entries(entries)) {
+      const parsed = SensorMetadataSchema.safeParse(entry);
+      if (parsed.success) {
+        sensors[serial] = parsed.data;
+      } else {
+        invalid.push({ serial, issues: parsed.error.issues });
+      }
+    }
+    return { sensors, invalid };
+  });
+
+// Registry of the Data schema of each command's successful response
+// CommandClient validates every response against it before resolving
+export const commandResponseSchemas = {
+  POST_LOGIN: RtnLoginResponseSchema.shape.Data,
+  POST_SUB_CHANGES: CommandAckSchema,
+  POST_UNSUB_CHANGES: CommandAckSchema,
+  GET_DYN_CONNECTED: ConnectedSensorsSchema,
+  TAKE_DYN_READING: CommandAckSchema,
+} satisfies Record<CommandType, z.ZodType>;
+
+// Validated response Data of a command type
+export type CommandResponse<T extends CommandType> = z.output<
+  (typeof commandResponseSchemas)[T]
+>;
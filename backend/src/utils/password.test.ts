@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DUMMY_PASSWORD_HASH,
+  hashPassword,
+  verifyPassword,
+  generateSessionToken,
+  hashSessionToken,
+} from './password';
+
+describe('Password Utilities', () => {
+  describe('hashPassword / verifyPassword', () => {
+    it('should verify the password it hashed', async () => {
+      const stored = await hashPassword('correct horse battery staple');
+
+      expect(stored.startsWith('scrypt$16384$8$1$')).toBe(true);
+      expect(stored).not.toContain('correct horse');
+      expect(await verifyPassword('correct horse battery staple', stored)).toBe(true);
+    });
+
+    it('should reject a wrong password', async () => {
+      const stored = await hashPassword('admin123');
+
+      expect(await verifyPassword('admin124', stored)).toBe(false);
+      expect(await verifyPassword('', stored)).toBe(false);
+    });
+
+    it('should salt each hash uniquely', async () => {
+      const first = await hashPassword('same-password');
+      const second = await hashPassword('same-password');
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should reject malformed stored hashes instead of throwing', async () => {
+      expect(await verifyPassword('admin123', '')).toBe(false);
+      expect(await verifyPassword('admin123', 'bcrypt$10$abc')).toBe(false);
+      expect(await verifyPassword('admin123', 'scrypt$x$8$1$c2FsdA==$aGFzaA==')).toBe(false);
+    });
+
+    it('should keep the dummy hash well-formed at the current cost', async () => {
+      expect(DUMMY_PASSWORD_HASH.startsWith('scrypt$16384$8$1$')).toBe(true);
+      expect(DUMMY_PASSWORD_HASH.split('$')).toHaveLength(6);
+      expect(await verifyPassword('admin123', DUMMY_PASSWORD_HASH)).toBe(false);
+    });
+
+    it('should throw on an empty password', async () => {
+      await expect(hashPassword('')).rejects.toThrow('Password cannot be empty');
+    });
+  });
+
+  describe('session tokens', () => {
+    it('should generate distinct url-safe tokens', () => {
+      const first = generateSessionToken();
+      const second = generateSessionToken();
+
+      expect(first).not.toBe(second);
+      expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('should hash tokens to stable hex digests', () => {
+      const token = generateSessionToken();
+
+      expect(hashSessionToken(token)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashSessionToken(token)).toBe(hashSessionToken(token));
+      expect(hashSessionToken(token)).not.toBe(hashSessionToken(generateSessionToken()));
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const SALT_LENGTH = 16; // 128 bits
+const HASH_LENGTH = 64; // 512 bits
+const SESSION_TOKEN_LENGTH = 32; // 256 bits
+
+// scrypt cost parameters (N = 2^14 uses 16 MiB per hash)
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+
+/**
+ * Well-formed hash, at the current cost, of a random password nobody knows
+ *
+ * Sign-in checks unknown emails against it, so they cost as much scrypt time as
+ * a wrong password for a real account and response times do not reveal which
+ * accounts exist.
+ */
+export const DUMMY_PASSWORD_HASH =
+  `scrypt$${COST}$${BLOCK_SIZE}$${PARALLELIZATION}$UNrKxcMlUgkpmylWP312Lg==$` +
+  '2ELo2OH2ZeSuvBCKmHIyAFsnIcdn+Ar/BDOzpHu5wE60suJ0nloe+h2Td1Y/eqzLGeKbI79CP7DLw0FJEufrZQ==';
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  cost: number,
+  blockSize: number,
+  parallelization: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      HASH_LENGTH,
+      { N: cost, r: blockSize, p: parallelization, maxmem: 256 * cost * blockSize },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Hash a password with scrypt and a unique random salt
+ *
+ * Returns "scrypt$N$r$p$salt$hash" (salt and hash base64) so the cost
+ * parameters can be raised later without invalidating stored hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  if (!password) {
+    throw new Error('Password cannot be empty');
+  }
+
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await deriveKey(password, salt, COST, BLOCK_SIZE, PARALLELIZATION);
+
+  return [
+    'scrypt',
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ *
+ * Malformed hashes never match rather than throwing.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parts = stored.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [cost, blockSize, parallelization] = parts.slice(1, 4).map(Number);
+  if (![cost, blockSize, parallelization].every((n) => Number.isInteger(n) && n > 0)) {
+    return false;
+  }
+
+  const salt = Buffer.from(parts[4], 'base64');
+  const expected = Buffer.from(parts[5], 'base64');
+  const actual = await deriveKey(password, salt, cost, blockSize, parallelization);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Generate an opaque session token for the session cookie (base64url)
+ */
+export function generateSessionToken(): string {
+  return randomBytes(SESSION_TOKEN_LENGTH).toString('base64url');
+}
+
+/**
+ * Hash a session token for storage and lookup (hex SHA-256)
+ *
+ * Tokens are random and high-entropy, so a fast unsalted hash is enough;
+ * only the hash is stored so a leaked sessions table cannot be replayed.
+ */
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,377 @@
+import { useEffect, useId, useRef, useState, type PointerEvent } from 'react'
+import { RotateCcw, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { decimate, formatValue, niceTicks } from './chart-utils'
+
+export interface ChartSeries {
+  key: string
+  label: string
+  color: string
+  values: number[]
+}
+
+interface SignalChartProps {
+  series: ChartSeries[]
+  step: number // x distance between consecutive values (seconds or Hz)
+  xLabel: string
+  xUnit: string
+  yUnit: string
+  harmonics?: boolean // clicking sets a fundamental and marks its multiples
+  baseline?: 'zero' | 'auto' // zero: y axis always includes 0 (spectra)
+  height?: number
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 32, left: 64 }
+const MAX_HARMONICS = 10
+const MIN_VISIBLE_POINTS = 16
+const ZOOM_FACTOR = 1.5
+
+type Range = [number, number]
+
+// Line chart for waveforms and spectra
+// Wheel or buttons zoom the x axis, dragging pans, hovering shows a cursor readout.
+// With harmonics enabled, a click places a fundamental cursor and marks up to 10 harmonics.
+export function SignalChart({
+  series,
+  step,
+  xLabel,
+  xUnit,
+  yUnit,
+  harmonics = false,
+  baseline = 'auto',
+  height = 280,
+}: SignalChartProps) {
+  const clipId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ startX: number; startView: Range; moved: boolean } | null>(null)
+  const [width, setWidth] = useState(0)
+  const [view, setView] = useState<Range | null>(null)
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+  const [fundamental, setFundamental] = useState<number | null>(null)
+
+  const pointCount = Math.max(0, ...series.map((s) => s.values.length))
+  const fullRange: Range = [0, Math.max(step, (pointCount - 1) * step)]
+  const [x0, x1] = view ?? fullRange
+  const plotWidth = Math.max(1, width - MARGIN.left - MARGIN.right)
+  const plotHeight = height - MARGIN.top - MARGIN.bottom
+
+  // Track the container width so the SVG renders at device pixels (text is not stretched)
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Keep the view inside the data and no narrower than a few points
+  function clampView([start, end]: Range): Range | null {
+    const [min, max] = fullRange
+    const span = Math.min(max - min, Math.max(end - start, step * MIN_VISIBLE_POINTS))
+    if (span >= max - min) return null
+    const clampedStart = Math.min(Math.max(start, min), max - span)
+    return [clampedStart, clampedStart + span]
+  }
+
+  function zoomAround(center: number, factor: number) {
+    setView(clampView([center - (center - x0) * factor, center + (x1 - center) * factor]))
+  }
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      const fraction = (event.clientX - rect.left - MARGIN.left) / plotWidth
+      const center = x0 + Math.min(1, Math.max(0, fraction)) * (x1 - x0)
+      zoomAround(center, event.deltaY < 0 ? 1 / ZOOM_FACTOR : ZOOM_FACTOR)
+    }
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  })
+
+  const toPixelX = (x: number) => MARGIN.left + ((x - x0) / (x1 - x0)) * plotWidth
+  const toDataX = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    const offset = rect ? clientX - rect.left - MARGIN.left : 0
+    return x0 + (offset / plotWidth) * (x1 - x0)
+  }
+
+  // Visible index range and y extent over every series
+  const firstIndex = Math.max(0, Math.floor(x0 / step))
+  const lastIndex = Math.min(pointCount - 1, Math.ceil(x1 / step))
+  let yMin = baseline === 'zero' ? 0 : Infinity
+  let yMax = baseline === 'zero' ? 0 : -Infinity
+  for (const s of series) {
+    for (let i = firstIndex; i <= Math.min(lastIndex, s.values.length - 1); i++) {
+      if (s.values[i] < yMin) yMin = s.values[i]
+      if (s.values[i] > yMax) yMax = s.values[i]
+    }
+  }
+  if (!Number.isFinite(yMin) || !Number.isFinite(yMax) || yMin === yMax) {
+    yMin = Number.isFinite(yMin) ? yMin - 1 : -1
+    yMax = Number.isFinite(yMax) ? yMax + 1 : 1
+  }
+  const yPadding = (yMax - yMin) * 0.05
+  const yLow = baseline === 'zero' ? yMin : yMin - yPadding
+  const yHigh = yMax + yPadding
+  const toPixelY = (y: number) => MARGIN.top + (1 - (y - yLow) / (yHigh - yLow)) * plotHeight
+
+  const paths = series.map((s) => {
+    const last = Math.min(lastIndex, s.values.length - 1)
+    const points = last >= firstIndex ? decimate(s.values, firstIndex, last, plotWidth) : []
+    const d = points
+      .map(([i, value], n) => {
+        const command = n === 0 ? 'M' : 'L'
+        return `${command}${toPixelX(i * step).toFixed(1)},${toPixelY(value).toFixed(1)}`
+      })
+      .join('')
+    return { key: s.key, color: s.color, d }
+  })
+
+  const harmonicIndexes =
+    harmonics && fundamental !== null && fundamental > 0
+      ? Array.from({ length: MAX_HARMONICS }, (_, n) => ({
+          order: n + 1,
+          index: Math.round(((n + 1) * fundamental) / step),
+        })).filter(({ index }) => index < pointCount)
+      : []
+
+  function handlePointerDown(event: PointerEvent<SVGSVGElement>) {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { startX: event.clientX, startView: [x0, x1], moved: false }
+  }
+
+  function handlePointerMove(event: PointerEvent<SVGSVGElement>) {
+    const drag = dragRef.current
+    if (drag) {
+      const deltaPixels = event.clientX - drag.startX
+      if (Math.abs(deltaPixels) > 3) drag.moved = true
+      if (drag.moved) {
+        const shift = (deltaPixels / plotWidth) * (drag.startView[1] - drag.startView[0])
+        setView(clampView([drag.startView[0] - shift, drag.startView[1] - shift]))
+      }
+    }
+    const index = Math.round(toDataX(event.clientX) / step)
+    setHoverIndex(index >= firstIndex && index <= lastIndex ? index : null)
+  }
+
+  function handlePointerUp(event: PointerEvent<SVGSVGElement>) {
+    const drag = dragRef.current
+    dragRef.current = null
+    // A click without dragging places the fundamental cursor
+    if (harmonics && drag && !drag.moved) {
+      const index = Math.round(toDataX(event.clientX) / step)
+      if (index > 0 && index < pointCount) setFundamental(index * step)
+    }
+  }
+
+  const xTicks = niceTicks(x0, x1)
+  const yTicks = niceTicks(yLow, yHigh, 5)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {/* Cursor readout */}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-muted-foreground min-h-5">
+          {hoverIndex !== null ? (
+            <>
+              <span>
+                {xLabel}: {formatValue(hoverIndex * step)} {xUnit}
+              </span>
+              {series.map((s) => (
+                <span key={s.key} style={{ color: s.color }}>
+                  {s.label}: {formatValue(s.values[hoverIndex] ?? 0)} {yUnit}
+                </span>
+              ))}
+            </>
+          ) : (
+            <span>
+              {harmonics ? 'Hover for readout, click to set harmonic cursor' : 'Hover for readout'}
+              {' · scroll to zoom, drag to pan'}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => zoomAround((x0 + x1) / 2, 1 / ZOOM_FACTOR)}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => zoomAround((x0 + x1) / 2, ZOOM_FACTOR)}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => {
+              setView(null)
+              setFundamental(null)
+            }}
+            aria-label="Reset view"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="w-full">
+        <svg
+          ref={svgRef}
+          width={width}
+          height={height}
+          className="touch-none select-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => setHoverIndex(null)}
+          onDoubleClick={() => setView(null)}
+        >
+          <defs>
+            <clipPath id={clipId}>
+              <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} />
+            </clipPath>
+          </defs>
+
+          {/* Grid and axes */}
+          {yTicks.map((tick) => (
+            <g key={`y${tick}`}>
+              <line
+                x1={MARGIN.left}
+                x2={MARGIN.left + plotWidth}
+                y1={toPixelY(tick)}
+                y2={toPixelY(tick)}
+                className="stroke-border"
+              />
+              <text
+                x={MARGIN.left - 6}
+                y={toPixelY(tick)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {formatValue(tick)}
+              </text>
+            </g>
+          ))}
+          {xTicks.map((tick) => (
+            <g key={`x${tick}`}>
+              <line
+                x1={toPixelX(tick)}
+                x2={toPixelX(tick)}
+                y1={MARGIN.top}
+                y2={MARGIN.top + plotHeight}
+                className="stroke-border"
+              />
+              <text
+                x={toPixelX(tick)}
+                y={MARGIN.top + plotHeight + 14}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {formatValue(tick)}
+              </text>
+            </g>
+          ))}
+          <text
+            x={MARGIN.left + plotWidth / 2}
+            y={height - 4}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {xLabel} ({xUnit})
+          </text>
+          <text
+            transform={`translate(12 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {yUnit}
+          </text>
+
+          <g clipPath={`url(#${CSS.escape(clipId)})`}>
+            {paths.map((path) => (
+              <path key={path.key} d={path.d} fill="none" stroke={path.color} strokeWidth={1} />
+            ))}
+
+            {/* Harmonic cursors */}
+            {harmonicIndexes.map(({ order, index }) => (
+              <g key={order}>
+                <line
+                  x1={toPixelX(index * step)}
+                  x2={toPixelX(index * step)}
+                  y1={MARGIN.top}
+                  y2={MARGIN.top + plotHeight}
+                  className="stroke-destructive"
+                  strokeDasharray="4 3"
+                />
+                <text
+                  x={toPixelX(index * step) + 3}
+                  y={MARGIN.top + 10}
+                  className="fill-destructive text-[10px]"
+                >
+                  {order}x
+                </text>
+              </g>
+            ))}
+
+            {/* Hover cursor */}
+            {hoverIndex !== null && (
+              <line
+                x1={toPixelX(hoverIndex * step)}
+                x2={toPixelX(hoverIndex * step)}
+                y1={MARGIN.top}
+                y2={MARGIN.top + plotHeight}
+                className="stroke-foreground/50"
+              />
+            )}
+          </g>
+        </svg>
+      </div>
+
+      {/* Harmonic readout */}
+      {harmonicIndexes.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="text-xs font-mono">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="pr-4 text-left font-normal">Order</th>
+                <th className="pr-4 text-left font-normal">{xLabel} ({xUnit})</th>
+                {series.map((s) => (
+                  <th key={s.key} className="pr-4 text-left font-normal" style={{ color: s.color }}>
+                    {s.label} ({yUnit})
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {harmonicIndexes.map(({ order, index }) => (
+                <tr key={order}>
+                  <td className="pr-4">{order}x</td>
+                  <td className="pr-4">{formatValue(index * step)}</td>
+                  {series.map((s) => (
+                    <td key={s.key} className="pr-4">
+                      {formatValue(s.values[index] ?? 0)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
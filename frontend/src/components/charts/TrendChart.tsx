@@ -0,0 +1,251 @@
+import { useEffect, useId, useRef, useState, type PointerEvent } from 'react'
+import { formatValue, niceTicks, timeTicks } from './chart-utils'
+import type { TrendPoint, TrendThreshold } from '@/types/api'
+
+interface TrendChartProps {
+  points: TrendPoint[]
+  thresholds: TrendThreshold[]
+  from: number // visible time range (ms since epoch)
+  to: number
+  unit: string
+  onPointClick?: (point: TrendPoint) => void
+  height?: number
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 32, left: 64 }
+const HIT_DISTANCE = 24 // pixels from a point that still count as hovering it
+
+const COLORS = {
+  line: '#2563eb',
+  alert: '#f59e0b',
+  danger: '#dc2626',
+}
+
+// Metric history over time with alarm threshold bands
+// The band between a rule's alert and danger levels is shaded amber, above danger red.
+// Points are colored by the lowest levels they exceed; clicking a point calls onPointClick.
+export function TrendChart({
+  points,
+  thresholds,
+  from,
+  to,
+  unit,
+  onPointClick,
+  height = 320,
+}: TrendChartProps) {
+  const clipId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const plotWidth = Math.max(1, width - MARGIN.left - MARGIN.right)
+  const plotHeight = height - MARGIN.top - MARGIN.bottom
+
+  // Track the container width so the SVG renders at device pixels (text is not stretched)
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Levels every point is judged against: the lowest of all applicable rules
+  const alertLevel = thresholds.length > 0 ? Math.min(...thresholds.map((t) => t.alert_level)) : null
+  const dangerLevel =
+    thresholds.length > 0 ? Math.min(...thresholds.map((t) => t.danger_level)) : null
+
+  // y extent covers the data and the alert levels so bands are visible before they are reached
+  const values = points.map((p) => p.value)
+  let yMin = Math.min(...values, ...(alertLevel !== null ? [alertLevel] : []))
+  let yMax = Math.max(...values, ...(dangerLevel !== null ? [dangerLevel] : []))
+  if (!Number.isFinite(yMin) || !Number.isFinite(yMax) || yMin === yMax) {
+    yMin = Number.isFinite(yMin) ? yMin - 1 : 0
+    yMax = Number.isFinite(yMax) ? yMax + 1 : 1
+  }
+  const yPadding = (yMax - yMin) * 0.08
+  const yLow = yMin >= 0 && yMin - yPadding < 0 ? 0 : yMin - yPadding
+  const yHigh = yMax + yPadding
+
+  const toPixelX = (time: number) => MARGIN.left + ((time - from) / (to - from)) * plotWidth
+  const toPixelY = (y: number) => MARGIN.top + (1 - (y - yLow) / (yHigh - yLow)) * plotHeight
+  const clampY = (pixel: number) => Math.min(MARGIN.top + plotHeight, Math.max(MARGIN.top, pixel))
+
+  const pixels = points.map((p) => ({
+    x: toPixelX(new Date(p.recorded_at).getTime()),
+    y: toPixelY(p.value),
+  }))
+  const linePath = pixels
+    .map(({ x, y }, n) => `${n === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`)
+    .join('')
+
+  function pointColor(value: number): string {
+    if (dangerLevel !== null && value >= dangerLevel) return COLORS.danger
+    if (alertLevel !== null && value >= alertLevel) return COLORS.alert
+    return COLORS.line
+  }
+
+  // Nearest point by horizontal distance, if close enough to count as hovering it
+  function nearestIndex(event: PointerEvent<SVGSVGElement>): number | null {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = event.clientX - rect.left
+    let best: number | null = null
+    for (let i = 0; i < pixels.length; i++) {
+      if (best === null || Math.abs(pixels[i].x - x) < Math.abs(pixels[best].x - x)) best = i
+    }
+    return best !== null && Math.abs(pixels[best].x - x) <= HIT_DISTANCE ? best : null
+  }
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : undefined
+  const xTicks = timeTicks(from, to)
+  const yTicks = niceTicks(yLow, yHigh, 5)
+
+  return (
+    <div className="space-y-2">
+      {/* Cursor readout */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-muted-foreground min-h-5">
+        {hovered ? (
+          <>
+            <span>{new Date(hovered.recorded_at).toLocaleString()}</span>
+            <span style={{ color: pointColor(hovered.value) }}>
+              {formatValue(hovered.value)} {unit}
+            </span>
+            {onPointClick && <span>click to open reading</span>}
+          </>
+        ) : (
+          <span>Hover a point for its value{onPointClick && ', click to open the reading'}</span>
+        )}
+      </div>
+
+      <div ref={containerRef} className="w-full">
+        <svg
+          width={width}
+          height={height}
+          className={hovered && onPointClick ? 'cursor-pointer select-none' : 'select-none'}
+          onPointerMove={(event) => setHoverIndex(nearestIndex(event))}
+          onPointerLeave={() => setHoverIndex(null)}
+          onClick={() => hovered && onPointClick?.(hovered)}
+        >
+          <defs>
+            <clipPath id={clipId}>
+              <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} />
+            </clipPath>
+          </defs>
+
+          <g clipPath={`url(#${CSS.escape(clipId)})`}>
+            {/* Threshold bands */}
+            {thresholds.map((threshold) => (
+              <g key={threshold.rule_id}>
+                <rect
+                  x={MARGIN.left}
+                  width={plotWidth}
+                  y={clampY(toPixelY(threshold.danger_level))}
+                  height={Math.max(
+                    0,
+                    clampY(toPixelY(threshold.alert_level)) -
+                      clampY(toPixelY(threshold.danger_level)),
+                  )}
+                  fill={COLORS.alert}
+                  fillOpacity={0.12}
+                />
+                <rect
+                  x={MARGIN.left}
+                  width={plotWidth}
+                  y={MARGIN.top}
+                  height={Math.max(0, clampY(toPixelY(threshold.danger_level)) - MARGIN.top)}
+                  fill={COLORS.danger}
+                  fillOpacity={0.1}
+                />
+              </g>
+            ))}
+          </g>
+
+          {/* Grid and axes */}
+          {yTicks.map((tick) => (
+            <g key={`y${tick}`}>
+              <line
+                x1={MARGIN.left}
+                x2={MARGIN.left + plotWidth}
+                y1={toPixelY(tick)}
+                y2={toPixelY(tick)}
+                className="stroke-border"
+              />
+              <text
+                x={MARGIN.left - 6}
+                y={toPixelY(tick)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {formatValue(tick)}
+              </text>
+            </g>
+          ))}
+          {xTicks.map((tick) => (
+            <g key={`x${tick.value}`}>
+              <line
+                x1={toPixelX(tick.value)}
+                x2={toPixelX(tick.value)}
+                y1={MARGIN.top}
+                y2={MARGIN.top + plotHeight}
+                className="stroke-border"
+              />
+              <text
+                x={toPixelX(tick.value)}
+                y={MARGIN.top + plotHeight + 14}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {tick.label}
+              </text>
+            </g>
+          ))}
+          <text
+            transform={`translate(12 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {unit}
+          </text>
+
+          <g clipPath={`url(#${CSS.escape(clipId)})`}>
+            {/* Threshold lines */}
+            {thresholds.map((threshold) => (
+              <g key={threshold.rule_id}>
+                <line
+                  x1={MARGIN.left}
+                  x2={MARGIN.left + plotWidth}
+                  y1={toPixelY(threshold.alert_level)}
+                  y2={toPixelY(threshold.alert_level)}
+                  stroke={COLORS.alert}
+                  strokeDasharray="4 3"
+                />
+                <line
+                  x1={MARGIN.left}
+                  x2={MARGIN.left + plotWidth}
+                  y1={toPixelY(threshold.danger_level)}
+                  y2={toPixelY(threshold.danger_level)}
+                  stroke={COLORS.danger}
+                  strokeDasharray="4 3"
+                />
+              </g>
+            ))}
+
+            {/* History */}
+            <path d={linePath} fill="none" stroke={COLORS.line} strokeWidth={1} strokeOpacity={0.6} />
+            {pixels.map(({ x, y }, i) => (
+              <circle
+                key={points[i].reading_id}
+                cx={x}
+                cy={y}
+                r={i === hoverIndex ? 5 : 3}
+                fill={pointColor(points[i].value)}
+                stroke={i === hoverIndex ? 'white' : 'none'}
+              />
+            ))}
+          </g>
+        </svg>
+      </div>
+    </div>
+  )
+}
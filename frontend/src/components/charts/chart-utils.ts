@@ -0,0 +1,109 @@
+// Helpers for the charts: axis ticks, number formatting and min/max decimation
+
+// Evenly spaced "nice" tick values (1, 2 or 5 times a power of ten) covering [min, max]
+export function niceTicks(min: number, max: number, targetCount = 6): number[] {
+  const span = max - min
+  if (!(span > 0) || !Number.isFinite(span)) return [min]
+
+  const rough = span / targetCount
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const residual = rough / magnitude
+  const step = (residual >= 5 ? 10 : residual >= 2 ? 5 : residual >= 1 ? 2 : 1) * magnitude
+
+  const ticks: number[] = []
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    // Snap away floating-point noise such as 0.30000000000000004
+    ticks.push(Number(tick.toPrecision(12)))
+  }
+  return ticks
+}
+
+// Compact number for tick labels and readouts
+export function formatValue(value: number): string {
+  if (value === 0) return '0'
+  const abs = Math.abs(value)
+  if (abs >= 1e4 || abs < 1e-3) return value.toExponential(2)
+  return Number(value.toPrecision(4)).toString()
+}
+
+// Reduce [start, end] of values to at most two points (min and max) per pixel column
+// Returns [index, value] pairs in index order so spikes survive any zoom level
+export function decimate(
+  values: number[],
+  start: number,
+  end: number,
+  columns: number,
+): Array<[number, number]> {
+  const count = end - start + 1
+  if (count <= columns * 2) {
+    const points: Array<[number, number]> = []
+    for (let i = start; i <= end; i++) points.push([i, values[i]])
+    return points
+  }
+
+  const points: Array<[number, number]> = []
+  const perColumn = count / columns
+  for (let column = 0; column < columns; column++) {
+    const from = start + Math.floor(column * perColumn)
+    const to = Math.min(end, start + Math.floor((column + 1) * perColumn) - 1)
+    let minIndex = from
+    let maxIndex = from
+    for (let i = from + 1; i <= to; i++) {
+      if (values[i] < values[minIndex]) minIndex = i
+      if (values[i] > values[maxIndex]) maxIndex = i
+    }
+    if (minIndex <= maxIndex) {
+      points.push([minIndex, values[minIndex]], [maxIndex, values[maxIndex]])
+    } else {
+      points.push([maxIndex, values[maxIndex]], [minIndex, values[minIndex]])
+    }
+  }
+  return points
+}
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+const TIME_STEPS = [
+  MINUTE,
+  5 * MINUTE,
+  15 * MINUTE,
+  30 * MINUTE,
+  HOUR,
+  3 * HOUR,
+  6 * HOUR,
+  12 * HOUR,
+  DAY,
+  2 * DAY,
+  7 * DAY,
+  14 * DAY,
+  30 * DAY,
+]
+
+// Tick timestamps (ms) on local minute/hour/day boundaries covering [min, max]
+// Labels show the time of day below one day per step and the date above
+export function timeTicks(
+  min: number,
+  max: number,
+  targetCount = 6,
+): Array<{ value: number; label: string }> {
+  const span = max - min
+  if (!(span > 0) || !Number.isFinite(span)) return []
+
+  const step = TIME_STEPS.find((s) => span / s <= targetCount) ?? TIME_STEPS[TIME_STEPS.length - 1]
+  // Align to local midnight so day ticks fall on dates rather than UTC offsets
+  const origin = new Date(min)
+  origin.setHours(0, 0, 0, 0)
+  const first = origin.getTime() + Math.ceil((min - origin.getTime()) / step) * step
+
+  const ticks: Array<{ value: number; label: string }> = []
+  for (let value = first; value <= max; value += step) {
+    const date = new Date(value)
+    const label =
+      step >= DAY
+        ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+        : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    ticks.push({ value, label })
+  }
+  return ticks
+}
@@ -0,0 +1,53 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export const areaFormSchema = z.object({
+  name: z.string().min(1, 'Area name is required').max(255, 'Name must be 255 characters or less'),
+  description: z.string().max(2000, 'Description must be 2000 characters or less').optional().or(z.literal('')),
+})
+
+export type AreaFormData = z.infer<typeof areaFormSchema>
+
+interface AreaFormProps {
+  onSubmit: (data: AreaFormData) => Promise<void>
+  isSubmitting?: boolean
+  submitLabel?: string
+}
+
+export function AreaForm({ onSubmit, isSubmitting = false, submitLabel = 'Save' }: AreaFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<AreaFormData>({
+    resolver: zodResolver(areaFormSchema),
+  })
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="area-name">Area Name</Label>
+        <Input id="area-name" placeholder="e.g. Line 2, Boiler house" {...register('name')} />
+        {errors.name && (
+          <p className="text-sm text-destructive mt-1">{errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="area-description">Description</Label>
+        <Input id="area-description" placeholder="Optional" {...register('description')} />
+        {errors.description && (
+          <p className="text-sm text-destructive mt-1">{errors.description.message}</p>
+        )}
+      </div>
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  )
+}
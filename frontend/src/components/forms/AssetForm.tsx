@@ -0,0 +1,91 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+
+export const ASSET_TYPE_LABELS = {
+  motor: 'Motor',
+  pump: 'Pump',
+  gearbox: 'Gearbox',
+  fan: 'Fan',
+  compressor: 'Compressor',
+  bearing: 'Bearing',
+  other: 'Other',
+} as const
+
+export const assetFormSchema = z.object({
+  name: z.string().min(1, 'Asset name is required').max(255, 'Name must be 255 characters or less'),
+  asset_type: z.enum(['motor', 'pump', 'gearbox', 'fan', 'compressor', 'bearing', 'other']).or(z.literal('')),
+  // ISO 10816 machine class; empty leaves readings unclassified
+  machine_class: z.enum(['I', 'II', 'III', 'IV']).or(z.literal('')),
+})
+
+export type AssetFormData = z.infer<typeof assetFormSchema>
+
+interface AssetFormProps {
+  onSubmit: (data: AssetFormData) => Promise<void>
+  isSubmitting?: boolean
+  submitLabel?: string
+}
+
+const selectClassName = cn(
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+  'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+  'disabled:cursor-not-allowed disabled:opacity-50'
+)
+
+export function AssetForm({ onSubmit, isSubmitting = false, submitLabel = 'Save' }: AssetFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<AssetFormData>({
+    resolver: zodResolver(assetFormSchema),
+    defaultValues: {
+      asset_type: '',
+      machine_class: '',
+    },
+  })
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="asset-name">Asset Name</Label>
+        <Input id="asset-name" placeholder="e.g. Cooling pump P-101" {...register('name')} />
+        {errors.name && (
+          <p className="text-sm text-destructive mt-1">{errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="asset-type">Type</Label>
+        <select id="asset-type" className={selectClassName} {...register('asset_type')}>
+          <option value="">Not set</option>
+          {Object.entries(ASSET_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <Label htmlFor="asset-machine-class">ISO 10816 Machine Class</Label>
+        <select id="asset-machine-class" className={selectClassName} {...register('machine_class')}>
+          <option value="">Unclassified</option>
+          <option value="I">I - small machines</option>
+          <option value="II">II - medium machines</option>
+          <option value="III">III - large, rigid foundation</option>
+          <option value="IV">IV - large, flexible foundation</option>
+        </select>
+      </div>
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  )
+}
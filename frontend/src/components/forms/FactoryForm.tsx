@@ -4,6 +4,8 @@ import { z } from 'zod'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import type { Organization } from '@/types/api'
 
 export const factoryFormSchema = z.object({
   name: z.string().min(1, 'Factory name is required').max(100, 'Name must be 100 characters or less'),
@@ -11,27 +13,37 @@ export const factoryFormSchema = z.object({
   timezone: z.string().min(1, 'Timezone is required'),
 })
 
+// Creating also picks the owning organization (it cannot be changed afterwards)
+export const factoryCreateSchema = factoryFormSchema.extend({
+  organization_id: z.string().min(1, 'Organization is required'),
+})
+
 export type FactoryFormData = z.infer<typeof factoryFormSchema>
+export type FactoryCreateData = z.infer<typeof factoryCreateSchema>
 
 interface FactoryFormProps {
-  defaultValues?: Partial<FactoryFormData>
-  onSubmit: (data: FactoryFormData) => Promise<void>
+  organizations?: Pick<Organization, 'id' | 'name'>[] // Shows the organization select (create only)
+  defaultValues?: Partial<FactoryCreateData>
+  onSubmit: (data: FactoryFormData | FactoryCreateData) => Promise<void>
   isSubmitting?: boolean
   submitLabel?: string // "Create Factory" or "Save Changes"
 }
 
 export function FactoryForm({
+  organizations,
   defaultValues,
   onSubmit,
   isSubmitting = false,
   submitLabel = 'Save',
 }: FactoryFormProps) {
+  const schema = organizations ? factoryCreateSchema : factoryFormSchema
+
   const {
     register,
     handleSubmit,
     formState: { errors },
-  } = useForm<FactoryFormData>({
-    resolver: zodResolver(factoryFormSchema),
+  } = useForm<FactoryFormData | FactoryCreateData>({
+    resolver: zodResolver(schema),
     defaultValues: {
       timezone: 'UTC',
       ...defaultValues,
@@ -40,6 +52,31 @@ export function FactoryForm({
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {organizations && (
+        <div>
+          <Label htmlFor="organization_id">Organization</Label>
+          <select
+            id="organization_id"
+            className={cn(
+              'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+              'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+              'disabled:cursor-not-allowed disabled:opacity-50'
+            )}
+            {...register('organization_id')}
+          >
+            <option value="">Select an organization...</option>
+            {organizations.map((organization) => (
+              <option key={organization.id} value={organization.id}>
+                {organization.name}
+              </option>
+            ))}
+          </select>
+          {'organization_id' in errors && errors.organization_id && (
+            <p className="text-sm text-destructive mt-1">{errors.organization_id.message}</p>
+          )}
+        </div>
+      )}
+
       <div>
         <Label htmlFor="name">Factory Name</Label>
         <Input
@@ -1,11 +1,13 @@
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react'
+import { useTestGatewayConnection } from '@/hooks/useGateways'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { cn } from '@/lib/utils'
-import type { Factory } from '@/types/api'
+import type { Factory, GatewayConnectionTest } from '@/types/api'
 
 export const gatewayFormSchema = z.object({
   factory_id: z.string().min(1, 'Factory is required'),
@@ -32,6 +34,46 @@ interface GatewayFormProps {
   isSubmitting?: boolean
   submitLabel?: string
   mode?: 'create' | 'edit' // Determines which schema to use
+  gatewayId?: string // Saved gateway being edited (tests fall back to its stored password)
+}
+
+const STAGE_LABELS: Record<NonNullable<GatewayConnectionTest['failed_stage']>, string> = {
+  connect: 'Could not connect',
+  authenticate: 'Login failed',
+  discover: 'Sensor listing failed',
+}
+
+function ConnectionTestResult({ result }: { result: GatewayConnectionTest }) {
+  if (!result.success) {
+    return (
+      <div className="flex items-start gap-2 text-sm text-destructive">
+        <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+        <span className="break-all">
+          {result.failed_stage ? STAGE_LABELS[result.failed_stage] : 'Failed'}: {result.error}
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+      <div>
+        <div>
+          Connected in {result.duration_ms} ms (latency {result.latency_ms} ms)
+        </div>
+        {result.user && (
+          <div className="text-muted-foreground">
+            Logged in as {result.user.first_name} {result.user.last_name} ({result.user.email})
+          </div>
+        )}
+        <div className="text-muted-foreground">
+          {result.sensor_count} {result.sensor_count === 1 ? 'sensor' : 'sensors'},{' '}
+          {result.connected_sensor_count} connected
+        </div>
+      </div>
+    </div>
+  )
 }
 
 export function GatewayForm({
@@ -41,18 +83,35 @@ export function GatewayForm({
   isSubmitting = false,
   submitLabel = 'Save',
   mode = 'create',
+  gatewayId,
 }: GatewayFormProps) {
   const schema = mode === 'edit' ? gatewayEditSchema : gatewayFormSchema
+  const testConnection = useTestGatewayConnection()
 
   const {
     register,
     handleSubmit,
+    getValues,
+    trigger,
     formState: { errors },
   } = useForm<GatewayFormData | GatewayEditData>({
     resolver: zodResolver(schema),
     defaultValues,
   })
 
+  // Test the settings as entered, without saving them
+  async function handleTestConnection() {
+    const fields = ['factory_id', 'url', 'email', 'password'] as const
+    if (!(await trigger(fields))) return
+
+    const { factory_id, url, email, password } = getValues()
+    testConnection.mutate(
+      gatewayId
+        ? { id: gatewayId, data: { url, email, password: password || undefined } }
+        : { data: { factory_id, url, email, password } },
+    )
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
       <div>
@@ -164,9 +223,25 @@ export function GatewayForm({
         )}
       </div>
 
-      <Button type="submit" disabled={isSubmitting}>
-        {isSubmitting ? 'Saving...' : submitLabel}
-      </Button>
+      {testConnection.data && <ConnectionTestResult result={testConnection.data} />}
+      {testConnection.isError && (
+        <p className="text-sm text-destructive">{testConnection.error.message}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleTestConnection}
+          disabled={testConnection.isPending}
+        >
+          {testConnection.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {testConnection.isPending ? 'Testing...' : 'Test Connection'}
+        </Button>
+      </div>
     </form>
   )
 }
@@ -0,0 +1,57 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export const loginFormSchema = z.object({
+  email: z.string().min(1, 'Email is required').email('Must be a valid email address'),
+  password: z.string().min(1, 'Password is required'),
+})
+
+export type LoginFormData = z.infer<typeof loginFormSchema>
+
+interface LoginFormProps {
+  onSubmit: (data: LoginFormData) => Promise<void>
+  isSubmitting?: boolean
+}
+
+export function LoginForm({ onSubmit, isSubmitting = false }: LoginFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<LoginFormData>({
+    resolver: zodResolver(loginFormSchema),
+  })
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="email">Email</Label>
+        <Input id="email" type="email" autoComplete="username" {...register('email')} />
+        {errors.email && (
+          <p className="text-sm text-destructive mt-1">{errors.email.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          {...register('password')}
+        />
+        {errors.password && (
+          <p className="text-sm text-destructive mt-1">{errors.password.message}</p>
+        )}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? 'Signing in...' : 'Sign In'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,87 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import type { Sensor } from '@/types/api'
+
+export const measurementPointFormSchema = z.object({
+  name: z.string().min(1, 'Point name is required').max(255, 'Name must be 255 characters or less'),
+  orientation: z.enum(['horizontal', 'vertical', 'axial']).or(z.literal('')),
+  sensor_id: z.string(), // empty leaves the point unmounted
+})
+
+export type MeasurementPointFormData = z.infer<typeof measurementPointFormSchema>
+
+interface MeasurementPointFormProps {
+  sensors: Pick<Sensor, 'id' | 'serial' | 'name'>[] // Unmounted sensors for the mount dropdown
+  onSubmit: (data: MeasurementPointFormData) => Promise<void>
+  isSubmitting?: boolean
+  submitLabel?: string
+}
+
+const selectClassName = cn(
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+  'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+  'disabled:cursor-not-allowed disabled:opacity-50'
+)
+
+export function MeasurementPointForm({
+  sensors,
+  onSubmit,
+  isSubmitting = false,
+  submitLabel = 'Save',
+}: MeasurementPointFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<MeasurementPointFormData>({
+    resolver: zodResolver(measurementPointFormSchema),
+    defaultValues: {
+      orientation: '',
+      sensor_id: '',
+    },
+  })
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="point-name">Point Name</Label>
+        <Input id="point-name" placeholder="e.g. Motor NDE horizontal" {...register('name')} />
+        {errors.name && (
+          <p className="text-sm text-destructive mt-1">{errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="point-orientation">Orientation</Label>
+        <select id="point-orientation" className={selectClassName} {...register('orientation')}>
+          <option value="">Not set</option>
+          <option value="horizontal">Horizontal</option>
+          <option value="vertical">Vertical</option>
+          <option value="axial">Axial</option>
+        </select>
+      </div>
+
+      <div>
+        <Label htmlFor="point-sensor">Mounted Sensor</Label>
+        <select id="point-sensor" className={selectClassName} {...register('sensor_id')}>
+          <option value="">None</option>
+          {sensors.map((sensor) => (
+            <option key={sensor.id} value={sensor.id}>
+              {sensor.serial}
+              {sensor.name ? ` - ${sensor.name}` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,55 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export const organizationFormSchema = z.object({
+  name: z.string().min(1, 'Organization name is required').max(255, 'Name must be 255 characters or less'),
+})
+
+export type OrganizationFormData = z.infer<typeof organizationFormSchema>
+
+interface OrganizationFormProps {
+  defaultValues?: Partial<OrganizationFormData>
+  onSubmit: (data: OrganizationFormData) => Promise<void>
+  isSubmitting?: boolean
+  submitLabel?: string // "Create Organization" or "Save Changes"
+}
+
+export function OrganizationForm({
+  defaultValues,
+  onSubmit,
+  isSubmitting = false,
+  submitLabel = 'Save',
+}: OrganizationFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<OrganizationFormData>({
+    resolver: zodResolver(organizationFormSchema),
+    defaultValues,
+  })
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="organization-name">Organization Name</Label>
+        <Input
+          id="organization-name"
+          placeholder="Enter organization name"
+          {...register('name')}
+        />
+        {errors.name && (
+          <p className="text-sm text-destructive mt-1">{errors.name.message}</p>
+        )}
+      </div>
+
+      <Button type="submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  )
+}
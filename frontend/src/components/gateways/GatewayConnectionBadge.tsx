@@ -0,0 +1,41 @@
+import type { ConnectionState } from '@/types/api'
+import { Badge } from '@/components/ui/badge'
+
+export type GatewayConnectionStatus = 'authenticated' | 'connected' | 'reconnecting' | 'offline'
+
+const STATUS_LABELS: Record<GatewayConnectionStatus, string> = {
+  authenticated: 'Authenticated',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting',
+  offline: 'Offline',
+}
+
+type BadgeVariant = 'default' | 'secondary' | 'outline' | 'destructive'
+
+const STATUS_VARIANTS: Record<GatewayConnectionStatus, BadgeVariant> = {
+  authenticated: 'default',
+  connected: 'secondary',
+  reconnecting: 'outline',
+  offline: 'destructive',
+}
+
+// DISCONNECTED means a reconnect is scheduled, CLOSED/CLOSING that the connection
+// was closed for good; null means the gateway has no supervisor session
+function connectionStatus(state: ConnectionState | null): GatewayConnectionStatus {
+  switch (state) {
+    case 'AUTHENTICATED':
+      return 'authenticated'
+    case 'CONNECTED':
+      return 'connected'
+    case 'CONNECTING':
+    case 'DISCONNECTED':
+      return 'reconnecting'
+    default:
+      return 'offline'
+  }
+}
+
+export function GatewayConnectionBadge({ state }: { state: ConnectionState | null }) {
+  const status = connectionStatus(state)
+  return <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  useGatewayEvents,
+  useGatewayFirmwareHistory,
+  useGatewayStatus,
+} from '@/hooks/useGateways'
+import type { Gateway, GatewayConnectionEvent } from '@/types/api'
+import { GatewayConnectionBadge } from '@/components/gateways/GatewayConnectionBadge'
+import { Button } from '@/components/ui/button'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { formatRelativeTime } from '@/lib/utils'
+
+const PAGE_SIZE = 20
+
+// 3725 -> "1h 2m"; seconds are only shown for the first minute
+function formatDuration(totalSeconds: number): string {
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${totalSeconds}s`
+}
+
+function describeEvent(event: GatewayConnectionEvent): string {
+  switch (event.event_type) {
+    case 'state_change':
+      return `${event.previous_state ?? '—'} → ${event.state ?? '—'}`
+    case 'heartbeat':
+      return 'Heartbeat'
+    case 'auth_succeeded':
+      return 'Authenticated'
+    case 'auth_failed':
+      return 'Authentication failed'
+    case 'error':
+      return 'Error'
+  }
+}
+
+function EventTimeline({ gatewayId }: { gatewayId: string }) {
+  const [offset, setOffset] = useState(0)
+  const { data, isLoading, isError, error } = useGatewayEvents(gatewayId, {
+    limit: PAGE_SIZE,
+    offset,
+  })
+
+  if (isError) {
+    return (
+      <p className="text-sm text-destructive">
+        {error?.message || 'Failed to load connection events'}
+      </p>
+    )
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center h-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (data.data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No connection events yet</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-3 border-l pl-4">
+        {data.data.map((event) => (
+          <li key={event.id} className="text-sm">
+            <div
+              className={
+                event.event_type === 'auth_failed' || event.event_type === 'error'
+                  ? 'font-medium text-destructive'
+                  : 'font-medium'
+              }
+            >
+              {describeEvent(event)}
+            </div>
+            {event.error && (
+              <div className="text-xs text-muted-foreground break-all">{event.error}</div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              {new Date(event.occurred_at).toLocaleString()}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {(data.pagination.hasPrev || data.pagination.hasNext) && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!data.pagination.hasPrev}
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+          >
+            Newer
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!data.pagination.hasNext}
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+          >
+            Older
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function FirmwareHistory({ gatewayId }: { gatewayId: string }) {
+  const { data, isLoading, isError, error } = useGatewayFirmwareHistory(gatewayId, {
+    limit: PAGE_SIZE,
+  })
+
+  if (isError) {
+    return (
+      <p className="text-sm text-destructive">
+        {error?.message || 'Failed to load firmware history'}
+      </p>
+    )
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center h-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (data.data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No firmware reported yet</p>
+  }
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {data.data.map((change) => (
+        <li key={change.id}>
+          <div>
+            <span className="font-medium">
+              {change.sensor_serial !== null ? `Sensor ${change.sensor_serial}` : 'Gateway'}
+            </span>{' '}
+            {change.previous_version ? (
+              <>
+                <span className="text-muted-foreground line-through">
+                  {change.previous_version}
+                </span>
+                {' → '}
+                {change.firmware_version}
+              </>
+            ) : (
+              change.firmware_version
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {new Date(change.detected_at).toLocaleString()}
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function StatusDetails({ gateway }: { gateway: Gateway }) {
+  const { data: status, isLoading } = useGatewayStatus(gateway.id)
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex items-center justify-center h-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const details = [
+    {
+      label: 'Uptime',
+      value: status.uptime_seconds !== null ? formatDuration(status.uptime_seconds) : '—',
+    },
+    { label: 'Reconnects', value: status.reconnect_count.toString() },
+    {
+      label: 'Last seen',
+      value: status.last_seen_at ? formatRelativeTime(status.last_seen_at) : 'Never',
+    },
+    {
+      label: 'Last heartbeat',
+      value: status.last_heartbeat_at ? formatRelativeTime(status.last_heartbeat_at) : '—',
+    },
+    { label: 'Sensors', value: gateway.sensor_count.toString() },
+    { label: 'Model', value: gateway.model || '—' },
+    { label: 'Firmware', value: gateway.firmware_version || '—' },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <GatewayConnectionBadge state={status.supervised ? status.state : null} />
+        {!status.supervised && (
+          <span className="text-xs text-muted-foreground">Not supervised</span>
+        )}
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {details.map(({ label, value }) => (
+          <div key={label}>
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="font-medium">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {status.last_error && (
+        <div className="rounded-md border border-destructive/50 p-3 text-sm">
+          <div className="font-medium text-destructive">Last error</div>
+          <div className="break-all">{status.last_error.message}</div>
+          <div className="text-xs text-muted-foreground">
+            {new Date(status.last_error.occurred_at).toLocaleString()}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Drawer with a gateway's connection health, event timeline and firmware history
+export function GatewayDetailSheet({
+  gateway,
+  onClose,
+}: {
+  gateway: Gateway | null
+  onClose: () => void
+}) {
+  return (
+    <Sheet open={!!gateway} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {gateway && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{gateway.name}</SheetTitle>
+              <SheetDescription className="font-mono text-xs">{gateway.url}</SheetDescription>
+            </SheetHeader>
+            <div className="space-y-6 px-4 pb-4">
+              <StatusDetails gateway={gateway} />
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Connection events</h3>
+                <EventTimeline key={gateway.id} gatewayId={gateway.id} />
+              </div>
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Firmware history</h3>
+                <FirmwareHistory gatewayId={gateway.id} />
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
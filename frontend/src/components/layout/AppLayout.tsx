@@ -1,14 +1,34 @@
 import { Outlet, NavLink } from 'react-router-dom'
 import { Sidebar } from './Sidebar'
+import { UserMenu } from './UserMenu'
 import { cn } from '@/lib/utils'
+import { useLiveEvents } from '@/hooks/useLiveEvents'
+import { usePermissions } from '@/hooks/useAuth'
 
 export function AppLayout() {
+  // One app-wide stream keeps every page's cached data current
+  const { connected } = useLiveEvents()
+  const { can } = usePermissions()
+
   return (
     <div className="flex flex-col md:flex-row h-screen">
       {/* Mobile header - visible below md breakpoint */}
       <div className="md:hidden flex items-center justify-between border-b px-4 h-14">
         <h1 className="text-lg font-bold">MTI WiFi</h1>
         <nav className="flex items-center gap-4">
+          <NavLink
+            to="/organizations"
+            className={({ isActive }) =>
+              cn(
+                'text-sm',
+                isActive
+                  ? 'font-medium text-foreground'
+                  : 'text-muted-foreground'
+              )
+            }
+          >
+            Organizations
+          </NavLink>
           <NavLink
             to="/factories"
             className={({ isActive }) =>
@@ -22,6 +42,19 @@ export function AppLayout() {
           >
             Factories
           </NavLink>
+          <NavLink
+            to="/plant"
+            className={({ isActive }) =>
+              cn(
+                'text-sm',
+                isActive
+                  ? 'font-medium text-foreground'
+                  : 'text-muted-foreground'
+              )
+            }
+          >
+            Plant
+          </NavLink>
           <NavLink
             to="/gateways"
             className={({ isActive }) =>
@@ -35,10 +68,39 @@ export function AppLayout() {
           >
             Gateways
           </NavLink>
+          <NavLink
+            to="/sensors"
+            className={({ isActive }) =>
+              cn(
+                'text-sm',
+                isActive
+                  ? 'font-medium text-foreground'
+                  : 'text-muted-foreground'
+              )
+            }
+          >
+            Sensors
+          </NavLink>
+          {can('admin') && (
+            <NavLink
+              to="/audit"
+              className={({ isActive }) =>
+                cn(
+                  'text-sm',
+                  isActive
+                    ? 'font-medium text-foreground'
+                    : 'text-muted-foreground'
+                )
+              }
+            >
+              Audit
+            </NavLink>
+          )}
+          <UserMenu compact />
         </nav>
       </div>
 
-      <Sidebar />
+      <Sidebar live={connected} />
       <main className="flex-1 overflow-auto">
         <div className="p-4 md:p-6">
           <Outlet />
@@ -0,0 +1,33 @@
+import { useEffect, type ReactNode } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+import { authKeys, useCurrentUser } from '@/hooks/useAuth'
+
+// Renders its children only for a signed-in user; everyone else goes to /login
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const location = useLocation()
+  const queryClient = useQueryClient()
+  const { data: user, isLoading } = useCurrentUser()
+
+  // Any 401 means the session expired or was ended elsewhere: back to the login page
+  useEffect(() => {
+    api.setUnauthorizedHandler(() => queryClient.setQueryData(authKeys.me(), null))
+    return () => api.setUnauthorizedHandler(null)
+  }, [queryClient])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />
+  }
+
+  return children
+}
@@ -1,8 +1,13 @@
 import { NavLink } from 'react-router-dom'
-import { Factory, Radio } from 'lucide-react'
+import { Activity, Building2, Factory, Network, Radio, ScrollText } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
+import { usePermissions } from '@/hooks/useAuth'
+import { UserMenu } from './UserMenu'
+
+export function Sidebar({ live }: { live: boolean }) {
+  const { can } = usePermissions()
 
-export function Sidebar() {
   return (
     <aside className="hidden md:flex w-64 border-r bg-background">
       <div className="flex flex-col h-full">
@@ -14,6 +19,20 @@ export function Sidebar() {
 
         {/* Navigation */}
         <nav className="flex flex-col gap-2 p-4">
+          <NavLink
+            to="/organizations"
+            className={({ isActive }) =>
+              cn(
+                'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
+                isActive
+                  ? 'bg-accent text-accent-foreground font-medium'
+                  : 'text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
+              )
+            }
+          >
+            <Building2 className="h-5 w-5" />
+            <span>Organizations</span>
+          </NavLink>
           <NavLink
             to="/factories"
             className={({ isActive }) =>
@@ -28,6 +47,20 @@ export function Sidebar() {
             <Factory className="h-5 w-5" />
             <span>Factories</span>
           </NavLink>
+          <NavLink
+            to="/plant"
+            className={({ isActive }) =>
+              cn(
+                'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
+                isActive
+                  ? 'bg-accent text-accent-foreground font-medium'
+                  : 'text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
+              )
+            }
+          >
+            <Network className="h-5 w-5" />
+            <span>Plant</span>
+          </NavLink>
           <NavLink
             to="/gateways"
             className={({ isActive }) =>
@@ -42,7 +75,48 @@ export function Sidebar() {
             <Radio className="h-5 w-5" />
             <span>Gateways</span>
           </NavLink>
+          <NavLink
+            to="/sensors"
+            className={({ isActive }) =>
+              cn(
+                'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
+                isActive
+                  ? 'bg-accent text-accent-foreground font-medium'
+                  : 'text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
+              )
+            }
+          >
+            <Activity className="h-5 w-5" />
+            <span>Sensors</span>
+          </NavLink>
+          {can('admin') && (
+            <NavLink
+              to="/audit"
+              className={({ isActive }) =>
+                cn(
+                  'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
+                  isActive
+                    ? 'bg-accent text-accent-foreground font-medium'
+                    : 'text-muted-foreground hover:bg-accent/50 hover:text-accent-foreground'
+                )
+              }
+            >
+              <ScrollText className="h-5 w-5" />
+              <span>Audit</span>
+            </NavLink>
+          )}
         </nav>
+
+        {/* Signed-in user */}
+        <div className="mt-auto border-t p-4">
+          <UserMenu />
+        </div>
+
+        {/* Live update stream status */}
+        <div className="flex items-center justify-between border-t p-4">
+          <span className="text-xs text-muted-foreground">Updates</span>
+          <Badge variant={live ? 'default' : 'secondary'}>{live ? 'Live' : 'Offline'}</Badge>
+        </div>
       </div>
     </aside>
   )
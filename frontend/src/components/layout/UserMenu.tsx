@@ -0,0 +1,39 @@
+import { useNavigate } from 'react-router-dom'
+import { LogOut } from 'lucide-react'
+import { useCurrentUser, useLogout } from '@/hooks/useAuth'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+// Signed-in user and sign-out button; compact shows only the button (mobile header)
+export function UserMenu({ compact = false }: { compact?: boolean }) {
+  const navigate = useNavigate()
+  const { data: user } = useCurrentUser()
+  const logout = useLogout()
+
+  async function handleLogout() {
+    // The session is dropped locally even if the request fails
+    await logout.mutateAsync().catch(() => undefined)
+    navigate('/login', { replace: true })
+  }
+
+  return (
+    <div className={cn('flex items-center gap-2', !compact && 'justify-between')}>
+      {!compact && (
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">{user?.name || user?.email}</p>
+          {user?.name && <p className="truncate text-xs text-muted-foreground">{user.email}</p>}
+        </div>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleLogout}
+        disabled={logout.isPending}
+        aria-label="Sign out"
+        title="Sign out"
+      >
+        <LogOut className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Activity, Loader2 } from 'lucide-react'
+import { useTakeReading } from '@/hooks/useSensors'
+import { useGateway } from '@/hooks/useGateways'
+import { usePermissions } from '@/hooks/useAuth'
+import { getApiErrorMessage } from '@/lib/api'
+import type { Sensor } from '@/types/api'
+import { Button } from '@/components/ui/button'
+
+interface TakeReadingButtonProps {
+  sensor: Sensor
+}
+
+// Triggers an on-demand reading and shows elapsed time while the gateway acquires.
+// Hidden unless the user is a technician (or above) at the sensor's factory.
+export function TakeReadingButton({ sensor }: TakeReadingButtonProps) {
+  const takeReading = useTakeReading()
+  const navigate = useNavigate()
+  const [elapsedSeconds, setElapsedSeconds] = useState(0)
+  const { data: gateway } = useGateway(sensor.gateway_id)
+  const { can } = usePermissions()
+
+  // Tick an elapsed-time counter while the request is in flight (readings take 10-60s)
+  useEffect(() => {
+    if (!takeReading.isPending) return
+    const startedAt = Date.now()
+    const timer = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000))
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [takeReading.isPending])
+
+  async function handleClick() {
+    setElapsedSeconds(0)
+    const label = sensor.name || `Sensor ${sensor.serial}`
+    try {
+      const reading = await takeReading.mutateAsync(sensor.id)
+      toast.success(`Reading stored for ${label}`, {
+        description: `${new Date(reading.recorded_at).toLocaleString()} · ${reading.sample_count} samples at ${reading.sample_rate} Hz`,
+        action: { label: 'View', onClick: () => navigate(`/readings/${reading.id}`) },
+      })
+    } catch (error) {
+      toast.error(`Reading failed for ${label}`, {
+        description: getApiErrorMessage(error, 'The gateway did not complete the reading'),
+      })
+    }
+  }
+
+  if (!gateway || !can('technician', { factoryId: gateway.factory_id })) return null
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleClick}
+      disabled={takeReading.isPending}
+    >
+      {takeReading.isPending ? (
+        <>
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Acquiring... {elapsedSeconds}s
+        </>
+      ) : (
+        <>
+          <Activity className="h-4 w-4 mr-2" />
+          Take reading
+        </>
+      )}
+    </Button>
+  )
+}
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditEvent,
+  PaginatedResponse,
+} from '@/types/api'
+
+export interface AuditFilters {
+  entity_type?: AuditEntityType
+  entity_id?: string
+  user_id?: string
+  action?: AuditAction
+  from?: string // ISO timestamp, inclusive
+  to?: string // ISO timestamp, inclusive
+  limit?: number
+  offset?: number
+}
+
+// Query key factory for hierarchical cache invalidation
+export const auditKeys = {
+  all: ['audit'] as const,
+  lists: () => [...auditKeys.all, 'list'] as const,
+  list: (filters: AuditFilters) => [...auditKeys.lists(), filters] as const,
+}
+
+// List audit events, newest first (admin role on every organization only)
+export function useAuditEvents(filters: AuditFilters = {}) {
+  return useQuery({
+    queryKey: auditKeys.list(filters),
+    queryFn: () => {
+      const searchParams = new URLSearchParams()
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') searchParams.set(key, String(value))
+      }
+
+      const query = searchParams.toString()
+      return api.get<PaginatedResponse<AuditEvent>>(`/audit${query ? `?${query}` : ''}`)
+    },
+  })
+}
@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api, getApiErrorStatus } from '@/lib/api'
+import type { CurrentUser, LoginInput, Role } from '@/types/api'
+
+// Roles from least to most privileged (each includes the ones before it)
+const ROLES: Role[] = ['viewer', 'technician', 'engineer', 'admin']
+
+// Query key factory for the signed-in user
+export const authKeys = {
+  all: ['auth'] as const,
+  me: () => [...authKeys.all, 'me'] as const,
+}
+
+/**
+ * Fetch the signed-in user; null when there is no valid session.
+ */
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: authKeys.me(),
+    queryFn: async () => {
+      try {
+        return await api.get<CurrentUser>('/auth/me')
+      } catch (error) {
+        if (getApiErrorStatus(error) === 401) return null
+        throw error
+      }
+    },
+    staleTime: Infinity, // Changes only through login/logout or a 401
+    retry: false,
+  })
+}
+
+/**
+ * Sign in with email and password (the server sets the session cookie).
+ */
+export function useLogin() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: LoginInput) => api.post<CurrentUser>('/auth/login', data),
+    onSuccess: (user) => {
+      queryClient.setQueryData(authKeys.me(), user)
+    },
+  })
+}
+
+/**
+ * Sign out and drop every cached query of the previous user.
+ */
+export function useLogout() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => api.post<void>('/auth/logout', {}),
+    onSettled: () => {
+      queryClient.clear()
+      queryClient.setQueryData(authKeys.me(), null)
+    },
+  })
+}
+
+/**
+ * Whether the signed-in user's roles allow an action, for hiding controls.
+ * The API enforces the same rules; this only keeps disallowed actions out of view.
+ *
+ * can(role) checks the role on every organization; pass a factory or organization
+ * ID to check the role there.
+ */
+export function usePermissions() {
+  const { data: user } = useCurrentUser()
+
+  function can(required: Role, scope: { factoryId?: string; organizationId?: string } = {}) {
+    if (!user) return false
+    const { access } = user
+    const role =
+      (scope.factoryId && access.factories[scope.factoryId]) ||
+      (scope.organizationId && access.organizations[scope.organizationId]) ||
+      access.global
+    return !!role && ROLES.indexOf(role) >= ROLES.indexOf(required)
+  }
+
+  return { can }
+}
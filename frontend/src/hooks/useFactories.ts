@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '@/lib/api'
+import { organizationKeys } from '@/hooks/useOrganizations'
 import type {
   Factory,
   CreateFactoryInput,
@@ -63,6 +64,7 @@ export function useCreateFactory() {
       api.post<Factory>('/factories', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: factoryKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: organizationKeys.details() })
     },
   })
 }
@@ -104,6 +106,7 @@ export function useUpdateFactory() {
       // Sync with server regardless of success/error
       queryClient.invalidateQueries({ queryKey: factoryKeys.detail(id) })
       queryClient.invalidateQueries({ queryKey: factoryKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: organizationKeys.details() })
     },
   })
 }
@@ -118,6 +121,7 @@ export function useDeleteFactory() {
     mutationFn: (id: string) => api.delete(`/factories/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: factoryKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: organizationKeys.details() })
     },
   })
 }
@@ -1,6 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '@/lib/api'
-import type { Gateway, CreateGatewayInput, UpdateGatewayInput, PaginatedResponse } from '@/types/api'
+import type {
+  Gateway,
+  FirmwareChange,
+  GatewayConnectionEvent,
+  GatewayConnectionTest,
+  GatewayStatus,
+  TestGatewayConnectionInput,
+  CreateGatewayInput,
+  UpdateGatewayInput,
+  PaginatedResponse,
+} from '@/types/api'
 
 // Query key factory for hierarchical cache invalidation
 export const gatewayKeys = {
@@ -10,6 +20,12 @@ export const gatewayKeys = {
     [...gatewayKeys.lists(), filters] as const,
   details: () => [...gatewayKeys.all, 'detail'] as const,
   detail: (id: string) => [...gatewayKeys.details(), id] as const,
+  // Under detail(id), so gateway.state live events refresh them too
+  status: (id: string) => [...gatewayKeys.detail(id), 'status'] as const,
+  events: (id: string, filters: { limit?: number; offset?: number }) =>
+    [...gatewayKeys.detail(id), 'events', filters] as const,
+  firmware: (id: string, filters: { limit?: number; offset?: number }) =>
+    [...gatewayKeys.detail(id), 'firmware', filters] as const,
 }
 
 // List gateways with optional factory filter
@@ -37,6 +53,33 @@ export function useGateway(id: string) {
   })
 }
 
+// Connection health of a gateway's supervisor session
+export function useGatewayStatus(id: string) {
+  return useQuery({
+    queryKey: gatewayKeys.status(id),
+    queryFn: () => api.get<GatewayStatus>(`/gateways/${id}/status`),
+    enabled: !!id,
+  })
+}
+
+// Connection event timeline of a gateway, newest first
+export function useGatewayEvents(id: string, params?: { limit?: number; offset?: number }) {
+  return useQuery({
+    queryKey: gatewayKeys.events(id, params || {}),
+    queryFn: async () => {
+      const searchParams = new URLSearchParams()
+      if (params?.limit) searchParams.set('limit', params.limit.toString())
+      if (params?.offset) searchParams.set('offset', params.offset.toString())
+
+      const query = searchParams.toString()
+      return api.get<PaginatedResponse<GatewayConnectionEvent>>(
+        `/gateways/${id}/events${query ? `?${query}` : ''}`,
+      )
+    },
+    enabled: !!id,
+  })
+}
+
 // Create gateway
 export function useCreateGateway() {
   const queryClient = useQueryClient()
@@ -88,6 +131,35 @@ export function useUpdateGateway() {
   })
 }
 
+// Firmware changes of a gateway and its sensors, newest first
+export function useGatewayFirmwareHistory(id: string, params?: { limit?: number; offset?: number }) {
+  return useQuery({
+    queryKey: gatewayKeys.firmware(id, params || {}),
+    queryFn: async () => {
+      const searchParams = new URLSearchParams()
+      if (params?.limit) searchParams.set('limit', params.limit.toString())
+      if (params?.offset) searchParams.set('offset', params.offset.toString())
+
+      const query = searchParams.toString()
+      return api.get<PaginatedResponse<FirmwareChange>>(
+        `/gateways/${id}/firmware-history${query ? `?${query}` : ''}`,
+      )
+    },
+    enabled: !!id,
+  })
+}
+
+// Test connection settings: a saved gateway's (id given) or an unsaved one's
+export function useTestGatewayConnection() {
+  return useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: TestGatewayConnectionInput }) =>
+      api.post<GatewayConnectionTest>(
+        id ? `/gateways/${id}/test-connection` : '/gateways/test-connection',
+        data,
+      ),
+  })
+}
+
 // Delete gateway (soft delete)
 export function useDeleteGateway() {
   const queryClient = useQueryClient()
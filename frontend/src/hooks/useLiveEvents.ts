@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react'
+import { useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { gatewayKeys } from '@/hooks/useGateways'
+import { sensorKeys } from '@/hooks/useSensors'
+import type { LiveEvent } from '@/types/api'
+
+const LIVE_EVENT_TYPES: LiveEvent['type'][] = [
+  'gateway.state',
+  'reading.started',
+  'reading.created',
+  'temperature',
+  'alarm.changed',
+]
+
+// Refresh the cached queries an event makes stale
+function applyLiveEvent(queryClient: QueryClient, event: LiveEvent) {
+  switch (event.type) {
+    case 'gateway.state':
+      queryClient.invalidateQueries({ queryKey: gatewayKeys.detail(event.gateway_id) })
+      queryClient.invalidateQueries({ queryKey: gatewayKeys.lists() })
+      break
+    case 'reading.created':
+      // Taking a reading refreshes discovery, so connected state may have changed
+      queryClient.invalidateQueries({ queryKey: sensorKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: sensorKeys.details() })
+      queryClient.invalidateQueries({ queryKey: sensorKeys.trends() })
+      break
+    default:
+      break
+  }
+}
+
+// Subscribe to GET /api/stream and keep query caches in step with the backend
+// Events are not replayed, so caches are refetched whenever the stream reconnects
+export function useLiveEvents(
+  filters?: { factory_id?: string; gateway_id?: string },
+  onEvent?: (event: LiveEvent) => void,
+) {
+  const queryClient = useQueryClient()
+  const [connected, setConnected] = useState(false)
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  const factoryId = filters?.factory_id
+  const gatewayId = filters?.gateway_id
+
+  useEffect(() => {
+    const searchParams = new URLSearchParams()
+    if (factoryId) searchParams.set('factory_id', factoryId)
+    if (gatewayId) searchParams.set('gateway_id', gatewayId)
+    const query = searchParams.toString()
+
+    const source = new EventSource(`/api/stream${query ? `?${query}` : ''}`)
+    let hasOpened = false
+
+    source.onopen = () => {
+      if (hasOpened) {
+        queryClient.invalidateQueries({ queryKey: gatewayKeys.all })
+        queryClient.invalidateQueries({ queryKey: sensorKeys.all })
+      }
+      hasOpened = true
+      setConnected(true)
+    }
+    // EventSource reconnects by itself after the server's retry delay
+    source.onerror = () => setConnected(false)
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as LiveEvent
+      applyLiveEvent(queryClient, event)
+      onEventRef.current?.(event)
+    }
+    for (const type of LIVE_EVENT_TYPES) {
+      source.addEventListener(type, handleMessage)
+    }
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [queryClient, factoryId, gatewayId])
+
+  return { connected }
+}
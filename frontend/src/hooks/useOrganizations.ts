@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type {
+  Factory,
+  Organization,
+  CreateOrganizationInput,
+  UpdateOrganizationInput,
+  PaginatedResponse,
+} from '@/types/api'
+
+/**
+ * Query key factory for organizations.
+ * Hierarchical structure enables precise cache invalidation.
+ */
+export const organizationKeys = {
+  all: ['organizations'] as const,
+  lists: () => [...organizationKeys.all, 'list'] as const,
+  list: (filters: { limit?: number; offset?: number }) =>
+    [...organizationKeys.lists(), filters] as const,
+  details: () => [...organizationKeys.all, 'detail'] as const,
+  detail: (id: string) => [...organizationKeys.details(), id] as const,
+  factories: (id: string) => [...organizationKeys.detail(id), 'factories'] as const,
+}
+
+/**
+ * Fetch paginated list of organizations.
+ */
+export function useOrganizations(params?: { limit?: number; offset?: number }) {
+  return useQuery({
+    queryKey: organizationKeys.list(params || {}),
+    queryFn: async () => {
+      const searchParams = new URLSearchParams()
+      if (params?.limit !== undefined) {
+        searchParams.set('limit', params.limit.toString())
+      }
+      if (params?.offset !== undefined) {
+        searchParams.set('offset', params.offset.toString())
+      }
+      const query = searchParams.toString()
+      const endpoint = query ? `/organizations?${query}` : '/organizations'
+      return api.get<PaginatedResponse<Organization>>(endpoint)
+    },
+  })
+}
+
+/**
+ * Fetch the factories of an organization (first 100).
+ */
+export function useOrganizationFactories(id: string) {
+  return useQuery({
+    queryKey: organizationKeys.factories(id),
+    queryFn: () =>
+      api.get<PaginatedResponse<Factory>>(`/organizations/${id}/factories?limit=100`),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Create new organization.
+ */
+export function useCreateOrganization() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateOrganizationInput) =>
+      api.post<Organization>('/organizations', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.lists() })
+    },
+  })
+}
+
+/**
+ * Update existing organization.
+ */
+export function useUpdateOrganization() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateOrganizationInput }) =>
+      api.put<Organization>(`/organizations/${id}`, data),
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.detail(id) })
+      queryClient.invalidateQueries({ queryKey: organizationKeys.lists() })
+    },
+  })
+}
+
+/**
+ * Delete (soft-delete) organization.
+ * Fails with 409 ORGANIZATION_NOT_EMPTY while it still has factories.
+ */
+export function useDeleteOrganization() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/organizations/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationKeys.lists() })
+    },
+  })
+}
@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import { sensorKeys } from '@/hooks/useSensors'
+import type {
+  Area,
+  Asset,
+  CreateAreaInput,
+  CreateAssetInput,
+  CreateMeasurementPointInput,
+  MeasurementPoint,
+  PlantHierarchy,
+  UpdateMeasurementPointInput,
+} from '@/types/api'
+
+// Query key factory for hierarchical cache invalidation
+export const plantKeys = {
+  all: ['plant'] as const,
+  hierarchies: () => [...plantKeys.all, 'hierarchy'] as const,
+  hierarchy: (factoryId: string) => [...plantKeys.hierarchies(), factoryId] as const,
+}
+
+// Get the area -> asset -> measurement point tree of a factory
+export function usePlantHierarchy(factoryId: string) {
+  return useQuery({
+    queryKey: plantKeys.hierarchy(factoryId),
+    queryFn: () => api.get<PlantHierarchy>(`/factories/${factoryId}/hierarchy`),
+    enabled: !!factoryId,
+  })
+}
+
+// Every plant mutation changes the tree; mounting also changes the sensor's asset
+function usePlantMutation<TVariables, TData>(mutationFn: (variables: TVariables) => Promise<TData>) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: plantKeys.all })
+      queryClient.invalidateQueries({ queryKey: sensorKeys.all })
+    },
+  })
+}
+
+export function useCreateArea() {
+  return usePlantMutation((data: CreateAreaInput) => api.post<Area>('/areas', data))
+}
+
+// Fails with 409 AREA_NOT_EMPTY while the area still has assets
+export function useDeleteArea() {
+  return usePlantMutation((id: string) => api.delete(`/areas/${id}`))
+}
+
+export function useCreateAsset() {
+  return usePlantMutation((data: CreateAssetInput) => api.post<Asset>('/assets', data))
+}
+
+// Also deletes the asset's measurement points
+export function useDeleteAsset() {
+  return usePlantMutation((id: string) => api.delete(`/assets/${id}`))
+}
+
+export function useCreateMeasurementPoint() {
+  return usePlantMutation((data: CreateMeasurementPointInput) =>
+    api.post<MeasurementPoint>('/measurement-points', data),
+  )
+}
+
+// Set sensor_id to mount a sensor on the point, or null to unmount it
+export function useUpdateMeasurementPoint() {
+  return usePlantMutation(({ id, data }: { id: string; data: UpdateMeasurementPointInput }) =>
+    api.put<MeasurementPoint>(`/measurement-points/${id}`, data),
+  )
+}
+
+export function useDeleteMeasurementPoint() {
+  return usePlantMutation((id: string) => api.delete(`/measurement-points/${id}`))
+}
@@ -0,0 +1,53 @@
+import { useQueries, useQuery } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type { Axis, Reading, SignalUnit, Spectrum, SpectrumWindow, Waveform } from '@/types/api'
+
+// Query key factory for hierarchical cache invalidation
+export const readingKeys = {
+  all: ['readings'] as const,
+  details: () => [...readingKeys.all, 'detail'] as const,
+  detail: (id: string) => [...readingKeys.details(), id] as const,
+  waveform: (id: string, unit: SignalUnit) => [...readingKeys.detail(id), 'waveform', unit] as const,
+  spectrum: (id: string, params: SpectrumParams) =>
+    [...readingKeys.detail(id), 'spectrum', params] as const,
+}
+
+export interface SpectrumParams {
+  axis: Axis
+  unit: SignalUnit
+  window: SpectrumWindow
+}
+
+// Get reading summary and metrics by ID
+export function useReading(id: string) {
+  return useQuery({
+    queryKey: readingKeys.detail(id),
+    queryFn: () => api.get<Reading>(`/readings/${id}`),
+    enabled: !!id,
+  })
+}
+
+// Get the X/Y/Z time waveform (stored readings never change, so it is cached indefinitely)
+export function useReadingWaveform(id: string, unit: SignalUnit) {
+  return useQuery({
+    queryKey: readingKeys.waveform(id, unit),
+    queryFn: () => api.get<Waveform>(`/readings/${id}/waveform?unit=${encodeURIComponent(unit)}`),
+    enabled: !!id,
+    staleTime: Infinity,
+  })
+}
+
+// Get the amplitude spectrum of each requested axis
+export function useReadingSpectra(id: string, axes: Axis[], params: Omit<SpectrumParams, 'axis'>) {
+  return useQueries({
+    queries: axes.map((axis) => ({
+      queryKey: readingKeys.spectrum(id, { ...params, axis }),
+      queryFn: () => {
+        const searchParams = new URLSearchParams({ axis, unit: params.unit, window: params.window })
+        return api.get<Spectrum>(`/readings/${id}/spectrum?${searchParams.toString()}`)
+      },
+      enabled: !!id,
+      staleTime: Infinity,
+    })),
+  })
+}
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type {
+  Axis,
+  Sensor,
+  SensorTrend,
+  Reading,
+  PaginatedResponse,
+  TrendMetric,
+} from '@/types/api'
+
+// Query key factory for hierarchical cache invalidation
+export const sensorKeys = {
+  all: ['sensors'] as const,
+  lists: () => [...sensorKeys.all, 'list'] as const,
+  list: (filters: { gateway_id?: string; limit?: number; offset?: number }) =>
+    [...sensorKeys.lists(), filters] as const,
+  details: () => [...sensorKeys.all, 'detail'] as const,
+  detail: (id: string) => [...sensorKeys.details(), id] as const,
+  trends: () => [...sensorKeys.all, 'trend'] as const,
+  trend: (id: string, params: TrendParams) => [...sensorKeys.trends(), id, params] as const,
+}
+
+export interface TrendParams {
+  metric: TrendMetric
+  axis: Axis | null // null trends the largest of the three axes
+  rangeMs: number // history ending now
+}
+
+// List sensors with optional gateway filter
+export function useSensors(params?: { gateway_id?: string; limit?: number; offset?: number }) {
+  return useQuery({
+    queryKey: sensorKeys.list(params || {}),
+    queryFn: async () => {
+      const searchParams = new URLSearchParams()
+      if (params?.gateway_id) searchParams.set('gateway_id', params.gateway_id)
+      if (params?.limit) searchParams.set('limit', params.limit.toString())
+      if (params?.offset) searchParams.set('offset', params.offset.toString())
+
+      const query = searchParams.toString()
+      return api.get<PaginatedResponse<Sensor>>(`/sensors${query ? `?${query}` : ''}`)
+    },
+  })
+}
+
+// Get sensor by ID
+export function useSensor(id: string) {
+  return useQuery({
+    queryKey: sensorKeys.detail(id),
+    queryFn: () => api.get<Sensor>(`/sensors/${id}`),
+    enabled: !!id,
+  })
+}
+
+// Get one metric per reading over the last rangeMs, with the alarm thresholds that apply
+// The range ends when the query runs, so refetches pick up new readings
+export function useSensorTrend(id: string, params: TrendParams) {
+  return useQuery({
+    queryKey: sensorKeys.trend(id, params),
+    queryFn: () => {
+      const searchParams = new URLSearchParams({
+        metric: params.metric,
+        from: new Date(Date.now() - params.rangeMs).toISOString(),
+      })
+      if (params.axis) searchParams.set('axis', params.axis)
+      return api.get<SensorTrend>(`/sensors/${id}/trend?${searchParams.toString()}`)
+    },
+    enabled: !!id,
+  })
+}
+
+// Take a reading now (resolves once the gateway has delivered and the reading is stored)
+export function useTakeReading() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (sensorId: string) => api.post<Reading>(`/sensors/${sensorId}/readings`, {}),
+    onSettled: () => {
+      // Readings refresh discovery, so connected state may have changed
+      queryClient.invalidateQueries({ queryKey: sensorKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: sensorKeys.details() })
+      queryClient.invalidateQueries({ queryKey: sensorKeys.trends() })
+    },
+  })
+}
@@ -3,6 +3,13 @@ import type { ApiError } from '@/types/api'
 const API_BASE = '/api'
 
 class ApiClient {
+  private unauthorizedHandler: (() => void) | null = null
+
+  // Called when a request fails with 401 because the session expired or was ended
+  setUnauthorizedHandler(handler: (() => void) | null) {
+    this.unauthorizedHandler = handler
+  }
+
   private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
     const url = `${API_BASE}${endpoint}`
     const response = await fetch(url, {
@@ -10,9 +17,15 @@ class ApiClient {
         'Content-Type': 'application/json',
         ...options?.headers,
       },
+      credentials: 'include', // Send the session cookie
       ...options,
     })
 
+    // A failed sign-in is a form error, not a lost session
+    if (response.status === 401 && endpoint !== '/auth/login') {
+      this.unauthorizedHandler?.()
+    }
+
     if (!response.ok) {
       let error: ApiError
       try {
@@ -68,3 +81,24 @@ class ApiClient {
 }
 
 export const api = new ApiClient()
+
+// HTTP status of a thrown API error, if it carries one
+export function getApiErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object') {
+    const body = error as { error?: { statusCode?: unknown }; statusCode?: unknown }
+    if (body.error && typeof body.error.statusCode === 'number') return body.error.statusCode
+    if (typeof body.statusCode === 'number') return body.statusCode
+  }
+  return undefined
+}
+
+// Extract a human-readable message from a thrown API error
+// The backend error handler sends { error: { code, message, statusCode } }
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object') {
+    const body = error as { error?: { message?: unknown }; message?: unknown }
+    if (body.error && typeof body.error.message === 'string') return body.error.message
+    if (typeof body.message === 'string') return body.message
+  }
+  return fallback
+}
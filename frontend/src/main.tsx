@@ -6,19 +6,38 @@ import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { queryClient } from '@/lib/query-client'
 import { Toaster } from '@/components/ui/sonner'
 import { AppLayout } from '@/components/layout/AppLayout'
+import { RequireAuth } from '@/components/layout/RequireAuth'
+import { LoginPage } from '@/pages/LoginPage'
+import { OrganizationsPage } from '@/pages/OrganizationsPage'
 import { FactoriesPage } from '@/pages/FactoriesPage'
+import { PlantPage } from '@/pages/PlantPage'
 import { GatewaysPage } from '@/pages/GatewaysPage'
+import { SensorsPage } from '@/pages/SensorsPage'
+import { SensorPage } from '@/pages/SensorPage'
+import { ReadingPage } from '@/pages/ReadingPage'
+import { AuditPage } from '@/pages/AuditPage'
 import { NotFoundPage } from '@/pages/NotFoundPage'
 import './index.css'
 
 const router = createBrowserRouter([
+  { path: '/login', element: <LoginPage /> },
   {
     path: '/',
-    element: <AppLayout />,
+    element: (
+      <RequireAuth>
+        <AppLayout />
+      </RequireAuth>
+    ),
     children: [
       { index: true, element: <Navigate to="/factories" replace /> },
+      { path: 'organizations', element: <OrganizationsPage /> },
       { path: 'factories', element: <FactoriesPage /> },
+      { path: 'plant', element: <PlantPage /> },
       { path: 'gateways', element: <GatewaysPage /> },
+      { path: 'sensors', element: <SensorsPage /> },
+      { path: 'sensors/:id', element: <SensorPage /> },
+      { path: 'readings/:id', element: <ReadingPage /> },
+      { path: 'audit', element: <AuditPage /> },
       { path: '*', element: <NotFoundPage /> },
     ],
   },
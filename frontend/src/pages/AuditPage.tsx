@@ -0,0 +1,331 @@
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { useAuditEvents, type AuditFilters } from '@/hooks/useAudit'
+import type { AuditAction, AuditEntityType, AuditEvent } from '@/types/api'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+const PAGE_SIZE = 50
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  organization: 'Organization',
+  factory: 'Factory',
+  gateway: 'Gateway',
+  sensor: 'Sensor',
+  acquisition_schedule: 'Acquisition schedule',
+  reading: 'Reading',
+  area: 'Area',
+  asset: 'Asset',
+  measurement_point: 'Measurement point',
+  alarm_rule: 'Alarm rule',
+  alarm_event: 'Alarm',
+  user: 'User',
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  acknowledge: 'Acknowledged',
+  clear: 'Cleared',
+  test_connection: 'Tested connection',
+  login: 'Signed in',
+  logout: 'Signed out',
+}
+
+const selectClassName = cn(
+  'flex h-9 w-full sm:w-[180px] rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+  'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+  'disabled:cursor-not-allowed disabled:opacity-50'
+)
+
+// Stored change values are JSON; show strings as-is and everything else as JSON
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+// Local calendar day (yyyy-mm-dd from a date input) to the ISO timestamp of its start or end
+function dayBoundary(day: string, end: boolean): string | undefined {
+  if (!day) return undefined
+  const date = new Date(`${day}T00:00:00`)
+  if (end) date.setDate(date.getDate() + 1)
+  return new Date(date.getTime() - (end ? 1 : 0)).toISOString()
+}
+
+function ChangeList({ event }: { event: AuditEvent }) {
+  const fields = Object.entries(event.changes)
+  if (fields.length === 0) {
+    return <span className="text-muted-foreground">{'—'}</span>
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {fields.map(([field, change]) => (
+        <li key={field} className="break-all">
+          <span className="font-mono font-medium">{field}</span>{' '}
+          {event.action === 'create' ? (
+            formatValue(change.after)
+          ) : event.action === 'delete' ? (
+            <span className="text-muted-foreground">{formatValue(change.before)}</span>
+          ) : (
+            <>
+              <span className="text-muted-foreground line-through">
+                {formatValue(change.before)}
+              </span>
+              {' → '}
+              {formatValue(change.after)}
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function AuditPage() {
+  // UI state
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('')
+  const [action, setAction] = useState<AuditAction | ''>('')
+  const [fromDay, setFromDay] = useState('')
+  const [toDay, setToDay] = useState('')
+  const [offset, setOffset] = useState(0)
+
+  // Data fetching
+  const filters: AuditFilters = {
+    entity_type: entityType || undefined,
+    action: action || undefined,
+    from: dayBoundary(fromDay, false),
+    to: dayBoundary(toDay, true),
+    limit: PAGE_SIZE,
+    offset,
+  }
+  const { data, isLoading, isError, error } = useAuditEvents(filters)
+
+  const hasFilters = !!(entityType || action || fromDay || toDay)
+
+  // Any filter change starts again from the newest events
+  function updateFilter(apply: () => void) {
+    apply()
+    setOffset(0)
+  }
+
+  function clearFilters() {
+    updateFilter(() => {
+      setEntityType('')
+      setAction('')
+      setFromDay('')
+      setToDay('')
+    })
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error Loading Audit Log</CardTitle>
+          <CardDescription>{error?.message || 'An unknown error occurred'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">
+          Configuration changes made through the API, newest first
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:flex-wrap sm:items-end">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="entity-filter">Entity</Label>
+          <select
+            id="entity-filter"
+            className={selectClassName}
+            value={entityType}
+            onChange={(e) =>
+              updateFilter(() => setEntityType(e.target.value as AuditEntityType | ''))
+            }
+          >
+            <option value="">All entities</option>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="action-filter">Action</Label>
+          <select
+            id="action-filter"
+            className={selectClassName}
+            value={action}
+            onChange={(e) => updateFilter(() => setAction(e.target.value as AuditAction | ''))}
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="from-filter">From</Label>
+          <Input
+            id="from-filter"
+            type="date"
+            className="sm:w-[160px]"
+            value={fromDay}
+            onChange={(e) => updateFilter(() => setFromDay(e.target.value))}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="to-filter">To</Label>
+          <Input
+            id="to-filter"
+            type="date"
+            className="sm:w-[160px]"
+            value={toDay}
+            onChange={(e) => updateFilter(() => setToDay(e.target.value))}
+          />
+        </div>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {/* Event table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {data
+              ? `${data.pagination.total} ${data.pagination.total === 1 ? 'event' : 'events'}`
+              : 'Events'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !data ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Entity</TableHead>
+                      <TableHead>Changes</TableHead>
+                      <TableHead className="hidden lg:table-cell">Request</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.data.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          <p className="text-muted-foreground">
+                            {hasFilters ? 'No events match these filters' : 'No events yet'}
+                          </p>
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      data.data.map((event) => (
+                        <TableRow key={event.id} className="align-top">
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(event.occurred_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell>{event.actor_email || '—'}</TableCell>
+                          <TableCell>
+                            <Badge variant={event.action === 'delete' ? 'destructive' : 'secondary'}>
+                              {ACTION_LABELS[event.action]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div>{ENTITY_LABELS[event.entity_type]}</div>
+                            {event.entity_id && (
+                              <div className="font-mono text-xs text-muted-foreground">
+                                {event.entity_id.slice(0, 8)}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-md">
+                            <ChangeList event={event} />
+                          </TableCell>
+                          <TableCell className="hidden lg:table-cell">
+                            <div className="font-mono text-xs text-muted-foreground">
+                              {event.request_id?.slice(0, 8) || '—'}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {event.ip_address || ''}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Pagination */}
+              {(data.pagination.hasPrev || data.pagination.hasNext) && (
+                <div className="flex items-center justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!data.pagination.hasPrev}
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!data.pagination.hasNext}
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -7,8 +7,15 @@ import {
   useUpdateFactory,
   useDeleteFactory,
 } from '@/hooks/useFactories'
-import { FactoryForm, type FactoryFormData } from '@/components/forms/FactoryForm'
-import type { Factory, CreateFactoryInput } from '@/types/api'
+import { useOrganizations } from '@/hooks/useOrganizations'
+import { usePermissions } from '@/hooks/useAuth'
+import { getApiErrorMessage } from '@/lib/api'
+import {
+  FactoryForm,
+  type FactoryFormData,
+  type FactoryCreateData,
+} from '@/components/forms/FactoryForm'
+import type { Factory } from '@/types/api'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -43,9 +50,6 @@ import {
   TableRow,
 } from '@/components/ui/table'
 
-// v1.1: single organization -- replace with org selector when multi-tenancy is added
-const DEFAULT_ORG_ID = '00000000-0000-0000-0000-000000000001'
-
 export function FactoriesPage() {
   // UI state
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
@@ -54,6 +58,17 @@ export function FactoriesPage() {
 
   // Data fetching
   const { data, isLoading, isError, error } = useFactories()
+  const { data: organizationData } = useOrganizations({ limit: 100 })
+  const organizations = organizationData?.data ?? []
+
+  // Factories are created by organization admins and managed by factory admins
+  const { can } = usePermissions()
+  const adminOrganizations = organizations.filter((o) => can('admin', { organizationId: o.id }))
+  const canCreate = adminOrganizations.length > 0
+
+  // Organization name lookup helper
+  const getOrganizationName = (organization_id: string): string =>
+    organizations.find((o) => o.id === organization_id)?.name || organization_id
 
   // Mutation hooks
   const createFactory = useCreateFactory()
@@ -61,16 +76,13 @@ export function FactoriesPage() {
   const deleteFactory = useDeleteFactory()
 
   // Handler functions
-  async function handleCreate(formData: FactoryFormData) {
+  async function handleCreate(formData: FactoryFormData | FactoryCreateData) {
     try {
-      await createFactory.mutateAsync({
-        organization_id: DEFAULT_ORG_ID,
-        ...formData,
-      } as CreateFactoryInput)
+      await createFactory.mutateAsync(formData as FactoryCreateData)
       toast.success('Factory created successfully')
       setIsCreateDialogOpen(false)
-    } catch {
-      toast.error('Failed to create factory')
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to create factory'))
     }
   }
 
@@ -142,10 +154,12 @@ export function FactoriesPage() {
             Manage your factory locations
           </p>
         </div>
-        <Button onClick={() => setIsCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Factory
-        </Button>
+        {canCreate && (
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Factory
+          </Button>
+        )}
       </div>
 
       {/* Factory table */}
@@ -161,6 +175,7 @@ export function FactoriesPage() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Name</TableHead>
+                  <TableHead className="hidden md:table-cell">Organization</TableHead>
                   <TableHead>Location</TableHead>
                   <TableHead>Timezone</TableHead>
                   <TableHead className="hidden md:table-cell">Created</TableHead>
@@ -170,20 +185,24 @@ export function FactoriesPage() {
               <TableBody>
                 {data.data.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8">
+                    <TableCell colSpan={6} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <p className="text-muted-foreground">No factories yet</p>
-                        <p className="text-sm text-muted-foreground">
-                          Create your first factory to get started.
-                        </p>
-                        <Button
-                          onClick={() => setIsCreateDialogOpen(true)}
-                          variant="outline"
-                          className="mt-2"
-                        >
-                          <Plus className="h-4 w-4 mr-2" />
-                          Add Factory
-                        </Button>
+                        {canCreate && (
+                          <>
+                            <p className="text-sm text-muted-foreground">
+                              Create your first factory to get started.
+                            </p>
+                            <Button
+                              onClick={() => setIsCreateDialogOpen(true)}
+                              variant="outline"
+                              className="mt-2"
+                            >
+                              <Plus className="h-4 w-4 mr-2" />
+                              Add Factory
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -191,28 +210,33 @@ export function FactoriesPage() {
                   data.data.map((factory) => (
                     <TableRow key={factory.id}>
                       <TableCell className="font-medium">{factory.name}</TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {getOrganizationName(factory.organization_id)}
+                      </TableCell>
                       <TableCell>{factory.location || '—'}</TableCell>
                       <TableCell>{factory.timezone}</TableCell>
                       <TableCell className="hidden md:table-cell">
                         {new Date(factory.created_at).toLocaleDateString()}
                       </TableCell>
                       <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setEditingFactory(factory)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setDeletingFactory(factory)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        {can('admin', { factoryId: factory.id }) && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingFactory(factory)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletingFactory(factory)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -233,6 +257,12 @@ export function FactoriesPage() {
             </DialogDescription>
           </DialogHeader>
           <FactoryForm
+            organizations={adminOrganizations}
+            defaultValues={
+              adminOrganizations.length === 1
+                ? { organization_id: adminOrganizations[0].id }
+                : undefined
+            }
             onSubmit={handleCreate}
             isSubmitting={createFactory.isPending}
             submitLabel="Create Factory"
@@ -8,11 +8,14 @@ import {
   useDeleteGateway,
 } from '@/hooks/useGateways'
 import { useFactories } from '@/hooks/useFactories'
+import { usePermissions } from '@/hooks/useAuth'
 import {
   GatewayForm,
   type GatewayFormData,
   type GatewayEditData,
 } from '@/components/forms/GatewayForm'
+import { GatewayConnectionBadge } from '@/components/gateways/GatewayConnectionBadge'
+import { GatewayDetailSheet } from '@/components/gateways/GatewayDetailSheet'
 import type { Gateway, CreateGatewayInput, UpdateGatewayInput } from '@/types/api'
 import { Button } from '@/components/ui/button'
 import {
@@ -48,13 +51,14 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Label } from '@/components/ui/label'
-import { cn } from '@/lib/utils'
+import { cn, formatRelativeTime } from '@/lib/utils'
 
 export function GatewaysPage() {
   // UI state
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [editingGateway, setEditingGateway] = useState<Gateway | null>(null)
   const [deletingGateway, setDeletingGateway] = useState<Gateway | null>(null)
+  const [selectedGatewayId, setSelectedGatewayId] = useState<string | null>(null)
   const [factoryFilter, setFactoryFilter] = useState('')
 
   // Data fetching
@@ -62,6 +66,13 @@ export function GatewaysPage() {
   const { data: gatewayData, isLoading, isError, error } = useGateways(gatewayParams)
   const { data: factoryData } = useFactories()
 
+  // Gateways are managed by engineers of their factory
+  const { can } = usePermissions()
+  const engineerFactories = (factoryData?.data ?? []).filter((f) =>
+    can('engineer', { factoryId: f.id }),
+  )
+  const canCreate = engineerFactories.length > 0
+
   // Mutation hooks
   const createGateway = useCreateGateway()
   const updateGateway = useUpdateGateway()
@@ -147,6 +158,9 @@ export function GatewaysPage() {
     return null
   }
 
+  // Looked up on every render so the drawer follows list refetches (live state changes)
+  const selectedGateway = gatewayData.data.find((g) => g.id === selectedGatewayId) ?? null
+
   // Sort factories alphabetically by name for filter dropdown
   const sortedFactories = factoryData?.data
     ? [...factoryData.data].sort((a, b) => a.name.localeCompare(b.name))
@@ -162,10 +176,12 @@ export function GatewaysPage() {
             Manage gateway connections
           </p>
         </div>
-        <Button onClick={() => setIsCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Gateway
-        </Button>
+        {canCreate && (
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Gateway
+          </Button>
+        )}
       </div>
 
       {/* Factory filter dropdown */}
@@ -215,8 +231,11 @@ export function GatewaysPage() {
                   <TableHead>Factory</TableHead>
                   <TableHead>Gateway ID</TableHead>
                   <TableHead>Name</TableHead>
-                  <TableHead>URL</TableHead>
-                  <TableHead className="hidden md:table-cell">Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="hidden md:table-cell">Last Seen</TableHead>
+                  <TableHead className="hidden md:table-cell">Sensors</TableHead>
+                  <TableHead className="hidden xl:table-cell">URL</TableHead>
+                  <TableHead className="hidden xl:table-cell">Email</TableHead>
                   <TableHead className="hidden lg:table-cell">Model</TableHead>
                   <TableHead className="hidden lg:table-cell">Firmware</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -225,26 +244,30 @@ export function GatewaysPage() {
               <TableBody>
                 {gatewayData.data.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <p className="text-muted-foreground">
                           {factoryFilter
                             ? 'No gateways for this factory'
                             : 'No gateways yet'}
                         </p>
-                        <p className="text-sm text-muted-foreground">
-                          {factoryFilter
-                            ? 'Try selecting a different factory or clearing the filter.'
-                            : 'Create your first gateway to get started.'}
-                        </p>
-                        <Button
-                          onClick={() => setIsCreateDialogOpen(true)}
-                          variant="outline"
-                          className="mt-2"
-                        >
-                          <Plus className="h-4 w-4 mr-2" />
-                          Add Gateway
-                        </Button>
+                        {(factoryFilter || canCreate) && (
+                          <p className="text-sm text-muted-foreground">
+                            {factoryFilter
+                              ? 'Try selecting a different factory or clearing the filter.'
+                              : 'Create your first gateway to get started.'}
+                          </p>
+                        )}
+                        {canCreate && (
+                          <Button
+                            onClick={() => setIsCreateDialogOpen(true)}
+                            variant="outline"
+                            className="mt-2"
+                          >
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Gateway
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -255,30 +278,49 @@ export function GatewaysPage() {
                         {getFactoryName(gateway.factory_id)}
                       </TableCell>
                       <TableCell>{gateway.gateway_id}</TableCell>
-                      <TableCell>{gateway.name}</TableCell>
-                      <TableCell className="font-mono text-xs">
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="text-left hover:underline"
+                          onClick={() => setSelectedGatewayId(gateway.id)}
+                        >
+                          {gateway.name}
+                        </button>
+                      </TableCell>
+                      <TableCell>
+                        <GatewayConnectionBadge state={gateway.connection_state} />
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell whitespace-nowrap">
+                        {gateway.last_seen_at
+                          ? formatRelativeTime(gateway.last_seen_at)
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell">{gateway.sensor_count}</TableCell>
+                      <TableCell className="hidden xl:table-cell font-mono text-xs">
                         {gateway.url}
                       </TableCell>
-                      <TableCell className="hidden md:table-cell">{gateway.email}</TableCell>
+                      <TableCell className="hidden xl:table-cell">{gateway.email}</TableCell>
                       <TableCell className="hidden lg:table-cell">{gateway.model || '\u2014'}</TableCell>
                       <TableCell className="hidden lg:table-cell">{gateway.firmware_version || '\u2014'}</TableCell>
                       <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setEditingGateway(gateway)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setDeletingGateway(gateway)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        {can('engineer', { factoryId: gateway.factory_id }) && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingGateway(gateway)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletingGateway(gateway)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -289,6 +331,12 @@ export function GatewaysPage() {
         </CardContent>
       </Card>
 
+      {/* Detail drawer */}
+      <GatewayDetailSheet
+        gateway={selectedGateway}
+        onClose={() => setSelectedGatewayId(null)}
+      />
+
       {/* Create Dialog */}
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
         <DialogContent>
@@ -299,7 +347,7 @@ export function GatewaysPage() {
             </DialogDescription>
           </DialogHeader>
           <GatewayForm
-            factories={factoryData?.data || []}
+            factories={engineerFactories}
             mode="create"
             onSubmit={handleCreate}
             isSubmitting={createGateway.isPending}
@@ -323,6 +371,7 @@ export function GatewaysPage() {
           <GatewayForm
             factories={factoryData?.data || []}
             mode="edit"
+            gatewayId={editingGateway?.id}
             defaultValues={
               editingGateway
                 ? {
@@ -0,0 +1,51 @@
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom'
+import { toast } from 'sonner'
+import { useCurrentUser, useLogin } from '@/hooks/useAuth'
+import { getApiErrorMessage } from '@/lib/api'
+import { LoginForm, type LoginFormData } from '@/components/forms/LoginForm'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+export function LoginPage() {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { data: user } = useCurrentUser()
+  const login = useLogin()
+
+  // Page the user was sent here from (RequireAuth passes it in the location state)
+  const from = (location.state as { from?: Location } | null)?.from
+  const destination = from ? `${from.pathname}${from.search}` : '/'
+
+  async function handleLogin(formData: LoginFormData) {
+    try {
+      await login.mutateAsync(formData)
+      navigate(destination, { replace: true })
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Sign in failed'))
+    }
+  }
+
+  // Already signed in (e.g. opened /login directly)
+  if (user && !login.isPending) {
+    return <Navigate to={destination} replace />
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">MTI WiFi Monitor</CardTitle>
+          <CardDescription>Sign in to manage your gateways and sensors</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoginForm onSubmit={handleLogin} isSubmitting={login.isPending} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
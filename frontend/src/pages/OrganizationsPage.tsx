@@ -0,0 +1,378 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Pencil, Plus, Trash2, Loader2 } from 'lucide-react'
+import {
+  useOrganizations,
+  useOrganizationFactories,
+  useCreateOrganization,
+  useUpdateOrganization,
+  useDeleteOrganization,
+} from '@/hooks/useOrganizations'
+import { usePermissions } from '@/hooks/useAuth'
+import { getApiErrorMessage } from '@/lib/api'
+import {
+  OrganizationForm,
+  type OrganizationFormData,
+} from '@/components/forms/OrganizationForm'
+import type { Organization } from '@/types/api'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+// Factories of the selected organization
+function OrganizationFactories({ organization }: { organization: Organization }) {
+  const { data, isLoading, isError, error } = useOrganizationFactories(organization.id)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Factories of {organization.name}</CardTitle>
+        {data && (
+          <CardDescription>
+            {data.pagination.total} {data.pagination.total === 1 ? 'factory' : 'factories'}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading factories...
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-destructive">
+            {error?.message || 'An unknown error occurred'}
+          </p>
+        ) : !data || data.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No factories yet. Create one on the Factories page.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Timezone</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.data.map((factory) => (
+                  <TableRow key={factory.id}>
+                    <TableCell className="font-medium">{factory.name}</TableCell>
+                    <TableCell>{factory.location || '—'}</TableCell>
+                    <TableCell>{factory.timezone}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function OrganizationsPage() {
+  // UI state
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [selectedOrganization, setSelectedOrganization] = useState<Organization | null>(null)
+  const [editingOrganization, setEditingOrganization] = useState<Organization | null>(null)
+  const [deletingOrganization, setDeletingOrganization] = useState<Organization | null>(null)
+
+  // Data fetching
+  const { data, isLoading, isError, error } = useOrganizations()
+
+  // Only admins on every organization create them; organization admins manage their own
+  const { can } = usePermissions()
+  const canCreate = can('admin')
+
+  // Mutation hooks
+  const createOrganization = useCreateOrganization()
+  const updateOrganization = useUpdateOrganization()
+  const deleteOrganization = useDeleteOrganization()
+
+  // Handler functions
+  async function handleCreate(formData: OrganizationFormData) {
+    try {
+      await createOrganization.mutateAsync(formData)
+      toast.success('Organization created successfully')
+      setIsCreateDialogOpen(false)
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to create organization'))
+    }
+  }
+
+  async function handleUpdate(formData: OrganizationFormData) {
+    if (!editingOrganization) return
+    try {
+      const updated = await updateOrganization.mutateAsync({
+        id: editingOrganization.id,
+        data: formData,
+      })
+      toast.success('Organization updated successfully')
+      if (selectedOrganization?.id === updated.id) {
+        setSelectedOrganization(updated)
+      }
+      setEditingOrganization(null)
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to update organization'))
+    }
+  }
+
+  async function handleDelete() {
+    if (!deletingOrganization) return
+    try {
+      await deleteOrganization.mutateAsync(deletingOrganization.id)
+      toast.success('Organization deleted successfully')
+      if (selectedOrganization?.id === deletingOrganization.id) {
+        setSelectedOrganization(null)
+      }
+    } catch (err) {
+      // 409 ORGANIZATION_NOT_EMPTY explains which factories are in the way
+      toast.error(getApiErrorMessage(err, 'Failed to delete organization'))
+    }
+    setDeletingOrganization(null)
+  }
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Loading organizations...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error Loading Organizations</CardTitle>
+          <CardDescription>{error?.message || 'An unknown error occurred'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Safety check
+  if (!data) {
+    return null
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Organizations</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage the organizations that own your factories
+          </p>
+        </div>
+        {canCreate && (
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Organization
+          </Button>
+        )}
+      </div>
+
+      {/* Organization table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {data.pagination.total}{' '}
+            {data.pagination.total === 1 ? 'organization' : 'organizations'}
+          </CardTitle>
+          <CardDescription>Select an organization to list its factories.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="hidden md:table-cell">Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.data.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-8">
+                      <div className="flex flex-col items-center gap-2">
+                        <p className="text-muted-foreground">No organizations yet</p>
+                        {canCreate && (
+                          <>
+                            <p className="text-sm text-muted-foreground">
+                              Create an organization before adding factories.
+                            </p>
+                            <Button
+                              onClick={() => setIsCreateDialogOpen(true)}
+                              variant="outline"
+                              className="mt-2"
+                            >
+                              <Plus className="h-4 w-4 mr-2" />
+                              Add Organization
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data.data.map((organization) => (
+                    <TableRow
+                      key={organization.id}
+                      className={cn(
+                        'cursor-pointer',
+                        selectedOrganization?.id === organization.id && 'bg-muted'
+                      )}
+                      onClick={() => setSelectedOrganization(organization)}
+                    >
+                      <TableCell className="font-medium">{organization.name}</TableCell>
+                      <TableCell className="hidden md:table-cell">
+                        {new Date(organization.created_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {can('admin', { organizationId: organization.id }) && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setEditingOrganization(organization)
+                              }}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setDeletingOrganization(organization)
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Factories of the selected organization */}
+      {selectedOrganization && <OrganizationFactories organization={selectedOrganization} />}
+
+      {/* Create Dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Organization</DialogTitle>
+            <DialogDescription>Add a new organization to own factories.</DialogDescription>
+          </DialogHeader>
+          <OrganizationForm
+            onSubmit={handleCreate}
+            isSubmitting={createOrganization.isPending}
+            submitLabel="Create Organization"
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog
+        open={!!editingOrganization}
+        onOpenChange={(open) => !open && setEditingOrganization(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Organization</DialogTitle>
+            <DialogDescription>Update organization details.</DialogDescription>
+          </DialogHeader>
+          <OrganizationForm
+            defaultValues={
+              editingOrganization ? { name: editingOrganization.name } : undefined
+            }
+            onSubmit={handleUpdate}
+            isSubmitting={updateOrganization.isPending}
+            submitLabel="Save Changes"
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete AlertDialog */}
+      <AlertDialog
+        open={!!deletingOrganization}
+        onOpenChange={(open) => !open && setDeletingOrganization(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Organization</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deletingOrganization?.name}"? Organizations
+              that still have factories cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteOrganization.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteOrganization.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,579 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { useFactories } from '@/hooks/useFactories'
+import { useGateways } from '@/hooks/useGateways'
+import { useSensors } from '@/hooks/useSensors'
+import {
+  usePlantHierarchy,
+  useCreateArea,
+  useDeleteArea,
+  useCreateAsset,
+  useDeleteAsset,
+  useCreateMeasurementPoint,
+  useUpdateMeasurementPoint,
+  useDeleteMeasurementPoint,
+} from '@/hooks/usePlant'
+import { getApiErrorMessage } from '@/lib/api'
+import { AreaForm, type AreaFormData } from '@/components/forms/AreaForm'
+import { AssetForm, ASSET_TYPE_LABELS, type AssetFormData } from '@/components/forms/AssetForm'
+import {
+  MeasurementPointForm,
+  type MeasurementPointFormData,
+} from '@/components/forms/MeasurementPointForm'
+import type { HierarchyAsset, HierarchyPoint, Sensor } from '@/types/api'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+
+const selectClassName = cn(
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+  'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+  'disabled:cursor-not-allowed disabled:opacity-50'
+)
+
+const ORIENTATION_LABELS = {
+  horizontal: 'Horizontal',
+  vertical: 'Vertical',
+  axial: 'Axial',
+} as const
+
+const NODE_LABELS = {
+  area: 'Area',
+  asset: 'Asset',
+  point: 'Measurement Point',
+} as const
+
+type MountableSensor = Pick<Sensor, 'id' | 'serial' | 'name'>
+
+// Plant node pending deletion; the kind picks the mutation and the warning text
+interface DeletingNode {
+  kind: keyof typeof NODE_LABELS
+  id: string
+  name: string
+}
+
+interface AssetNodeProps {
+  asset: HierarchyAsset
+  mountableSensors: MountableSensor[]
+  isMounting: boolean
+  onAddPoint: (asset: HierarchyAsset) => void
+  onDelete: (node: DeletingNode) => void
+  onMount: (point: HierarchyPoint, sensorId: string | null) => void
+}
+
+// One asset with its measurement points and the sensor mounted on each
+function AssetNode({
+  asset,
+  mountableSensors,
+  isMounting,
+  onAddPoint,
+  onDelete,
+  onMount,
+}: AssetNodeProps) {
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{asset.name}</span>
+          {asset.asset_type && (
+            <Badge variant="outline">{ASSET_TYPE_LABELS[asset.asset_type]}</Badge>
+          )}
+          {asset.machine_class && (
+            <Badge variant="outline">Class {asset.machine_class}</Badge>
+          )}
+          {asset.open_alarms > 0 && (
+            <Badge variant="destructive">
+              {asset.open_alarms} open {asset.open_alarms === 1 ? 'alarm' : 'alarms'}
+            </Badge>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onAddPoint(asset)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Point
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onDelete({ kind: 'asset', id: asset.id, name: asset.name })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {asset.points.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No measurement points yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Point</TableHead>
+                <TableHead className="hidden md:table-cell">Orientation</TableHead>
+                <TableHead>Sensor</TableHead>
+                <TableHead>Mount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {asset.points.map((point) => (
+                <TableRow key={point.id}>
+                  <TableCell className="font-medium">{point.name}</TableCell>
+                  <TableCell className="hidden md:table-cell">
+                    {point.orientation ? ORIENTATION_LABELS[point.orientation] : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {point.sensor ? (
+                      <div className="flex items-center gap-2">
+                        <Link
+                          to={`/sensors/${point.sensor.id}`}
+                          className="font-mono hover:underline"
+                        >
+                          {point.sensor.serial}
+                        </Link>
+                        <Badge variant={point.sensor.connected ? 'default' : 'secondary'}>
+                          {point.sensor.connected ? 'Connected' : 'Disconnected'}
+                        </Badge>
+                      </div>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <select
+                      aria-label={`Sensor mounted on ${point.name}`}
+                      className={cn(selectClassName, 'min-w-[140px]')}
+                      value={point.sensor?.id ?? ''}
+                      disabled={isMounting}
+                      onChange={(e) => onMount(point, e.target.value || null)}
+                    >
+                      <option value="">None</option>
+                      {point.sensor && (
+                        <option value={point.sensor.id}>{point.sensor.serial}</option>
+                      )}
+                      {mountableSensors.map((sensor) => (
+                        <option key={sensor.id} value={sensor.id}>
+                          {sensor.serial}
+                          {sensor.name ? ` - ${sensor.name}` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete({ kind: 'point', id: point.id, name: point.name })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function PlantPage() {
+  // UI state
+  const [selectedFactoryId, setSelectedFactoryId] = useState('')
+  const [isCreateAreaOpen, setIsCreateAreaOpen] = useState(false)
+  // undefined: dialog closed; null: asset outside any area
+  const [assetAreaId, setAssetAreaId] = useState<string | null | undefined>(undefined)
+  const [pointAsset, setPointAsset] = useState<HierarchyAsset | null>(null)
+  const [deletingNode, setDeletingNode] = useState<DeletingNode | null>(null)
+
+  // Data fetching
+  const { data: factoryData, isLoading: isLoadingFactories } = useFactories()
+  const factories = factoryData?.data ?? []
+  const factoryId = selectedFactoryId || factories[0]?.id || ''
+  const { data: hierarchy, isLoading, isError, error } = usePlantHierarchy(factoryId)
+  const { data: gatewayData } = useGateways()
+  const { data: sensorData } = useSensors({ limit: 100 })
+
+  // Mutation hooks
+  const createArea = useCreateArea()
+  const deleteArea = useDeleteArea()
+  const createAsset = useCreateAsset()
+  const deleteAsset = useDeleteAsset()
+  const createPoint = useCreateMeasurementPoint()
+  const updatePoint = useUpdateMeasurementPoint()
+  const deletePoint = useDeleteMeasurementPoint()
+
+  // Sensors on this factory's gateways that are not mounted on any point yet
+  const allAssets = hierarchy
+    ? [...hierarchy.areas.flatMap((area) => area.assets), ...hierarchy.unassigned_assets]
+    : []
+  const mountedSensorIds = new Set(
+    allAssets.flatMap((asset) => asset.points.map((point) => point.sensor?.id))
+  )
+  const factoryGatewayIds = new Set(
+    (gatewayData?.data ?? [])
+      .filter((gateway) => gateway.factory_id === factoryId)
+      .map((gateway) => gateway.id)
+  )
+  const mountableSensors = (sensorData?.data ?? [])
+    .filter((sensor) => factoryGatewayIds.has(sensor.gateway_id))
+    .filter((sensor) => !mountedSensorIds.has(sensor.id))
+    .sort((a, b) => a.serial - b.serial)
+
+  // Handler functions
+  async function handleCreateArea(formData: AreaFormData) {
+    try {
+      await createArea.mutateAsync({
+        factory_id: factoryId,
+        name: formData.name,
+        description: formData.description || null,
+      })
+      toast.success('Area created successfully')
+      setIsCreateAreaOpen(false)
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to create area'))
+    }
+  }
+
+  async function handleCreateAsset(formData: AssetFormData) {
+    try {
+      await createAsset.mutateAsync({
+        factory_id: factoryId,
+        area_id: assetAreaId ?? null,
+        name: formData.name,
+        asset_type: formData.asset_type || null,
+        machine_class: formData.machine_class || null,
+      })
+      toast.success('Asset created successfully')
+      setAssetAreaId(undefined)
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to create asset'))
+    }
+  }
+
+  async function handleCreatePoint(formData: MeasurementPointFormData) {
+    if (!pointAsset) return
+    try {
+      await createPoint.mutateAsync({
+        asset_id: pointAsset.id,
+        name: formData.name,
+        orientation: formData.orientation || null,
+        sensor_id: formData.sensor_id || null,
+      })
+      toast.success('Measurement point created successfully')
+      setPointAsset(null)
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to create measurement point'))
+    }
+  }
+
+  async function handleMount(point: HierarchyPoint, sensorId: string | null) {
+    try {
+      await updatePoint.mutateAsync({ id: point.id, data: { sensor_id: sensorId } })
+      toast.success(sensorId ? 'Sensor mounted' : 'Sensor unmounted')
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Failed to update measurement point'))
+    }
+  }
+
+  async function handleDelete() {
+    if (!deletingNode) return
+    const mutation = { area: deleteArea, asset: deleteAsset, point: deletePoint }[deletingNode.kind]
+    try {
+      await mutation.mutateAsync(deletingNode.id)
+      toast.success(`Deleted "${deletingNode.name}"`)
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, `Failed to delete "${deletingNode.name}"`))
+    }
+    setDeletingNode(null)
+  }
+
+  const isDeleting = deleteArea.isPending || deleteAsset.isPending || deletePoint.isPending
+
+  function renderAssets(assets: HierarchyAsset[], emptyMessage: string) {
+    if (assets.length === 0) {
+      return <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+    }
+    return (
+      <div className="space-y-4">
+        {assets.map((asset) => (
+          <AssetNode
+            key={asset.id}
+            asset={asset}
+            mountableSensors={mountableSensors}
+            isMounting={updatePoint.isPending}
+            onAddPoint={setPointAsset}
+            onDelete={setDeletingNode}
+            onMount={handleMount}
+          />
+        ))}
+      </div>
+    )
+  }
+
+  // Loading state
+  if (isLoadingFactories || isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Loading plant...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error Loading Plant</CardTitle>
+          <CardDescription>{error?.message || 'An unknown error occurred'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // No factory to build a plant tree in
+  if (factories.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>No factories yet</CardTitle>
+          <CardDescription>
+            Create a factory first, then organize its areas, assets and measurement points here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <Link to="/factories">Go to Factories</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Safety check
+  if (!hierarchy) {
+    return null
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Plant</h1>
+          <p className="text-muted-foreground mt-1">
+            Areas, assets and the measurement points sensors are mounted on
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setAssetAreaId(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Asset
+          </Button>
+          <Button onClick={() => setIsCreateAreaOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Area
+          </Button>
+        </div>
+      </div>
+
+      {/* Factory selector */}
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-4">
+        <Label htmlFor="plant-factory">Factory:</Label>
+        <select
+          id="plant-factory"
+          className={cn(selectClassName, 'sm:w-[200px]')}
+          value={factoryId}
+          onChange={(e) => setSelectedFactoryId(e.target.value)}
+        >
+          {factories.map((factory) => (
+            <option key={factory.id} value={factory.id}>
+              {factory.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Areas */}
+      {hierarchy.areas.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">No areas yet</p>
+            <p className="text-sm text-muted-foreground">
+              Group assets into areas such as production lines or buildings.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+      {hierarchy.areas.map((area) => (
+        <Card key={area.id}>
+          <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <CardTitle>{area.name}</CardTitle>
+              <CardDescription>
+                {area.description ||
+                  `${area.assets.length} ${area.assets.length === 1 ? 'asset' : 'assets'}`}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setAssetAreaId(area.id)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Asset
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDeletingNode({ kind: 'area', id: area.id, name: area.name })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>{renderAssets(area.assets, 'No assets in this area yet')}</CardContent>
+        </Card>
+      ))}
+
+      {/* Assets outside any area */}
+      {hierarchy.unassigned_assets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Unassigned Assets</CardTitle>
+            <CardDescription>Assets not placed in an area</CardDescription>
+          </CardHeader>
+          <CardContent>{renderAssets(hierarchy.unassigned_assets, '')}</CardContent>
+        </Card>
+      )}
+
+      {/* Create Area Dialog */}
+      <Dialog open={isCreateAreaOpen} onOpenChange={setIsCreateAreaOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Area</DialogTitle>
+            <DialogDescription>Add a production area or line to this factory.</DialogDescription>
+          </DialogHeader>
+          <AreaForm
+            onSubmit={handleCreateArea}
+            isSubmitting={createArea.isPending}
+            submitLabel="Create Area"
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Create Asset Dialog */}
+      <Dialog
+        open={assetAreaId !== undefined}
+        onOpenChange={(open) => !open && setAssetAreaId(undefined)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Asset</DialogTitle>
+            <DialogDescription>
+              {assetAreaId
+                ? `Add a machine to ${hierarchy.areas.find((a) => a.id === assetAreaId)?.name}.`
+                : 'Add a machine that is not placed in an area.'}
+            </DialogDescription>
+          </DialogHeader>
+          <AssetForm
+            onSubmit={handleCreateAsset}
+            isSubmitting={createAsset.isPending}
+            submitLabel="Create Asset"
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Create Measurement Point Dialog */}
+      <Dialog open={!!pointAsset} onOpenChange={(open) => !open && setPointAsset(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Measurement Point</DialogTitle>
+            <DialogDescription>
+              Add a sensor location on {pointAsset?.name}. Readings from the mounted sensor are
+              attributed to this point.
+            </DialogDescription>
+          </DialogHeader>
+          <MeasurementPointForm
+            sensors={mountableSensors}
+            onSubmit={handleCreatePoint}
+            isSubmitting={createPoint.isPending}
+            submitLabel="Create Point"
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete AlertDialog */}
+      <AlertDialog
+        open={!!deletingNode}
+        onOpenChange={(open) => !open && setDeletingNode(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {deletingNode ? NODE_LABELS[deletingNode.kind] : ''}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deletingNode?.name}"?
+              {deletingNode?.kind === 'asset' &&
+                ' Its measurement points are deleted and their sensors unmounted.'}
+              {deletingNode?.kind === 'point' && ' Its sensor is unmounted.'}
+              {deletingNode?.kind === 'area' && ' Only empty areas can be deleted.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
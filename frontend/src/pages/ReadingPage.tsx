@@ -0,0 +1,281 @@
+import { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { useReading, useReadingSpectra, useReadingWaveform } from '@/hooks/useReadings'
+import { SignalChart, type ChartSeries } from '@/components/charts/SignalChart'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import type { Axis, SignalUnit, SpectrumWindow } from '@/types/api'
+
+const AXES: Axis[] = ['x', 'y', 'z']
+
+const AXIS_COLORS: Record<Axis, string> = {
+  x: '#2563eb',
+  y: '#16a34a',
+  z: '#ea580c',
+}
+
+const UNITS: SignalUnit[] = ['g', 'mm/s']
+
+// ISO 10816 zone badge styling: A/B acceptable, C restricted, D damage
+const ZONE_VARIANTS = {
+  A: 'default',
+  B: 'default',
+  C: 'secondary',
+  D: 'destructive',
+} as const
+
+export function ReadingPage() {
+  const { id = '' } = useParams()
+
+  // Viewer state
+  const [axes, setAxes] = useState<Axis[]>(['x', 'y', 'z'])
+  const [unit, setUnit] = useState<SignalUnit>('g')
+  const [spectrumWindow, setSpectrumWindow] = useState<SpectrumWindow>('hann')
+
+  // Data fetching
+  const { data: reading, isLoading, isError, error } = useReading(id)
+  const waveform = useReadingWaveform(id, unit)
+  const spectra = useReadingSpectra(id, axes, { unit, window: spectrumWindow })
+
+  function toggleAxis(axis: Axis) {
+    setAxes((current) =>
+      current.includes(axis)
+        ? current.filter((a) => a !== axis)
+        : AXES.filter((a) => a === axis || current.includes(a))
+    )
+  }
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Loading reading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error Loading Reading</CardTitle>
+          <CardDescription>{error?.message || 'An unknown error occurred'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <Link to="/sensors">Back to Sensors</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Safety check
+  if (!reading) {
+    return null
+  }
+
+  const waveformSeries: ChartSeries[] = waveform.data
+    ? axes.map((axis) => ({
+        key: axis,
+        label: axis.toUpperCase(),
+        color: AXIS_COLORS[axis],
+        values: waveform.data[axis],
+      }))
+    : []
+
+  const loadedSpectra = spectra.flatMap((query) => (query.data ? [query.data] : []))
+  const spectrumSeries: ChartSeries[] = loadedSpectra.map((spectrum) => ({
+    key: spectrum.axis,
+    label: spectrum.axis.toUpperCase(),
+    color: AXIS_COLORS[spectrum.axis],
+    values: spectrum.amplitudes,
+  }))
+  const spectrumLoading = spectra.some((query) => query.isLoading)
+  const spectrumError = spectra.find((query) => query.isError)?.error
+
+  const summary = [
+    { label: 'Recorded', value: new Date(reading.recorded_at).toLocaleString() },
+    { label: 'Sample rate', value: `${reading.sample_rate} Hz` },
+    { label: 'Samples', value: reading.sample_count.toLocaleString() },
+    {
+      label: 'Duration',
+      value: `${(reading.sample_count / reading.sample_rate).toFixed(3)} s`,
+    },
+    {
+      label: 'Temperature',
+      value: reading.temperature !== null ? `${reading.temperature.toFixed(1)} °C` : '\u2014',
+    },
+    {
+      label: 'Velocity RMS',
+      value: reading.velocity_rms !== null ? `${reading.velocity_rms.toFixed(2)} mm/s` : '\u2014',
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="space-y-2">
+        <Button asChild variant="ghost" size="sm" className="-ml-3">
+          <Link to="/sensors">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Sensors
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl md:text-3xl font-bold">Sensor {reading.sensor_serial}</h1>
+          {reading.iso_zone && (
+            <Badge variant={ZONE_VARIANTS[reading.iso_zone]}>
+              ISO 10816 zone {reading.iso_zone} (class {reading.machine_class})
+            </Badge>
+          )}
+        </div>
+        <p className="text-muted-foreground">Reading {reading.gateway_reading_id}</p>
+      </div>
+
+      {/* Reading summary */}
+      <Card>
+        <CardContent className="pt-6">
+          <dl className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6">
+            {summary.map((item) => (
+              <div key={item.label}>
+                <dt className="text-xs text-muted-foreground">{item.label}</dt>
+                <dd className="text-sm font-medium">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      {/* Viewer controls */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:flex-wrap sm:items-center sm:gap-6">
+        <div className="flex items-center gap-2">
+          <Label>Axes:</Label>
+          {AXES.map((axis) => (
+            <Button
+              key={axis}
+              variant={axes.includes(axis) ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => toggleAxis(axis)}
+              aria-pressed={axes.includes(axis)}
+            >
+              {axis.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label>Units:</Label>
+          {UNITS.map((option) => (
+            <Button
+              key={option}
+              variant={unit === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setUnit(option)}
+              aria-pressed={unit === option}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="spectrum-window">Window:</Label>
+          <select
+            id="spectrum-window"
+            className={cn(
+              'flex h-9 w-[140px] rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+              'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+            )}
+            value={spectrumWindow}
+            onChange={(e) => setSpectrumWindow(e.target.value as SpectrumWindow)}
+          >
+            <option value="hann">Hann</option>
+            <option value="flattop">Flat top</option>
+            <option value="rectangular">Rectangular</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Time waveform */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Time waveform</CardTitle>
+          <CardDescription>
+            {unit === 'g'
+              ? 'Acceleration as measured'
+              : 'Velocity integrated over the ISO 10816 band'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {waveform.isLoading ? (
+            <ChartPlaceholder message="Loading waveform..." loading />
+          ) : waveform.isError ? (
+            <ChartPlaceholder message={waveform.error?.message || 'Failed to load waveform'} />
+          ) : waveformSeries.length === 0 ? (
+            <ChartPlaceholder message="Select at least one axis" />
+          ) : (
+            <SignalChart
+              series={waveformSeries}
+              step={1 / reading.sample_rate}
+              xLabel="Time"
+              xUnit="s"
+              yUnit={unit}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Spectrum */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spectrum</CardTitle>
+          <CardDescription>
+            Peak amplitude per frequency bin
+            {loadedSpectra[0] && ` · ${loadedSpectra[0].resolution.toFixed(2)} Hz resolution`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {spectrumLoading ? (
+            <ChartPlaceholder message="Computing spectrum..." loading />
+          ) : spectrumError ? (
+            <ChartPlaceholder message={spectrumError.message || 'Failed to load spectrum'} />
+          ) : spectrumSeries.length === 0 ? (
+            <ChartPlaceholder message="Select at least one axis" />
+          ) : (
+            <SignalChart
+              series={spectrumSeries}
+              step={loadedSpectra[0].resolution}
+              xLabel="Frequency"
+              xUnit="Hz"
+              yUnit={unit}
+              baseline="zero"
+              harmonics
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function ChartPlaceholder({ message, loading = false }: { message: string; loading?: boolean }) {
+  return (
+    <div className="flex items-center justify-center h-[280px] gap-2 text-sm text-muted-foreground">
+      {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+      {message}
+    </div>
+  )
+}
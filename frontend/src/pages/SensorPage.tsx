@@ -0,0 +1,244 @@
+import { useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { useSensor, useSensorTrend } from '@/hooks/useSensors'
+import { TrendChart } from '@/components/charts/TrendChart'
+import { TakeReadingButton } from '@/components/sensors/TakeReadingButton'
+import { formatValue } from '@/components/charts/chart-utils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import type { Axis, TrendMetric } from '@/types/api'
+
+const HOUR = 60 * 60 * 1000
+
+const RANGES = [
+  { label: '24h', ms: 24 * HOUR },
+  { label: '7d', ms: 7 * 24 * HOUR },
+  { label: '30d', ms: 30 * 24 * HOUR },
+  { label: '90d', ms: 90 * 24 * HOUR },
+]
+
+const METRICS: Array<{ value: TrendMetric; label: string; unit: string }> = [
+  { value: 'velocity_rms', label: 'Velocity RMS', unit: 'mm/s' },
+  { value: 'rms', label: 'Acceleration RMS', unit: 'g' },
+  { value: 'peak', label: 'Peak', unit: 'g' },
+  { value: 'peak_to_peak', label: 'Peak to peak', unit: 'g' },
+  { value: 'crest_factor', label: 'Crest factor', unit: '' },
+  { value: 'kurtosis', label: 'Kurtosis', unit: '' },
+  { value: 'skewness', label: 'Skewness', unit: '' },
+  { value: 'temperature', label: 'Temperature', unit: '°C' },
+]
+
+// null trends the largest of the three axes, as alarm rules without an axis do
+const AXIS_OPTIONS: Array<{ value: Axis | null; label: string }> = [
+  { value: null, label: 'Max' },
+  { value: 'x', label: 'X' },
+  { value: 'y', label: 'Y' },
+  { value: 'z', label: 'Z' },
+]
+
+export function SensorPage() {
+  const { id = '' } = useParams()
+  const navigate = useNavigate()
+
+  // Trend state
+  const [metric, setMetric] = useState<TrendMetric>('velocity_rms')
+  const [axis, setAxis] = useState<Axis | null>(null)
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms)
+
+  // Data fetching (temperature is per reading, so the axis does not apply)
+  const { data: sensor, isLoading, isError, error } = useSensor(id)
+  const trend = useSensorTrend(id, {
+    metric,
+    axis: metric === 'temperature' ? null : axis,
+    rangeMs,
+  })
+
+  const metricOption = METRICS.find((m) => m.value === metric) ?? METRICS[0]
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Loading sensor...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error Loading Sensor</CardTitle>
+          <CardDescription>{error?.message || 'An unknown error occurred'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <Link to="/sensors">Back to Sensors</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Safety check
+  if (!sensor) {
+    return null
+  }
+
+  const latest = trend.data?.data[trend.data.data.length - 1]
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div className="space-y-2">
+        <Button asChild variant="ghost" size="sm" className="-ml-3">
+          <Link to="/sensors">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Sensors
+          </Link>
+        </Button>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-2xl md:text-3xl font-bold">
+                {sensor.name || `Sensor ${sensor.serial}`}
+              </h1>
+              <Badge variant={sensor.connected ? 'default' : 'secondary'}>
+                {sensor.connected ? 'Connected' : 'Disconnected'}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              Serial {sensor.serial}
+              {sensor.asset_name && ` · ${sensor.asset_name}`}
+            </p>
+          </div>
+          <TakeReadingButton sensor={sensor} />
+        </div>
+      </div>
+
+      {/* Trend controls */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:flex-wrap sm:items-center sm:gap-6">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="trend-metric">Metric:</Label>
+          <select
+            id="trend-metric"
+            className={cn(
+              'flex h-9 w-[180px] rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+              'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+            )}
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as TrendMetric)}
+          >
+            {METRICS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label>Axis:</Label>
+          {AXIS_OPTIONS.map((option) => (
+            <Button
+              key={option.label}
+              variant={axis === option.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setAxis(option.value)}
+              aria-pressed={axis === option.value}
+              disabled={metric === 'temperature'}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label>Range:</Label>
+          {RANGES.map((range) => (
+            <Button
+              key={range.label}
+              variant={rangeMs === range.ms ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setRangeMs(range.ms)}
+              aria-pressed={rangeMs === range.ms}
+            >
+              {range.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Trend chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{metricOption.label}</CardTitle>
+          <CardDescription>
+            {trend.data
+              ? `${trend.data.data.length} ${trend.data.data.length === 1 ? 'reading' : 'readings'}`
+              : 'One point per reading'}
+            {latest &&
+              ` · latest ${formatValue(latest.value)} ${metricOption.unit}`.trimEnd()}
+            {trend.data?.truncated && ' · showing the newest readings only'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {trend.isLoading ? (
+            <div className="flex items-center justify-center h-[320px] gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading trend...
+            </div>
+          ) : trend.isError ? (
+            <div className="flex items-center justify-center h-[320px] text-sm text-muted-foreground">
+              {trend.error?.message || 'Failed to load trend'}
+            </div>
+          ) : !trend.data || trend.data.data.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-[320px] gap-1 text-center">
+              <p className="text-muted-foreground">No readings in this range</p>
+              <p className="text-sm text-muted-foreground">
+                Take a reading or choose a longer range.
+              </p>
+            </div>
+          ) : (
+            <TrendChart
+              points={trend.data.data}
+              thresholds={trend.data.thresholds}
+              from={new Date(trend.data.from).getTime()}
+              to={new Date(trend.data.to).getTime()}
+              unit={metricOption.unit}
+              onPointClick={(point) => navigate(`/readings/${point.reading_id}`)}
+            />
+          )}
+
+          {/* Threshold legend */}
+          {trend.data && trend.data.thresholds.length > 0 && (
+            <ul className="mt-4 space-y-1 text-xs text-muted-foreground">
+              {trend.data.thresholds.map((threshold) => (
+                <li key={threshold.rule_id}>
+                  <span className="font-medium text-foreground">{threshold.name}</span>
+                  {': alert '}
+                  <span className="text-amber-600">{formatValue(threshold.alert_level)}</span>
+                  {', danger '}
+                  <span className="text-red-600">{formatValue(threshold.danger_level)}</span>
+                  {metricOption.unit && ` ${metricOption.unit}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Loader2 } from 'lucide-react'
+import { useSensors } from '@/hooks/useSensors'
+import { useGateways } from '@/hooks/useGateways'
+import { TakeReadingButton } from '@/components/sensors/TakeReadingButton'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+
+export function SensorsPage() {
+  // UI state
+  const [gatewayFilter, setGatewayFilter] = useState('')
+
+  // Data fetching
+  const sensorParams = gatewayFilter ? { gateway_id: gatewayFilter } : undefined
+  const { data: sensorData, isLoading, isError, error } = useSensors(sensorParams)
+  const { data: gatewayData } = useGateways()
+
+  // Gateway name lookup helper
+  const getGatewayName = (gateway_id: string): string => {
+    if (!gatewayData?.data) return gateway_id
+    const gateway = gatewayData.data.find(g => g.id === gateway_id)
+    return gateway?.name || gateway_id
+  }
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Loading sensors...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error Loading Sensors</CardTitle>
+          <CardDescription>{error?.message || 'An unknown error occurred'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Safety check
+  if (!sensorData) {
+    return null
+  }
+
+  // Sort gateways alphabetically by name for filter dropdown
+  const sortedGateways = gatewayData?.data
+    ? [...gatewayData.data].sort((a, b) => a.name.localeCompare(b.name))
+    : []
+
+  return (
+    <div className="space-y-6">
+      {/* Page header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold">Sensors</h1>
+        <p className="text-muted-foreground mt-1">
+          Sensors discovered on your gateways
+        </p>
+      </div>
+
+      {/* Gateway filter dropdown */}
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-4">
+        <Label htmlFor="gateway-filter">Filter by gateway:</Label>
+        <select
+          id="gateway-filter"
+          className={cn(
+            'flex h-9 w-full sm:w-[200px] rounded-md border border-input bg-background px-3 py-1 text-sm shadow-xs transition-colors',
+            'focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+            'disabled:cursor-not-allowed disabled:opacity-50'
+          )}
+          value={gatewayFilter}
+          onChange={(e) => setGatewayFilter(e.target.value)}
+        >
+          <option value="">All Gateways</option>
+          {sortedGateways.map((gateway) => (
+            <option key={gateway.id} value={gateway.id}>
+              {gateway.name}
+            </option>
+          ))}
+        </select>
+        {gatewayFilter && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setGatewayFilter('')}
+          >
+            Clear filter
+          </Button>
+        )}
+      </div>
+
+      {/* Sensor table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {sensorData.pagination.total}{' '}
+            {sensorData.pagination.total === 1 ? 'sensor' : 'sensors'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Serial</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="hidden md:table-cell">Asset</TableHead>
+                  <TableHead>Gateway</TableHead>
+                  <TableHead className="hidden lg:table-cell">Part Number</TableHead>
+                  <TableHead className="hidden lg:table-cell">Firmware</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sensorData.data.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <div className="flex flex-col items-center gap-2">
+                        <p className="text-muted-foreground">
+                          {gatewayFilter
+                            ? 'No sensors on this gateway'
+                            : 'No sensors yet'}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {gatewayFilter
+                            ? 'Try selecting a different gateway or clearing the filter.'
+                            : 'Sensors appear here once a connected gateway reports them.'}
+                        </p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sensorData.data.map((sensor) => (
+                    <TableRow key={sensor.id}>
+                      <TableCell className="font-medium font-mono">
+                        <Link to={`/sensors/${sensor.id}`} className="hover:underline">
+                          {sensor.serial}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{sensor.name || '\u2014'}</TableCell>
+                      <TableCell className="hidden md:table-cell">{sensor.asset_name || '\u2014'}</TableCell>
+                      <TableCell>{getGatewayName(sensor.gateway_id)}</TableCell>
+                      <TableCell className="hidden lg:table-cell">{sensor.part_number || '\u2014'}</TableCell>
+                      <TableCell className="hidden lg:table-cell">{sensor.firmware_version || '\u2014'}</TableCell>
+                      <TableCell>
+                        <Badge variant={sensor.connected ? 'default' : 'secondary'}>
+                          {sensor.connected ? 'Connected' : 'Disconnected'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <TakeReadingButton sensor={sensor} />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
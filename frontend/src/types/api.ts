@@ -4,6 +4,8 @@
  * These are manually maintained to match the Zod schemas in:
  * - backend/src/api/schemas/factories.ts
  * - backend/src/api/schemas/gateways.ts
+ * - backend/src/api/schemas/sensors.ts
+ * - backend/src/api/schemas/readings.ts
  * - backend/src/api/schemas/common.ts
  *
  * If backend schemas change, update these types to match.
@@ -23,6 +25,105 @@ export interface PaginatedResponse<T> {
   pagination: Pagination
 }
 
+// Account role, from least to most privileged (matches roleSchema)
+export type Role = 'viewer' | 'technician' | 'engineer' | 'admin'
+
+// Role on every organization (both scopes null), one organization or one factory
+export interface RoleAssignment {
+  role: Role
+  organization_id: string | null
+  factory_id: string | null
+}
+
+// User account (matches userResponseSchema - NO password fields)
+export interface User {
+  id: string
+  email: string
+  name: string | null
+  roles: RoleAssignment[]
+  last_login_at: string | null
+  metadata: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+// Signed-in user with effective roles by organization and factory ID
+// (matches currentUserResponseSchema; global applies wherever no entry is listed)
+export interface CurrentUser extends User {
+  access: {
+    global: Role | null
+    organizations: Record<string, Role>
+    factories: Record<string, Role>
+  }
+}
+
+// What an audited API call did (matches auditActionSchema)
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'acknowledge'
+  | 'clear'
+  | 'test_connection'
+  | 'login'
+  | 'logout'
+
+// Kind of entity an audited API call changed (matches auditEntityTypeSchema)
+export type AuditEntityType =
+  | 'organization'
+  | 'factory'
+  | 'gateway'
+  | 'sensor'
+  | 'acquisition_schedule'
+  | 'reading'
+  | 'area'
+  | 'asset'
+  | 'measurement_point'
+  | 'alarm_rule'
+  | 'alarm_event'
+  | 'user'
+
+// Audit log entry (matches auditEventResponseSchema; secrets are '[REDACTED]')
+export interface AuditEvent {
+  id: string
+  occurred_at: string
+  user_id: string | null
+  actor_email: string | null
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string | null
+  changes: Record<string, { before?: unknown; after?: unknown }>
+  request_id: string | null
+  ip_address: string | null
+}
+
+// Login input (matches loginSchema)
+export interface LoginInput {
+  email: string
+  password: string
+}
+
+// Organization (matches organizationResponseSchema)
+export interface Organization {
+  id: string
+  name: string
+  metadata: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+// Organization create input (matches createOrganizationSchema)
+export interface CreateOrganizationInput {
+  name: string
+  metadata?: Record<string, unknown>
+}
+
+// Organization update input (matches updateOrganizationSchema)
+export interface UpdateOrganizationInput {
+  name?: string
+  metadata?: Record<string, unknown>
+}
+
 // Factory (matches factoryResponseSchema)
 export interface Factory {
   id: string
@@ -63,11 +164,84 @@ export interface Gateway {
   model: string | null
   firmware_version: string | null
   last_seen_at: string | null
+  connection_state: ConnectionState | null // null when the gateway has no supervisor session
+  sensor_count: number
   metadata: Record<string, unknown>
   created_at: string
   updated_at: string
 }
 
+// Gateway connection health (matches gatewayStatusResponseSchema)
+export interface GatewayStatus {
+  gateway_id: string
+  state: ConnectionState
+  supervised: boolean
+  session_started_at: string | null
+  connected_since: string | null
+  uptime_seconds: number | null
+  reconnect_count: number
+  last_seen_at: string | null
+  last_heartbeat_at: string | null
+  last_error: { message: string; occurred_at: string } | null
+}
+
+export type GatewayConnectionEventType =
+  | 'state_change'
+  | 'heartbeat'
+  | 'auth_succeeded'
+  | 'auth_failed'
+  | 'error'
+
+// Gateway connection event (matches gatewayConnectionEventResponseSchema)
+export interface GatewayConnectionEvent {
+  id: string
+  occurred_at: string
+  event_type: GatewayConnectionEventType
+  state: ConnectionState | null
+  previous_state: ConnectionState | null
+  error: string | null
+}
+
+// Firmware version reported by a gateway (sensor fields null) or one of its sensors
+// (matches firmwareChangeResponseSchema)
+export interface FirmwareChange {
+  id: string
+  detected_at: string
+  gateway_id: string
+  sensor_id: string | null
+  sensor_serial: number | null
+  previous_version: string | null // null when first recorded
+  firmware_version: string
+  hardware_version: string | null
+}
+
+// Gateway connection test input: factory_id for unsaved gateways; fields left out of a
+// saved gateway's test fall back to the stored ones
+export interface TestGatewayConnectionInput {
+  factory_id?: string
+  url?: string
+  email?: string
+  password?: string
+}
+
+// Gateway connection test result (matches connectionTestResponseSchema)
+export interface GatewayConnectionTest {
+  success: boolean
+  failed_stage: 'connect' | 'authenticate' | 'discover' | null
+  error: string | null
+  duration_ms: number
+  latency_ms: number | null
+  user: {
+    email: string
+    first_name: string
+    last_name: string
+    access_level: number
+    verified: boolean
+  } | null
+  sensor_count: number | null
+  connected_sensor_count: number | null
+}
+
 // Gateway create input (matches createGatewaySchema)
 export interface CreateGatewayInput {
   factory_id: string
@@ -93,6 +267,261 @@ export interface UpdateGatewayInput {
   metadata?: Record<string, unknown>
 }
 
+// ISO 10816 machine class
+export type MachineClass = 'I' | 'II' | 'III' | 'IV'
+
+export type AssetType = 'motor' | 'pump' | 'gearbox' | 'fan' | 'compressor' | 'bearing' | 'other'
+
+export type PointOrientation = 'horizontal' | 'vertical' | 'axial'
+
+// Area of a factory (matches areaResponseSchema)
+export interface Area {
+  id: string
+  factory_id: string
+  name: string
+  description: string | null
+  metadata: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateAreaInput {
+  factory_id: string
+  name: string
+  description?: string | null
+}
+
+// Monitored machine (matches assetResponseSchema)
+export interface Asset {
+  id: string
+  factory_id: string
+  area_id: string | null
+  name: string
+  asset_type: AssetType | null
+  machine_class: MachineClass | null
+  metadata: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateAssetInput {
+  factory_id: string
+  area_id?: string | null
+  name: string
+  asset_type?: AssetType | null
+  machine_class?: MachineClass | null
+}
+
+// Location on an asset a sensor is mounted on (matches measurementPointResponseSchema)
+export interface MeasurementPoint {
+  id: string
+  asset_id: string
+  name: string
+  orientation: PointOrientation | null
+  sensor_id: string | null
+  metadata: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateMeasurementPointInput {
+  asset_id: string
+  name: string
+  orientation?: PointOrientation | null
+  sensor_id?: string | null
+}
+
+export interface UpdateMeasurementPointInput {
+  name?: string
+  orientation?: PointOrientation | null
+  sensor_id?: string | null // null unmounts the sensor
+}
+
+// Plant tree of a factory (matches hierarchyResponseSchema)
+export interface HierarchyPoint {
+  id: string
+  name: string
+  orientation: PointOrientation | null
+  sensor: { id: string; serial: number; name: string | null; connected: boolean } | null
+}
+
+export interface HierarchyAsset {
+  id: string
+  name: string
+  asset_type: AssetType | null
+  machine_class: MachineClass | null
+  open_alarms: number
+  points: HierarchyPoint[]
+}
+
+export interface HierarchyArea {
+  id: string
+  name: string
+  description: string | null
+  assets: HierarchyAsset[]
+}
+
+export interface PlantHierarchy {
+  factory_id: string
+  areas: HierarchyArea[]
+  unassigned_assets: HierarchyAsset[]
+}
+
+// Sensor (matches sensorResponseSchema)
+export interface Sensor {
+  id: string
+  gateway_id: string
+  serial: number
+  name: string | null
+  asset_id: string | null
+  asset_name: string | null
+  part_number: string | null
+  read_rate: number | null
+  samples: number | null
+  hardware_version: string | null
+  firmware_version: string | null
+  access_point: string | null
+  connected: boolean
+  last_discovered_at: string | null
+  metadata: Record<string, unknown>
+  created_at: string
+  updated_at: string
+}
+
+// Overall vibration metrics for one axis (matches axisMetricsSchema)
+export interface AxisMetrics {
+  rms: number
+  peak: number
+  peak_to_peak: number
+  crest_factor: number
+  kurtosis: number
+  skewness: number
+  velocity_rms: number | null
+}
+
+// Reading summary (matches readingResponseSchema - no waveform samples)
+export interface Reading {
+  id: string
+  gateway_id: string
+  sensor_serial: number
+  gateway_reading_id: number
+  recorded_at: string
+  sample_rate: number
+  sample_count: number
+  temperature: number | null
+  velocity_rms: number | null
+  machine_class: 'I' | 'II' | 'III' | 'IV' | null
+  iso_zone: 'A' | 'B' | 'C' | 'D' | null
+  asset_id: string | null // where the sensor was mounted when the reading was stored
+  measurement_point_id: string | null
+  metrics: { x: AxisMetrics; y: AxisMetrics; z: AxisMetrics } | null
+  created_at: string
+}
+
+// Signal units: acceleration as measured, or velocity over the ISO 10816 band
+export type SignalUnit = 'g' | 'mm/s'
+
+export type Axis = 'x' | 'y' | 'z'
+
+export type SpectrumWindow = 'rectangular' | 'hann' | 'flattop'
+
+// X/Y/Z time waveform (matches waveformResponseSchema)
+export interface Waveform {
+  reading_id: string
+  sample_rate: number
+  sample_count: number
+  unit: SignalUnit
+  x: number[]
+  y: number[]
+  z: number[]
+}
+
+// Amplitude spectrum of one axis (matches spectrumResponseSchema)
+export interface Spectrum {
+  reading_id: string
+  axis: Axis
+  window: SpectrumWindow
+  averages: number
+  zero_padding: number
+  sample_rate: number
+  sample_count: number
+  fft_size: number
+  resolution: number
+  unit: SignalUnit
+  amplitudes: number[]
+}
+
+// Trendable value of a reading: an axis metric or the reading temperature
+export type TrendMetric =
+  | 'rms'
+  | 'peak'
+  | 'peak_to_peak'
+  | 'crest_factor'
+  | 'kurtosis'
+  | 'skewness'
+  | 'velocity_rms'
+  | 'temperature'
+
+// One reading's value in a trend (matches trendPointSchema)
+export interface TrendPoint {
+  reading_id: string
+  recorded_at: string
+  value: number
+}
+
+// Levels of an alarm rule on the trended metric (matches trendThresholdSchema)
+export interface TrendThreshold {
+  rule_id: string
+  name: string
+  alert_level: number
+  danger_level: number
+}
+
+// Metric history of a sensor, oldest first (matches trendResponseSchema)
+export interface SensorTrend {
+  sensor_id: string
+  metric: TrendMetric
+  axis: Axis | null
+  from: string
+  to: string
+  truncated: boolean
+  data: TrendPoint[]
+  thresholds: TrendThreshold[]
+}
+
+// Gateway connection state (matches backend ConnectionState)
+export type ConnectionState =
+  | 'DISCONNECTED'
+  | 'CONNECTING'
+  | 'CONNECTED'
+  | 'AUTHENTICATED'
+  | 'CLOSING'
+  | 'CLOSED'
+
+// Event pushed over GET /api/stream (matches backend LiveEvent)
+export type LiveEvent = { gateway_id: string; factory_id: string } & (
+  | { type: 'gateway.state'; state: ConnectionState; previous: ConnectionState }
+  | { type: 'reading.started'; sensor_serial: number; success: boolean }
+  | {
+      type: 'reading.created'
+      reading_id: string
+      sensor_serial: number
+      recorded_at: string
+      velocity_rms: number | null
+      iso_zone: 'A' | 'B' | 'C' | 'D' | null
+    }
+  | { type: 'temperature'; sensor_serial: number; temperature: number; recorded_at: string }
+  | {
+      type: 'alarm.changed'
+      alarm_id: string
+      rule_id: string
+      sensor_id: string
+      sensor_serial: number
+      severity: 'alert' | 'danger'
+      action: 'raised' | 'escalated' | 'acknowledged' | 'cleared'
+    }
+)
+
 // API error response
 export interface ApiError {
   statusCode: number